@@ -0,0 +1,209 @@
+/**
+ * Synchronisation en arrière-plan de la file d'envoi des contributions.
+ *
+ * Les mots soumis hors ligne sont stockés par WordOutboxService dans la base
+ * IndexedDB `oypunu-outbox`. Lorsque la connexion revient, le navigateur
+ * déclenche l'événement `sync` et ce script rejoue les requêtes en attente.
+ */
+(function () {
+  var DB_NAME = 'oypunu-outbox';
+  var DB_VERSION = 1;
+  var STORE = 'submissions';
+  var SYNC_TAG = 'oypunu-word-outbox';
+  // Au-delà, un envoi "syncing" est considéré comme interrompu
+  // (même délai que WordOutboxService)
+  var STALE_CLAIM_DELAY = 2 * 60 * 1000;
+
+  function openDb() {
+    return new Promise(function (resolve, reject) {
+      var request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = function () {
+        var db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = function () {
+        resolve(request.result);
+      };
+      request.onerror = function () {
+        reject(request.error);
+      };
+    });
+  }
+
+  function complete(tx) {
+    return new Promise(function (resolve, reject) {
+      tx.oncomplete = function () {
+        resolve();
+      };
+      tx.onerror = tx.onabort = function () {
+        reject(tx.error);
+      };
+    });
+  }
+
+  // Réserve les entrées en attente dans une seule transaction pour éviter
+  // un double envoi si l'application rejoue la file au même moment.
+  // Les envois "syncing" abandonnés depuis plus de STALE_CLAIM_DELAY sont repris ;
+  // les entrées refusées pour jeton expiré restent à l'application.
+  function claimPending(db) {
+    var tx = db.transaction(STORE, 'readwrite');
+    var store = tx.objectStore(STORE);
+    var claimed = [];
+    var now = Date.now();
+    store.getAll().onsuccess = function (event) {
+      event.target.result
+        .filter(function (entry) {
+          if (entry.needsAuth) {
+            return false;
+          }
+          return (
+            entry.status === 'pending' ||
+            (entry.status === 'syncing' &&
+              (!entry.claimedAt ||
+                now - new Date(entry.claimedAt).getTime() > STALE_CLAIM_DELAY))
+          );
+        })
+        .forEach(function (entry) {
+          entry.status = 'syncing';
+          entry.claimedAt = new Date(now).toISOString();
+          store.put(entry);
+          claimed.push(entry);
+        });
+    };
+    return complete(tx).then(function () {
+      return claimed;
+    });
+  }
+
+  function update(db, entry, changes) {
+    var tx = db.transaction(STORE, 'readwrite');
+    var store = tx.objectStore(STORE);
+    if (changes === null) {
+      store.delete(entry.id);
+    } else {
+      store.put(Object.assign({}, entry, changes));
+    }
+    return complete(tx);
+  }
+
+  // Remet l'entrée en attente pour une prochaine synchronisation
+  function release(db, entry) {
+    return update(db, entry, { status: 'pending', claimedAt: undefined });
+  }
+
+  function buildBody(entry) {
+    if (entry.bodyType !== 'form-data') {
+      return JSON.stringify(entry.body);
+    }
+    var formData = new FormData();
+    entry.body.forEach(function (field) {
+      if (field.fileName !== undefined) {
+        formData.append(field.name, field.value, field.fileName);
+      } else {
+        formData.append(field.name, field.value);
+      }
+    });
+    return formData;
+  }
+
+  function send(db, entry) {
+    var headers = {};
+    if (entry.bodyType !== 'form-data') {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (entry.authToken) {
+      headers['Authorization'] = 'Bearer ' + entry.authToken;
+    }
+
+    return fetch(entry.url, {
+      method: 'POST',
+      headers: headers,
+      body: buildBody(entry),
+    })
+      .then(function (response) {
+        if (response.ok) {
+          return update(db, entry, null).then(function () {
+            return true;
+          });
+        }
+        // Jeton stocké expiré : l'application rejouera l'entrée avec le
+        // jeton courant, inutile de reprogrammer la synchronisation
+        if (response.status === 401) {
+          return update(db, entry, {
+            status: 'pending',
+            claimedAt: undefined,
+            needsAuth: true,
+          }).then(function () {
+            return true;
+          });
+        }
+        // Serveur indisponible : on réessaiera plus tard
+        if (response.status >= 500) {
+          return release(db, entry).then(function () {
+            return false;
+          });
+        }
+        return response
+          .json()
+          .catch(function () {
+            return {};
+          })
+          .then(function (payload) {
+            return update(db, entry, {
+              status: 'failed',
+              claimedAt: undefined,
+              error: payload.message || 'Erreur ' + response.status,
+            });
+          })
+          .then(function () {
+            return true;
+          });
+      })
+      .catch(function () {
+        return release(db, entry).then(function () {
+          return false;
+        });
+      });
+  }
+
+  function notifyClients() {
+    return self.clients
+      .matchAll({ includeUncontrolled: true })
+      .then(function (clients) {
+        clients.forEach(function (client) {
+          client.postMessage({ type: 'OUTBOX_UPDATED' });
+        });
+      });
+  }
+
+  function replayOutbox() {
+    return openDb().then(function (db) {
+      return claimPending(db)
+        .then(function (entries) {
+          return entries.reduce(function (chain, entry) {
+            return chain.then(function (allSent) {
+              return send(db, entry).then(function (sent) {
+                return allSent && sent;
+              });
+            });
+          }, Promise.resolve(true));
+        })
+        .then(function (allSent) {
+          return notifyClients().then(function () {
+            // Un échec réseau rejette la synchro : le navigateur la reprogramme
+            if (!allSent) {
+              throw new Error('Outbox replay incomplete');
+            }
+          });
+        });
+    });
+  }
+
+  self.addEventListener('sync', function (event) {
+    if (event.tag === SYNC_TAG) {
+      event.waitUntil(replayOutbox());
+    }
+  });
+})();
@@ -0,0 +1,3 @@
+// Point d'entrée du service worker :
+// worker Angular (cache de l'app shell) + synchronisation de la file d'envoi
+importScripts('./ngsw-worker.js', './outbox-sync.js');
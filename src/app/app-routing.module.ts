@@ -40,6 +40,13 @@ const routes: Routes = [
         (m) => m.FavoritesModule
       ),
   },
+  {
+    path: 'collections',
+    loadChildren: () =>
+      import('./features/collections/collections.module').then(
+        (m) => m.CollectionsModule
+      ),
+  },
   {
     path: 'messaging',
     canActivate: [AuthGuard],
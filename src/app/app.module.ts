@@ -1,14 +1,16 @@
-import { NgModule } from '@angular/core';
+import { NgModule, isDevMode } from '@angular/core';
 import { BrowserModule } from '@angular/platform-browser';
 import { LOCALE_ID } from '@angular/core';
 import { registerLocaleData } from '@angular/common';
 import localeFr from '@angular/common/locales/fr';
+import localeLn from '@angular/common/locales/ln';
 import {
   provideHttpClient,
   withFetch,
   withInterceptorsFromDi,
 } from '@angular/common/http';
 import { BrowserAnimationsModule } from '@angular/platform-browser/animations';
+import { ServiceWorkerModule } from '@angular/service-worker';
 
 import { AppRoutingModule } from './app-routing.module';
 import { AppComponent } from './app.component';
@@ -16,8 +18,10 @@ import { CoreModule } from './core/core.module';
 import { SharedModule } from './shared/shared.module';
 import { HomeModule } from './features/home/home.module';
 import { AuthModule } from './features/auth/auth.module';
+import { LocaleService } from './core/services/locale.service';
 
 registerLocaleData(localeFr);
+registerLocaleData(localeLn);
 
 @NgModule({
   declarations: [AppComponent],
@@ -29,10 +33,22 @@ registerLocaleData(localeFr);
     SharedModule,
     HomeModule,
     AuthModule,
+    // sw.js charge le worker Angular et la synchronisation de la file d'envoi
+    ServiceWorkerModule.register('sw.js', {
+      enabled: !isDevMode(),
+      registrationStrategy: 'registerWhenStable:30000',
+    }),
   ],
   providers: [
     provideHttpClient(withFetch(), withInterceptorsFromDi()),
-    { provide: LOCALE_ID, useValue: 'fr-FR' },
+    // Figé au démarrage : les templates utilisent localeDate/localeNumber,
+    // qui suivent la langue courante sans rechargement
+    {
+      provide: LOCALE_ID,
+      useFactory: (localeService: LocaleService) =>
+        localeService.currentLocale(),
+      deps: [LocaleService],
+    },
   ],
   bootstrap: [AppComponent],
 })
@@ -0,0 +1,133 @@
+import { LanguageAlphabet } from '../models/language-alphabet';
+
+// Diacritiques tonals (grave, aigu, circonflexe, macron, double aigu, caron,
+// double grave) : ils ne distinguent pas de lettre dans l'index.
+// Le tilde (ñ, ã) et le point souscrit (ẹ, ọ, ṣ) restent significatifs.
+const TONE_MARKS = /[\u0300\u0301\u0302\u0304\u030B\u030C\u030F]/g;
+const APOSTROPHES = /[\u2019\u02BC\u02BB`]/g;
+const LEADING_PUNCTUATION = /^[\s\-'"«»(\[]+/;
+
+const ETHIOPIC_START = 0x1200;
+const ETHIOPIC_END = 0x137f;
+
+/**
+ * Classe et trie les mots selon l'ordre alphabétique propre à une langue :
+ * digraphes (« Ng », « Ny »), lettres spéciales (« Ɛ », « Ɔ ») et voyelles
+ * tonales regroupées avec leur voyelle de base.
+ */
+export class AlphabetCollator {
+  readonly letters: string[];
+  readonly direction: 'ltr' | 'rtl';
+
+  private readonly _keys: string[];
+  // Indices des lettres, du motif le plus long au plus court
+  private readonly _matchOrder: number[];
+  private readonly _isSyllabic: boolean;
+  private readonly _baseCollator: Intl.Collator;
+  private readonly _variantCollator: Intl.Collator;
+
+  constructor(alphabet: LanguageAlphabet) {
+    this.letters = alphabet.letters;
+    this.direction = alphabet.direction ?? 'ltr';
+    this._isSyllabic = alphabet.script === 'Ethi';
+    this._keys = alphabet.letters.map((letter) => this._normalize(letter));
+    this._matchOrder = this._keys
+      .map((_, index) => index)
+      .sort((a, b) => this._keys[b].length - this._keys[a].length);
+
+    const locales = alphabet.collationLocale
+      ? [alphabet.collationLocale, 'fr']
+      : ['fr'];
+    this._baseCollator = new Intl.Collator(locales, { sensitivity: 'base' });
+    this._variantCollator = new Intl.Collator(locales, {
+      sensitivity: 'variant',
+    });
+  }
+
+  /**
+   * Lettre de l'alphabet par laquelle commence le mot, ou null si aucune
+   */
+  letterOf(word: string): string | null {
+    const index = this._tokenize(word, 1)[0];
+    return index !== undefined && index >= 0 ? this.letters[index] : null;
+  }
+
+  /**
+   * Comparateur utilisable avec Array.prototype.sort
+   */
+  compare = (a: string, b: string): number => {
+    const tokensA = this._tokenize(a);
+    const tokensB = this._tokenize(b);
+    const length = Math.min(tokensA.length, tokensB.length);
+
+    for (let i = 0; i < length; i++) {
+      if (tokensA[i] !== tokensB[i]) {
+        // Les caractères hors alphabet (-1) passent après les lettres connues
+        if (tokensA[i] < 0) return 1;
+        if (tokensB[i] < 0) return -1;
+        return tokensA[i] - tokensB[i];
+      }
+    }
+    if (tokensA.length !== tokensB.length) {
+      return tokensA.length - tokensB.length;
+    }
+
+    return (
+      this._baseCollator.compare(a, b) || this._variantCollator.compare(a, b)
+    );
+  };
+
+  // ─── Méthodes privées ─────────────────────────────────────────────────────
+
+  private _normalize(value: string): string {
+    return value
+      .normalize('NFD')
+      .replace(TONE_MARKS, '')
+      .replace(APOSTROPHES, "'")
+      .toLowerCase()
+      .normalize('NFC');
+  }
+
+  /**
+   * Découpe le mot en indices de lettres (plus long motif d'abord).
+   * Un caractère absent de l'alphabet donne -1.
+   */
+  private _tokenize(word: string, max = Infinity): number[] {
+    const normalized = this._normalize(word).replace(LEADING_PUNCTUATION, '');
+    const tokens: number[] = [];
+    let position = 0;
+
+    while (position < normalized.length && tokens.length < max) {
+      if (this._isSyllabic) {
+        const codePoint = normalized.codePointAt(position) ?? 0;
+        tokens.push(this._syllableFamilyIndex(codePoint));
+        position += codePoint > 0xffff ? 2 : 1;
+        continue;
+      }
+
+      const match = this._matchOrder.find((index) =>
+        normalized.startsWith(this._keys[index], position)
+      );
+      if (match !== undefined) {
+        tokens.push(match);
+        position += this._keys[match].length;
+      } else {
+        // Ignorer les espaces et tirets internes sans casser l'ordre
+        if (!/[\s\-']/.test(normalized[position])) tokens.push(-1);
+        position++;
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Écriture ge'ez : chaque syllabe appartient à une famille de 8 formes
+   * dont la première (ordre « ä ») est la lettre de l'alphabet.
+   */
+  private _syllableFamilyIndex(codePoint: number): number {
+    if (codePoint < ETHIOPIC_START || codePoint > ETHIOPIC_END) return -1;
+    const base = codePoint - ((codePoint - ETHIOPIC_START) % 8);
+    return this._keys.indexOf(String.fromCodePoint(base));
+  }
+}
@@ -0,0 +1,285 @@
+import { TranslationCatalog } from './fr';
+
+/**
+ * Catalogue anglais
+ */
+export const EN: TranslationCatalog = {
+  common: {
+    retry: 'Retry',
+    delete: 'Delete',
+    all: 'All',
+  },
+  header: {
+    dictionary: 'Dictionary',
+    community: 'Community',
+    search: 'Search',
+    favorites: 'Favorites',
+    messages: 'Messages',
+    login: 'Log in',
+    loginShort: 'Log in',
+    register: 'Sign up for free',
+    registerShort: 'Sign up',
+    myProfile: 'My profile',
+    notifications: 'Notifications',
+    logout: 'Log out',
+    switchToLight: 'Switch to light mode',
+    switchToDark: 'Switch to dark mode',
+    changeTheme: 'Change theme',
+    openMenu: 'Open main menu',
+    leaveFavorites: 'Leave favorites',
+  },
+  localeSwitcher: {
+    label: 'Interface language',
+  },
+  outbox: {
+    title: 'Outbox',
+    buttonLabel: 'Pending contributions',
+    syncNow: 'Sync now',
+    offline: 'Offline',
+    pending: 'Waiting for connection',
+    syncing: 'Sending…',
+    failed: 'Sending failed',
+    footer: 'Contributions are sent automatically once you are back online.',
+  },
+  guestLimits: {
+    wordLimitReached: 'Limit reached! You have viewed {max} words today.',
+    lastFreeWord: 'Last free lookup of the day!',
+    wordsRemaining: {
+      one: '{count} lookup left today',
+      other: '{count} lookups left today',
+    },
+    communityLimitReached:
+      'Limit reached! You have viewed {max} communities today.',
+    lastFreeCommunity: 'Last free community visit!',
+    communitiesRemaining: {
+      one: '{count} community visit left',
+      other: '{count} community visits left',
+    },
+  },
+  partsOfSpeech: {
+    noun: 'Noun',
+    verb: 'Verb',
+    adjective: 'Adjective',
+    adverb: 'Adverb',
+    pronoun: 'Pronoun',
+    preposition: 'Preposition',
+    conjunction: 'Conjunction',
+    interjection: 'Interjection',
+  },
+  favorites: {
+    sortPlaceholder: 'Sort by…',
+    sortDateDesc: 'Date added (newest first)',
+    sortDateAsc: 'Date added (oldest first)',
+    sortAlphaAsc: 'Alphabetical (A-Z)',
+    sortAlphaDesc: 'Alphabetical (Z-A)',
+    sortLanguage: 'Language',
+    allLanguages: 'All languages',
+    allTypes: 'All types',
+    count: {
+      one: '{count} favorite',
+      other: '{count} favorites',
+    },
+    resetFilters: 'Reset filters',
+    loading: 'Loading your favorites…',
+    loadError: 'An error occurred while loading your favorite words',
+    noMatch: 'No word matches your filters.',
+    emptyTitle: 'No favorites yet',
+    emptyHint: 'Add words to your favorites from the dictionary',
+    discover: 'Discover words',
+  },
+  study: {
+    start: 'Study',
+    title: 'Study',
+    loading: 'Preparing cards…',
+    back: 'Back to favorites',
+    backToList: 'Back to the list',
+    modes: {
+      all: 'All',
+      definition: 'Word → definition',
+      translation: 'Word → translation',
+      audio: 'Audio → word',
+    },
+    prompts: {
+      definition: 'What does this word mean?',
+      translation: 'How is this word translated?',
+      audio: 'Which word do you hear?',
+    },
+    listen: 'Listen',
+    showAnswer: 'Show answer',
+    keyboardHint: 'Space: flip the card · 1 to 4: grade',
+    grades: {
+      again: 'Again',
+      hard: 'Hard',
+      good: 'Good',
+      easy: 'Easy',
+    },
+    intervalMinutes: '{count} min',
+    intervalDays: '{count} d',
+    due: {
+      one: '{count} card due',
+      other: '{count} cards due',
+    },
+    new: {
+      one: '{count} new card',
+      other: '{count} new cards',
+    },
+    remaining: 'Remaining',
+    reviewed: 'Reviewed',
+    correct: 'Correct',
+    doneTitle: 'Session complete',
+    nothingDueTitle: 'Nothing to review right now',
+    nextReview: 'Next review {time}',
+    emptyDeck:
+      'No cards available: add favorites with a definition, a translation or audio.',
+    continue: 'Continue',
+  },
+  transfer: {
+    export: 'Export',
+    import: {
+      action: 'Import',
+      title: 'Import words',
+      target: 'Into {target}',
+      favorites: 'your favorites',
+      close: 'Close',
+      chooseFile: 'Choose a file',
+      fileTypes: 'CSV, JSON or Anki text deck (.txt)',
+      formatHelp:
+        "The first column (or the \"word\" column) holds the word; an optional \"language\" column sets its language. Files exported from O'Ypunu are recognized as is.",
+      matching: 'Looking up the words of "{file}" in the dictionary…',
+      importing: 'Adding words…',
+      truncated: {
+        one: 'Only the first {limit} lines are imported ({count} skipped).',
+        other: 'Only the first {limit} lines are imported ({count} skipped).',
+      },
+      unresolved: {
+        one: '{count} line has several results: pick the right word or it will be skipped.',
+        other: '{count} lines have several results: pick the right word or they will be skipped.',
+      },
+      takeFirst: 'Take the first one',
+      skipLine: 'Skip this line',
+      skipped: 'Skipped',
+      noCandidate: 'No similar word in the dictionary',
+      otherFile: 'Another file',
+      cancel: 'Cancel',
+      confirm: {
+        one: 'Import {count} word',
+        other: 'Import {count} words',
+      },
+      statuses: {
+        matched: 'Found',
+        ambiguous: 'Several results',
+        duplicate: 'Already there',
+        notFound: 'Not found',
+      },
+      emptyFile:
+        'No words found in this file. Accepted formats: CSV, JSON or Anki text deck.',
+      unreadableFile: 'This file could not be read',
+      incompleteTitle: 'Import incomplete',
+      incompleteMessage: '{added} added, {failed} failed',
+      doneTitle: 'Import complete',
+      doneMessage: {
+        one: '{count} word added to {target}',
+        other: '{count} words added to {target}',
+      },
+    },
+    formats: {
+      csv: 'CSV (spreadsheet)',
+      json: 'JSON',
+      anki: 'Anki deck',
+    },
+    formatHints: {
+      csv: 'Excel, LibreOffice, Google Sheets',
+      json: 'Full backup, can be re-imported',
+      anki: 'Text file to import into Anki',
+    },
+  },
+  toast: {
+    createdTitle: 'Created',
+    createdMessage: '{item} has been created',
+    updatedTitle: 'Updated',
+    updatedMessage: '{item} has been updated',
+    deletedTitle: 'Deleted',
+    deletedMessage: '{item} has been deleted',
+    networkErrorTitle: 'Connection error',
+    networkErrorMessage: 'Check your internet connection',
+    serverErrorTitle: 'Server error',
+    serverErrorMessage: 'Something went wrong, please try again',
+    loginSuccessTitle: 'Logged in',
+    loginSuccessWelcome: 'Welcome {username}!',
+    loginSuccessMessage: 'You are logged in',
+    logoutTitle: 'Logged out',
+    logoutMessage: 'See you soon!',
+    authRequiredTitle: 'Login required',
+    authRequiredMessage: 'You must be logged in to access this page',
+    formInvalidTitle: 'Invalid form',
+    formInvalidMessage: 'Please fix the errors in the form',
+  },
+  activity: {
+    defaultUsername: 'User',
+    genericAction: 'performed an action: {label}',
+    types: {
+      word_created: 'Word added',
+      translation_added: 'Translation added',
+      synonym_added: 'Synonyms added',
+      word_approved: 'Word approved',
+      word_verified: 'Translation verified',
+      community_post_created: 'Post created',
+      comment_added: 'Comment added',
+      user_registered: 'Sign-up',
+      user_logged_in: 'Login',
+      user_logged_out: 'Logout',
+      community_joined: 'Community joined',
+      community_created: 'Community created',
+      audio_added: 'Audio added',
+      audio_deleted: 'Audio deleted',
+      audio_bulk_updated: 'Audio files updated',
+      word_favorited: 'Added to favorites',
+      word_unfavorited: 'Removed from favorites',
+      vote_action: 'Vote',
+      word_updated: 'Word updated',
+      word_deleted: 'Word deleted',
+      achievement_unlocked: 'Achievement unlocked',
+      xp_gained: 'XP earned',
+      language_created: 'Language created',
+      category_created: 'Category created',
+    },
+    messages: {
+      wordCreated: 'added the word “{word}”',
+      wordCreatedGeneric: 'added a word',
+      translationAdded: 'translated “{word}” into {target}',
+      translationAddedGeneric: 'added a translation into {target}',
+      otherLanguage: 'another language',
+      audioAdded: 'added audio to “{word}”',
+      audioAddedGeneric: 'added audio',
+      audioDeleted: 'removed audio from “{word}”',
+      audioDeletedGeneric: 'removed audio',
+      wordFavorited: 'added “{word}” to favorites',
+      wordFavoritedGeneric: 'added a word to favorites',
+      wordUnfavorited: 'removed “{word}” from favorites',
+      wordUnfavoritedGeneric: 'removed a favorite',
+      voteLike: 'liked',
+      voteDislike: 'disliked',
+      voteHelpful: 'found helpful',
+      voteAccurate: 'validated',
+      voteOnWord: '{verb} “{word}”',
+      voteGeneric: '{verb} a post',
+      wordUpdated: 'updated “{word}”',
+      wordUpdatedGeneric: 'updated a word',
+      wordDeleted: 'deleted “{word}”',
+      wordDeletedGeneric: 'deleted a word',
+      achievementUnlocked: 'unlocked an achievement',
+      xpGained: 'earned XP',
+      userLoggedIn: 'logged in',
+      userLoggedOut: 'logged out',
+      userRegistered: 'signed up',
+      communityPost: 'posted “{title}”',
+      communityPostGeneric: 'posted in the community',
+      communityCreated: 'created the community “{name}”',
+      communityCreatedGeneric: 'created a community',
+      languageCreated: 'added the language “{name}”',
+      languageCreatedGeneric: 'added a language',
+      categoryCreated: 'created the category “{name}”',
+      categoryCreatedGeneric: 'created a category',
+    },
+  },
+};
@@ -0,0 +1,290 @@
+/**
+ * Catalogue français — catalogue de référence.
+ * Sa forme définit le type TranslationCatalog que les autres langues respectent.
+ * Les paramètres s'écrivent {nom} ; les clés plurielles utilisent one/other.
+ */
+export const FR = {
+  common: {
+    retry: 'Réessayer',
+    delete: 'Supprimer',
+    all: 'Toutes',
+  },
+  header: {
+    dictionary: 'Dictionnaire',
+    community: 'Communauté',
+    search: 'Recherche',
+    favorites: 'Favoris',
+    messages: 'Messages',
+    login: 'Se connecter',
+    loginShort: 'Connexion',
+    register: "S'inscrire gratuitement",
+    registerShort: "S'inscrire",
+    myProfile: 'Mon profil',
+    notifications: 'Notifications',
+    logout: 'Se déconnecter',
+    switchToLight: 'Passer en mode clair',
+    switchToDark: 'Passer en mode sombre',
+    changeTheme: 'Changer le thème',
+    openMenu: 'Ouvrir le menu principal',
+    leaveFavorites: 'Quitter les favoris',
+  },
+  localeSwitcher: {
+    label: "Langue de l'interface",
+  },
+  outbox: {
+    title: "File d'envoi",
+    buttonLabel: 'Contributions en attente',
+    syncNow: 'Synchroniser',
+    offline: 'Hors ligne',
+    pending: 'En attente de connexion',
+    syncing: 'Envoi en cours…',
+    failed: "Échec de l'envoi",
+    footer:
+      'Les contributions sont envoyées automatiquement au retour de la connexion.',
+  },
+  guestLimits: {
+    wordLimitReached:
+      "Limite atteinte ! Vous avez consulté {max} mots aujourd'hui.",
+    lastFreeWord: 'Dernière consultation gratuite de la journée !',
+    wordsRemaining: {
+      one: "{count} consultation restante aujourd'hui",
+      other: "{count} consultations restantes aujourd'hui",
+    },
+    communityLimitReached:
+      "Limite atteinte ! Vous avez consulté {max} communautés aujourd'hui.",
+    lastFreeCommunity: 'Dernière consultation de communauté gratuite !',
+    communitiesRemaining: {
+      one: '{count} consultation de communauté restante',
+      other: '{count} consultations de communautés restantes',
+    },
+  },
+  partsOfSpeech: {
+    noun: 'Nom',
+    verb: 'Verbe',
+    adjective: 'Adjectif',
+    adverb: 'Adverbe',
+    pronoun: 'Pronom',
+    preposition: 'Préposition',
+    conjunction: 'Conjonction',
+    interjection: 'Interjection',
+  },
+  favorites: {
+    sortPlaceholder: 'Trier par…',
+    sortDateDesc: "Date d'ajout (récent d'abord)",
+    sortDateAsc: "Date d'ajout (ancien d'abord)",
+    sortAlphaAsc: 'Ordre alphabétique (A-Z)',
+    sortAlphaDesc: 'Ordre alphabétique (Z-A)',
+    sortLanguage: 'Langue',
+    allLanguages: 'Toutes les langues',
+    allTypes: 'Tous les types',
+    count: {
+      one: '{count} favori',
+      other: '{count} favoris',
+    },
+    resetFilters: 'Réinitialiser les filtres',
+    loading: 'Chargement de vos favoris…',
+    loadError:
+      'Une erreur est survenue lors du chargement de vos mots favoris',
+    noMatch: 'Aucun mot ne correspond à vos filtres.',
+    emptyTitle: "Aucun favori pour l'instant",
+    emptyHint: 'Ajoutez des mots à vos favoris depuis le dictionnaire',
+    discover: 'Découvrir des mots',
+  },
+  study: {
+    start: 'Réviser',
+    title: 'Révision',
+    loading: 'Préparation des cartes…',
+    back: 'Retour aux favoris',
+    backToList: 'Retour à la liste',
+    modes: {
+      all: 'Tout',
+      definition: 'Mot → définition',
+      translation: 'Mot → traduction',
+      audio: 'Audio → mot',
+    },
+    prompts: {
+      definition: 'Que signifie ce mot ?',
+      translation: 'Comment se traduit ce mot ?',
+      audio: 'Quel mot entendez-vous ?',
+    },
+    listen: 'Écouter',
+    showAnswer: 'Afficher la réponse',
+    keyboardHint: 'Espace : retourner la carte · 1 à 4 : noter',
+    grades: {
+      again: 'À revoir',
+      hard: 'Difficile',
+      good: 'Correct',
+      easy: 'Facile',
+    },
+    intervalMinutes: '{count} min',
+    intervalDays: '{count} j',
+    due: {
+      one: '{count} carte à réviser',
+      other: '{count} cartes à réviser',
+    },
+    new: {
+      one: '{count} nouvelle carte',
+      other: '{count} nouvelles cartes',
+    },
+    remaining: 'Restantes',
+    reviewed: 'Révisées',
+    correct: 'Réussies',
+    doneTitle: 'Session terminée',
+    nothingDueTitle: 'Rien à réviser pour le moment',
+    nextReview: 'Prochaine révision {time}',
+    emptyDeck:
+      'Aucune carte disponible : ajoutez des favoris avec une définition, une traduction ou un audio.',
+    continue: 'Continuer',
+  },
+  transfer: {
+    export: 'Exporter',
+    import: {
+      action: 'Importer',
+      title: 'Importer des mots',
+      target: 'Vers {target}',
+      favorites: 'vos favoris',
+      close: 'Fermer',
+      chooseFile: 'Choisir un fichier',
+      fileTypes: 'CSV, JSON ou paquet texte Anki (.txt)',
+      formatHelp:
+        "La première colonne (ou la colonne « word » / « mot ») contient le mot, une colonne « language » facultative précise sa langue. Les fichiers exportés depuis O'Ypunu sont reconnus tels quels.",
+      matching: 'Recherche des mots de « {file} » dans le dictionnaire…',
+      importing: 'Ajout des mots…',
+      truncated: {
+        one: 'Seules les {limit} premières lignes sont importées ({count} ignorée).',
+        other: 'Seules les {limit} premières lignes sont importées ({count} ignorées).',
+      },
+      unresolved: {
+        one: '{count} ligne à plusieurs résultats : choisissez le bon mot ou elle sera ignorée.',
+        other: '{count} lignes à plusieurs résultats : choisissez le bon mot ou elles seront ignorées.',
+      },
+      takeFirst: 'Prendre le premier',
+      skipLine: 'Ignorer cette ligne',
+      skipped: 'Ignoré',
+      noCandidate: 'Aucun mot proche dans le dictionnaire',
+      otherFile: 'Autre fichier',
+      cancel: 'Annuler',
+      confirm: {
+        one: 'Importer {count} mot',
+        other: 'Importer {count} mots',
+      },
+      statuses: {
+        matched: 'Trouvé',
+        ambiguous: 'Plusieurs résultats',
+        duplicate: 'Déjà présent',
+        notFound: 'Introuvable',
+      },
+      emptyFile:
+        'Aucun mot trouvé dans ce fichier. Formats acceptés : CSV, JSON ou paquet texte Anki.',
+      unreadableFile: 'Impossible de lire ce fichier',
+      incompleteTitle: 'Import incomplet',
+      incompleteMessage: '{added} ajouté(s), {failed} échec(s)',
+      doneTitle: 'Import terminé',
+      doneMessage: {
+        one: '{count} mot ajouté à {target}',
+        other: '{count} mots ajoutés à {target}',
+      },
+    },
+    formats: {
+      csv: 'CSV (tableur)',
+      json: 'JSON',
+      anki: 'Paquet Anki',
+    },
+    formatHints: {
+      csv: 'Excel, LibreOffice, Google Sheets',
+      json: 'Sauvegarde complète, réimportable',
+      anki: 'Fichier texte à importer dans Anki',
+    },
+  },
+  toast: {
+    createdTitle: 'Créé avec succès',
+    createdMessage: '{item} a été créé',
+    updatedTitle: 'Mis à jour',
+    updatedMessage: '{item} a été modifié',
+    deletedTitle: 'Supprimé',
+    deletedMessage: '{item} a été supprimé',
+    networkErrorTitle: 'Erreur de connexion',
+    networkErrorMessage: 'Vérifiez votre connexion internet',
+    serverErrorTitle: 'Erreur serveur',
+    serverErrorMessage: 'Une erreur est survenue, veuillez réessayer',
+    loginSuccessTitle: 'Connexion réussie',
+    loginSuccessWelcome: 'Bienvenue {username} !',
+    loginSuccessMessage: 'Vous êtes connecté',
+    logoutTitle: 'Déconnexion',
+    logoutMessage: 'À bientôt !',
+    authRequiredTitle: 'Connexion requise',
+    authRequiredMessage: 'Vous devez être connecté pour accéder à cette page',
+    formInvalidTitle: 'Formulaire invalide',
+    formInvalidMessage: 'Veuillez corriger les erreurs dans le formulaire',
+  },
+  activity: {
+    defaultUsername: 'Utilisateur',
+    genericAction: 'a effectué une action: {label}',
+    types: {
+      word_created: 'Mot ajouté',
+      translation_added: 'Traduction ajoutée',
+      synonym_added: 'Synonymes ajoutés',
+      word_approved: 'Mot approuvé',
+      word_verified: 'Traduction vérifiée',
+      community_post_created: 'Publication créée',
+      comment_added: 'Commentaire ajouté',
+      user_registered: 'Inscription',
+      user_logged_in: 'Connexion',
+      user_logged_out: 'Déconnexion',
+      community_joined: 'Communauté rejointe',
+      community_created: 'Communauté créée',
+      audio_added: 'Audio ajouté',
+      audio_deleted: 'Audio supprimé',
+      audio_bulk_updated: 'Audios mis à jour',
+      word_favorited: 'Ajouté aux favoris',
+      word_unfavorited: 'Retiré des favoris',
+      vote_action: 'Vote',
+      word_updated: 'Mot mis à jour',
+      word_deleted: 'Mot supprimé',
+      achievement_unlocked: 'Succès débloqué',
+      xp_gained: 'XP gagné',
+      language_created: 'Langue créée',
+      category_created: 'Catégorie créée',
+    },
+    messages: {
+      wordCreated: 'a ajouté le mot « {word} »',
+      wordCreatedGeneric: 'a ajouté un mot',
+      translationAdded: 'a traduit « {word} » vers {target}',
+      translationAddedGeneric: 'a ajouté une traduction vers {target}',
+      otherLanguage: 'une autre langue',
+      audioAdded: 'a ajouté un audio à « {word} »',
+      audioAddedGeneric: 'a ajouté un audio',
+      audioDeleted: 'a supprimé un audio de « {word} »',
+      audioDeletedGeneric: 'a supprimé un audio',
+      wordFavorited: 'a ajouté « {word} » aux favoris',
+      wordFavoritedGeneric: 'a ajouté un mot aux favoris',
+      wordUnfavorited: 'a retiré « {word} » des favoris',
+      wordUnfavoritedGeneric: 'a retiré un favori',
+      voteLike: 'a aimé',
+      voteDislike: 'a désapprouvé',
+      voteHelpful: 'a jugé utile',
+      voteAccurate: 'a validé',
+      voteOnWord: '{verb} « {word} »',
+      voteGeneric: '{verb} un contenu',
+      wordUpdated: 'a mis à jour « {word} »',
+      wordUpdatedGeneric: 'a mis à jour un mot',
+      wordDeleted: 'a supprimé « {word} »',
+      wordDeletedGeneric: 'a supprimé un mot',
+      achievementUnlocked: 'a débloqué un succès',
+      xpGained: 'a gagné de l’XP',
+      userLoggedIn: "s'est connecté",
+      userLoggedOut: "s'est déconnecté",
+      userRegistered: "s'est inscrit",
+      communityPost: 'a posté « {title} »',
+      communityPostGeneric: 'a posté dans la communauté',
+      communityCreated: 'a créé la communauté « {name} »',
+      communityCreatedGeneric: 'a créé une communauté',
+      languageCreated: 'a ajouté la langue « {name} »',
+      languageCreatedGeneric: 'a ajouté une langue',
+      categoryCreated: 'a créé la catégorie « {name} »',
+      categoryCreatedGeneric: 'a créé une catégorie',
+    },
+  },
+};
+
+export type TranslationCatalog = typeof FR;
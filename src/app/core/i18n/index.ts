@@ -0,0 +1,13 @@
+import { AppLocale } from './locales';
+import { FR, TranslationCatalog } from './fr';
+import { EN } from './en';
+import { LN } from './ln';
+
+export * from './locales';
+export type { TranslationCatalog } from './fr';
+
+export const CATALOGS: Record<AppLocale, TranslationCatalog> = {
+  fr: FR,
+  en: EN,
+  ln: LN,
+};
@@ -0,0 +1,284 @@
+import { TranslationCatalog } from './fr';
+
+/**
+ * Catalogue lingala
+ */
+export const LN: TranslationCatalog = {
+  common: {
+    retry: 'Meka lisusu',
+    delete: 'Longola',
+    all: 'Nyonso',
+  },
+  header: {
+    dictionary: 'Búku ya maloba',
+    community: 'Lisangá',
+    search: 'Koluka',
+    favorites: 'Maloba nalingi',
+    messages: 'Bansango',
+    login: 'Kota',
+    loginShort: 'Kota',
+    register: 'Komikomisa ofele',
+    registerShort: 'Komikomisa',
+    myProfile: 'Profil na ngáí',
+    notifications: 'Bayébisi',
+    logout: 'Bima',
+    switchToLight: 'Tyá pole ya pɔ́ló',
+    switchToDark: 'Tyá pole ya molílí',
+    changeTheme: 'Bongola lolenge',
+    openMenu: 'Fungola menu',
+    leaveFavorites: 'Bima na maloba nalingi',
+  },
+  localeSwitcher: {
+    label: 'Lokóta ya interface',
+  },
+  outbox: {
+    title: 'Biloko bizali kozela',
+    buttonLabel: 'Makabo bazali kozela',
+    syncNow: 'Tinda sikoyo',
+    offline: 'Internet ezali te',
+    pending: 'Ezali kozela internet',
+    syncing: 'Ezali kotindama…',
+    failed: 'Kotinda elongi te',
+    footer: 'Makabo makotindama yango moko ntango internet ekozonga.',
+  },
+  guestLimits: {
+    wordLimitReached: 'Ndelo esili! Otángi maloba {max} lelo.',
+    lastFreeWord: 'Boluki ya nsuka ya ofele ya lelo!',
+    wordsRemaining: {
+      one: 'Boluki {count} etikali lelo',
+      other: 'Boluki {count} etikali lelo',
+    },
+    communityLimitReached: 'Ndelo esili! Otálí masangá {max} lelo.',
+    lastFreeCommunity: 'Botali ya nsuka ya lisangá ya ofele!',
+    communitiesRemaining: {
+      one: 'Botali {count} ya lisangá etikali',
+      other: 'Botali {count} ya masangá etikali',
+    },
+  },
+  partsOfSpeech: {
+    noun: 'Nkómbó',
+    verb: 'Likelelo',
+    adjective: 'Lobakisi',
+    adverb: 'Litémeli',
+    pronoun: 'Likitana',
+    preposition: 'Liyamboli',
+    conjunction: 'Likangisi',
+    interjection: 'Liyimbisi',
+  },
+  favorites: {
+    sortPlaceholder: 'Tya na molongo…',
+    sortDateDesc: 'Mokolo ya kobakisa (ya sika liboso)',
+    sortDateAsc: 'Mokolo ya kobakisa (ya kala liboso)',
+    sortAlphaAsc: 'Molongo ya alfabɛ (A-Z)',
+    sortAlphaDesc: 'Molongo ya alfabɛ (Z-A)',
+    sortLanguage: 'Lokóta',
+    allLanguages: 'Nkóta nyonso',
+    allTypes: 'Mitindo nyonso',
+    count: {
+      one: 'Liloba {count} olingi',
+      other: 'Maloba {count} olingi',
+    },
+    resetFilters: 'Longola ba filtre',
+    loading: 'Maloba olingi ezali kozwama…',
+    loadError: 'Likambo esalemi na ntango ya kozwa maloba olingi',
+    noMatch: 'Liloba moko te ekokani na ba filtre na yo.',
+    emptyTitle: 'Liloba olingi ezali naino te',
+    emptyHint: 'Bakisa maloba oyo olingi kowuta na búku ya maloba',
+    discover: 'Luka maloba',
+  },
+  study: {
+    start: 'Kotánga',
+    title: 'Kotánga lisusu',
+    loading: 'Ba káti ezali kobongisama…',
+    back: 'Zonga na maloba olingi',
+    backToList: 'Zonga na liste',
+    modes: {
+      all: 'Nyonso',
+      definition: 'Liloba → ndimbola',
+      translation: 'Liloba → libongoli',
+      audio: 'Mongongo → liloba',
+    },
+    prompts: {
+      definition: 'Liloba oyo elingi koloba nini ?',
+      translation: 'Liloba oyo ebongolamaka ndenge nini ?',
+      audio: 'Liloba nini ozali koyoka ?',
+    },
+    listen: 'Yoka',
+    showAnswer: 'Lakisa eyano',
+    keyboardHint: 'Espace : balola káti · 1 tii 4 : pesa note',
+    grades: {
+      again: 'Lisusu',
+      hard: 'Mpasi',
+      good: 'Malamu',
+      easy: 'Pɛpɛlɛ',
+    },
+    intervalMinutes: 'min {count}',
+    intervalDays: 'mikolo {count}',
+    due: {
+      one: 'Káti {count} ya kotánga',
+      other: 'Ba káti {count} ya kotánga',
+    },
+    new: {
+      one: 'Káti {count} ya sika',
+      other: 'Ba káti {count} ya sika',
+    },
+    remaining: 'Etikali',
+    reviewed: 'Etángami',
+    correct: 'Elongi',
+    doneTitle: 'Kotánga esilí',
+    nothingDueTitle: 'Eloko ya kotánga ezali te sikoyo',
+    nextReview: 'Kotánga oyo ekolanda {time}',
+    emptyDeck:
+      'Káti ezali te : bakisa maloba olingi oyo ezali na ndimbola, libongoli to mongongo.',
+    continue: 'Kokoba',
+  },
+  transfer: {
+    export: 'Kobimisa',
+    import: {
+      action: 'Kokɔtisa',
+      title: 'Kokɔtisa maloba',
+      target: 'Na {target}',
+      favorites: 'maloba olingi',
+      close: 'Kokanga',
+      chooseFile: 'Kopona fisyé',
+      fileTypes: 'CSV, JSON to paquet ya makomi Anki (.txt)',
+      formatHelp:
+        "Colonne ya liboso (to colonne « word » / « mot ») ezali na liloba ; colonne « language » ekoki kolakisa lokótá na yango. Ba fisyé oyo ebimisamaki na O'Ypunu endimami ndenge ezali.",
+      matching: 'Koluka maloba ya « {file} » na diksionɛ…',
+      importing: 'Kobakisa maloba…',
+      truncated: {
+        one: 'Kaka milɔngɔ {limit} ya liboso nde ekɔtisami ({count} etikali).',
+        other: 'Kaka milɔngɔ {limit} ya liboso nde ekɔtisami ({count} etikali).',
+      },
+      unresolved: {
+        one: 'Molɔngɔ {count} ezali na biyano mingi : pona liloba ya malamu to ekotikala.',
+        other: 'Milɔngɔ {count} ezali na biyano mingi : pona liloba ya malamu to ekotikala.',
+      },
+      takeFirst: 'Kozwa ya liboso',
+      skipLine: 'Kotika molɔngɔ oyo',
+      skipped: 'Etikali',
+      noCandidate: 'Liloba moko te ekokani na diksionɛ',
+      otherFile: 'Fisyé mosusu',
+      cancel: 'Kotika',
+      confirm: {
+        one: 'Kokɔtisa liloba {count}',
+        other: 'Kokɔtisa maloba {count}',
+      },
+      statuses: {
+        matched: 'Emonani',
+        ambiguous: 'Biyano mingi',
+        duplicate: 'Ezali kala',
+        notFound: 'Emonani te',
+      },
+      emptyFile:
+        'Liloba moko te na fisyé oyo. Ba formats endimami : CSV, JSON to paquet ya makomi Anki.',
+      unreadableFile: 'Tokoki kotánga fisyé oyo te',
+      incompleteTitle: 'Kokɔtisa esili malamu te',
+      incompleteMessage: '{added} ebakisami, {failed} elongi te',
+      doneTitle: 'Kokɔtisa esili',
+      doneMessage: {
+        one: 'Liloba {count} ebakisami na {target}',
+        other: 'Maloba {count} ebakisami na {target}',
+      },
+    },
+    formats: {
+      csv: 'CSV (tableur)',
+      json: 'JSON',
+      anki: 'Paquet Anki',
+    },
+    formatHints: {
+      csv: 'Excel, LibreOffice, Google Sheets',
+      json: 'Kobomba nyonso, ekoki kozongisama',
+      anki: 'Fisyé ya makomi mpo na Anki',
+    },
+  },
+  toast: {
+    createdTitle: 'Esalemi malamu',
+    createdMessage: '{item} esalemi',
+    updatedTitle: 'Ebongisami',
+    updatedMessage: '{item} ebongisami',
+    deletedTitle: 'Elongolami',
+    deletedMessage: '{item} elongolami',
+    networkErrorTitle: 'Likambo ya internet',
+    networkErrorMessage: 'Tala soki internet na yo ezali',
+    serverErrorTitle: 'Likambo ya serveur',
+    serverErrorMessage: 'Likambo esalemi, meka lisusu',
+    loginSuccessTitle: 'Okoti malamu',
+    loginSuccessWelcome: 'Boyei malamu {username}!',
+    loginSuccessMessage: 'Okoti',
+    logoutTitle: 'Obimi',
+    logoutMessage: 'Tokomonana!',
+    authRequiredTitle: 'Esengeli kokota',
+    authRequiredMessage: 'Esengeli kokota mpo na kofungola lokasa oyo',
+    formInvalidTitle: 'Formilɛ ezali malamu te',
+    formInvalidMessage: 'Bongisa mabunga na formilɛ',
+  },
+  activity: {
+    defaultUsername: 'Mosaleli',
+    genericAction: 'asali likambo: {label}',
+    types: {
+      word_created: 'Liloba ebakisami',
+      translation_added: 'Libongoli ebakisami',
+      synonym_added: 'Maloba ya ndimbola moko ebakisami',
+      word_approved: 'Liloba endimami',
+      word_verified: 'Libongoli etalami',
+      community_post_created: 'Lisakoli ebimisami',
+      comment_added: 'Likanisi ebakisami',
+      user_registered: 'Komikomisa',
+      user_logged_in: 'Kokota',
+      user_logged_out: 'Kobima',
+      community_joined: 'Akoti na lisangá',
+      community_created: 'Lisangá esalemi',
+      audio_added: 'Mongongo ebakisami',
+      audio_deleted: 'Mongongo elongolami',
+      audio_bulk_updated: 'Mingongo ebongisami',
+      word_favorited: 'Ebakisami na maloba nalingi',
+      word_unfavorited: 'Elongolami na maloba nalingi',
+      vote_action: 'Vote',
+      word_updated: 'Liloba ebongisami',
+      word_deleted: 'Liloba elongolami',
+      achievement_unlocked: 'Elónga efungwami',
+      xp_gained: 'XP ezwami',
+      language_created: 'Lokóta esalemi',
+      category_created: 'Molongo esalemi',
+    },
+    messages: {
+      wordCreated: 'abakisi liloba « {word} »',
+      wordCreatedGeneric: 'abakisi liloba',
+      translationAdded: 'abongoli « {word} » na {target}',
+      translationAddedGeneric: 'abakisi libongoli na {target}',
+      otherLanguage: 'lokóta mosusu',
+      audioAdded: 'abakisi mongongo na « {word} »',
+      audioAddedGeneric: 'abakisi mongongo',
+      audioDeleted: 'alongoli mongongo ya « {word} »',
+      audioDeletedGeneric: 'alongoli mongongo',
+      wordFavorited: 'abakisi « {word} » na maloba alingi',
+      wordFavoritedGeneric: 'abakisi liloba na maloba alingi',
+      wordUnfavorited: 'alongoli « {word} » na maloba alingi',
+      wordUnfavoritedGeneric: 'alongoli liloba alingi',
+      voteLike: 'alingi',
+      voteDislike: 'aboyi',
+      voteHelpful: 'amoni ete ezali na tina',
+      voteAccurate: 'andimi',
+      voteOnWord: '{verb} « {word} »',
+      voteGeneric: '{verb} likambo moko',
+      wordUpdated: 'abongisi « {word} »',
+      wordUpdatedGeneric: 'abongisi liloba',
+      wordDeleted: 'alongoli « {word} »',
+      wordDeletedGeneric: 'alongoli liloba',
+      achievementUnlocked: 'afungoli elónga',
+      xpGained: 'azwi XP',
+      userLoggedIn: 'akoti',
+      userLoggedOut: 'abimi',
+      userRegistered: 'amikomisi',
+      communityPost: 'atindi « {title} »',
+      communityPostGeneric: 'atindi likambo na lisangá',
+      communityCreated: 'asali lisangá « {name} »',
+      communityCreatedGeneric: 'asali lisangá',
+      languageCreated: 'abakisi lokóta « {name} »',
+      languageCreatedGeneric: 'abakisi lokóta',
+      categoryCreated: 'asali molongo « {name} »',
+      categoryCreatedGeneric: 'asali molongo',
+    },
+  },
+};
@@ -0,0 +1,19 @@
+/**
+ * Langues disponibles pour l'interface (distinctes des langues du dictionnaire)
+ */
+export type AppLocale = 'fr' | 'en' | 'ln';
+
+export interface LocaleOption {
+  code: AppLocale;
+  // Nom de la langue dans la langue elle-même
+  nativeName: string;
+  shortLabel: string;
+}
+
+export const DEFAULT_LOCALE: AppLocale = 'fr';
+
+export const SUPPORTED_LOCALES: LocaleOption[] = [
+  { code: 'fr', nativeName: 'Français', shortLabel: 'FR' },
+  { code: 'en', nativeName: 'English', shortLabel: 'EN' },
+  { code: 'ln', nativeName: 'Lingála', shortLabel: 'LN' },
+];
@@ -5,6 +5,7 @@ export interface Author {
   _id: string;
   username: string;
   profilePicture?: string;
+  reputation?: number;
 }
 
 export interface Post {
@@ -38,6 +39,16 @@ export interface Post {
   languages: string[]; // Langues concernées par le post
   targetWord?: string; // Mot principal du post
   difficulty: 'beginner' | 'intermediate' | 'advanced'; // Niveau de difficulté
+  mentionedWords?: string[]; // Mots cités avec [[mot]] dans le contenu Markdown
+
+  // Questions : réponse acceptée et prime de réputation
+  acceptedAnswerId?: string | null;
+  bounty?: PostBounty | null;
+
+  // Fermeture par vote des membres (status « locked » une fois le seuil atteint)
+  closeVotes?: number;
+  closeVotesRequired?: number;
+  userVotedToClose?: boolean;
 
   tags?: string[];
   createdAt: Date;
@@ -50,6 +61,29 @@ export interface Post {
   isLiked?: boolean; // Sera mappé à userVote === 'up'
 }
 
+// Modification d'une publication (auteur, ou privilège de réputation)
+export type PostUpdateData = Pick<PostFormData, 'title' | 'content' | 'mentionedWords'>;
+
+export interface CloseVoteResponse {
+  closeVotes: number;
+  closeVotesRequired: number;
+  status: Post['status'];
+}
+
+// Prime de réputation offerte par l'auteur d'une question
+export interface PostBounty {
+  amount: number;
+  status: 'active' | 'awarded' | 'expired';
+  expiresAt: Date;
+  awardedTo?: Author | null;
+  awardedAt?: Date | null;
+}
+
+export interface BountyOfferData {
+  amount: number;
+  durationDays: number;
+}
+
 export interface Comment {
   _id: string;
   content: string;
@@ -107,6 +141,7 @@ export interface PostFormData {
   tags: string[];
   targetWord?: string;
   difficulty?: 'beginner' | 'intermediate' | 'advanced';
+  mentionedWords?: string[];
 }
 
 export interface CommentFormData {
@@ -118,6 +153,7 @@ export interface CommentFormData {
     | 'translation'
     | 'general';
   parentCommentId?: string;
+  mentionedWords?: string[];
 }
 
 export interface PaginatedResponse<T> {
@@ -132,6 +168,15 @@ export interface PostsResponse extends PaginatedResponse<Post> {
   posts: Post[];
 }
 
+// Réponses d'un commentaire, chargées à la demande
+export interface CommentRepliesResponse {
+  comments: Comment[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
 export interface PostDetailResponse {
   post: Post;
   comments: Comment[];
@@ -159,6 +204,15 @@ export interface PostFilters {
   difficulty?: string;
   tags?: string[];
   timeRange?: 'day' | 'week' | 'month' | 'year' | 'all';
+  unanswered?: boolean; // Questions sans réponse acceptée
+}
+
+// Questions sans réponse, toutes communautés confondues
+export interface UnansweredQuestionsFilters {
+  languages?: string[];
+  matchMyLanguages?: boolean; // Langues maternelle et apprises de l'utilisateur
+  withBounty?: boolean;
+  sortBy?: 'newest' | 'oldest' | 'bounty' | 'score';
 }
 
 // Statistiques de communauté
@@ -181,5 +235,45 @@ export interface CommunityStats {
   }[];
 }
 
+// ===== TEMPS RÉEL (rooms socket des communautés et publications) =====
+
+// Nouveau score d'une publication ou d'un commentaire après un vote
+export interface CommunityVoteUpdate {
+  targetType: 'post' | 'comment';
+  targetId: string;
+  postId: string;
+  communityId: string;
+  score: number;
+  upvotes: number;
+  downvotes: number;
+}
+
+export interface CommunityPostCreatedEvent {
+  communityId: string;
+  post: Post;
+}
+
+export interface CommunityCommentAddedEvent {
+  postId: string;
+  comment: Comment;
+}
+
+export interface CommentTypingStatus {
+  postId: string;
+  parentCommentId: string | null; // null : commentaire de premier niveau
+  userId: string;
+  username: string;
+  isTyping: boolean;
+}
+
+export type CommunityLiveEvent =
+  | { type: 'post_created'; post: Post }
+  | { type: 'vote_updated'; vote: CommunityVoteUpdate };
+
+export type PostLiveEvent =
+  | { type: 'comment_added'; comment: Comment }
+  | { type: 'vote_updated'; vote: CommunityVoteUpdate }
+  | { type: 'typing'; typing: CommentTypingStatus };
+
 // Compatibilité (remplace LikeResponse)
 export interface LikeResponse extends VoteResponse {}
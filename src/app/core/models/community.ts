@@ -23,6 +23,7 @@ export interface Community {
   tags?: string[];
   isPrivate?: boolean;
   coverImage?: string;
+  chatChannelId?: string; // Conversation de groupe liée
   createdAt?: Date;
   updatedAt?: Date;
 }
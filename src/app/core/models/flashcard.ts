@@ -0,0 +1,60 @@
+import { Word } from './word';
+
+/**
+ * Sens de la carte : mot → définition, mot → traduction ou audio → mot
+ */
+export type FlashcardMode = 'definition' | 'translation' | 'audio';
+
+export const FLASHCARD_MODES: FlashcardMode[] = [
+  'definition',
+  'translation',
+  'audio',
+];
+
+// Nombre maximal de mots chargés pour constituer un paquet de révision
+export const STUDY_DECK_LIMIT = 500;
+
+/**
+ * Note donnée après chaque carte, sur l'échelle SM-2 (0 à 5) :
+ * à revoir (1), difficile (3), correct (4), facile (5)
+ */
+export type FlashcardGrade = 1 | 3 | 4 | 5;
+
+/**
+ * État de révision d'une carte, persisté par utilisateur
+ */
+export interface FlashcardReviewState {
+  cardId: string;
+  wordId: string;
+  mode: FlashcardMode;
+  // Facteur de facilité SM-2 (≥ 1,3)
+  easeFactor: number;
+  // Intervalle courant en jours (0 = réapprentissage dans la journée)
+  interval: number;
+  // Réponses correctes consécutives
+  repetitions: number;
+  lapses: number;
+  dueAt: string;
+  lastReviewedAt: string;
+}
+
+export interface Flashcard {
+  id: string;
+  mode: FlashcardMode;
+  word: Word;
+  // Recto : texte affiché, vide pour les cartes audio
+  prompt: string;
+  // Verso : une ou plusieurs réponses
+  answers: string[];
+  audioUrl?: string;
+  state?: FlashcardReviewState;
+}
+
+export interface StudyDeckSummary {
+  total: number;
+  // Cartes déjà étudiées dont la révision est due
+  due: number;
+  // Cartes jamais étudiées
+  new: number;
+  nextDueAt: Date | null;
+}
@@ -0,0 +1,48 @@
+/**
+ * Diacritique combinant proposé par le clavier virtuel
+ */
+export interface VirtualKeyboardMark {
+  mark: string;
+  name: string;
+}
+
+/**
+ * Disposition du clavier virtuel pour une langue : lettres spéciales
+ * (minuscules, la touche Maj donne les majuscules) et diacritiques combinants
+ */
+export interface VirtualKeyboardLayout {
+  characters: string[];
+  marks: VirtualKeyboardMark[];
+  direction: 'ltr' | 'rtl';
+}
+
+export const COMBINING_MARK_NAMES: Record<string, string> = {
+  '\u0301': 'Ton haut (aigu)',
+  '\u0300': 'Ton bas (grave)',
+  '\u0302': 'Ton descendant (circonflexe)',
+  '\u030C': 'Ton montant (caron)',
+  '\u0304': 'Ton moyen (macron)',
+  '\u0303': 'Nasalisation (tilde)',
+  '\u0323': 'Point souscrit',
+  '\u0308': 'Tréma',
+  '\u064E': 'Fatha',
+  '\u064F': 'Damma',
+  '\u0650': 'Kasra',
+  '\u0652': 'Soukoun',
+  '\u0651': 'Chadda',
+};
+
+/**
+ * Disposition par défaut : lettres des principales langues africaines
+ * à écriture latine et tons courants
+ */
+export const DEFAULT_KEYBOARD_LAYOUT: VirtualKeyboardLayout = {
+  characters: [
+    'ɛ', 'ɔ', 'ŋ', 'ɓ', 'ɗ', 'ƙ', 'ƴ', 'ɖ', 'ƒ', 'ɣ', 'ʋ', 'ñ', 'ẹ', 'ọ', 'ṣ',
+    'ə', 'ɨ', 'ʉ',
+  ],
+  marks: ['\u0301', '\u0300', '\u0302', '\u030C', '\u0304', '\u0303'].map(
+    (mark) => ({ mark, name: COMBINING_MARK_NAMES[mark] })
+  ),
+  direction: 'ltr',
+};
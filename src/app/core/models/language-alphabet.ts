@@ -0,0 +1,178 @@
+/**
+ * Alphabet et règles de tri propres à une langue.
+ * Les lettres sont listées dans l'ordre de la langue, digraphes compris
+ * (ex. « Mb », « Ny »). Pour les écritures syllabiques (ge'ez), chaque
+ * lettre représente une famille de syllabes.
+ */
+export interface LanguageAlphabet {
+  letters: string[];
+  // Locale BCP 47 utilisée par Intl.Collator pour départager les mots
+  collationLocale?: string;
+  // Code d'écriture ISO 15924 (Latn, Ethi, Arab…)
+  script?: string;
+  direction?: 'ltr' | 'rtl';
+  // Règles de normalisation pour la recherche insensible aux tons
+  searchFolding?: SearchFoldingRules;
+  // Diacritiques combinants proposés par le clavier virtuel (tons, harakat…)
+  toneMarks?: string[];
+}
+
+/**
+ * Normalisation appliquée à la recherche : les lettres listées sont
+ * remplacées avant comparaison, les diacritiques sont retirés sauf ceux
+ * de `preserveMarks` (caractères combinants, ex. « \u0303 » pour le tilde)
+ */
+export interface SearchFoldingRules {
+  letters?: Record<string, string>;
+  preserveMarks?: string[];
+}
+
+export const LATIN_ALPHABET: LanguageAlphabet = {
+  letters: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split(''),
+  script: 'Latn',
+  direction: 'ltr',
+};
+
+/**
+ * Alphabets connus, indexés par code ISO 639.
+ * Utilisés quand l'API ne fournit pas d'alphabet pour la langue.
+ */
+export const BUILTIN_ALPHABETS: Record<string, LanguageAlphabet> = {
+  ln: {
+    letters: [
+      'A', 'B', 'D', 'E', 'Ɛ', 'F', 'G', 'Gb', 'H', 'I', 'K', 'L', 'M', 'Mb',
+      'Mp', 'N', 'Nd', 'Ng', 'Nk', 'Ns', 'Nt', 'Ny', 'Nz', 'O', 'Ɔ', 'P', 'R',
+      'S', 'T', 'U', 'V', 'W', 'Y', 'Z',
+    ],
+    collationLocale: 'ln',
+    script: 'Latn',
+    direction: 'ltr',
+    // Ton haut, descendant, montant
+    toneMarks: ['\u0301', '\u0302', '\u030C'],
+  },
+  sw: {
+    letters: [
+      'A', 'B', 'Ch', 'D', 'Dh', 'E', 'F', 'G', 'Gh', 'H', 'I', 'J', 'K', 'Kh',
+      'L', 'M', 'N', "Ng'", 'Ng', 'Ny', 'O', 'P', 'R', 'S', 'Sh', 'T', 'Th',
+      'U', 'V', 'W', 'Y', 'Z',
+    ],
+    collationLocale: 'sw',
+    script: 'Latn',
+    direction: 'ltr',
+  },
+  yo: {
+    letters: [
+      'A', 'B', 'D', 'E', 'Ẹ', 'F', 'G', 'Gb', 'H', 'I', 'J', 'K', 'L', 'M',
+      'N', 'O', 'Ọ', 'P', 'R', 'S', 'Ṣ', 'T', 'U', 'W', 'Y',
+    ],
+    collationLocale: 'yo',
+    script: 'Latn',
+    direction: 'ltr',
+    // Ton haut, ton bas, voyelle nasale
+    toneMarks: ['\u0301', '\u0300', '\u0303'],
+  },
+  ha: {
+    letters: [
+      'A', 'B', 'Ɓ', 'C', 'D', 'Ɗ', 'E', 'F', 'G', 'H', 'I', 'J', 'K', 'Ƙ',
+      'L', 'M', 'N', 'O', 'R', 'S', 'Sh', 'T', 'Ts', 'U', 'W', 'Y', 'Ƴ', 'Z',
+    ],
+    collationLocale: 'ha',
+    script: 'Latn',
+    direction: 'ltr',
+    // Ton bas, descendant et voyelle longue (notation pédagogique)
+    toneMarks: ['\u0300', '\u0302', '\u0304'],
+  },
+  ee: {
+    letters: [
+      'A', 'B', 'D', 'Ɖ', 'Dz', 'E', 'Ɛ', 'F', 'Ƒ', 'G', 'Gb', 'Ɣ', 'H', 'X',
+      'I', 'K', 'Kp', 'L', 'M', 'N', 'Ny', 'Ŋ', 'O', 'Ɔ', 'P', 'R', 'S', 'T',
+      'Ts', 'U', 'V', 'Ʋ', 'W', 'Y', 'Z',
+    ],
+    collationLocale: 'ee',
+    script: 'Latn',
+    direction: 'ltr',
+    // Ton haut, bas, montant et nasalisation
+    toneMarks: ['\u0301', '\u0300', '\u030C', '\u0303'],
+  },
+  wo: {
+    letters: [
+      'A', 'B', 'C', 'D', 'E', 'Ë', 'F', 'G', 'I', 'J', 'K', 'L', 'M', 'N',
+      'Ñ', 'Ŋ', 'O', 'P', 'Q', 'R', 'S', 'T', 'U', 'W', 'X', 'Y',
+    ],
+    collationLocale: 'wo',
+    script: 'Latn',
+    direction: 'ltr',
+  },
+  ff: {
+    letters: [
+      'A', 'B', 'Ɓ', 'C', 'D', 'Ɗ', 'E', 'F', 'G', 'H', 'I', 'J', 'K', 'L',
+      'M', 'Mb', 'N', 'Nd', 'Ng', 'Nj', 'Ñ', 'Ŋ', 'O', 'P', 'R', 'S', 'T',
+      'U', 'W', 'Y', 'Ƴ',
+    ],
+    collationLocale: 'ff',
+    script: 'Latn',
+    direction: 'ltr',
+  },
+  am: {
+    letters: [
+      'ሀ', 'ለ', 'ሐ', 'መ', 'ሠ', 'ረ', 'ሰ', 'ሸ', 'ቀ', 'በ', 'ቨ', 'ተ', 'ቸ', 'ኀ',
+      'ነ', 'ኘ', 'አ', 'ከ', 'ኸ', 'ወ', 'ዐ', 'ዘ', 'ዠ', 'የ', 'ደ', 'ጀ', 'ገ', 'ጠ',
+      'ጨ', 'ጰ', 'ጸ', 'ፀ', 'ፈ', 'ፐ',
+    ],
+    collationLocale: 'am',
+    script: 'Ethi',
+    direction: 'ltr',
+  },
+  ti: {
+    letters: [
+      'ሀ', 'ለ', 'ሐ', 'መ', 'ሠ', 'ረ', 'ሰ', 'ሸ', 'ቀ', 'ቐ', 'በ', 'ቨ', 'ተ', 'ቸ',
+      'ኀ', 'ነ', 'ኘ', 'አ', 'ከ', 'ኸ', 'ወ', 'ዐ', 'ዘ', 'ዠ', 'የ', 'ደ', 'ጀ', 'ገ',
+      'ጠ', 'ጨ', 'ጰ', 'ጸ', 'ፀ', 'ፈ', 'ፐ',
+    ],
+    collationLocale: 'ti',
+    script: 'Ethi',
+    direction: 'ltr',
+  },
+  ar: {
+    letters: [
+      'ا', 'ب', 'ت', 'ث', 'ج', 'ح', 'خ', 'د', 'ذ', 'ر', 'ز', 'س', 'ش', 'ص',
+      'ض', 'ط', 'ظ', 'ع', 'غ', 'ف', 'ق', 'ك', 'ل', 'م', 'ن', 'ه', 'و', 'ي',
+    ],
+    collationLocale: 'ar',
+    script: 'Arab',
+    direction: 'rtl',
+    // Fatha, damma, kasra, soukoun, chadda
+    toneMarks: ['\u064E', '\u064F', '\u0650', '\u0652', '\u0651'],
+    searchFolding: {
+      // Variantes d'alif, tā' marbūṭa et alif maqṣūra rarement saisies
+      letters: { 'أ': 'ا', 'إ': 'ا', 'آ': 'ا', 'ة': 'ه', 'ى': 'ي' },
+    },
+  },
+};
+
+// Codes ISO 639-2/3 renvoyant vers les alphabets ci-dessus
+export const ALPHABET_CODE_ALIASES: Record<string, string> = {
+  lin: 'ln',
+  swa: 'sw',
+  swh: 'sw',
+  yor: 'yo',
+  hau: 'ha',
+  ewe: 'ee',
+  wol: 'wo',
+  ful: 'ff',
+  fuf: 'ff',
+  fuv: 'ff',
+  amh: 'am',
+  tir: 'ti',
+  ara: 'ar',
+  arb: 'ar',
+};
+
+/**
+ * Alphabet connu pour un code ISO 639 (1, 2 ou 3), ou undefined
+ */
+export function findBuiltinAlphabet(code?: string | null): LanguageAlphabet | undefined {
+  if (!code) return undefined;
+  const key = code.toLowerCase();
+  return BUILTIN_ALPHABETS[ALPHABET_CODE_ALIASES[key] ?? key];
+}
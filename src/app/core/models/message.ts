@@ -11,13 +11,86 @@ export interface MessageReaction {
   username: string;
 }
 
+export type ConversationType = 'direct' | 'group';
+
+export type ConversationRole = 'admin' | 'member';
+
+/**
+ * Membre d'une conversation de groupe, avec son rôle et son accusé de lecture
+ */
+export interface ConversationMember {
+  userId: string;
+  role: ConversationRole;
+  joinedAt?: Date;
+  lastReadAt?: Date;
+}
+
+/**
+ * Correction proposée sur le message d'un partenaire d'échange linguistique,
+ * transportée dans `metadata.correction` d'un message de type 'correction'
+ */
+export interface MessageCorrection {
+  originalMessageId: string;
+  originalText: string;
+  correctedText: string;
+  explanation?: string;
+}
+
+/**
+ * Fiche d'un mot du dictionnaire figée au moment du partage,
+ * transportée dans `metadata.word` d'un message de type 'word_share'
+ */
+export interface SharedWord {
+  wordId: string;
+  word: string;
+  language: string;
+  pronunciation?: string;
+  audioUrl?: string;
+  partOfSpeech?: string;
+  definition?: string;
+  translations?: { language: string; translatedWord: string }[];
+}
+
+/**
+ * Métadonnées d'un message de type 'audio'
+ */
+export interface VoiceMessageMetadata {
+  audioUrl: string;
+  audioDuration?: number;
+  // Amplitudes normalisées (0 à 1) calculées à partir de l'audio décodé
+  waveform?: number[];
+  transcription?: string;
+}
+
+/**
+ * Segment d'un diff mot à mot entre le texte original et le texte corrigé
+ */
+export interface TextDiffSegment {
+  type: 'equal' | 'removed' | 'added';
+  text: string;
+}
+
+/**
+ * Aperçu du message cité par une réponse, fourni par le serveur
+ */
+export interface MessageReplyPreview {
+  _id: string;
+  content: string;
+  messageType: Message['messageType'];
+  senderId: {
+    id: string;
+    username: string;
+  };
+  isDeleted?: boolean;
+}
+
 export interface Message {
   _id: string;
   conversationId: string;
   senderId: User;
-  receiverId: User;
+  receiverId?: User; // Absent dans les conversations de groupe
   content: string;
-  messageType: 'text' | 'word_share' | 'image' | 'audio' | 'video' | 'document';
+  messageType: 'text' | 'word_share' | 'correction' | 'image' | 'audio' | 'video' | 'document';
   metadata?: Record<string, any>;
   isRead: boolean;
   readAt?: Date;
@@ -27,17 +100,33 @@ export interface Message {
   editedAt?: Date;
   reactions?: MessageReaction[];
   mediaUrl?: string;
+  replyToId?: string; // Message auquel celui-ci répond
+  replyTo?: MessageReplyPreview | null;
+  clientMessageId?: string; // Renvoyé par le serveur pour rapprocher l'envoi de la file locale
+  deliveredAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
 export interface Conversation {
   _id: string;
+  type?: ConversationType; // 'direct' par défaut
+  title?: string;
+  avatarUrl?: string;
+  members?: ConversationMember[];
+  createdBy?: string;
+  communityId?: string; // Salon de discussion lié à une communauté
+  muted?: ConversationMute | null; // Notifications coupées pour l'utilisateur courant
+  // Rangement propre à l'utilisateur courant
+  pinnedAt?: string | null;
+  archivedAt?: string | null;
+  markedUnread?: boolean;
+  folderId?: string | null;
   participants: User[];
   lastMessage?: {
     _id: string;
     content: string;
-    messageType: 'text' | 'word_share' | 'image' | 'audio' | 'video' | 'document';
+    messageType: 'text' | 'word_share' | 'correction' | 'image' | 'audio' | 'video' | 'document';
     createdAt: Date;
     isRead: boolean;
     senderId: {
@@ -50,11 +139,92 @@ export interface Conversation {
   updatedAt: Date;
 }
 
+/**
+ * Mise en sourdine d'une conversation ; sans date de fin, jusqu'à réactivation
+ */
+export interface ConversationMute {
+  until: string | null;
+}
+
+/**
+ * Dossier personnel de conversations (ex. « Tuteurs », « Famille »)
+ */
+export interface ConversationFolder {
+  _id: string;
+  name: string;
+  createdAt: Date;
+}
+
+/**
+ * Modification du rangement d'une conversation ; folderId null la sort de son dossier
+ */
+export interface ConversationPreferencesRequest {
+  pinned?: boolean;
+  archived?: boolean;
+  markedUnread?: boolean;
+  folderId?: string | null;
+}
+
+export type ConversationPreferences = Pick<
+  Conversation,
+  'pinnedAt' | 'archivedAt' | 'markedUnread' | 'folderId'
+>;
+
 export interface SendMessageRequest {
-  receiverId: string;
+  // Destinataire d'un message direct, ou conversation de groupe
+  receiverId?: string;
+  conversationId?: string;
   content: string;
-  messageType?: 'text' | 'word_share';
+  messageType?: 'text' | 'word_share' | 'correction';
   metadata?: Record<string, any>;
+  replyToId?: string;
+  clientMessageId?: string;
+}
+
+/**
+ * Message texte programmé, envoyé par le serveur à l'heure prévue
+ */
+export interface ScheduledMessage {
+  _id: string;
+  conversationId: string;
+  content: string;
+  replyToId?: string;
+  scheduledAt: string; // ISO 8601 (UTC)
+  timeZone?: string; // Fuseau de l'auteur au moment de la programmation
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ScheduleMessageRequest extends SendMessageRequest {
+  scheduledAt: string;
+  timeZone?: string;
+}
+
+export interface UpdateScheduledMessageRequest {
+  content?: string;
+  scheduledAt?: string;
+  timeZone?: string;
+}
+
+/**
+ * Brouillon de la zone de saisie d'une conversation
+ */
+export interface MessageDraft {
+  content: string;
+  // Nom de l'image jointe : le fichier lui-même n'est gardé qu'en mémoire
+  attachmentName?: string;
+  updatedAt: string;
+}
+
+/**
+ * État d'envoi d'un message, de la file locale jusqu'à la lecture
+ */
+export type MessageDeliveryState = 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface CreateGroupRequest {
+  title: string;
+  participantIds: string[];
+  avatarUrl?: string;
 }
 
 export interface MessagesResponse {
@@ -63,3 +233,38 @@ export interface MessagesResponse {
   page: number;
   pages: number;
 }
+
+/**
+ * Recherche plein texte dans l'historique de toutes les conversations
+ */
+export interface MessageSearchParams {
+  query: string;
+  participantId?: string;
+  from?: string; // AAAA-MM-JJ inclus
+  to?: string; // AAAA-MM-JJ inclus
+  messageType?: Message['messageType'];
+  page?: number;
+  limit?: number;
+}
+
+export interface MessageSearchResult {
+  message: Message;
+  conversation: Conversation;
+}
+
+export interface MessageSearchResponse {
+  results: MessageSearchResult[];
+  total: number;
+  page: number;
+  pages: number;
+}
+
+/**
+ * Messages entourant un message donné, dans l'ordre chronologique
+ */
+export interface MessageContextResponse {
+  conversationId: string;
+  messages: Message[];
+  // Des messages plus récents existent après le dernier renvoyé
+  hasNewer: boolean;
+}
@@ -12,7 +12,10 @@ export type NotificationType =
   | 'pending_moderation'
   | 'new_message'
   | 'contributor_approved'
-  | 'contributor_rejected';
+  | 'contributor_rejected'
+  | 'question_language_match'
+  | 'bounty_awarded'
+  | 'bounty_expired';
 
 export interface AppNotification {
   _id: string;
@@ -0,0 +1,73 @@
+/**
+ * Réputation communautaire : registre des gains et pertes de points,
+ * et privilèges débloqués par palier. Le calcul fait foi côté serveur.
+ */
+export type ReputationEventType =
+  | 'post_upvoted'
+  | 'post_downvoted'
+  | 'comment_upvoted'
+  | 'comment_downvoted'
+  | 'answer_accepted' // Sa réponse a été acceptée
+  | 'accepted_answer' // A accepté une réponse à sa question
+  | 'word_approved'
+  | 'translation_approved'
+  | 'bounty_offered'
+  | 'bounty_awarded';
+
+export interface ReputationRule {
+  type: ReputationEventType;
+  label: string;
+  points: number | null; // null : montant variable (primes)
+}
+
+export const REPUTATION_RULES: ReputationRule[] = [
+  { type: 'post_upvoted', label: 'Vote positif sur une publication', points: 5 },
+  { type: 'comment_upvoted', label: 'Vote positif sur un commentaire', points: 5 },
+  { type: 'answer_accepted', label: 'Réponse acceptée', points: 15 },
+  { type: 'accepted_answer', label: 'Réponse acceptée à sa question', points: 2 },
+  { type: 'word_approved', label: 'Mot approuvé', points: 10 },
+  { type: 'translation_approved', label: 'Traduction approuvée', points: 5 },
+  { type: 'bounty_awarded', label: 'Prime remportée', points: null },
+  { type: 'post_downvoted', label: 'Vote négatif sur une publication', points: -2 },
+  { type: 'comment_downvoted', label: 'Vote négatif sur un commentaire', points: -2 },
+  { type: 'bounty_offered', label: 'Prime offerte', points: null },
+];
+
+export type PrivilegeKey = 'offer_bounty' | 'vote_close' | 'edit_posts';
+
+export interface Privilege {
+  key: PrivilegeKey;
+  label: string;
+  threshold: number;
+}
+
+// Par ordre croissant de palier
+export const PRIVILEGES: Privilege[] = [
+  { key: 'offer_bounty', label: 'Offrir une prime sur ses questions', threshold: 75 },
+  { key: 'vote_close', label: 'Voter pour fermer une question', threshold: 250 },
+  { key: 'edit_posts', label: 'Modifier les publications des autres membres', threshold: 1000 },
+];
+
+export interface ReputationEntry {
+  _id: string;
+  type: ReputationEventType;
+  points: number; // Négatif pour une perte
+  createdAt: string;
+  entityType?: 'post' | 'comment' | 'word' | 'translation';
+  entityId?: string;
+  label?: string; // Titre de la publication, mot concerné…
+  metadata?: Record<string, any>;
+}
+
+export interface ReputationSummary {
+  userId: string;
+  reputation: number;
+  breakdown: Partial<Record<ReputationEventType, number>>;
+}
+
+export interface ReputationHistoryPage {
+  entries: ReputationEntry[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
@@ -0,0 +1,59 @@
+/**
+ * Contenu riche des publications et commentaires de communauté :
+ * Markdown restreint, mentions de mots [[mot]], blocs API, gloses
+ * interlinéaires et extraits audio.
+ */
+export type RichBlockType =
+  | 'paragraph'
+  | 'heading'
+  | 'quote'
+  | 'list'
+  | 'code'
+  | 'ipa'
+  | 'gloss'
+  | 'audio';
+
+export type RichInlineType =
+  | 'text'
+  | 'strong'
+  | 'em'
+  | 'code'
+  | 'link'
+  | 'word'
+  | 'break';
+
+export interface RichInline {
+  type: RichInlineType;
+  text?: string; // text, code, word (le mot mentionné)
+  href?: string; // link
+  children?: RichInline[]; // strong, em, link
+}
+
+/**
+ * Colonne d'une glose interlinéaire : forme source et sa glose morphème par morphème
+ */
+export interface GlossColumn {
+  source: string;
+  gloss: string;
+}
+
+export interface RichBlock {
+  type: RichBlockType;
+  inlines?: RichInline[]; // paragraph, heading, quote
+  level?: 1 | 2 | 3; // heading
+  ordered?: boolean; // list
+  items?: RichInline[][]; // list
+  text?: string; // code, ipa
+  columns?: GlossColumn[]; // gloss
+  translation?: string; // gloss : traduction libre
+  url?: string; // audio
+  caption?: string; // audio
+}
+
+/**
+ * Mention [[mot]] en cours de saisie, avant le curseur
+ */
+export interface OpenWordMention {
+  start: number; // Position des crochets ouvrants
+  query: string;
+}
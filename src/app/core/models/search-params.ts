@@ -3,6 +3,25 @@ export interface SearchParams {
   languages?: string[];
   categories?: string[];
   partsOfSpeech?: string[];
+
+  // Critères issus de la syntaxe de recherche avancée (SearchQueryService)
+  excludeLanguages?: string[];
+  excludeCategories?: string[];
+  excludePartsOfSpeech?: string[];
+  statuses?: string[];
+  excludeStatuses?: string[];
+  phrases?: string[];
+  excludeTerms?: string[];
+  prefixes?: string[];
+  suffixes?: string[];
+  hasAudio?: boolean;
+  hasTranslation?: boolean;
+  translationLanguages?: string[];
+  excludeTranslationLanguages?: string[];
+
   page: number;
   limit: number;
+
+  // Recherche programmatique (import…) : ne pas l'ajouter à l'historique
+  skipHistory?: boolean;
 }
@@ -0,0 +1,46 @@
+import { SearchParams } from './search-params';
+
+export type SearchQueryFilterKey = 'lang' | 'pos' | 'cat' | 'status' | 'has';
+
+export type SearchQueryTokenKind =
+  | 'term'
+  | 'phrase'
+  | 'wildcard'
+  | 'filter'
+  | 'space'
+  | 'invalid';
+
+/**
+ * Segment de la requête saisie, utilisé pour la coloration syntaxique.
+ * La concaténation des `text` redonne exactement la saisie d'origine.
+ */
+export interface SearchQueryToken {
+  kind: SearchQueryTokenKind;
+  text: string;
+  negated: boolean;
+  key?: SearchQueryFilterKey;
+  value?: string;
+  error?: string;
+}
+
+/**
+ * Résultat de l'analyse d'une requête avancée
+ */
+export interface ParsedSearchQuery {
+  // Texte libre transmis au paramètre `query` de l'API
+  text: string;
+  // Critères structurés à fusionner dans SearchParams
+  criteria: Partial<SearchParams>;
+  tokens: SearchQueryToken[];
+  errors: string[];
+  isAdvanced: boolean;
+}
+
+/**
+ * Référentiels permettant de résoudre les noms saisis (« lang:lingala »,
+ * « cat:"vie quotidienne" ») vers les codes et identifiants de l'API
+ */
+export interface SearchQueryContext {
+  languages?: { code: string; name: string }[];
+  categories?: { id?: string; name: string }[];
+}
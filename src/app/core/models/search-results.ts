@@ -1,9 +1,22 @@
 import { Word } from './word';
 
+/**
+ * Suggestion « Vouliez-vous dire… » proposée quand la recherche est vide
+ */
+export interface WordSuggestion {
+  word: Word;
+  // Distance d'édition entre la requête et le mot, une fois normalisés
+  distance: number;
+  // Le mot ne diffère de la requête que par les tons et diacritiques
+  exactFold: boolean;
+}
+
 export interface SearchResults {
   words: Word[];
   total: number;
   page: number;
   limit: number;
   totalPages: number;
+  fromCache?: boolean; // Résultats issus du magasin hors ligne
+  suggestions?: WordSuggestion[]; // Mots proches si aucun résultat
 }
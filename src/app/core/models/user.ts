@@ -17,6 +17,17 @@ export interface User {
   isProfilePublic?: boolean;
   isEmailVerified?: boolean;
   role?: string;
+  reputation?: number; // Réputation communautaire (votes, réponses acceptées, contributions)
+}
+
+/**
+ * Utilisateur bloqué : ses messages et demandes de conversation sont refusés
+ */
+export interface BlockedUser {
+  id: string;
+  username: string;
+  profilePicture?: string;
+  blockedAt: string;
 }
 
 export interface UserStats {
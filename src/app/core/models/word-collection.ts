@@ -0,0 +1,34 @@
+import { Word } from './word';
+
+export type CollectionVisibility = 'public' | 'private';
+
+/**
+ * Liste de mots créée par un utilisateur (leçon, thème…).
+ * `wordIds` suit l'ordre choisi par le propriétaire.
+ */
+export interface WordCollection {
+  id: string;
+  name: string;
+  description?: string;
+  visibility: CollectionVisibility;
+  // Code de la langue étudiée dans la liste
+  targetLanguage?: string;
+  wordIds: string[];
+  // Présent uniquement sur la vue détaillée
+  words?: Word[];
+  wordCount: number;
+  owner?: {
+    id: string;
+    username: string;
+    profilePicture?: string;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CollectionPayload {
+  name: string;
+  description?: string;
+  visibility: CollectionVisibility;
+  targetLanguage?: string | null;
+}
@@ -0,0 +1,70 @@
+import { Word } from './word';
+
+export type WordExportFormat = 'csv' | 'json' | 'anki';
+
+export const WORD_EXPORT_FORMATS: WordExportFormat[] = ['csv', 'json', 'anki'];
+
+// Nombre maximal de lignes traitées par import (une recherche par ligne)
+export const WORD_IMPORT_ROW_LIMIT = 500;
+
+// Premiers caractères interprétés comme une formule par les tableurs
+// (liste OWASP de l'injection CSV) : préfixés d'une apostrophe à l'export
+export const CSV_FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+/**
+ * Représentation d'un mot dans un export JSON, indépendante du modèle interne
+ */
+export interface WordExportRecord {
+  id: string;
+  word: string;
+  language: string;
+  pronunciation?: string;
+  meanings: {
+    partOfSpeech: string;
+    definitions: string[];
+    examples: string[];
+    synonyms: string[];
+  }[];
+  translations: { language: string; word: string }[];
+  audio: { accent: string; url: string }[];
+}
+
+export interface WordExportFile {
+  source: 'oypunu';
+  version: 1;
+  exportedAt: string;
+  name: string;
+  words: WordExportRecord[];
+}
+
+/**
+ * Ligne lue dans un fichier importé
+ */
+export interface WordImportRow {
+  line: number;
+  word: string;
+  language?: string;
+  // Identifiant O'Ypunu présent dans nos propres exports
+  id?: string;
+}
+
+/**
+ * - matched : un seul mot du dictionnaire correspond
+ * - ambiguous : plusieurs mots possibles, l'utilisateur choisit
+ * - duplicate : déjà présent dans la destination (ou plus haut dans le fichier)
+ * - notFound : aucun mot correspondant dans le dictionnaire
+ */
+export type WordImportStatus = 'matched' | 'ambiguous' | 'duplicate' | 'notFound';
+
+export interface WordImportMatch {
+  row: WordImportRow;
+  status: WordImportStatus;
+  candidates: Word[];
+  // Mot retenu pour l'import, ou null pour ignorer la ligne
+  selectedWordId: string | null;
+}
+
+export interface WordImportResult {
+  added: number;
+  failed: number;
+}
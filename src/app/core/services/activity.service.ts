@@ -4,6 +4,7 @@ import { Observable, BehaviorSubject } from 'rxjs';
 import { map } from 'rxjs/operators';
 import * as io from 'socket.io-client';
 import { environment } from '../../../environments/environment';
+import { LocaleService, TranslationParams } from './locale.service';
 
 export interface Activity {
   id: string;
@@ -49,7 +50,10 @@ export class ActivityService {
   public activities$ = this.activitiesSubject.asObservable();
   public connectedClients$ = this.connectedClientsSubject.asObservable();
 
-  constructor(private http: HttpClient) {
+  constructor(
+    private http: HttpClient,
+    private localeService: LocaleService,
+  ) {
     this.initializeWebSocket();
   }
 
@@ -234,36 +238,9 @@ export class ActivityService {
 
   // Formater le type d'activité pour l'affichage
   formatActivityType(activityType: string): string {
-    const typeMap: { [key: string]: string } = {
-      word_created: 'Mot ajouté',
-      translation_added: 'Traduction ajoutée',
-      synonym_added: 'Synonymes ajoutés',
-      word_approved: 'Mot approuvé',
-      word_verified: 'Traduction vérifiée',
-      community_post_created: 'Publication créée',
-      comment_added: 'Commentaire ajouté',
-      user_registered: 'Inscription',
-      user_logged_in: 'Connexion',
-      user_logged_out: 'Déconnexion',
-      community_joined: 'Communauté rejointe',
-      community_created: 'Communauté créée',
-      // Audio & favoris
-      audio_added: 'Audio ajouté',
-      audio_deleted: 'Audio supprimé',
-      audio_bulk_updated: 'Audios mis à jour',
-      word_favorited: 'Ajouté aux favoris',
-      word_unfavorited: 'Retiré des favoris',
-      vote_action: 'Vote',
-      word_updated: 'Mot mis à jour',
-      word_deleted: 'Mot supprimé',
-      achievement_unlocked: 'Succès débloqué',
-      xp_gained: 'XP gagné',
-      // Contenu
-      language_created: 'Langue créée',
-      category_created: 'Catégorie créée',
-    };
-
-    return typeMap[activityType] || activityType;
+    const key = `activity.types.${activityType}`;
+    const label = this.localeService.translate(key);
+    return label === key ? activityType : label;
   }
 
   // Obtenir la couleur du type d'activité
@@ -340,7 +317,8 @@ export class ActivityService {
     const type = a.activityType;
     const label = this.formatActivityType(type);
     const color = this.getActivityTypeColor(type);
-    const username = a.username || 'Utilisateur';
+    const username =
+      a.username || this.localeService.translate('activity.defaultUsername');
     const m = a.metadata || {};
 
     // Drapeau/langue
@@ -355,7 +333,9 @@ export class ActivityService {
       a.message = this.buildMessage(type, m);
       if (!a.message) {
         // Fallback générique
-        a.message = `a effectué une action: ${label.toLowerCase()}`;
+        a.message = this.localeService.translate('activity.genericAction', {
+          label: label.toLowerCase(),
+        });
       }
     }
 
@@ -374,82 +354,87 @@ export class ActivityService {
   }
 
   private buildMessage(type: string, m: Activity['metadata']): string {
+    const t = (key: string, params?: TranslationParams) =>
+      this.localeService.translate(`activity.messages.${key}`, params);
+
     switch (type) {
       case 'word_created':
         return m.wordName
-          ? `a ajouté le mot « ${m.wordName} »`
-          : 'a ajouté un mot';
+          ? t('wordCreated', { word: m.wordName })
+          : t('wordCreatedGeneric');
       case 'translation_added': {
         const target = m.targetLanguageCode
           ? m.targetLanguageCode.toUpperCase()
-          : 'une autre langue';
+          : t('otherLanguage');
         return m.wordName
-          ? `a traduit « ${m.wordName} » vers ${target}`
-          : `a ajouté une traduction vers ${target}`;
+          ? t('translationAdded', { word: m.wordName, target })
+          : t('translationAddedGeneric', { target });
       }
       case 'audio_added':
         return m.wordName
-          ? `a ajouté un audio à « ${m.wordName} »`
-          : 'a ajouté un audio';
+          ? t('audioAdded', { word: m.wordName })
+          : t('audioAddedGeneric');
       case 'audio_deleted':
         return m.wordName
-          ? `a supprimé un audio de « ${m.wordName} »`
-          : 'a supprimé un audio';
+          ? t('audioDeleted', { word: m.wordName })
+          : t('audioDeletedGeneric');
       case 'word_favorited':
         return m.wordName
-          ? `a ajouté « ${m.wordName} » aux favoris`
-          : 'a ajouté un mot aux favoris';
+          ? t('wordFavorited', { word: m.wordName })
+          : t('wordFavoritedGeneric');
       case 'word_unfavorited':
         return m.wordName
-          ? `a retiré « ${m.wordName} » des favoris`
-          : 'a retiré un favori';
+          ? t('wordUnfavorited', { word: m.wordName })
+          : t('wordUnfavoritedGeneric');
       case 'vote_action': {
         const vt = m.voteType || 'like';
         const verb =
           vt === 'dislike'
-            ? 'a désapprouvé'
+            ? t('voteDislike')
             : vt === 'helpful'
-            ? 'a jugé utile'
+            ? t('voteHelpful')
             : vt === 'accurate'
-            ? 'a validé'
-            : 'a aimé';
-        return m.wordName ? `${verb} « ${m.wordName} »` : `${verb} un contenu`;
+            ? t('voteAccurate')
+            : t('voteLike');
+        return m.wordName
+          ? t('voteOnWord', { verb, word: m.wordName })
+          : t('voteGeneric', { verb });
       }
       case 'word_updated':
         return m.wordName
-          ? `a mis à jour « ${m.wordName} »`
-          : 'a mis à jour un mot';
+          ? t('wordUpdated', { word: m.wordName })
+          : t('wordUpdatedGeneric');
       case 'word_deleted':
         return m.wordName
-          ? `a supprimé « ${m.wordName} »`
-          : 'a supprimé un mot';
+          ? t('wordDeleted', { word: m.wordName })
+          : t('wordDeletedGeneric');
       case 'achievement_unlocked':
-        return 'a débloqué un succès';
+        return t('achievementUnlocked');
       case 'xp_gained':
-        return 'a gagné de l’XP';
+        return t('xpGained');
       case 'user_logged_in':
-        return "s'est connecté";
+        return t('userLoggedIn');
       case 'user_logged_out':
-        return "s'est déconnecté";
+        return t('userLoggedOut');
       case 'user_registered':
-        return "s'est inscrit";
+        return t('userRegistered');
       case 'community_post_created':
       case 'community_post':
         return m.postTitle
-          ? `a posté « ${m.postTitle} »`
-          : 'a posté dans la communauté';
+          ? t('communityPost', { title: m.postTitle })
+          : t('communityPostGeneric');
       case 'community_created':
         return m.communityName
-          ? `a créé la communauté « ${m.communityName} »`
-          : 'a créé une communauté';
+          ? t('communityCreated', { name: m.communityName })
+          : t('communityCreatedGeneric');
       case 'language_created':
         return m.languageName
-          ? `a ajouté la langue « ${m.languageName} »`
-          : 'a ajouté une langue';
+          ? t('languageCreated', { name: m.languageName })
+          : t('languageCreatedGeneric');
       case 'category_created':
         return m.categoryName
-          ? `a créé la catégorie « ${m.categoryName} »`
-          : 'a créé une catégorie';
+          ? t('categoryCreated', { name: m.categoryName })
+          : t('categoryCreatedGeneric');
       default:
         return '';
     }
@@ -483,26 +468,6 @@ export class ActivityService {
   }
 
   private timeAgoFrom(date: Date): string {
-    const seconds = Math.floor((Date.now() - date.getTime()) / 1000);
-    const intervals: [number, string][] = [
-      [60, 's'],
-      [60, 'min'],
-      [24, 'h'],
-      [7, 'j'],
-      [4.345, 'sem'],
-      [12, 'mois'],
-      [Number.MAX_SAFE_INTEGER, 'an'],
-    ];
-    let count = seconds;
-    let unit = 's';
-    for (const [step, u] of intervals) {
-      if (count < step) {
-        unit = u;
-        break;
-      }
-      count = Math.floor(count / step);
-      unit = u;
-    }
-    return `il y a ${count} ${unit}`;
+    return this.localeService.formatRelativeTime(date);
   }
 }
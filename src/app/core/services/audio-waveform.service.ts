@@ -0,0 +1,100 @@
+import { Injectable } from '@angular/core';
+import { Observable, defer, from, of } from 'rxjs';
+import { catchError, map, shareReplay, switchMap } from 'rxjs/operators';
+import { LoggerService } from './logger.service';
+
+export const DEFAULT_WAVEFORM_BARS = 40;
+
+/**
+ * AudioWaveformService
+ *
+ * Calcule la forme d'onde d'un message vocal à partir de l'audio décodé :
+ * une amplitude RMS par barre, normalisée entre 0 et 1.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AudioWaveformService {
+  private _context: AudioContext | null = null;
+  private _cache = new Map<string, Observable<number[] | null>>();
+
+  constructor(private logger: LoggerService) {}
+
+  /**
+   * Forme d'onde d'un enregistrement local (avant envoi)
+   */
+  fromBlob(
+    blob: Blob,
+    bars = DEFAULT_WAVEFORM_BARS,
+  ): Observable<number[] | null> {
+    return defer(() => from(blob.arrayBuffer())).pipe(
+      switchMap((data) => this._extract(data, bars)),
+      catchError((error) => {
+        this.logger.error("Impossible d'analyser l'enregistrement:", error);
+        return of(null);
+      }),
+    );
+  }
+
+  /**
+   * Forme d'onde d'un fichier distant, mise en cache par URL.
+   * null si le fichier ne peut pas être lu (CORS, format non supporté).
+   */
+  fromUrl(url: string, bars = DEFAULT_WAVEFORM_BARS): Observable<number[] | null> {
+    const key = `${bars}:${url}`;
+    if (!this._cache.has(key)) {
+      // fetch plutôt que HttpClient : pas d'en-tête d'authentification vers le stockage des médias
+      const waveform$ = defer(() => from(fetch(url))).pipe(
+        switchMap((response) => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          return from(response.arrayBuffer());
+        }),
+        switchMap((data) => this._extract(data, bars)),
+        catchError((error) => {
+          this.logger.warn("Forme d'onde indisponible:", url, error);
+          return of(null);
+        }),
+        shareReplay(1),
+      );
+      this._cache.set(key, waveform$);
+    }
+    return this._cache.get(key)!;
+  }
+
+  private _extract(data: ArrayBuffer, bars: number): Observable<number[]> {
+    return from(this._getContext().decodeAudioData(data)).pipe(
+      map((buffer) => this._computePeaks(buffer, bars)),
+    );
+  }
+
+  private _computePeaks(buffer: AudioBuffer, bars: number): number[] {
+    const samples = buffer.getChannelData(0);
+    const bucketSize = Math.max(1, Math.floor(samples.length / bars));
+    const levels: number[] = [];
+
+    for (let bar = 0; bar < bars; bar++) {
+      const start = bar * bucketSize;
+      const end = Math.min(samples.length, start + bucketSize);
+      let sum = 0;
+      for (let i = start; i < end; i++) {
+        sum += samples[i] * samples[i];
+      }
+      levels.push(end > start ? Math.sqrt(sum / (end - start)) : 0);
+    }
+
+    const max = Math.max(...levels);
+    return levels.map((level) =>
+      max > 0 ? Math.round((level / max) * 100) / 100 : 0,
+    );
+  }
+
+  // Un seul contexte pour toute l'application : les navigateurs en limitent le nombre
+  private _getContext(): AudioContext {
+    if (!this._context) {
+      const AudioContextClass =
+        window.AudioContext || (window as any).webkitAudioContext;
+      this._context = new AudioContextClass();
+    }
+    return this._context;
+  }
+}
@@ -0,0 +1,232 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { BehaviorSubject, Observable, of } from 'rxjs';
+import { catchError, map, tap } from 'rxjs/operators';
+import { environment } from '../../../environments/environment';
+import { Word } from '../models/word';
+import { CollectionPayload, WordCollection } from '../models/word-collection';
+import { AuthService } from './auth.service';
+import { LoggerService } from './logger.service';
+
+/**
+ * CollectionsService
+ *
+ * Listes de mots nommées créées par les utilisateurs (leçons, thèmes…),
+ * en complément de l'unique liste de favoris. Les listes de l'utilisateur
+ * connecté sont gardées en cache pour le menu « Ajouter à une liste ».
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class CollectionsService {
+  private readonly _API_URL = `${environment.apiUrl}/collections`;
+
+  private _myCollections = new BehaviorSubject<WordCollection[]>([]);
+  myCollections$ = this._myCollections.asObservable();
+
+  constructor(
+    private _http: HttpClient,
+    private _authService: AuthService,
+    private logger: LoggerService,
+  ) {
+    // Recharger les listes quand l'utilisateur change
+    this._authService.currentUser$.subscribe((user) => {
+      if (user) {
+        this.getMyCollections().subscribe();
+      } else {
+        this._myCollections.next([]);
+      }
+    });
+  }
+
+  getMyCollections(): Observable<WordCollection[]> {
+    if (!this._authService.isAuthenticated()) return of([]);
+
+    return this._http.get<any>(`${this._API_URL}/me`).pipe(
+      map((response) => (response.collections ?? response ?? []) as any[]),
+      map((collections) => collections.map((c) => this._normalize(c))),
+      tap((collections) => this._myCollections.next(collections)),
+      catchError((error) => {
+        this.logger.error('Error fetching collections:', error);
+        return of(this._myCollections.value);
+      }),
+    );
+  }
+
+  /**
+   * Liste détaillée avec ses mots, dans l'ordre choisi par le propriétaire
+   */
+  getCollection(id: string): Observable<WordCollection | null> {
+    return this._http.get<any>(`${this._API_URL}/${id}`).pipe(
+      map((collection) => this._normalize(collection)),
+      catchError((error) => {
+        this.logger.error('Error fetching collection:', error);
+        return of(null);
+      }),
+    );
+  }
+
+  create(payload: CollectionPayload): Observable<WordCollection> {
+    return this._http.post<any>(this._API_URL, payload).pipe(
+      map((collection) => this._normalize(collection)),
+      tap((collection) => {
+        this.logger.debug(`📚 Liste créée: ${collection.name}`);
+        this._myCollections.next([collection, ...this._myCollections.value]);
+      }),
+    );
+  }
+
+  update(id: string, payload: Partial<CollectionPayload>): Observable<WordCollection> {
+    return this._http.patch<any>(`${this._API_URL}/${id}`, payload).pipe(
+      map((collection) => this._normalize(collection)),
+      tap((collection) => this._replace(collection)),
+    );
+  }
+
+  delete(id: string): Observable<{ success: boolean }> {
+    return this._http.delete<any>(`${this._API_URL}/${id}`).pipe(
+      map(() => ({ success: true })),
+      tap(() =>
+        this._myCollections.next(
+          this._myCollections.value.filter((c) => c.id !== id),
+        ),
+      ),
+      catchError((error) => {
+        this.logger.error('Error deleting collection:', error);
+        return of({ success: false });
+      }),
+    );
+  }
+
+  /**
+   * Ajoute un mot en fin de liste (mise à jour optimiste du cache)
+   */
+  addWord(collectionId: string, wordId: string): Observable<{ success: boolean }> {
+    this._patchWordIds(collectionId, (ids) =>
+      ids.includes(wordId) ? ids : [...ids, wordId],
+    );
+
+    return this._http
+      .post<any>(`${this._API_URL}/${collectionId}/words`, { wordId })
+      .pipe(
+        map(() => ({ success: true })),
+        catchError((error) => {
+          this.logger.error('Error adding word to collection:', error);
+          this._patchWordIds(collectionId, (ids) =>
+            ids.filter((id) => id !== wordId),
+          );
+          return of({ success: false });
+        }),
+      );
+  }
+
+  removeWord(collectionId: string, wordId: string): Observable<{ success: boolean }> {
+    const previous = this._findCached(collectionId)?.wordIds ?? [];
+    this._patchWordIds(collectionId, (ids) => ids.filter((id) => id !== wordId));
+
+    return this._http
+      .delete<any>(`${this._API_URL}/${collectionId}/words/${wordId}`)
+      .pipe(
+        map(() => ({ success: true })),
+        catchError((error) => {
+          this.logger.error('Error removing word from collection:', error);
+          this._patchWordIds(collectionId, () => previous);
+          return of({ success: false });
+        }),
+      );
+  }
+
+  /**
+   * Enregistre un nouvel ordre des mots
+   */
+  reorderWords(collectionId: string, wordIds: string[]): Observable<{ success: boolean }> {
+    const previous = this._findCached(collectionId)?.wordIds ?? [];
+    this._patchWordIds(collectionId, () => wordIds);
+
+    return this._http
+      .put<any>(`${this._API_URL}/${collectionId}/words/order`, { wordIds })
+      .pipe(
+        map(() => ({ success: true })),
+        catchError((error) => {
+          this.logger.error('Error reordering collection:', error);
+          this._patchWordIds(collectionId, () => previous);
+          return of({ success: false });
+        }),
+      );
+  }
+
+  /**
+   * Partage une liste complète avec un autre utilisateur
+   */
+  share(collectionId: string, username: string): Observable<{ success: boolean; message: string }> {
+    return this._http
+      .post<{ success: boolean; message: string }>(
+        `${this._API_URL}/${collectionId}/share`,
+        { username },
+      )
+      .pipe(
+        catchError((error) => {
+          this.logger.error('Error sharing collection:', error);
+          return of({
+            success: false,
+            message:
+              error.error?.message ||
+              'Une erreur est survenue lors du partage de la liste',
+          });
+        }),
+      );
+  }
+
+  isWordInCollection(collection: WordCollection, wordId: string): boolean {
+    return collection.wordIds.includes(wordId);
+  }
+
+  /**
+   * Lien public d'une liste, à partager hors de l'application
+   */
+  getShareUrl(collectionId: string): string {
+    return `${window.location.origin}/collections/${collectionId}`;
+  }
+
+  // ─── Méthodes privées ─────────────────────────────────────────────────────
+
+  // Normalise les ID MongoDB (_id → id) de la liste et de ses mots
+  private _normalize(raw: any): WordCollection {
+    const words: Word[] | undefined = Array.isArray(raw.words)
+      ? raw.words.map((word: any) => ({ ...word, id: word.id ?? word._id }))
+      : undefined;
+    const wordIds: string[] =
+      raw.wordIds ?? words?.map((word) => word.id) ?? [];
+
+    return {
+      ...raw,
+      id: raw.id ?? raw._id,
+      visibility: raw.visibility ?? 'private',
+      wordIds,
+      words,
+      wordCount: raw.wordCount ?? wordIds.length,
+      owner: raw.owner
+        ? { ...raw.owner, id: raw.owner.id ?? raw.owner._id }
+        : undefined,
+    };
+  }
+
+  private _findCached(id: string): WordCollection | undefined {
+    return this._myCollections.value.find((c) => c.id === id);
+  }
+
+  private _replace(collection: WordCollection): void {
+    this._myCollections.next(
+      this._myCollections.value.map((c) =>
+        c.id === collection.id ? { ...c, ...collection } : c,
+      ),
+    );
+  }
+
+  private _patchWordIds(id: string, update: (ids: string[]) => string[]): void {
+    const collection = this._findCached(id);
+    if (!collection) return;
+    const wordIds = update(collection.wordIds);
+    this._replace({ ...collection, wordIds, wordCount: wordIds.length });
+  }
+}
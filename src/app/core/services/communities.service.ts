@@ -1,9 +1,13 @@
 import { Injectable } from '@angular/core';
 import { environment } from '../../../environments/environment';
 import { Community } from '../models/community';
+import { CommunityLiveEvent } from '../models/community-posts';
 import {
   BehaviorSubject,
   catchError,
+  filter,
+  map,
+  merge,
   Observable,
   of,
   tap,
@@ -12,6 +16,7 @@ import {
 import { HttpClient, HttpParams } from '@angular/common/http';
 import { AuthService } from './auth.service';
 import { GuestLimitsService } from './guest-limits.service';
+import { WebSocketService } from './websocket.service';
 
 export interface CommunityMember {
   _id: string;
@@ -47,7 +52,8 @@ export class CommunitiesService {
   constructor(
     private _http: HttpClient, 
     private _authService: AuthService,
-    private _guestLimitsService: GuestLimitsService
+    private _guestLimitsService: GuestLimitsService,
+    private _webSocketService: WebSocketService
   ) {
     this._loadUserCommunities();
 
@@ -290,6 +296,39 @@ export class CommunitiesService {
     });
   }
 
+  // Suivre en temps réel une communauté (nouvelles publications, votes)
+  watchCommunity(communityId: string): Observable<CommunityLiveEvent> {
+    return new Observable<CommunityLiveEvent>((subscriber) => {
+      // La room est (re)jointe à chaque connexion du socket
+      const connection = this._webSocketService.connectionStatus$
+        .pipe(filter((connected) => connected))
+        .subscribe(() => this._webSocketService.joinCommunityRoom(communityId));
+
+      const events = merge(
+        this._webSocketService.communityPostCreated$.pipe(
+          filter((event) => event.communityId === communityId),
+          map((event): CommunityLiveEvent => ({
+            type: 'post_created',
+            post: event.post,
+          }))
+        ),
+        this._webSocketService.communityVoteUpdated$.pipe(
+          filter(
+            (vote) =>
+              vote.communityId === communityId && vote.targetType === 'post'
+          ),
+          map((vote): CommunityLiveEvent => ({ type: 'vote_updated', vote }))
+        )
+      ).subscribe(subscriber);
+
+      return () => {
+        connection.unsubscribe();
+        events.unsubscribe();
+        this._webSocketService.leaveCommunityRoom(communityId);
+      };
+    });
+  }
+
   private _loadUserCommunities(): void {
     if (!this._authService.isAuthenticated()) return;
 
@@ -1,17 +1,25 @@
 import { Injectable } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
-import { Observable } from 'rxjs';
+import { Observable, filter, map, merge } from 'rxjs';
 import { environment } from '../../../environments/environment';
 import {
   Post,
   Comment,
+  BountyOfferData,
+  CloseVoteResponse,
+  PostBounty,
+  PostUpdateData,
   PostFormData,
   CommentFormData,
+  CommentRepliesResponse,
+  PostLiveEvent,
   PostsResponse,
   PostDetailResponse,
+  UnansweredQuestionsFilters,
   VoteResponse,
 } from '../models/community-posts';
 import { AuthService } from './auth.service';
+import { WebSocketService } from './websocket.service';
 
 @Injectable({
   providedIn: 'root',
@@ -19,7 +27,11 @@ import { AuthService } from './auth.service';
 export class CommunityPostsService {
   private readonly _API_URL = `${environment.apiUrl}/community-posts`;
 
-  constructor(private _http: HttpClient, private _authService: AuthService) {}
+  constructor(
+    private _http: HttpClient,
+    private _authService: AuthService,
+    private _webSocketService: WebSocketService
+  ) {}
 
   createPost(communityId: string, postData: PostFormData): Observable<Post> {
     console.log('Token actuel:', this._authService.getToken());
@@ -41,6 +53,7 @@ export class CommunityPostsService {
       difficulty?: string;
       tags?: string[];
       timeRange?: 'day' | 'week' | 'month' | 'year' | 'all';
+      unanswered?: boolean;
     }
   ): Observable<PostsResponse> {
     let params = new HttpParams()
@@ -59,6 +72,7 @@ export class CommunityPostsService {
         params = params.append('languages', filters.languages.join(','));
       if (filters.tags?.length)
         params = params.append('tags', filters.tags.join(','));
+      if (filters.unanswered) params = params.append('unanswered', 'true');
     }
 
     return this._http.get<PostsResponse>(
@@ -67,24 +81,78 @@ export class CommunityPostsService {
     );
   }
 
+  // Questions sans réponse acceptée, toutes communautés confondues
+  getUnansweredQuestions(
+    page = 1,
+    limit = 10,
+    filters: UnansweredQuestionsFilters = {}
+  ): Observable<PostsResponse> {
+    let params = new HttpParams()
+      .append('page', page.toString())
+      .append('limit', limit.toString());
+
+    if (filters.sortBy) params = params.append('sortBy', filters.sortBy);
+    if (filters.languages?.length)
+      params = params.append('languages', filters.languages.join(','));
+    if (filters.matchMyLanguages)
+      params = params.append('matchMyLanguages', 'true');
+    if (filters.withBounty) params = params.append('withBounty', 'true');
+
+    return this._http.get<PostsResponse>(
+      `${this._API_URL}/questions/unanswered`,
+      { params }
+    );
+  }
+
   getPost(postId: string): Observable<any> {
     return this._http.get<any>(`${this._API_URL}/posts/${postId}`);
   }
 
+  updatePost(postId: string, postData: PostUpdateData): Observable<Post> {
+    return this._http.patch<Post>(`${this._API_URL}/posts/${postId}`, postData);
+  }
+
+  // Vote de fermeture d'une question (privilège de réputation)
+  voteToClose(postId: string): Observable<CloseVoteResponse> {
+    return this._http.post<CloseVoteResponse>(
+      `${this._API_URL}/posts/${postId}/close-votes`,
+      {}
+    );
+  }
+
   getCommentsByPost(
     postId: string,
     page = 1,
     limit = 20,
     sortBy: 'score' | 'newest' | 'oldest' = 'score'
   ): Observable<any> {
+    // Seuls les commentaires racines : les réponses se chargent par fil
     return this._http.get<any>(`${this._API_URL}/posts/${postId}/comments`, {
       params: new HttpParams()
         .append('page', page.toString())
         .append('limit', limit.toString())
-        .append('sortBy', sortBy),
+        .append('sortBy', sortBy)
+        .append('rootOnly', 'true'),
     });
   }
 
+  getCommentReplies(
+    commentId: string,
+    page = 1,
+    limit = 10,
+    sortBy: 'score' | 'newest' | 'oldest' = 'oldest'
+  ): Observable<CommentRepliesResponse> {
+    return this._http.get<CommentRepliesResponse>(
+      `${this._API_URL}/comments/${commentId}/replies`,
+      {
+        params: new HttpParams()
+          .append('page', page.toString())
+          .append('limit', limit.toString())
+          .append('sortBy', sortBy),
+      }
+    );
+  }
+
   addComment(
     postId: string,
     commentData: CommentFormData
@@ -144,10 +212,23 @@ export class CommunityPostsService {
   acceptAnswer(
     postId: string,
     commentId: string
-  ): Observable<{ success: boolean; message: string }> {
-    return this._http.patch<{ success: boolean; message: string }>(
-      `${this._API_URL}/posts/${postId}/comments/${commentId}/accept`,
-      {}
+  ): Observable<{
+    success: boolean;
+    message: string;
+    bounty?: PostBounty | null;
+  }> {
+    return this._http.patch<{
+      success: boolean;
+      message: string;
+      bounty?: PostBounty | null;
+    }>(`${this._API_URL}/posts/${postId}/comments/${commentId}/accept`, {});
+  }
+
+  // Offrir une prime de réputation sur sa question
+  offerBounty(postId: string, bounty: BountyOfferData): Observable<PostBounty> {
+    return this._http.post<PostBounty>(
+      `${this._API_URL}/posts/${postId}/bounty`,
+      bounty
     );
   }
 
@@ -229,6 +310,70 @@ export class CommunityPostsService {
     return this.voteComment(commentId, 'up');
   }
 
+  // Une prime « active » dont l'échéance est passée attend son expiration côté serveur
+  isBountyActive(bounty: PostBounty | null | undefined): boolean {
+    return (
+      !!bounty &&
+      bounty.status === 'active' &&
+      new Date(bounty.expiresAt).getTime() > Date.now()
+    );
+  }
+
+  getBountyTimeLeft(bounty: PostBounty): string {
+    const hours = Math.floor(
+      (new Date(bounty.expiresAt).getTime() - Date.now()) / 3600000
+    );
+    if (hours < 1) return 'expire bientôt';
+    if (hours < 24) return `expire dans ${hours} h`;
+    return `expire dans ${Math.floor(hours / 24)} j`;
+  }
+
+  // Suivre en temps réel une publication (commentaires, votes, saisie)
+  watchPost(postId: string): Observable<PostLiveEvent> {
+    return new Observable<PostLiveEvent>((subscriber) => {
+      // La room est (re)jointe à chaque connexion du socket
+      const connection = this._webSocketService.connectionStatus$
+        .pipe(filter((connected) => connected))
+        .subscribe(() => this._webSocketService.joinPostRoom(postId));
+
+      const events = merge(
+        this._webSocketService.communityCommentAdded$.pipe(
+          filter((event) => event.postId === postId),
+          map((event): PostLiveEvent => ({
+            type: 'comment_added',
+            comment: event.comment,
+          }))
+        ),
+        this._webSocketService.communityVoteUpdated$.pipe(
+          filter((vote) => vote.postId === postId),
+          map((vote): PostLiveEvent => ({ type: 'vote_updated', vote }))
+        ),
+        this._webSocketService.commentTyping$.pipe(
+          filter((typing) => typing.postId === postId),
+          map((typing): PostLiveEvent => ({ type: 'typing', typing }))
+        )
+      ).subscribe(subscriber);
+
+      return () => {
+        connection.unsubscribe();
+        events.unsubscribe();
+        this._webSocketService.leavePostRoom(postId);
+      };
+    });
+  }
+
+  setCommentTyping(
+    postId: string,
+    parentCommentId: string | null,
+    isTyping: boolean
+  ): void {
+    if (isTyping) {
+      this._webSocketService.startCommentTyping(postId, parentCommentId);
+    } else {
+      this._webSocketService.stopCommentTyping(postId, parentCommentId);
+    }
+  }
+
   // Récupérer les langues disponibles
   getAvailableLanguages(): Observable<
     {
@@ -8,15 +8,21 @@ import {
   Subject,
   throwError,
   forkJoin,
+  from,
 } from 'rxjs';
 import { map, catchError, tap, switchMap } from 'rxjs/operators';
 import { environment } from '../../../environments/environment';
 import { Word } from '../models/word';
 import { SearchParams } from '../models/search-params';
-import { SearchResults } from '../models/search-results';
+import { SearchResults, WordSuggestion } from '../models/search-results';
 import { Category } from '../models/category';
 import { AuthService } from './auth.service';
 import { GuestLimitsService } from './guest-limits.service';
+import { OfflineWordStoreService } from './offline-word-store.service';
+import { SearchQueryService } from './search-query.service';
+import { SearchFoldingService } from './search-folding.service';
+import { WordOutboxService, OutboxQueuedError } from './word-outbox.service';
+import { ApiHealthService } from '../../shared/services/api-health.service';
 
 interface MongoDBWord extends Omit<Word, 'id'> {
   _id: string;
@@ -107,6 +113,12 @@ export class DictionaryService {
     isFavorite: boolean;
   }> = new Subject();
 
+  // Mots candidats pour les suggestions « Vouliez-vous dire… » (cache court)
+  private _suggestionPool: { words: Word[]; loadedAt: number } | null = null;
+  private readonly _SUGGESTION_POOL_TTL = 5 * 60 * 1000;
+  // Recherche avancée : résultats parcourus pour filtrer avant de paginer
+  private readonly _ADVANCED_SEARCH_SCAN_LIMIT = 200;
+
   recentSearches$ = this._recentSearches.asObservable();
   favoriteWords$ = this._favoriteWords.asObservable();
   favoriteWordIds$ = this._favoriteWordIds.asObservable();
@@ -117,6 +129,11 @@ export class DictionaryService {
     private _authService: AuthService,
     private _guestLimitsService: GuestLimitsService,
     private logger: LoggerService,
+    private _offlineStore: OfflineWordStoreService,
+    private _apiHealthService: ApiHealthService,
+    private _wordOutbox: WordOutboxService,
+    private _searchQuery: SearchQueryService,
+    private _folding: SearchFoldingService,
   ) {
     this._loadRecentSearches();
     this._loadFavoriteWords();
@@ -171,10 +188,41 @@ export class DictionaryService {
 
   // Recherche de mots
   searchWords(params: SearchParams): Observable<SearchResults> {
+    if (params.query && params.query.trim() !== '' && !params.skipHistory) {
+      this._addToRecentSearches(params.query);
+    }
+
+    // Backend injoignable : recherche directement dans l'index local
+    if (this._isBackendUnavailable()) {
+      this.logger.debug('📴 Frontend: Backend indisponible, recherche locale');
+      return this._offlineStore
+        .search(params)
+        .pipe(switchMap((results) => this._withSuggestions(results, params)));
+    }
+
+    return this._searchApi(params).pipe(
+      switchMap((results) => this._retryWithFoldedQuery(results, params)),
+      switchMap((results) => this._withSuggestions(results, params)),
+    );
+  }
+
+  // Requête /words/search (favoris marqués, repli hors ligne en cas d'échec)
+  private _searchApi(params: SearchParams): Observable<SearchResults> {
+    const page = params.page || 1;
+    const limit = params.limit || 10;
+    // Garde-fou si l'API ignore une partie des critères avancés : les
+    // résultats sont filtrés côté client avant d'être comptés et paginés
+    const hasAdvancedCriteria = this._searchQuery.hasAdvancedCriteria(params);
+
     let httpParams = new HttpParams()
       .set('query', params.query || '')
-      .set('page', params.page?.toString() || '1')
-      .set('limit', params.limit?.toString() || '10');
+      .set('page', hasAdvancedCriteria ? '1' : page.toString())
+      .set(
+        'limit',
+        hasAdvancedCriteria
+          ? this._ADVANCED_SEARCH_SCAN_LIMIT.toString()
+          : limit.toString(),
+      );
 
     // Solution simple : envoyer les tableaux comme des strings séparées par des virgules
     if (params.languages && params.languages.length) {
@@ -195,13 +243,17 @@ export class DictionaryService {
       );
     }
 
-    if (params.query && params.query.trim() !== '') {
-      this._addToRecentSearches(params.query);
-    }
+    // Critères de la syntaxe avancée (lang:, has:audio, "expression", -terme…)
+    httpParams = this._searchQuery.toHttpParams(params, httpParams);
 
     return this._http
       .get<any>(`${this._WORDS_API_URL}/search`, { params: httpParams })
       .pipe(
+        map((results) =>
+          hasAdvancedCriteria
+            ? this._filterAdvancedResults(results, params, page, limit)
+            : results,
+        ),
         switchMap((results) => {
           const normalizedWords = this._normalizeIds(results.words);
 
@@ -235,6 +287,9 @@ export class DictionaryService {
         }),
         catchError((error) => {
           this.logger.error('Error searching words:', error);
+          if (this._isBackendUnavailable(error)) {
+            return this._offlineStore.search(params);
+          }
           return of({
             words: [],
             total: 0,
@@ -246,15 +301,112 @@ export class DictionaryService {
       );
   }
 
+  /**
+   * Aucun résultat : la requête est relancée une fois, repliée sans tons
+   * ni diacritiques (« ɛbɔ́ » → « ebo »), avant de recourir aux suggestions
+   */
+  private _retryWithFoldedQuery(
+    results: SearchResults,
+    params: SearchParams,
+  ): Observable<SearchResults> {
+    const query = params.query?.trim();
+    if (results.words.length > 0 || results.fromCache || !query) {
+      return of(results);
+    }
+
+    const language =
+      params.languages?.length === 1 ? params.languages[0] : null;
+    const folded = this._folding.fold(query, language);
+    if (!folded || folded === query.toLowerCase()) return of(results);
+
+    this.logger.debug(`🔎 Frontend: nouvelle recherche repliée "${folded}"`);
+    return this._searchApi({ ...params, query: folded }).pipe(
+      map((foldedResults) =>
+        foldedResults.words.length > 0 ? foldedResults : results,
+      ),
+    );
+  }
+
+  // Filtre les résultats parcourus puis recalcule la page et les totaux
+  private _filterAdvancedResults(
+    results: any,
+    params: SearchParams,
+    page: number,
+    limit: number,
+  ): SearchResults {
+    const matches = this._normalizeIds(results.words).filter((word) =>
+      this._searchQuery.matchesWord(word, params),
+    );
+    const start = (page - 1) * limit;
+    return {
+      ...results,
+      words: matches.slice(start, start + limit),
+      total: matches.length,
+      page,
+      limit,
+      totalPages: Math.ceil(matches.length / limit),
+    };
+  }
+
+  // Dernier recours : suggestions « Vouliez-vous dire… » quand même la
+  // recherche repliée ne renvoie rien
+  private _withSuggestions(
+    results: SearchResults,
+    params: SearchParams,
+  ): Observable<SearchResults> {
+    const query = params.query?.trim();
+    if (results.words.length > 0 || !query) return of(results);
+
+    return this._getSuggestionPool().pipe(
+      map((pool) => {
+        const candidates = params.languages?.length
+          ? pool.filter((w) => params.languages!.includes(w.language))
+          : pool;
+        const suggestions: WordSuggestion[] = this._folding.suggest(
+          query,
+          candidates,
+        );
+        this.logger.debug(
+          `🔎 Frontend: ${suggestions.length} suggestion(s) pour "${query}"`,
+        );
+        return { ...results, suggestions };
+      }),
+      catchError(() => of(results)),
+    );
+  }
+
+  // Mots récents, populaires et hors ligne servant de base aux suggestions
+  private _getSuggestionPool(): Observable<Word[]> {
+    const cached = this._suggestionPool;
+    if (cached && Date.now() - cached.loadedAt < this._SUGGESTION_POOL_TTL) {
+      return of(cached.words);
+    }
+
+    return forkJoin([
+      this.getFeaturedWords(50).pipe(catchError(() => of([] as Word[]))),
+      this.getRecentWords(50).pipe(catchError(() => of([] as Word[]))),
+      this._offlineStore.getAllWords().pipe(catchError(() => of([] as Word[]))),
+    ]).pipe(
+      map(([featured, recent, offline]) => [...featured, ...recent, ...offline]),
+      tap((words) => {
+        // Ne pas figer un pool vide (ex. backend momentanément indisponible)
+        if (words.length > 0) {
+          this._suggestionPool = { words, loadedAt: Date.now() };
+        }
+      }),
+    );
+  }
+
   // Obtenir un mot par ID
   getWordById(id: string): Observable<Word | null> {
     // Pour les visiteurs non authentifiés, juste récupérer le mot
     if (!this._authService.isAuthenticated()) {
       return this._http.get<any>(`${this._WORDS_API_URL}/${id}`).pipe(
         map((response) => (response ? this._normalizeId(response) : null)),
+        tap((word) => this._storeViewedWord(word)),
         catchError((error) => {
           this.logger.error(`Error fetching word with ID ${id}:`, error);
-          return of(null);
+          return this._getOfflineWord(id, error);
         }),
       );
     }
@@ -271,9 +423,10 @@ export class DictionaryService {
         );
         return of(this._checkIfFavorite(wordWithId));
       }),
+      tap((word) => this._storeViewedWord(word)),
       catchError((error) => {
         this.logger.error(`Error fetching word with ID ${id}:`, error);
-        return of(null);
+        return this._getOfflineWord(id, error);
       }),
     );
   }
@@ -475,9 +628,15 @@ export class DictionaryService {
           this.logger.debug(
             `🔥 Frontend: Cache favoris mis à jour - ${favoriteIds.size} IDs`,
           );
+
+          // Synchroniser les favoris dans le magasin hors ligne
+          this._offlineStore.saveWords(words, { favorite: true }).subscribe();
         }),
         catchError((error) => {
           this.logger.error('Error fetching favorite words:', error);
+          if (this._isBackendUnavailable(error)) {
+            return this._getOfflineFavorites();
+          }
           return of([]);
         }),
       );
@@ -575,15 +734,42 @@ export class DictionaryService {
         ? `${this._WORDS_API_URL}/with-audio`
         : `${this._WORDS_API_URL}`;
 
+    if (this._isBackendUnavailable()) {
+      return this._queueWordSubmission(url, wordData);
+    }
+
     return this._http.post<any>(url, wordData).pipe(
       map((response) => (response ? this._normalizeId(response) : null)),
       catchError((error) => {
+        if (this._isBackendUnavailable(error)) {
+          return this._queueWordSubmission(url, wordData);
+        }
         this.logger.error('Error submitting new word:', error);
         return of(null);
       }),
     );
   }
 
+  /**
+   * Place une soumission dans la file d'envoi hors ligne.
+   * Émet une OutboxQueuedError pour que l'appelant informe l'utilisateur.
+   */
+  private _queueWordSubmission(
+    url: string,
+    wordData: Partial<Word> | FormData,
+  ): Observable<never> {
+    const label =
+      (wordData instanceof FormData
+        ? (wordData.get('word') as string)
+        : wordData.word) || 'Nouveau mot';
+
+    return from(this._wordOutbox.enqueue(url, wordData, label)).pipe(
+      switchMap((entry) =>
+        throwError(() => new OutboxQueuedError(entry.id)),
+      ),
+    );
+  }
+
   // Récupérer mes propositions de catégories (contributeur+)
   getMyProposalCategories(): Observable<any[]> {
     return this._http.get<any[]>(`${environment.apiUrl}/categories/my-proposals`);
@@ -992,14 +1178,21 @@ export class DictionaryService {
     }
 
     // Réagir aux changements d'authentification
+    let wasAuthenticated = false;
     this._authService.currentUser$.subscribe((user) => {
       if (user) {
         // Utilisateur connecté - charger ses favoris
+        wasAuthenticated = true;
         this.getFavoriteWords().subscribe();
       } else {
         // Utilisateur déconnecté - nettoyer le cache
         this._favoriteWords.next([]);
         this._favoriteWordIds.next(new Set());
+        if (wasAuthenticated) {
+          // Ne pas laisser les données de l'utilisateur précédent sur l'appareil
+          this._offlineStore.clear().subscribe();
+          wasAuthenticated = false;
+        }
         this.logger.debug(
           '🔥 Frontend: Cache favoris nettoyé - utilisateur déconnecté',
         );
@@ -1026,6 +1219,7 @@ export class DictionaryService {
       newIds.delete(wordId);
     }
     this._favoriteWordIds.next(newIds);
+    this._offlineStore.setFavorite(wordId, isFavorite).subscribe();
 
     // 2. Mettre à jour la liste complète des favoris
     const currentFavorites = this._favoriteWords.value;
@@ -1082,6 +1276,51 @@ export class DictionaryService {
     };
   }
 
+  /**
+   * Indique si le backend doit être considéré comme indisponible :
+   * navigateur hors ligne, erreur réseau/serveur, ou ApiHealthService en échec
+   */
+  private _isBackendUnavailable(error?: any): boolean {
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      return true;
+    }
+    if (error && (error.status === 0 || error.status >= 500)) {
+      return true;
+    }
+    // `error` n'est renseigné qu'après un contrôle de santé effectivement échoué
+    const health = this._apiHealthService.getCurrentHealthStatus();
+    return !health.isOnline && !!health.error;
+  }
+
+  // Enregistre un mot consulté dans le magasin hors ligne
+  private _storeViewedWord(word: Word | null): void {
+    if (!word) return;
+    this._offlineStore
+      .saveWords([word], { viewedAt: new Date().toISOString() })
+      .subscribe();
+  }
+
+  // Repli local pour getWordById
+  private _getOfflineWord(id: string, error: any): Observable<Word | null> {
+    if (!this._isBackendUnavailable(error)) return of(null);
+    return this._offlineStore.getWord(id).pipe(
+      map((word) => (word ? this._checkIfFavorite(word) : null)),
+    );
+  }
+
+  // Repli local pour getFavoriteWords : alimente aussi le cache en mémoire
+  private _getOfflineFavorites(): Observable<Word[]> {
+    return this._offlineStore.getFavorites().pipe(
+      tap((words) => {
+        this.logger.debug(
+          `📴 Frontend: ${words.length} favoris chargés depuis le magasin local`,
+        );
+        this._favoriteWords.next(words);
+        this._favoriteWordIds.next(new Set(words.map((word) => word.id)));
+      }),
+    );
+  }
+
   // Obtenir le mot du jour
   getWordOfTheDay(): Observable<Word | null> {
     return this._http.get<any>(`${this._WORDS_API_URL}/word-of-the-day`).pipe(
@@ -1204,8 +1443,12 @@ export class DictionaryService {
         },
       )
       .pipe(
+        tap((response) => this._syncConsultations(response.consultations)),
         catchError((error) => {
           this.logger.error('Error fetching consultations:', error);
+          if (this._isBackendUnavailable(error)) {
+            return this._getOfflineConsultations(page, limit);
+          }
           return of({
             consultations: [],
             total: 0,
@@ -1217,6 +1460,86 @@ export class DictionaryService {
       );
   }
 
+  /**
+   * Synchronise l'historique de consultations dans le magasin hors ligne.
+   * L'historique ne contient qu'un résumé du mot : on n'écrase pas un mot
+   * complet déjà stocké, on met seulement à jour sa date de consultation.
+   */
+  private _syncConsultations(consultations: HistoryItem[]): void {
+    if (!consultations.length) return;
+
+    // Une lecture et une écriture groupées : le nettoyage des anciennes
+    // consultations ne s'exécute qu'une fois
+    this._offlineStore
+      .getWords(consultations.map((item) => item.wordId))
+      .pipe(
+        switchMap((storedWords) => {
+          const stored = new Map(storedWords.map((w) => [w.id, w]));
+          const viewedAtById: Record<string, string> = {};
+          const words = consultations.map((item) => {
+            viewedAtById[item.wordId] = item.lastViewedAt;
+            return stored.get(item.wordId) ?? this._summaryWord(item);
+          });
+          return this._offlineStore.saveWords(words, { viewedAtById });
+        }),
+      )
+      .subscribe();
+  }
+
+  // Mot minimal reconstruit depuis un élément d'historique
+  private _summaryWord(item: HistoryItem): Word {
+    return {
+      id: item.wordId,
+      word: item.word,
+      language: item.language,
+      status: 'approved',
+      meanings: item.definition
+        ? [
+            {
+              id: '',
+              wordId: item.wordId,
+              partOfSpeech: '',
+              definitions: [
+                { id: '', meaningId: '', definition: item.definition },
+              ],
+            },
+          ]
+        : [],
+    } as unknown as Word;
+  }
+
+  // Repli local pour l'historique de consultations
+  private _getOfflineConsultations(
+    page: number,
+    limit: number,
+  ): Observable<ConsultationsResponse> {
+    return this._offlineStore.getRecentlyViewed().pipe(
+      map((records) => {
+        const consultations: HistoryItem[] = records
+          .slice((page - 1) * limit, page * limit)
+          .map((record) => ({
+            id: record.id,
+            wordId: record.id,
+            word: record.word.word,
+            language: record.word.language,
+            definition:
+              (record.word.meanings?.[0]?.definitions?.[0] as any)
+                ?.definition ?? '',
+            lastViewedAt: record.lastViewedAt!,
+            viewCount: 1,
+            viewType: 'offline',
+          }));
+        return {
+          consultations,
+          total: records.length,
+          page,
+          limit,
+          totalPages: Math.ceil(records.length / limit),
+        };
+      }),
+    );
+  }
+
   // Supprimer une entrée de l'historique
   deleteConsultation(viewId: string): Observable<void> {
     return this._http
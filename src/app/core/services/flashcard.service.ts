@@ -0,0 +1,271 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { distinctUntilChanged, map } from 'rxjs/operators';
+import { Word } from '../models/word';
+import {
+  FLASHCARD_MODES,
+  Flashcard,
+  FlashcardGrade,
+  FlashcardMode,
+  FlashcardReviewState,
+  StudyDeckSummary,
+} from '../models/flashcard';
+import { AuthService } from './auth.service';
+import { LoggerService } from './logger.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Une carte oubliée revient dans la session après ce délai
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+/**
+ * FlashcardService
+ *
+ * Cartes de révision générées à partir de listes de mots (favoris…)
+ * et planification par répétition espacée (algorithme SM-2).
+ * L'état de chaque carte est persisté par utilisateur dans localStorage.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class FlashcardService {
+  private _storageKey: string | null = null;
+
+  private _statesSubject = new BehaviorSubject<
+    Record<string, FlashcardReviewState>
+  >({});
+  public reviewStates$: Observable<Record<string, FlashcardReviewState>> =
+    this._statesSubject.asObservable();
+
+  constructor(
+    private _authService: AuthService,
+    private logger: LoggerService,
+  ) {
+    // Recharger la progression à chaque changement d'utilisateur
+    this._authService.currentUser$
+      .pipe(
+        map((user) => user?.id ?? null),
+        distinctUntilChanged(),
+      )
+      .subscribe((userId) => this._load(userId));
+  }
+
+  /**
+   * Construit les cartes des modes demandés ; un mode est ignoré pour les
+   * mots qui n'ont pas le contenu nécessaire (traduction, audio…)
+   */
+  buildCards(
+    words: Word[],
+    modes: FlashcardMode[] = FLASHCARD_MODES,
+  ): Flashcard[] {
+    const states = this._statesSubject.value;
+    const cards: Flashcard[] = [];
+
+    words.forEach((word) => {
+      if (!word?.id) return;
+      modes.forEach((mode) => {
+        const card = this._createCard(word, mode);
+        if (!card) return;
+        card.state = states[card.id];
+        cards.push(card);
+      });
+    });
+
+    return cards;
+  }
+
+  /**
+   * Cartes à étudier maintenant : révisions dues (les plus en retard
+   * d'abord) puis cartes nouvelles, dans la limite de `newLimit`
+   */
+  getDueCards(cards: Flashcard[], newLimit = 20, now = new Date()): Flashcard[] {
+    const due = cards
+      .filter((card) => card.state && this._isDue(card.state, now))
+      .sort(
+        (a, b) =>
+          new Date(a.state!.dueAt).getTime() -
+          new Date(b.state!.dueAt).getTime(),
+      );
+    const fresh = cards.filter((card) => !card.state).slice(0, newLimit);
+
+    return [...due, ...fresh];
+  }
+
+  getSummary(cards: Flashcard[], now = new Date()): StudyDeckSummary {
+    let due = 0;
+    let fresh = 0;
+    let nextDueAt: Date | null = null;
+
+    cards.forEach((card) => {
+      if (!card.state) {
+        fresh++;
+      } else if (this._isDue(card.state, now)) {
+        due++;
+      } else {
+        const dueAt = new Date(card.state.dueAt);
+        if (!nextDueAt || dueAt < nextDueAt) nextDueAt = dueAt;
+      }
+    });
+
+    return { total: cards.length, due, new: fresh, nextDueAt };
+  }
+
+  /**
+   * Enregistre la réponse et replanifie la carte
+   */
+  review(card: Flashcard, grade: FlashcardGrade): FlashcardReviewState {
+    const state = this.schedule(card, grade);
+    card.state = state;
+
+    this._statesSubject.next({
+      ...this._statesSubject.value,
+      [card.id]: state,
+    });
+    this._save();
+    this.logger.debug(
+      `🃏 Carte ${card.id} notée ${grade}, prochaine révision le ${state.dueAt}`,
+    );
+
+    return state;
+  }
+
+  /**
+   * Calcule le prochain état SM-2 d'une carte sans l'enregistrer
+   * (utilisé aussi pour afficher l'intervalle sur les boutons de note)
+   */
+  schedule(
+    card: Flashcard,
+    grade: FlashcardGrade,
+    now = new Date(),
+  ): FlashcardReviewState {
+    const previous = card.state;
+    let easeFactor = previous?.easeFactor ?? DEFAULT_EASE_FACTOR;
+    let repetitions = previous?.repetitions ?? 0;
+    let lapses = previous?.lapses ?? 0;
+    let interval: number;
+
+    if (grade < 3) {
+      // Oubli : la carte repart de zéro et revient dans la session
+      if (repetitions > 0) lapses++;
+      repetitions = 0;
+      interval = 0;
+    } else {
+      if (repetitions === 0) {
+        interval = 1;
+      } else if (repetitions === 1) {
+        interval = 6;
+      } else {
+        interval = Math.round((previous?.interval || 1) * easeFactor);
+      }
+      repetitions++;
+    }
+
+    easeFactor = Math.max(
+      MIN_EASE_FACTOR,
+      easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)),
+    );
+
+    const dueAt = new Date(
+      now.getTime() + (interval === 0 ? RELEARN_DELAY_MS : interval * DAY_MS),
+    );
+
+    return {
+      cardId: card.id,
+      wordId: card.word.id,
+      mode: card.mode,
+      easeFactor: Math.round(easeFactor * 100) / 100,
+      interval,
+      repetitions,
+      lapses,
+      dueAt: dueAt.toISOString(),
+      lastReviewedAt: now.toISOString(),
+    };
+  }
+
+  /**
+   * Oublie la progression des mots indiqués, ou de toutes les cartes
+   */
+  resetProgress(wordIds?: string[]): void {
+    if (!wordIds) {
+      this._statesSubject.next({});
+    } else {
+      const ids = new Set(wordIds);
+      const remaining = Object.fromEntries(
+        Object.entries(this._statesSubject.value).filter(
+          ([, state]) => !ids.has(state.wordId),
+        ),
+      );
+      this._statesSubject.next(remaining);
+    }
+    this._save();
+  }
+
+  // ─── Méthodes privées ─────────────────────────────────────────────────────
+
+  private _createCard(word: Word, mode: FlashcardMode): Flashcard | null {
+    const id = `${word.id}:${mode}`;
+
+    switch (mode) {
+      case 'definition': {
+        const definitions = (word.meanings ?? [])
+          .flatMap((meaning) => meaning.definitions ?? [])
+          .map((definition) => definition.definition)
+          .filter(Boolean)
+          .slice(0, 3);
+        if (!definitions.length) return null;
+        return { id, mode, word, prompt: word.word, answers: definitions };
+      }
+      case 'translation': {
+        const translations = (word.translations ?? [])
+          .filter((translation) => translation.translatedWord)
+          .map((translation) =>
+            translation.language
+              ? `${translation.translatedWord} (${translation.language})`
+              : translation.translatedWord,
+          );
+        if (!translations.length) return null;
+        return { id, mode, word, prompt: word.word, answers: translations };
+      }
+      case 'audio': {
+        const audioUrl = Object.values(word.audioFiles ?? {}).find(
+          (file) => file?.url,
+        )?.url;
+        if (!audioUrl) return null;
+        return { id, mode, word, prompt: '', answers: [word.word], audioUrl };
+      }
+    }
+  }
+
+  private _isDue(state: FlashcardReviewState, now: Date): boolean {
+    return new Date(state.dueAt).getTime() <= now.getTime();
+  }
+
+  private _load(userId: string | null): void {
+    this._storageKey = userId ? `oypunu-flashcards-${userId}` : null;
+    if (!this._storageKey) {
+      this._statesSubject.next({});
+      return;
+    }
+
+    try {
+      const saved = localStorage.getItem(this._storageKey);
+      this._statesSubject.next(saved ? JSON.parse(saved) : {});
+    } catch (error) {
+      this.logger.error('Progression des cartes illisible:', error);
+      this._statesSubject.next({});
+    }
+  }
+
+  private _save(): void {
+    if (!this._storageKey) return;
+    try {
+      localStorage.setItem(
+        this._storageKey,
+        JSON.stringify(this._statesSubject.value),
+      );
+    } catch (error) {
+      this.logger.error("Impossible d'enregistrer la progression:", error);
+    }
+  }
+}
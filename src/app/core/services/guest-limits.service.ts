@@ -1,6 +1,7 @@
 import { Injectable } from '@angular/core'
 import { LoggerService } from './logger.service';;
 import { BehaviorSubject, Observable } from 'rxjs';
+import { LocaleService } from './locale.service';
 
 export interface GuestLimits {
   wordsViewed: number;
@@ -34,7 +35,8 @@ export class GuestLimitsService {
   public limits$ = this.limitsSubject.asObservable();
 
   constructor(
-    private logger: LoggerService
+    private logger: LoggerService,
+    private localeService: LocaleService
   ) {
     this.checkAndResetDaily();
   }
@@ -50,7 +52,7 @@ export class GuestLimitsService {
       return {
         allowed: false,
         remaining: 0,
-        message: `Limite atteinte ! Vous avez consulté ${limits.maxWordsPerDay} mots aujourd'hui.`,
+        message: this.localeService.translate('guestLimits.wordLimitReached', { max: limits.maxWordsPerDay }),
         shouldShowSignupPrompt: true
       };
     }
@@ -59,8 +61,8 @@ export class GuestLimitsService {
       allowed: true,
       remaining: remaining - 1, // -1 car on va consommer une consultation
       message: remaining === 1 
-        ? 'Dernière consultation gratuite de la journée !' 
-        : `${remaining - 1} consultations restantes aujourd'hui`,
+        ? this.localeService.translate('guestLimits.lastFreeWord')
+        : this.localeService.translatePlural('guestLimits.wordsRemaining', remaining - 1),
       shouldShowSignupPrompt: remaining <= 1
     };
   }
@@ -76,7 +78,7 @@ export class GuestLimitsService {
       return {
         allowed: false,
         remaining: 0,
-        message: `Limite atteinte ! Vous avez consulté ${limits.maxCommunitiesPerDay} communautés aujourd'hui.`,
+        message: this.localeService.translate('guestLimits.communityLimitReached', { max: limits.maxCommunitiesPerDay }),
         shouldShowSignupPrompt: true
       };
     }
@@ -85,8 +87,8 @@ export class GuestLimitsService {
       allowed: true,
       remaining: remaining - 1,
       message: remaining === 1 
-        ? 'Dernière consultation de communauté gratuite !' 
-        : `${remaining - 1} consultations de communautés restantes`,
+        ? this.localeService.translate('guestLimits.lastFreeCommunity')
+        : this.localeService.translatePlural('guestLimits.communitiesRemaining', remaining - 1),
       shouldShowSignupPrompt: remaining <= 1
     };
   }
@@ -3,6 +3,17 @@ import { HttpClient, HttpParams } from '@angular/common/http';
 import { Observable, throwError, forkJoin, of } from 'rxjs';
 import { timeout, tap, catchError, map } from 'rxjs/operators';
 import { environment } from '../../../environments/environment';
+import {
+  LanguageAlphabet,
+  LATIN_ALPHABET,
+  findBuiltinAlphabet,
+} from '../models/language-alphabet';
+import { AlphabetCollator } from '../i18n/alphabet-collator';
+import {
+  VirtualKeyboardLayout,
+  DEFAULT_KEYBOARD_LAYOUT,
+  COMBINING_MARK_NAMES,
+} from '../models/keyboard-layout';
 
 export interface Language {
   _id: string;
@@ -32,6 +43,8 @@ export interface Language {
   sortOrder?: number;
   wordCount?: number;
   categoryCount?: number;
+  // Alphabet et ordre de tri propres à la langue (fourni par l'API si connu)
+  alphabet?: LanguageAlphabet;
 }
 
 export interface CreateLanguageDto {
@@ -278,6 +291,68 @@ export class LanguagesService {
 
   // ===== MÉTHODES UTILITAIRES =====
 
+  /**
+   * Retourne le code ISO le plus court disponible pour une langue
+   */
+  getLanguageCode(language: Language): string {
+    return language.iso639_1 || language.iso639_2 || language.iso639_3 || language._id;
+  }
+
+  /**
+   * Retourne l'alphabet d'une langue : celui fourni par l'API, sinon un
+   * alphabet connu pour son code ISO, sinon l'alphabet latin A–Z
+   */
+  getLanguageAlphabet(language?: Language | null): LanguageAlphabet {
+    if (!language) return LATIN_ALPHABET;
+    if (language.alphabet?.letters?.length) return language.alphabet;
+
+    const codes = [language.iso639_1, language.iso639_2, language.iso639_3];
+    for (const code of codes) {
+      const alphabet = findBuiltinAlphabet(code);
+      if (alphabet) return alphabet;
+    }
+    return LATIN_ALPHABET;
+  }
+
+  /**
+   * Crée un comparateur respectant l'ordre alphabétique de la langue
+   */
+  createCollator(language?: Language | null): AlphabetCollator {
+    return new AlphabetCollator(this.getLanguageAlphabet(language));
+  }
+
+  /**
+   * Disposition du clavier virtuel d'une langue (objet ou code ISO) :
+   * lettres hors ASCII de son alphabet et tons, sinon disposition par défaut
+   */
+  getKeyboardLayout(language?: Language | string | null): VirtualKeyboardLayout {
+    const alphabet =
+      typeof language === 'string'
+        ? findBuiltinAlphabet(language)
+        : language
+          ? this.getLanguageAlphabet(language)
+          : undefined;
+    if (!alphabet || alphabet === LATIN_ALPHABET) return DEFAULT_KEYBOARD_LAYOUT;
+
+    // Écritures non latines : toutes les lettres ; latin : seulement les lettres spéciales
+    const isLatin = !alphabet.script || alphabet.script === 'Latn';
+    const characters = [
+      ...new Set(
+        alphabet.letters
+          .map((letter) => letter.toLowerCase())
+          .filter((letter) => !isLatin || (letter.length === 1 && /[^\x00-\x7F]/.test(letter)))
+      ),
+    ];
+    const marks = (alphabet.toneMarks ?? []).map((mark) => ({
+      mark,
+      name: COMBINING_MARK_NAMES[mark] ?? mark,
+    }));
+
+    if (!characters.length && !marks.length) return DEFAULT_KEYBOARD_LAYOUT;
+    return { characters, marks, direction: alphabet.direction ?? 'ltr' };
+  }
+
+
   /**
    * Formate le nombre de locuteurs pour l'affichage
    */
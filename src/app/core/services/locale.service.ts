@@ -0,0 +1,137 @@
+import { Injectable, signal } from '@angular/core';
+import { formatDate, formatNumber } from '@angular/common';
+import {
+  AppLocale,
+  CATALOGS,
+  DEFAULT_LOCALE,
+  SUPPORTED_LOCALES,
+} from '../i18n';
+
+export type TranslationParams = Record<string, string | number>;
+
+/**
+ * LocaleService — internationalisation de l'interface
+ *
+ * Traductions à l'exécution à partir des catalogues de core/i18n
+ * (français, anglais, lingala) et formatage des dates et nombres
+ * selon la langue choisie. La langue est persistée dans localStorage
+ * à côté du thème et appliquée via l'attribut `lang` de <html>.
+ */
+@Injectable({ providedIn: 'root' })
+export class LocaleService {
+  private _locale = signal<AppLocale>(DEFAULT_LOCALE);
+
+  /** Signal readonly exposant la langue courante */
+  readonly currentLocale = this._locale.asReadonly();
+
+  readonly supportedLocales = SUPPORTED_LOCALES;
+
+  constructor() {
+    const saved = localStorage.getItem('oypunu-locale');
+    this._apply(
+      this._isSupported(saved) ? saved : this._detectBrowserLocale(),
+    );
+  }
+
+  /** Définit la langue de l'interface */
+  setLocale(locale: AppLocale): void {
+    this._apply(locale);
+  }
+
+  /**
+   * Traduit une clé pointée (ex. `header.dictionary`).
+   * Repli sur le français, puis sur la clé elle-même.
+   */
+  translate(key: string, params?: TranslationParams): string {
+    const value =
+      this._lookup(this._locale(), key) ?? this._lookup(DEFAULT_LOCALE, key);
+
+    if (typeof value !== 'string') return key;
+    return params ? this._interpolate(value, params) : value;
+  }
+
+  /**
+   * Traduit une clé plurielle (`one`/`other`…) selon `count`
+   */
+  translatePlural(
+    key: string,
+    count: number,
+    params: TranslationParams = {},
+  ): string {
+    const category = new Intl.PluralRules(this._locale()).select(count);
+    const forms = this._lookup(this._locale(), key);
+    const pluralKey =
+      forms && typeof forms === 'object' && category in forms
+        ? `${key}.${category}`
+        : `${key}.other`;
+
+    return this.translate(pluralKey, { count, ...params });
+  }
+
+  formatDate(value: string | number | Date, format = 'mediumDate'): string {
+    return formatDate(value, format, this._locale());
+  }
+
+  formatNumber(value: number, digitsInfo?: string): string {
+    return formatNumber(value, this._locale(), digitsInfo);
+  }
+
+  /** Durée relative localisée (« il y a 3 h », « 3 hours ago »…) */
+  formatRelativeTime(value: string | number | Date): string {
+    const seconds = Math.round(
+      (new Date(value).getTime() - Date.now()) / 1000,
+    );
+    const units: [Intl.RelativeTimeFormatUnit, number][] = [
+      ['year', 31536000],
+      ['month', 2592000],
+      ['week', 604800],
+      ['day', 86400],
+      ['hour', 3600],
+      ['minute', 60],
+    ];
+    const rtf = new Intl.RelativeTimeFormat(this._locale(), {
+      numeric: 'auto',
+      style: 'short',
+    });
+
+    for (const [unit, size] of units) {
+      if (Math.abs(seconds) >= size) {
+        return rtf.format(Math.round(seconds / size), unit);
+      }
+    }
+    return rtf.format(seconds, 'second');
+  }
+
+  private _apply(locale: AppLocale): void {
+    this._locale.set(locale);
+    document.documentElement.setAttribute('lang', locale);
+    localStorage.setItem('oypunu-locale', locale);
+  }
+
+  private _lookup(locale: AppLocale, key: string): unknown {
+    return key
+      .split('.')
+      .reduce<unknown>(
+        (node, part) =>
+          node && typeof node === 'object'
+            ? (node as Record<string, unknown>)[part]
+            : undefined,
+        CATALOGS[locale],
+      );
+  }
+
+  private _interpolate(value: string, params: TranslationParams): string {
+    return value.replace(/\{(\w+)\}/g, (match, name) =>
+      params[name] !== undefined ? String(params[name]) : match,
+    );
+  }
+
+  private _isSupported(locale: string | null): locale is AppLocale {
+    return this.supportedLocales.some((l) => l.code === locale);
+  }
+
+  private _detectBrowserLocale(): AppLocale {
+    const browserLocale = (navigator.language || '').slice(0, 2);
+    return this._isSupported(browserLocale) ? browserLocale : DEFAULT_LOCALE;
+  }
+}
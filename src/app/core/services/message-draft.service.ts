@@ -0,0 +1,139 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { distinctUntilChanged, map } from 'rxjs/operators';
+import { MessageDraft } from '../models/message';
+import { AuthService } from './auth.service';
+import { LoggerService } from './logger.service';
+
+/**
+ * Image jointe à un brouillon, avec son aperçu déjà lu
+ */
+export interface DraftAttachment {
+  file: File;
+  preview: string | null;
+}
+
+/**
+ * MessageDraftService
+ *
+ * Brouillons de la zone de saisie, par conversation. Le texte est
+ * persisté par utilisateur dans localStorage ; les images jointes ne
+ * survivent qu'à la session (un fichier ne se sérialise pas).
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class MessageDraftService {
+  private _storageKey: string | null = null;
+  private _attachments = new Map<string, DraftAttachment>();
+
+  private _draftsSubject = new BehaviorSubject<Record<string, MessageDraft>>({});
+  public drafts$: Observable<Record<string, MessageDraft>> =
+    this._draftsSubject.asObservable();
+
+  constructor(
+    private _authService: AuthService,
+    private logger: LoggerService,
+  ) {
+    this._authService.currentUser$
+      .pipe(
+        map((user) => user?.id ?? null),
+        distinctUntilChanged(),
+      )
+      .subscribe((userId) => this._load(userId));
+  }
+
+  getDraft(conversationId: string): MessageDraft | null {
+    return this._draftsSubject.value[conversationId] ?? null;
+  }
+
+  getAttachment(conversationId: string): DraftAttachment | null {
+    return this._attachments.get(conversationId) ?? null;
+  }
+
+  /**
+   * Enregistre le brouillon ; un brouillon vide est supprimé
+   */
+  save(
+    conversationId: string,
+    content: string,
+    attachment: DraftAttachment | null = null,
+  ): void {
+    const text = content ?? '';
+    if (!text.trim() && !attachment) {
+      this.clear(conversationId);
+      return;
+    }
+
+    if (attachment) {
+      this._attachments.set(conversationId, attachment);
+    } else {
+      this._attachments.delete(conversationId);
+    }
+
+    const current = this.getDraft(conversationId);
+    if (
+      current &&
+      current.content === text &&
+      current.attachmentName === attachment?.file.name
+    ) {
+      return;
+    }
+
+    this._save({
+      ...this._draftsSubject.value,
+      [conversationId]: {
+        content: text,
+        ...(attachment && { attachmentName: attachment.file.name }),
+        updatedAt: new Date().toISOString(),
+      },
+    });
+  }
+
+  clear(conversationId: string): void {
+    this._attachments.delete(conversationId);
+    if (!this.getDraft(conversationId)) return;
+
+    const { [conversationId]: _removed, ...drafts } = this._draftsSubject.value;
+    this._save(drafts);
+  }
+
+  // ============= MÉTHODES PRIVÉES =============
+
+  private _load(userId: string | null): void {
+    this._attachments.clear();
+    this._storageKey = userId ? `oypunu-message-drafts-${userId}` : null;
+    if (!this._storageKey) {
+      this._draftsSubject.next({});
+      return;
+    }
+
+    try {
+      const saved = localStorage.getItem(this._storageKey);
+      const drafts: Record<string, MessageDraft> = saved ? JSON.parse(saved) : {};
+      // Les images jointes sont perdues au rechargement : seul le texte reste
+      Object.keys(drafts).forEach((conversationId) => {
+        const { attachmentName, ...draft } = drafts[conversationId];
+        if (draft.content?.trim()) {
+          drafts[conversationId] = draft;
+        } else {
+          delete drafts[conversationId];
+        }
+      });
+      this._draftsSubject.next(drafts);
+    } catch (error) {
+      this.logger.error('Brouillons de messages illisibles:', error);
+      this._draftsSubject.next({});
+    }
+  }
+
+  private _save(drafts: Record<string, MessageDraft>): void {
+    this._draftsSubject.next(drafts);
+    if (!this._storageKey) return;
+    try {
+      localStorage.setItem(this._storageKey, JSON.stringify(drafts));
+    } catch (error) {
+      this.logger.error("Impossible d'enregistrer les brouillons:", error);
+    }
+  }
+}
@@ -0,0 +1,332 @@
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import { distinctUntilChanged, map } from 'rxjs/operators';
+import { Message, SendMessageRequest } from '../models/message';
+import { AuthService } from './auth.service';
+import { LoggerService } from './logger.service';
+import { MessageSendError, MessagingService } from './messaging.service';
+import { WebSocketService } from './websocket.service';
+
+// Sans écho du serveur dans ce délai, l'envoi WebSocket passe en échec
+// (le message a pu être enregistré : pas de renvoi automatique)
+const SOCKET_ACK_TIMEOUT_MS = 15000;
+// Écho sans clientMessageId : rapproché d'un envoi de même contenu dans ce délai
+const ACK_MATCH_WINDOW_MS = 2 * 60 * 1000;
+// Nouvel essai HTTP après une erreur serveur ou réseau (délai doublé à chaque échec)
+const HTTP_RETRY_BASE_DELAY_MS = 5000;
+const HTTP_RETRY_MAX_DELAY_MS = 60000;
+
+export type OutgoingMessageStatus = 'pending' | 'failed';
+
+/**
+ * Message affiché immédiatement, en attente de confirmation du serveur
+ */
+export interface OutgoingMessage {
+  clientMessageId: string;
+  // null tant que le premier message n'a pas créé la conversation
+  conversationId: string | null;
+  request: SendMessageRequest;
+  status: OutgoingMessageStatus;
+  error?: string;
+  createdAt: string;
+}
+
+/**
+ * MessageOutboxService
+ *
+ * File d'envoi des messages texte (texte, mot partagé, correction).
+ * Les messages non confirmés sont persistés par utilisateur dans
+ * localStorage et renvoyés au retour de la connexion ; les médias
+ * restent envoyés directement.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class MessageOutboxService {
+  private _storageKey: string | null = null;
+  // Envois en cours : minuteur (écho WebSocket ou nouvel essai HTTP), ou null (HTTP)
+  private _inFlight = new Map<string, ReturnType<typeof setTimeout> | null>();
+  // Date du dernier envoi de chaque message, pour le rapprochement par contenu
+  private _sentAt = new Map<string, number>();
+  private _httpAttempts = new Map<string, number>();
+
+  private _entriesSubject = new BehaviorSubject<OutgoingMessage[]>([]);
+  public entries$: Observable<OutgoingMessage[]> =
+    this._entriesSubject.asObservable();
+
+  private _sentSubject = new Subject<{
+    entry: OutgoingMessage;
+    message: Message;
+  }>();
+  public sent$ = this._sentSubject.asObservable();
+
+  constructor(
+    private _messagingService: MessagingService,
+    private _webSocketService: WebSocketService,
+    private _authService: AuthService,
+    private _ngZone: NgZone,
+    private logger: LoggerService,
+  ) {
+    this._authService.currentUser$
+      .pipe(
+        map((user) => user?.id ?? null),
+        distinctUntilChanged(),
+      )
+      .subscribe((userId) => this._load(userId));
+
+    this._webSocketService
+      .getConnectionStatus()
+      .pipe(distinctUntilChanged())
+      .subscribe((connected) => {
+        // Les envois WebSocket sans écho ne sont pas réémis : le serveur
+        // a pu les enregistrer avant la coupure
+        if (connected) this.flush();
+      });
+
+    this._webSocketService.newMessage$.subscribe((message) =>
+      this._acknowledge(message),
+    );
+
+    window.addEventListener('online', () =>
+      this._ngZone.run(() => this.flush()),
+    );
+  }
+
+  /**
+   * Ajoute un message à la file et tente de l'envoyer immédiatement
+   */
+  send(
+    request: SendMessageRequest,
+    conversationId: string | null,
+  ): OutgoingMessage {
+    const clientMessageId = `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+    const entry: OutgoingMessage = {
+      clientMessageId,
+      conversationId,
+      request: { ...request, clientMessageId },
+      status: 'pending',
+      createdAt: new Date().toISOString(),
+    };
+
+    this._save([...this._entriesSubject.value, entry]);
+    this._deliver(entry);
+    return entry;
+  }
+
+  /**
+   * Renvoie les messages en attente (retour de la connexion)
+   */
+  flush(): void {
+    this._entriesSubject.value
+      .filter((entry) => entry.status === 'pending')
+      .forEach((entry) => this._deliver(entry));
+  }
+
+  /**
+   * Relance manuellement un message en échec
+   */
+  retry(clientMessageId: string): void {
+    const entry = this._update(clientMessageId, {
+      status: 'pending',
+      error: undefined,
+    });
+    if (entry) this._deliver(entry);
+  }
+
+  /**
+   * Abandonne un message non envoyé
+   */
+  remove(clientMessageId: string): void {
+    this._clearInFlight(clientMessageId);
+    this._save(
+      this._entriesSubject.value.filter(
+        (entry) => entry.clientMessageId !== clientMessageId,
+      ),
+    );
+  }
+
+  // ============= MÉTHODES PRIVÉES =============
+
+  private _deliver(entry: OutgoingMessage): void {
+    const id = entry.clientMessageId;
+    if (this._inFlight.has(id)) return;
+
+    // Le WebSocket ne sait pas créer de conversation : premier message par HTTP
+    if (entry.conversationId && this._webSocketService.isConnected()) {
+      if (this._webSocketService.sendMessage(entry.request)) {
+        this._inFlight.set(
+          id,
+          setTimeout(() => {
+            // Un écho tardif confirmera encore l'entrée (voir _acknowledge)
+            this._inFlight.delete(id);
+            this._update(id, {
+              status: 'failed',
+              error: "Le serveur n'a pas confirmé l'envoi",
+            });
+          }, SOCKET_ACK_TIMEOUT_MS),
+        );
+        this._sentAt.set(id, Date.now());
+        return;
+      }
+    }
+
+    this._sendHttp(entry);
+  }
+
+  private _sendHttp(entry: OutgoingMessage): void {
+    const id = entry.clientMessageId;
+
+    // Hors ligne : le message reste en attente jusqu'au retour du réseau
+    if (!navigator.onLine) return;
+
+    this._inFlight.set(id, null);
+    this._sentAt.set(id, Date.now());
+    this._messagingService.sendMessage(entry.request).subscribe({
+      next: (response) => {
+        this._inFlight.delete(id);
+        this._confirm(entry, response.data);
+      },
+      error: (error: MessageSendError) => {
+        this._inFlight.delete(id);
+        // Coupure pendant l'envoi : nouvel essai au retour du réseau
+        if (!navigator.onLine) return;
+        // Requête refusée (4xx) : inutile de la renvoyer telle quelle
+        if (error.status >= 400 && error.status < 500) {
+          this._update(id, { status: 'failed', error: error.message });
+          return;
+        }
+        this._scheduleHttpRetry(entry);
+      },
+    });
+  }
+
+  /**
+   * Erreur serveur ou réseau : le message reste en attente et repart
+   * après un délai croissant
+   */
+  private _scheduleHttpRetry(entry: OutgoingMessage): void {
+    const id = entry.clientMessageId;
+    const attempts = (this._httpAttempts.get(id) ?? 0) + 1;
+    this._httpAttempts.set(id, attempts);
+
+    const delay = Math.min(
+      HTTP_RETRY_BASE_DELAY_MS * 2 ** (attempts - 1),
+      HTTP_RETRY_MAX_DELAY_MS,
+    );
+    this._inFlight.set(
+      id,
+      setTimeout(() => {
+        this._inFlight.delete(id);
+        const current = this._entriesSubject.value.find(
+          (e) => e.clientMessageId === id,
+        );
+        if (current?.status === 'pending') this._deliver(current);
+      }, delay),
+    );
+  }
+
+  /**
+   * Rapproche un message reçu du serveur de l'entrée correspondante
+   */
+  private _acknowledge(message: Message): void {
+    if (message.senderId?.id !== this._authService.getCurrentUserId()) return;
+
+    const entries = this._entriesSubject.value;
+    const entry = message.clientMessageId
+      ? entries.find((e) => e.clientMessageId === message.clientMessageId)
+      : this._matchByContent(entries, message);
+
+    if (entry) this._confirm(entry, message);
+  }
+
+  private _confirm(entry: OutgoingMessage, message: Message): void {
+    if (
+      !this._entriesSubject.value.some(
+        (e) => e.clientMessageId === entry.clientMessageId,
+      )
+    ) {
+      return;
+    }
+    this.remove(entry.clientMessageId);
+    this._sentSubject.next({ entry, message });
+  }
+
+  /**
+   * Serveur sans écho de l'identifiant : même conversation, même contenu,
+   * envoyé récemment ; le plus ancien envoi est confirmé en premier
+   */
+  private _matchByContent(
+    entries: OutgoingMessage[],
+    message: Message,
+  ): OutgoingMessage | undefined {
+    const now = Date.now();
+    return entries
+      .filter((e) => {
+        const sentAt = this._sentAt.get(e.clientMessageId);
+        return (
+          sentAt !== undefined &&
+          now - sentAt <= ACK_MATCH_WINDOW_MS &&
+          e.conversationId === message.conversationId &&
+          e.request.content === message.content
+        );
+      })
+      .sort(
+        (a, b) =>
+          this._sentAt.get(a.clientMessageId)! -
+          this._sentAt.get(b.clientMessageId)!,
+      )[0];
+  }
+
+  private _clearInFlight(clientMessageId: string): void {
+    const timer = this._inFlight.get(clientMessageId);
+    if (timer) clearTimeout(timer);
+    this._inFlight.delete(clientMessageId);
+    this._sentAt.delete(clientMessageId);
+    this._httpAttempts.delete(clientMessageId);
+  }
+
+  private _update(
+    clientMessageId: string,
+    changes: Partial<OutgoingMessage>,
+  ): OutgoingMessage | null {
+    let updated: OutgoingMessage | null = null;
+    this._save(
+      this._entriesSubject.value.map((entry) => {
+        if (entry.clientMessageId !== clientMessageId) return entry;
+        updated = { ...entry, ...changes };
+        return updated;
+      }),
+    );
+    return updated;
+  }
+
+  private _load(userId: string | null): void {
+    this._inFlight.forEach((_, id) => this._clearInFlight(id));
+    this._sentAt.clear();
+    this._httpAttempts.clear();
+    this._storageKey = userId ? `oypunu-message-outbox-${userId}` : null;
+    if (!this._storageKey) {
+      this._entriesSubject.next([]);
+      return;
+    }
+
+    try {
+      const saved = localStorage.getItem(this._storageKey);
+      this._entriesSubject.next(saved ? JSON.parse(saved) : []);
+    } catch (error) {
+      this.logger.error("File d'envoi des messages illisible:", error);
+      this._entriesSubject.next([]);
+    }
+    this.flush();
+  }
+
+  private _save(entries: OutgoingMessage[]): void {
+    this._entriesSubject.next(entries);
+    if (!this._storageKey) return;
+    try {
+      localStorage.setItem(this._storageKey, JSON.stringify(entries));
+    } catch (error) {
+      this.logger.error("Impossible d'enregistrer la file d'envoi:", error);
+    }
+  }
+}
@@ -1,14 +1,40 @@
 import { Injectable } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
-import { Observable, throwError } from 'rxjs';
-import { catchError, map } from 'rxjs/operators';
+import { Observable, Subject, throwError } from 'rxjs';
+import { catchError, map, tap } from 'rxjs/operators';
 import { environment } from '../../../environments/environment';
 import {
   Message,
   Conversation,
+  ConversationFolder,
+  ConversationMember,
+  ConversationRole,
+  ConversationMute,
+  ConversationPreferences,
+  ConversationPreferencesRequest,
+  CreateGroupRequest,
   SendMessageRequest,
   MessagesResponse,
+  MessageContextResponse,
+  MessageSearchParams,
+  MessageSearchResponse,
+  ScheduledMessage,
+  ScheduleMessageRequest,
+  SharedWord,
+  UpdateScheduledMessageRequest,
+  User,
 } from '../models/message';
+import { Word } from '../models/word';
+
+/**
+ * Échec d'envoi d'un message, avec le statut HTTP (0 : réseau)
+ */
+export class MessageSendError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'MessageSendError';
+  }
+}
 
 @Injectable({
   providedIn: 'root',
@@ -16,6 +42,11 @@ import {
 export class MessagingService {
   private readonly _API_URL = `${environment.apiUrl}/messaging`;
 
+  // Émet l'id d'une conversation dont le rangement ou la sourdine a changé
+  private _conversationStateChanged = new Subject<string>();
+  public conversationStateChanged$: Observable<string> =
+    this._conversationStateChanged.asObservable();
+
   constructor(private _http: HttpClient) {}
 
   /**
@@ -33,7 +64,9 @@ export class MessagingService {
         catchError((error) => {
           const errorMessage =
             error.error?.message || "Erreur lors de l'envoi du message";
-          return throwError(() => new Error(errorMessage));
+          return throwError(
+            () => new MessageSendError(errorMessage, error.status ?? 0)
+          );
         })
       );
   }
@@ -47,42 +80,9 @@ export class MessagingService {
         `${this._API_URL}/conversations`
       )
       .pipe(
-        map((response) => {
-          const raw = response.data || [];
-          return raw.map((conv: any) => {
-            const convId = conv._id || conv.id;
-            const normalizedParticipants = (conv.participants || []).map((p: any) => ({
-              ...p,
-              id: p.id || p.userId,
-              profilePicture: p.profilePicture || p.avatar,
-            }));
-            return {
-              ...conv,
-              _id: convId,
-              participants: normalizedParticipants,
-              lastMessage: conv.lastMessage
-                ? {
-                    ...conv.lastMessage,
-                    _id: conv.lastMessage._id || conv.lastMessage.id,
-                    senderId: (() => {
-                      const sid = conv.lastMessage.senderId;
-                      if (!sid) return { username: '', id: '' };
-                      if (typeof sid === 'string') {
-                        // Resolve sender username from participants
-                        const match = normalizedParticipants.find(
-                          (p: any) => p.id === sid || p.userId === sid
-                        );
-                        return match
-                          ? { id: sid, username: match.username, profilePicture: match.profilePicture }
-                          : { id: sid, username: '' };
-                      }
-                      return { id: sid.id || sid._id?.toString() || '', ...sid };
-                    })(),
-                  }
-                : undefined,
-            } as Conversation;
-          });
-        }),
+        map((response) =>
+          (response.data || []).map((conv: any) => this.normalizeConversation(conv))
+        ),
         catchError((error) => {
           const errorMessage =
             error.error?.message ||
@@ -142,12 +142,19 @@ export class MessagingService {
   }
 
   /**
-   * Récupérer le nombre de messages non lus
+   * Récupérer le nombre de messages non lus, hors conversations archivées
+   * et en sourdine ; les conversations marquées non lues comptent pour un
    */
   getUnreadMessagesCount(): Observable<number> {
+    const params = new HttpParams()
+      .set('excludeArchived', 'true')
+      .set('excludeMuted', 'true')
+      .set('includeMarkedUnread', 'true');
+
     return this._http
       .get<{ success: boolean; data: { count: number } }>(
-        `${this._API_URL}/unread-count`
+        `${this._API_URL}/unread-count`,
+        { params }
       )
       .pipe(
         map((response) => response.data.count),
@@ -166,14 +173,572 @@ export class MessagingService {
   findConversationWithUser(userId: string): Observable<Conversation | null> {
     return this.getUserConversations().pipe(
       map((conversations) => {
-        const conversation = conversations.find((conv) =>
-          conv.participants.some((participant) => participant.id === userId)
+        const conversation = conversations.find(
+          (conv) =>
+            !this.isGroup(conv) &&
+            conv.participants.some((participant) => participant.id === userId)
         );
         return conversation || null;
       })
     );
   }
 
+  // ===== GROUPES =====
+
+  /**
+   * Créer une conversation de groupe (le créateur en devient administrateur)
+   */
+  createGroup(payload: CreateGroupRequest): Observable<Conversation> {
+    return this._http
+      .post<{ success: boolean; data: any }>(`${this._API_URL}/groups`, payload)
+      .pipe(
+        map((response) => this.normalizeConversation(response.data)),
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || 'Erreur lors de la création du groupe')
+          );
+        })
+      );
+  }
+
+  /**
+   * Modifier le titre ou l'avatar d'un groupe (administrateurs)
+   */
+  updateGroup(
+    conversationId: string,
+    changes: { title?: string; avatarUrl?: string }
+  ): Observable<Conversation> {
+    return this._http
+      .patch<{ success: boolean; data: any }>(
+        `${this._API_URL}/groups/${conversationId}`,
+        changes
+      )
+      .pipe(
+        map((response) => this.normalizeConversation(response.data)),
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || 'Erreur lors de la modification du groupe')
+          );
+        })
+      );
+  }
+
+  uploadGroupAvatar(conversationId: string, file: File): Observable<Conversation> {
+    const formData = new FormData();
+    formData.append('avatar', file);
+
+    return this._http
+      .post<{ success: boolean; data: any }>(
+        `${this._API_URL}/groups/${conversationId}/avatar`,
+        formData
+      )
+      .pipe(
+        map((response) => this.normalizeConversation(response.data)),
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || "Erreur lors de l'envoi de l'avatar")
+          );
+        })
+      );
+  }
+
+  addGroupMembers(conversationId: string, userIds: string[]): Observable<Conversation> {
+    return this._http
+      .post<{ success: boolean; data: any }>(
+        `${this._API_URL}/groups/${conversationId}/members`,
+        { userIds }
+      )
+      .pipe(
+        map((response) => this.normalizeConversation(response.data)),
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || "Erreur lors de l'ajout des membres")
+          );
+        })
+      );
+  }
+
+  /**
+   * Retirer un membre ; un membre qui se retire lui-même quitte le groupe
+   */
+  removeGroupMember(conversationId: string, userId: string): Observable<Conversation> {
+    return this._http
+      .delete<{ success: boolean; data: any }>(
+        `${this._API_URL}/groups/${conversationId}/members/${userId}`
+      )
+      .pipe(
+        map((response) => this.normalizeConversation(response.data)),
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || 'Erreur lors du retrait du membre')
+          );
+        })
+      );
+  }
+
+  setGroupMemberRole(
+    conversationId: string,
+    userId: string,
+    role: ConversationRole
+  ): Observable<Conversation> {
+    return this._http
+      .patch<{ success: boolean; data: any }>(
+        `${this._API_URL}/groups/${conversationId}/members/${userId}`,
+        { role }
+      )
+      .pipe(
+        map((response) => this.normalizeConversation(response.data)),
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || 'Erreur lors du changement de rôle')
+          );
+        })
+      );
+  }
+
+  // ===== SALONS DE COMMUNAUTÉ =====
+
+  /**
+   * Créer le salon de discussion lié à une communauté (administrateurs)
+   */
+  createCommunityChannel(communityId: string): Observable<Conversation> {
+    return this._http
+      .post<{ success: boolean; data: any }>(
+        `${this._API_URL}/communities/${communityId}/channel`,
+        {}
+      )
+      .pipe(
+        map((response) => this.normalizeConversation(response.data)),
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || 'Erreur lors de la création du salon')
+          );
+        })
+      );
+  }
+
+  /**
+   * Rejoindre le salon d'une communauté dont on est membre
+   */
+  joinCommunityChannel(communityId: string): Observable<Conversation> {
+    return this._http
+      .post<{ success: boolean; data: any }>(
+        `${this._API_URL}/communities/${communityId}/channel/join`,
+        {}
+      )
+      .pipe(
+        map((response) => this.normalizeConversation(response.data)),
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || "Impossible d'ouvrir le salon")
+          );
+        })
+      );
+  }
+
+  // ===== AFFICHAGE =====
+
+  isGroup(conversation: Conversation | null | undefined): boolean {
+    return conversation?.type === 'group';
+  }
+
+  /**
+   * Interlocuteur d'une conversation directe
+   */
+  getOtherParticipant(
+    conversation: Conversation | null | undefined,
+    currentUserId: string | null
+  ): User | undefined {
+    if (!conversation) return undefined;
+    return (
+      conversation.participants.find((p) => p.id !== currentUserId) ||
+      conversation.participants[0]
+    );
+  }
+
+  /**
+   * Titre affiché : nom du groupe (ou de ses membres), sinon l'interlocuteur
+   */
+  getConversationTitle(conversation: Conversation, currentUserId: string | null): string {
+    if (!this.isGroup(conversation)) {
+      return this.getOtherParticipant(conversation, currentUserId)?.username || '';
+    }
+    if (conversation.title) return conversation.title;
+    return conversation.participants
+      .filter((p) => p.id !== currentUserId)
+      .map((p) => p.username)
+      .join(', ');
+  }
+
+  getMemberRole(conversation: Conversation | null, userId: string | null): ConversationRole | null {
+    if (!conversation || !userId) return null;
+    return conversation.members?.find((m) => m.userId === userId)?.role ?? null;
+  }
+
+  isGroupAdmin(conversation: Conversation | null, userId: string | null): boolean {
+    return this.getMemberRole(conversation, userId) === 'admin';
+  }
+
+  /**
+   * Membres (hors expéditeur) ayant lu un message de groupe
+   */
+  getReadBy(conversation: Conversation, message: Message): User[] {
+    const sentAt = new Date(message.createdAt).getTime();
+    const readerIds = new Set(
+      (conversation.members ?? [])
+        .filter(
+          (member) =>
+            member.userId !== message.senderId?.id &&
+            member.lastReadAt &&
+            new Date(member.lastReadAt).getTime() >= sentAt
+        )
+        .map((member) => member.userId)
+    );
+    return conversation.participants.filter((p) => readerIds.has(p.id));
+  }
+
+  /**
+   * Fiche compacte d'un mot pour un message 'word_share'
+   */
+  toSharedWord(word: Word): SharedWord {
+    const meaning = word.meanings?.[0];
+    const audio = Object.values(word.audioFiles || {})[0];
+
+    return {
+      wordId: word.id,
+      word: word.word,
+      language: word.language,
+      pronunciation: word.pronunciation || meaning?.phonetics?.[0]?.text || undefined,
+      audioUrl: audio?.url || meaning?.phonetics?.find((p) => p.audio)?.audio,
+      partOfSpeech: meaning?.partOfSpeech,
+      definition: meaning?.definitions?.[0]?.definition,
+      translations: (word.translations || []).slice(0, 3).map((t) => ({
+        language: t.language,
+        translatedWord: t.translatedWord,
+      })),
+    };
+  }
+
+  /**
+   * Normalise une conversation brute de l'API (ids, participants, membres)
+   */
+  normalizeConversation(conv: any): Conversation {
+    const convId = conv._id || conv.id;
+    const normalizedParticipants = (conv.participants || []).map((p: any) => ({
+      ...p,
+      id: p.id || p.userId || p._id?.toString(),
+      profilePicture: p.profilePicture || p.avatar,
+    }));
+    const members: ConversationMember[] | undefined = conv.members?.map((m: any) => ({
+      ...m,
+      userId:
+        typeof m.userId === 'string'
+          ? m.userId
+          : m.userId?.id || m.userId?._id?.toString() || m.id,
+      role: m.role === 'admin' ? 'admin' : 'member',
+    }));
+
+    return {
+      ...conv,
+      _id: convId,
+      type: conv.type === 'group' ? 'group' : 'direct',
+      participants: normalizedParticipants,
+      members,
+      lastMessage: conv.lastMessage
+        ? {
+            ...conv.lastMessage,
+            _id: conv.lastMessage._id || conv.lastMessage.id,
+            senderId: (() => {
+              const sid = conv.lastMessage.senderId;
+              if (!sid) return { username: '', id: '' };
+              if (typeof sid === 'string') {
+                // Resolve sender username from participants
+                const match = normalizedParticipants.find(
+                  (p: any) => p.id === sid || p.userId === sid
+                );
+                return match
+                  ? { id: sid, username: match.username, profilePicture: match.profilePicture }
+                  : { id: sid, username: '' };
+              }
+              return { id: sid.id || sid._id?.toString() || '', ...sid };
+            })(),
+          }
+        : undefined,
+    } as Conversation;
+  }
+
+  // ===== RECHERCHE =====
+
+  /**
+   * Rechercher dans le contenu des messages de toutes les conversations
+   */
+  searchMessages(params: MessageSearchParams): Observable<MessageSearchResponse> {
+    let httpParams = new HttpParams()
+      .set('query', params.query)
+      .set('page', (params.page ?? 1).toString())
+      .set('limit', (params.limit ?? 20).toString());
+
+    if (params.participantId) httpParams = httpParams.set('participantId', params.participantId);
+    if (params.from) httpParams = httpParams.set('from', params.from);
+    if (params.to) httpParams = httpParams.set('to', params.to);
+    if (params.messageType) httpParams = httpParams.set('messageType', params.messageType);
+
+    return this._http
+      .get<{ success: boolean; data: MessageSearchResponse }>(
+        `${this._API_URL}/search`,
+        { params: httpParams }
+      )
+      .pipe(
+        map((response) => ({
+          ...response.data,
+          results: (response.data.results || []).map((result) => ({
+            message: result.message,
+            conversation: this.normalizeConversation(result.conversation),
+          })),
+        })),
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || 'Erreur lors de la recherche des messages')
+          );
+        })
+      );
+  }
+
+  /**
+   * Charger les messages autour d'un message (résultat de recherche, citation ancienne)
+   */
+  getMessageContext(messageId: string, limit: number = 20): Observable<MessageContextResponse> {
+    const params = new HttpParams().set('limit', limit.toString());
+
+    return this._http
+      .get<{ success: boolean; data: MessageContextResponse }>(
+        `${this._API_URL}/messages/${messageId}/context`,
+        { params }
+      )
+      .pipe(
+        map((response) => response.data),
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || 'Impossible de retrouver ce message')
+          );
+        })
+      );
+  }
+
+  // ===== SOURDINE ET SIGNALEMENTS =====
+
+  /**
+   * Couper les notifications d'une conversation (until null : jusqu'à réactivation)
+   */
+  muteConversation(conversationId: string, until: string | null): Observable<ConversationMute> {
+    return this._http
+      .put<{ success: boolean; data: ConversationMute }>(
+        `${this._API_URL}/conversations/${conversationId}/mute`,
+        { until }
+      )
+      .pipe(
+        map((response) => response.data ?? { until }),
+        tap(() => this._conversationStateChanged.next(conversationId)),
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || 'Impossible de mettre la conversation en sourdine')
+          );
+        })
+      );
+  }
+
+  unmuteConversation(conversationId: string): Observable<void> {
+    return this._http
+      .delete<void>(`${this._API_URL}/conversations/${conversationId}/mute`)
+      .pipe(
+        tap(() => this._conversationStateChanged.next(conversationId)),
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || 'Impossible de réactiver les notifications')
+          );
+        })
+      );
+  }
+
+  isConversationMuted(conversation: Conversation): boolean {
+    const mute = conversation.muted;
+    if (!mute) return false;
+    return !mute.until || new Date(mute.until).getTime() > Date.now();
+  }
+
+  /**
+   * Signaler un message à la modération
+   */
+  reportMessage(messageId: string, reason: string, description?: string): Observable<void> {
+    return this._http
+      .post<void>(`${this._API_URL}/messages/${messageId}/report`, {
+        reason,
+        ...(description && { description }),
+      })
+      .pipe(
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || 'Impossible de signaler ce message')
+          );
+        })
+      );
+  }
+
+  // ===== RANGEMENT DES CONVERSATIONS =====
+
+  /**
+   * Épingler, archiver, marquer non lue ou classer une conversation
+   */
+  updateConversationPreferences(
+    conversationId: string,
+    changes: ConversationPreferencesRequest
+  ): Observable<ConversationPreferences> {
+    return this._http
+      .patch<{ success: boolean; data: ConversationPreferences }>(
+        `${this._API_URL}/conversations/${conversationId}/preferences`,
+        changes
+      )
+      .pipe(
+        map((response) => response.data),
+        tap(() => this._conversationStateChanged.next(conversationId)),
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || 'Impossible de modifier la conversation')
+          );
+        })
+      );
+  }
+
+  isConversationPinned(conversation: Conversation): boolean {
+    return !!conversation.pinnedAt;
+  }
+
+  isConversationArchived(conversation: Conversation): boolean {
+    return !!conversation.archivedAt;
+  }
+
+  getConversationFolders(): Observable<ConversationFolder[]> {
+    return this._http
+      .get<{ success: boolean; data: ConversationFolder[] }>(`${this._API_URL}/folders`)
+      .pipe(
+        map((response) => response.data || []),
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || 'Erreur lors du chargement des dossiers')
+          );
+        })
+      );
+  }
+
+  createConversationFolder(name: string): Observable<ConversationFolder> {
+    return this._http
+      .post<{ success: boolean; data: ConversationFolder }>(`${this._API_URL}/folders`, { name })
+      .pipe(
+        map((response) => response.data),
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || 'Impossible de créer le dossier')
+          );
+        })
+      );
+  }
+
+  renameConversationFolder(folderId: string, name: string): Observable<ConversationFolder> {
+    return this._http
+      .patch<{ success: boolean; data: ConversationFolder }>(
+        `${this._API_URL}/folders/${folderId}`,
+        { name }
+      )
+      .pipe(
+        map((response) => response.data),
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || 'Impossible de renommer le dossier')
+          );
+        })
+      );
+  }
+
+  /**
+   * Supprimer un dossier ; ses conversations retournent dans « Toutes »
+   */
+  deleteConversationFolder(folderId: string): Observable<void> {
+    return this._http.delete<void>(`${this._API_URL}/folders/${folderId}`).pipe(
+      catchError((error) => {
+        return throwError(
+          () => new Error(error.error?.message || 'Impossible de supprimer le dossier')
+        );
+      })
+    );
+  }
+
+  // ===== MESSAGES PROGRAMMÉS =====
+
+  getScheduledMessages(conversationId: string): Observable<ScheduledMessage[]> {
+    const params = new HttpParams().set('conversationId', conversationId);
+
+    return this._http
+      .get<{ success: boolean; data: ScheduledMessage[] }>(
+        `${this._API_URL}/scheduled`,
+        { params }
+      )
+      .pipe(
+        map((response) => response.data || []),
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || 'Impossible de charger les messages programmés')
+          );
+        })
+      );
+  }
+
+  scheduleMessage(request: ScheduleMessageRequest): Observable<ScheduledMessage> {
+    return this._http
+      .post<{ success: boolean; data: ScheduledMessage }>(
+        `${this._API_URL}/scheduled`,
+        request
+      )
+      .pipe(
+        map((response) => response.data),
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || 'Impossible de programmer le message')
+          );
+        })
+      );
+  }
+
+  updateScheduledMessage(
+    scheduledMessageId: string,
+    changes: UpdateScheduledMessageRequest
+  ): Observable<ScheduledMessage> {
+    return this._http
+      .patch<{ success: boolean; data: ScheduledMessage }>(
+        `${this._API_URL}/scheduled/${scheduledMessageId}`,
+        changes
+      )
+      .pipe(
+        map((response) => response.data),
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || 'Impossible de modifier le message programmé')
+          );
+        })
+      );
+  }
+
+  cancelScheduledMessage(scheduledMessageId: string): Observable<void> {
+    return this._http
+      .delete<void>(`${this._API_URL}/scheduled/${scheduledMessageId}`)
+      .pipe(
+        catchError((error) => {
+          return throwError(
+            () => new Error(error.error?.message || "Impossible d'annuler le message programmé")
+          );
+        })
+      );
+  }
+
   // ===== API ENHANCED =====
 
   deleteMessage(
@@ -0,0 +1,414 @@
+import { Injectable } from '@angular/core';
+import { Observable, from, of } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+import { LoggerService } from './logger.service';
+import { Word } from '../models/word';
+import { SearchParams } from '../models/search-params';
+import { SearchResults } from '../models/search-results';
+import { SearchQueryService } from './search-query.service';
+import { SearchFoldingService } from './search-folding.service';
+
+/**
+ * Enregistrement persisté dans IndexedDB pour un mot consultable hors ligne
+ */
+export interface OfflineWordRecord {
+  id: string;
+  word: Word;
+  isFavorite: boolean;
+  lastViewedAt?: string;
+  syncedAt: string;
+  // Index plein texte : tokens normalisés du mot, des définitions et des traductions
+  tokens: string[];
+}
+
+export interface OfflineSaveOptions {
+  favorite?: boolean;
+  viewedAt?: string;
+  // Date de consultation propre à chaque mot (prioritaire sur viewedAt)
+  viewedAtById?: Record<string, string>;
+}
+
+/**
+ * OfflineWordStoreService
+ *
+ * Magasin IndexedDB des mots favoris et récemment consultés.
+ * Sert de repli au DictionaryService quand l'API est injoignable :
+ * lecture d'un mot, liste des favoris et recherche plein texte locale.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class OfflineWordStoreService {
+  private readonly DB_NAME = 'oypunu-offline';
+  // v2 : tokens repliés via SearchFoldingService
+  private readonly DB_VERSION = 2;
+  private readonly WORDS_STORE = 'words';
+  // Nombre maximum de mots consultés (non favoris) conservés localement
+  private readonly MAX_VIEWED_WORDS = 300;
+
+  private _db: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private logger: LoggerService,
+    private _searchQuery: SearchQueryService,
+    private _folding: SearchFoldingService,
+  ) {}
+
+  /**
+   * Indique si le navigateur supporte IndexedDB
+   */
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Enregistre ou met à jour des mots en conservant leurs drapeaux existants
+   */
+  saveWords(words: Word[], options: OfflineSaveOptions = {}): Observable<void> {
+    const validWords = words.filter((w) => !!w?.id);
+    if (!validWords.length) return of(void 0);
+
+    return this._run(async (db) => {
+      const tx = db.transaction(this.WORDS_STORE, 'readwrite');
+      const store = tx.objectStore(this.WORDS_STORE);
+      const now = new Date().toISOString();
+
+      for (const word of validWords) {
+        const existing = await this._request<OfflineWordRecord | undefined>(
+          store.get(word.id),
+        );
+        const { isFavorite: _flag, ...wordData } = word;
+        const record: OfflineWordRecord = {
+          id: word.id,
+          word: { ...(existing?.word ?? {}), ...wordData } as Word,
+          isFavorite: options.favorite ?? existing?.isFavorite ?? false,
+          lastViewedAt:
+            options.viewedAtById?.[word.id] ??
+            options.viewedAt ??
+            existing?.lastViewedAt,
+          syncedAt: now,
+          tokens: [],
+        };
+        record.tokens = this._tokenizeWord(record.word);
+        store.put(record);
+      }
+
+      await this._complete(tx);
+      if (options.viewedAt || options.viewedAtById) {
+        await this._pruneViewedWords(db);
+      }
+    }, void 0);
+  }
+
+  /**
+   * Met à jour uniquement le drapeau favori d'un mot déjà connu
+   */
+  setFavorite(wordId: string, isFavorite: boolean): Observable<void> {
+    return this._run(async (db) => {
+      const tx = db.transaction(this.WORDS_STORE, 'readwrite');
+      const store = tx.objectStore(this.WORDS_STORE);
+      const existing = await this._request<OfflineWordRecord | undefined>(
+        store.get(wordId),
+      );
+      if (existing) {
+        store.put({ ...existing, isFavorite });
+      }
+      await this._complete(tx);
+    }, void 0);
+  }
+
+  /**
+   * Récupère un mot stocké localement
+   */
+  getWord(wordId: string): Observable<Word | null> {
+    return this._run(async (db) => {
+      const tx = db.transaction(this.WORDS_STORE, 'readonly');
+      const record = await this._request<OfflineWordRecord | undefined>(
+        tx.objectStore(this.WORDS_STORE).get(wordId),
+      );
+      return record ? this._toWord(record) : null;
+    }, null);
+  }
+
+  /**
+   * Récupère plusieurs mots stockés localement (une seule transaction)
+   */
+  getWords(wordIds: string[]): Observable<Word[]> {
+    if (!wordIds.length) return of([]);
+
+    return this._run(async (db) => {
+      const tx = db.transaction(this.WORDS_STORE, 'readonly');
+      const store = tx.objectStore(this.WORDS_STORE);
+      const records = await Promise.all(
+        wordIds.map((id) =>
+          this._request<OfflineWordRecord | undefined>(store.get(id)),
+        ),
+      );
+      return records
+        .filter((r): r is OfflineWordRecord => !!r)
+        .map((r) => this._toWord(r));
+    }, []);
+  }
+
+  /**
+   * Récupère les mots favoris synchronisés
+   */
+  getFavorites(): Observable<Word[]> {
+    return this._getAll().pipe(
+      map((records) =>
+        records.filter((r) => r.isFavorite).map((r) => this._toWord(r)),
+      ),
+    );
+  }
+
+  /**
+   * Récupère tous les mots du magasin (favoris et consultés)
+   */
+  getAllWords(): Observable<Word[]> {
+    return this._getAll().pipe(
+      map((records) => records.map((r) => this._toWord(r))),
+    );
+  }
+
+  /**
+   * Récupère les mots consultés, du plus récent au plus ancien
+   */
+  getRecentlyViewed(limit?: number): Observable<OfflineWordRecord[]> {
+    return this._getAll().pipe(
+      map((records) =>
+        records
+          .filter((r) => !!r.lastViewedAt)
+          .sort((a, b) => b.lastViewedAt!.localeCompare(a.lastViewedAt!))
+          .slice(0, limit),
+      ),
+    );
+  }
+
+  /**
+   * Recherche plein texte dans l'index local
+   * Chaque terme de la requête doit préfixer au moins un token du mot.
+   */
+  search(params: SearchParams): Observable<SearchResults> {
+    const page = params.page || 1;
+    const limit = params.limit || 10;
+    const queryTokens = this._tokenize(params.query || '');
+
+    const empty: SearchResults = {
+      words: [],
+      total: 0,
+      page,
+      limit,
+      totalPages: 0,
+      fromCache: true,
+    };
+    if (!queryTokens.length) return of(empty);
+
+    // Le terme le plus long est le plus sélectif pour interroger l'index
+    const pivot = [...queryTokens].sort((a, b) => b.length - a.length)[0];
+
+    return this._run(async (db) => {
+      const tx = db.transaction(this.WORDS_STORE, 'readonly');
+      const index = tx.objectStore(this.WORDS_STORE).index('tokens');
+      const candidates = await this._request<OfflineWordRecord[]>(
+        index.getAll(IDBKeyRange.bound(pivot, pivot + '\uffff')),
+      );
+
+      // Un même mot peut remonter plusieurs fois via l'index multiEntry
+      const unique = new Map<string, OfflineWordRecord>();
+      candidates.forEach((r) => unique.set(r.id, r));
+
+      const normalizedQuery = queryTokens.join(' ');
+      const matches = [...unique.values()]
+        .filter((r) =>
+          queryTokens.every((qt) => r.tokens.some((t) => t.startsWith(qt))),
+        )
+        .filter((r) => this._matchesFilters(r.word, params))
+        .sort((a, b) => {
+          const rank = (r: OfflineWordRecord) => {
+            const head = this._normalize(r.word.word);
+            if (head === normalizedQuery) return 0;
+            if (head.startsWith(normalizedQuery)) return 1;
+            return 2;
+          };
+          return (
+            rank(a) - rank(b) || a.word.word.localeCompare(b.word.word)
+          );
+        });
+
+      const start = (page - 1) * limit;
+      return {
+        words: matches.slice(start, start + limit).map((r) => this._toWord(r)),
+        total: matches.length,
+        page,
+        limit,
+        totalPages: Math.ceil(matches.length / limit),
+        fromCache: true,
+      };
+    }, empty);
+  }
+
+  /**
+   * Vide entièrement le magasin local (déconnexion)
+   */
+  clear(): Observable<void> {
+    return this._run(async (db) => {
+      const tx = db.transaction(this.WORDS_STORE, 'readwrite');
+      tx.objectStore(this.WORDS_STORE).clear();
+      await this._complete(tx);
+    }, void 0);
+  }
+
+  // ============= MÉTHODES PRIVÉES =============
+
+  private _getAll(): Observable<OfflineWordRecord[]> {
+    return this._run(async (db) => {
+      const tx = db.transaction(this.WORDS_STORE, 'readonly');
+      return this._request<OfflineWordRecord[]>(
+        tx.objectStore(this.WORDS_STORE).getAll(),
+      );
+    }, []);
+  }
+
+  /**
+   * Exécute une opération sur la base et retourne une valeur de repli en cas d'échec
+   */
+  private _run<T>(
+    operation: (db: IDBDatabase) => Promise<T>,
+    fallback: T,
+  ): Observable<T> {
+    if (!this.isSupported()) return of(fallback);
+
+    return from(this._openDb().then((db) => operation(db))).pipe(
+      catchError((error) => {
+        this.logger.error('Erreur du magasin hors ligne:', error);
+        return of(fallback);
+      }),
+    );
+  }
+
+  private _openDb(): Promise<IDBDatabase> {
+    if (!this._db) {
+      this._db = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+        request.onupgradeneeded = (event) => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(this.WORDS_STORE)) {
+            const store = db.createObjectStore(this.WORDS_STORE, {
+              keyPath: 'id',
+            });
+            store.createIndex('tokens', 'tokens', { multiEntry: true });
+          } else if (event.oldVersion < 2) {
+            this._rebuildTokens(request.transaction!.objectStore(this.WORDS_STORE));
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this._db = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this._db;
+  }
+
+  /**
+   * Recalcule l'index plein texte des mots enregistrés avec une
+   * ancienne normalisation (dans la transaction de mise à niveau)
+   */
+  private _rebuildTokens(store: IDBObjectStore): void {
+    store.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>)
+        .result;
+      if (!cursor) return;
+      const record = cursor.value as OfflineWordRecord;
+      cursor.update({ ...record, tokens: this._tokenizeWord(record.word) });
+      cursor.continue();
+    };
+  }
+
+  private _request<T>(request: IDBRequest): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private _complete(tx: IDBTransaction): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Supprime les consultations les plus anciennes au-delà de la limite
+   * (les favoris ne sont jamais supprimés)
+   */
+  private async _pruneViewedWords(db: IDBDatabase): Promise<void> {
+    const tx = db.transaction(this.WORDS_STORE, 'readwrite');
+    const store = tx.objectStore(this.WORDS_STORE);
+    const records = await this._request<OfflineWordRecord[]>(store.getAll());
+
+    records
+      .filter((r) => !r.isFavorite)
+      .sort((a, b) =>
+        (b.lastViewedAt ?? '').localeCompare(a.lastViewedAt ?? ''),
+      )
+      .slice(this.MAX_VIEWED_WORDS)
+      .forEach((r) => store.delete(r.id));
+
+    await this._complete(tx);
+  }
+
+  private _toWord(record: OfflineWordRecord): Word {
+    return { ...record.word, isFavorite: record.isFavorite };
+  }
+
+  private _matchesFilters(word: Word, params: SearchParams): boolean {
+    if (params.languages?.length && !params.languages.includes(word.language)) {
+      return false;
+    }
+    if (
+      params.categories?.length &&
+      !params.categories.includes(word.categoryId ?? word.category ?? '')
+    ) {
+      return false;
+    }
+    if (
+      params.partsOfSpeech?.length &&
+      !(word.meanings ?? []).some((m) =>
+        params.partsOfSpeech!.includes(m.partOfSpeech),
+      )
+    ) {
+      return false;
+    }
+    return this._searchQuery.matchesWord(word, params);
+  }
+
+  private _tokenizeWord(word: Word): string[] {
+    const texts: string[] = [word.word];
+
+    (word.meanings ?? []).forEach((meaning: any) => {
+      (meaning.definitions ?? []).forEach((d: any) =>
+        texts.push(typeof d === 'string' ? d : d?.definition ?? ''),
+      );
+      texts.push(...(meaning.synonyms ?? []));
+    });
+    (word.translations ?? []).forEach((t) => texts.push(t.translatedWord));
+
+    return [...new Set(texts.flatMap((text) => this._tokenize(text)))];
+  }
+
+  private _tokenize(text: string): string[] {
+    return this._normalize(text)
+      .split(/[^\p{L}\p{N}']+/u)
+      .filter((token) => token.length > 0);
+  }
+
+  // Insensible aux tons et lettres spéciales (« ɛbɔ́ » ≡ « ebo »)
+  private _normalize(text: string): string {
+    return this._folding.fold(text);
+  }
+}
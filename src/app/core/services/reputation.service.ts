@@ -0,0 +1,111 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { distinctUntilChanged, map } from 'rxjs/operators';
+import { environment } from '../../../environments/environment';
+import {
+  PRIVILEGES,
+  Privilege,
+  PrivilegeKey,
+  ReputationEventType,
+  ReputationHistoryPage,
+  ReputationSummary,
+} from '../models/reputation';
+import { AuthService } from './auth.service';
+import { LoggerService } from './logger.service';
+
+/**
+ * ReputationService
+ *
+ * Réputation des membres (registre et historique) et privilèges de
+ * l'utilisateur connecté, rechargés après chaque connexion.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ReputationService {
+  private readonly _API_URL = `${environment.apiUrl}/users`;
+
+  private _myReputationSubject = new BehaviorSubject<number>(0);
+  public myReputation$: Observable<number> =
+    this._myReputationSubject.asObservable();
+
+  constructor(
+    private _http: HttpClient,
+    private _authService: AuthService,
+    private logger: LoggerService,
+  ) {
+    this._authService.currentUser$
+      .pipe(
+        map((user) => user?.id ?? null),
+        distinctUntilChanged(),
+      )
+      .subscribe((userId) => {
+        this._myReputationSubject.next(0);
+        if (userId) this.refreshMyReputation();
+      });
+  }
+
+  refreshMyReputation(): void {
+    this._http
+      .get<ReputationSummary>(`${this._API_URL}/me/reputation`)
+      .subscribe({
+        next: (summary) => this._myReputationSubject.next(summary.reputation),
+        error: (error) =>
+          this.logger.error('Erreur lors du chargement de la réputation:', error),
+      });
+  }
+
+  getReputation(userId: string): Observable<ReputationSummary> {
+    return this._http.get<ReputationSummary>(
+      `${this._API_URL}/${userId}/reputation`,
+    );
+  }
+
+  getHistory(
+    userId: string,
+    page = 1,
+    limit = 20,
+    type?: ReputationEventType,
+  ): Observable<ReputationHistoryPage> {
+    let params = new HttpParams()
+      .append('page', page.toString())
+      .append('limit', limit.toString());
+    if (type) params = params.append('type', type);
+
+    return this._http.get<ReputationHistoryPage>(
+      `${this._API_URL}/${userId}/reputation/history`,
+      { params },
+    );
+  }
+
+  // ===== PRIVILÈGES =====
+
+  /**
+   * Les administrateurs disposent de tous les privilèges
+   */
+  hasPrivilege(key: PrivilegeKey): boolean {
+    const role = this._authService.getCurrentUser()?.role;
+    if (role === 'admin' || role === 'superadmin') return true;
+
+    const privilege = PRIVILEGES.find((p) => p.key === key);
+    return !!privilege && this._myReputationSubject.value >= privilege.threshold;
+  }
+
+  getPrivilegeThreshold(key: PrivilegeKey): number {
+    return PRIVILEGES.find((p) => p.key === key)?.threshold ?? 0;
+  }
+
+  getNextPrivilege(reputation: number): Privilege | null {
+    return PRIVILEGES.find((p) => p.threshold > reputation) ?? null;
+  }
+
+  /**
+   * 1234 → « 1,2k » pour les badges à côté des noms
+   */
+  formatReputation(reputation: number): string {
+    if (Math.abs(reputation) < 1000) return reputation.toString();
+    const thousands = Math.floor(reputation / 100) / 10;
+    return `${thousands.toLocaleString('fr-FR')}k`;
+  }
+}
@@ -0,0 +1,293 @@
+import { Injectable } from '@angular/core';
+import {
+  GlossColumn,
+  OpenWordMention,
+  RichBlock,
+  RichInline,
+} from '../models/rich-text';
+
+// Au-delà, une mention en cours de saisie n'est plus proposée à l'autocomplétion
+const MAX_MENTION_QUERY_LENGTH = 40;
+
+const FENCE = /^```\s*([\w-]*)\s*$/;
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const AUDIO = /^!audio(?:\[([^\]]*)\])?\(([^()\s]+)\)\s*$/;
+const WORD_MENTION = /\[\[([^[\]\n]+?)\]\]/g;
+const SAFE_URL = /^https?:\/\/[^\s]+$/i;
+
+// Ordre de priorité : code, mention, lien, gras, italique, retour à la ligne
+const INLINE_TOKEN =
+  /`([^`\n]+)`|\[\[([^[\]\n]+?)\]\]|\[([^\]\n]+)\]\(([^()\s]+)\)|\*\*(.+?)\*\*|\*([^*\s](?:[^*]*[^*\s])?)\*|(?<![\p{L}\p{N}])_([^_\n]+)_(?![\p{L}\p{N}])|\n/gu;
+
+/**
+ * RichTextService
+ *
+ * Lecture du Markdown restreint des communautés, sans passer par du HTML :
+ * le résultat est un arbre de blocs rendu par RichContentComponent.
+ * Extensions propres aux discussions linguistiques :
+ * - [[mot]] : mention d'un mot du dictionnaire ;
+ * - ```ipa : transcription phonétique ;
+ * - ```gloss : glose interlinéaire (forme, glose, traduction libre) ;
+ * - !audio[légende](https://…) : extrait sonore.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class RichTextService {
+  parse(source: string | null | undefined): RichBlock[] {
+    const lines = (source ?? '').replace(/\r\n?/g, '\n').split('\n');
+    const blocks: RichBlock[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+      const line = lines[i];
+
+      if (!line.trim()) {
+        i++;
+        continue;
+      }
+
+      const fence = line.match(FENCE);
+      if (fence) {
+        const body: string[] = [];
+        i++;
+        while (i < lines.length && !FENCE.test(lines[i])) {
+          body.push(lines[i]);
+          i++;
+        }
+        i++; // Clôture (ou fin du texte)
+        blocks.push(this._fencedBlock(fence[1].toLowerCase(), body));
+        continue;
+      }
+
+      const audio = line.trim().match(AUDIO);
+      if (audio && this.isSafeUrl(audio[2])) {
+        blocks.push({
+          type: 'audio',
+          url: audio[2],
+          caption: audio[1]?.trim() || undefined,
+        });
+        i++;
+        continue;
+      }
+
+      const heading = line.match(HEADING);
+      if (heading) {
+        blocks.push({
+          type: 'heading',
+          level: heading[1].length as 1 | 2 | 3,
+          inlines: this.parseInline(heading[2].trim()),
+        });
+        i++;
+        continue;
+      }
+
+      if (QUOTE.test(line)) {
+        const quoted: string[] = [];
+        while (i < lines.length && QUOTE.test(lines[i])) {
+          quoted.push(lines[i].match(QUOTE)![1]);
+          i++;
+        }
+        blocks.push({ type: 'quote', inlines: this.parseInline(quoted.join('\n')) });
+        continue;
+      }
+
+      const listPattern = BULLET_ITEM.test(line)
+        ? BULLET_ITEM
+        : ORDERED_ITEM.test(line)
+          ? ORDERED_ITEM
+          : null;
+      if (listPattern) {
+        const items: RichInline[][] = [];
+        while (i < lines.length && listPattern.test(lines[i])) {
+          items.push(this.parseInline(lines[i].match(listPattern)![1].trim()));
+          i++;
+        }
+        blocks.push({ type: 'list', ordered: listPattern === ORDERED_ITEM, items });
+        continue;
+      }
+
+      // La première ligne est toujours prise : un audio au lien refusé reste du texte
+      const paragraph: string[] = [line];
+      i++;
+      while (i < lines.length && lines[i].trim() && !this._startsBlock(lines[i])) {
+        paragraph.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'paragraph', inlines: this.parseInline(paragraph.join('\n')) });
+    }
+
+    return blocks;
+  }
+
+  parseInline(text: string): RichInline[] {
+    const nodes: RichInline[] = [];
+    let last = 0;
+
+    for (const match of text.matchAll(INLINE_TOKEN)) {
+      const index = match.index ?? 0;
+      if (index > last) {
+        nodes.push({ type: 'text', text: text.slice(last, index) });
+      }
+      last = index + match[0].length;
+
+      const [raw, code, word, linkLabel, href, strong, em, emUnderscore] = match;
+      if (code !== undefined) {
+        nodes.push({ type: 'code', text: code });
+      } else if (word !== undefined) {
+        nodes.push({ type: 'word', text: word.trim() });
+      } else if (linkLabel !== undefined) {
+        // Lien non http(s) : laissé tel quel
+        nodes.push(
+          this.isSafeUrl(href)
+            ? { type: 'link', href, children: this.parseInline(linkLabel) }
+            : { type: 'text', text: raw },
+        );
+      } else if (strong !== undefined) {
+        nodes.push({ type: 'strong', children: this.parseInline(strong) });
+      } else if (em !== undefined || emUnderscore !== undefined) {
+        nodes.push({ type: 'em', children: this.parseInline(em ?? emUnderscore) });
+      } else {
+        nodes.push({ type: 'break' });
+      }
+    }
+
+    if (last < text.length) {
+      nodes.push({ type: 'text', text: text.slice(last) });
+    }
+    return nodes;
+  }
+
+  /**
+   * Mots mentionnés avec [[mot]], sans doublon (hors blocs de code)
+   */
+  extractWordMentions(source: string | null | undefined): string[] {
+    const seen = new Set<string>();
+    const words: string[] = [];
+    const text = (source ?? '').replace(/```[\s\S]*?(```|$)/g, '');
+
+    for (const match of text.matchAll(WORD_MENTION)) {
+      const word = match[1].trim();
+      const key = word.toLowerCase();
+      if (word && !seen.has(key)) {
+        seen.add(key);
+        words.push(word);
+      }
+    }
+    return words;
+  }
+
+  /**
+   * Texte brut pour les extraits (listes de publications, notifications)
+   */
+  toPlainText(source: string | null | undefined): string {
+    return this.parse(source)
+      .map((block) => this._blockText(block))
+      .filter((text) => text)
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Mention [[… ouverte juste avant le curseur, pour l'autocomplétion
+   */
+  findOpenMention(text: string, caret: number): OpenWordMention | null {
+    const before = text.slice(0, caret);
+    const start = before.lastIndexOf('[[');
+    if (start === -1) return null;
+
+    const query = before.slice(start + 2);
+    if (
+      query.length > MAX_MENTION_QUERY_LENGTH ||
+      /[[\]\n]/.test(query) ||
+      query.startsWith(' ')
+    ) {
+      return null;
+    }
+    return { start, query };
+  }
+
+  isSafeUrl(url: string | null | undefined): url is string {
+    return !!url && SAFE_URL.test(url);
+  }
+
+  // ============= MÉTHODES PRIVÉES =============
+
+  private _fencedBlock(language: string, body: string[]): RichBlock {
+    if (language === 'ipa' || language === 'api') {
+      return { type: 'ipa', text: body.join('\n').trim() };
+    }
+    if (language === 'gloss' || language === 'glose') {
+      return this._glossBlock(body);
+    }
+    return { type: 'code', text: body.join('\n') };
+  }
+
+  /**
+   * Glose interlinéaire : ligne 1 la forme, ligne 2 la glose, mot à mot ;
+   * ligne 3 facultative, la traduction libre
+   */
+  private _glossBlock(body: string[]): RichBlock {
+    const [source = '', gloss = '', ...rest] = body.filter((line) => line.trim());
+    const sourceWords = source.trim().split(/\s+/).filter(Boolean);
+    const glossWords = gloss.trim().split(/\s+/).filter(Boolean);
+    const width = Math.max(sourceWords.length, glossWords.length);
+
+    const columns: GlossColumn[] = Array.from({ length: width }, (_, index) => ({
+      source: sourceWords[index] ?? '',
+      gloss: glossWords[index] ?? '',
+    }));
+    const translation = rest
+      .join(' ')
+      .trim()
+      .replace(/^["'‘“«]\s*|\s*["'’”»]$/g, '');
+
+    return { type: 'gloss', columns, translation: translation || undefined };
+  }
+
+  private _startsBlock(line: string): boolean {
+    return (
+      FENCE.test(line) ||
+      HEADING.test(line) ||
+      QUOTE.test(line) ||
+      BULLET_ITEM.test(line) ||
+      ORDERED_ITEM.test(line) ||
+      AUDIO.test(line.trim())
+    );
+  }
+
+  private _blockText(block: RichBlock): string {
+    switch (block.type) {
+      case 'list':
+        return (block.items ?? []).map((item) => this._inlineText(item)).join(' ');
+      case 'code':
+      case 'ipa':
+        return block.text ?? '';
+      case 'gloss':
+        return [
+          (block.columns ?? []).map((column) => column.source).join(' '),
+          block.translation ? `‘${block.translation}’` : '',
+        ].join(' ');
+      case 'audio':
+        return `🔊 ${block.caption || 'Audio'}`;
+      default:
+        return this._inlineText(block.inlines ?? []);
+    }
+  }
+
+  private _inlineText(nodes: RichInline[]): string {
+    return nodes
+      .map((node) =>
+        node.type === 'break'
+          ? ' '
+          : node.children
+            ? this._inlineText(node.children)
+            : node.text ?? '',
+      )
+      .join('');
+  }
+}
@@ -0,0 +1,155 @@
+import { Injectable } from '@angular/core';
+import { Word } from '../models/word';
+import { WordSuggestion } from '../models/search-results';
+import {
+  SearchFoldingRules,
+  findBuiltinAlphabet,
+} from '../models/language-alphabet';
+
+// Lettres africaines courantes que les utilisateurs saisissent en latin de base
+const DEFAULT_LETTER_FOLDING: Record<string, string> = {
+  ɛ: 'e',
+  ə: 'e',
+  ǝ: 'e',
+  ɔ: 'o',
+  ɓ: 'b',
+  ɗ: 'd',
+  ɖ: 'd',
+  ƙ: 'k',
+  ƴ: 'y',
+  ŋ: 'ng',
+  ɣ: 'g',
+  ʋ: 'v',
+  ƒ: 'f',
+  ɨ: 'i',
+  ʉ: 'u',
+  ı: 'i',
+};
+
+const COMBINING_MARKS = /\p{M}/gu;
+const APOSTROPHES = /['’ʼʻ`]/g;
+
+/**
+ * SearchFoldingService
+ *
+ * Normalisation insensible aux tons et diacritiques (« ɛbɔ́ » ≡ « ebo »)
+ * et suggestions approximatives « Vouliez-vous dire… » par distance d'édition.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class SearchFoldingService {
+  /**
+   * Normalise un texte pour la comparaison : minuscules, NFD, lettres
+   * spéciales ramenées au latin de base, tons et diacritiques retirés
+   */
+  fold(text: string, languageCode?: string | null): string {
+    const rules = this._rulesFor(languageCode);
+    let folded = (text || '').toLowerCase().normalize('NFD');
+
+    Object.entries(rules.letters ?? {}).forEach(([from, to]) => {
+      folded = folded.split(from.toLowerCase().normalize('NFD')).join(to);
+    });
+
+    const preserved = rules.preserveMarks ?? [];
+    folded = folded
+      .replace(COMBINING_MARKS, (mark) => (preserved.includes(mark) ? mark : ''))
+      .replace(/./gu, (char) => DEFAULT_LETTER_FOLDING[char] ?? char)
+      .replace(APOSTROPHES, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    return folded.normalize('NFC');
+  }
+
+  /**
+   * Distance de Damerau-Levenshtein (transpositions adjacentes), arrêtée
+   * dès que `max` est dépassé
+   */
+  distance(a: string, b: string, max = Infinity): number {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+
+    let previousPrevious: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      let rowMin = i;
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        let value = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + cost
+        );
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          value = Math.min(value, previousPrevious[j - 2] + 1);
+        }
+        current.push(value);
+        rowMin = Math.min(rowMin, value);
+      }
+      if (rowMin > max) return max + 1;
+      previousPrevious = previous;
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+
+  /**
+   * Mots proches de la requête parmi les candidats, du plus proche au plus
+   * éloigné ; l'ordre des candidats sert de départage (popularité)
+   */
+  suggest(query: string, candidates: Word[], limit = 5): WordSuggestion[] {
+    if (!this.fold(query)) return [];
+
+    // La requête est repliée avec les règles de la langue de chaque candidat
+    // (variantes d'alif en arabe…) pour comparer les deux côtés à l'identique
+    const foldedByLanguage = new Map<string, string>();
+    const seen = new Set<string>();
+    const suggestions: WordSuggestion[] = [];
+
+    candidates.forEach((word) => {
+      if (!word?.word || seen.has(word.id)) return;
+      seen.add(word.id);
+
+      const language = word.language ?? '';
+      if (!foldedByLanguage.has(language)) {
+        foldedByLanguage.set(language, this.fold(query, language));
+      }
+      const folded = foldedByLanguage.get(language)!;
+      if (!folded) return;
+
+      const maxDistance = this._maxDistance(folded);
+      const candidate = this.fold(word.word, word.language);
+      // Les mots longs commençant par la requête restent de bonnes suggestions
+      const compared = candidate.startsWith(folded)
+        ? candidate.slice(0, folded.length)
+        : candidate;
+      const distance = this.distance(folded, compared, maxDistance);
+      if (distance > maxDistance) return;
+
+      suggestions.push({
+        word,
+        distance: compared === candidate ? distance : distance + 0.5,
+        exactFold: distance === 0 && compared === candidate,
+      });
+    });
+
+    return suggestions
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit);
+  }
+
+  // ─── Méthodes privées ─────────────────────────────────────────────────────
+
+  private _rulesFor(languageCode?: string | null): SearchFoldingRules {
+    return findBuiltinAlphabet(languageCode)?.searchFolding ?? {};
+  }
+
+  private _maxDistance(query: string): number {
+    if (query.length <= 3) return 1;
+    if (query.length <= 7) return 2;
+    return 3;
+  }
+}
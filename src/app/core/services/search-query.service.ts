@@ -0,0 +1,497 @@
+import { Injectable } from '@angular/core';
+import { HttpParams } from '@angular/common/http';
+import { Word } from '../models/word';
+import { SearchParams } from '../models/search-params';
+import { SearchFoldingService } from './search-folding.service';
+import {
+  ParsedSearchQuery,
+  SearchQueryContext,
+  SearchQueryFilterKey,
+  SearchQueryToken,
+} from '../models/search-query';
+
+const FILTER_ALIASES: Record<string, SearchQueryFilterKey> = {
+  lang: 'lang',
+  language: 'lang',
+  langue: 'lang',
+  pos: 'pos',
+  type: 'pos',
+  cat: 'cat',
+  category: 'cat',
+  categorie: 'cat',
+  status: 'status',
+  statut: 'status',
+  has: 'has',
+  avec: 'has',
+};
+
+const PART_OF_SPEECH_ALIASES: Record<string, string> = {
+  noun: 'noun',
+  nom: 'noun',
+  verb: 'verb',
+  verbe: 'verb',
+  adjective: 'adjective',
+  adjectif: 'adjective',
+  adj: 'adjective',
+  adverb: 'adverb',
+  adverbe: 'adverb',
+  adv: 'adverb',
+  pronoun: 'pronoun',
+  pronom: 'pronoun',
+  preposition: 'preposition',
+  prep: 'preposition',
+  conjunction: 'conjunction',
+  conjonction: 'conjunction',
+  conj: 'conjunction',
+  interjection: 'interjection',
+};
+
+const STATUS_ALIASES: Record<string, string> = {
+  approved: 'approved',
+  approuve: 'approved',
+  valide: 'approved',
+  pending: 'pending',
+  attente: 'pending',
+  rejected: 'rejected',
+  rejete: 'rejected',
+};
+
+// Critères envoyés sous forme de liste séparée par des virgules (codes, identifiants)
+const CODE_LIST_PARAMS = [
+  'excludeLanguages',
+  'excludeCategories',
+  'excludePartsOfSpeech',
+  'statuses',
+  'excludeStatuses',
+  'translationLanguages',
+  'excludeTranslationLanguages',
+] as const;
+
+// Critères en texte libre : un paramètre répété par valeur (peuvent contenir des virgules)
+const TEXT_LIST_PARAMS = [
+  'phrases',
+  'excludeTerms',
+  'prefixes',
+  'suffixes',
+] as const;
+
+/**
+ * Accumulateur interne pendant l'analyse d'une requête
+ */
+interface QueryAccumulator {
+  terms: string[];
+  criteria: Partial<SearchParams>;
+  errors: string[];
+}
+
+/**
+ * SearchQueryService
+ *
+ * Analyse la syntaxe de recherche avancée du dictionnaire :
+ *   "expression exacte"      lang:ln,sw       pos:noun       cat:"vie quotidienne"
+ *   status:approved          has:audio        has:translation:sw
+ *   mbo*  *ngo  (jokers)     -terme  -lang:fr  (négation)
+ *
+ * La requête est compilée en SearchParams (puis en HttpParams) ; les critères
+ * que l'API ignorerait sont vérifiés côté client via matchesWord().
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class SearchQueryService {
+  constructor(private _folding: SearchFoldingService) {}
+
+  /**
+   * Analyse une requête saisie par l'utilisateur
+   */
+  parse(input: string, context: SearchQueryContext = {}): ParsedSearchQuery {
+    const acc: QueryAccumulator = { terms: [], criteria: {}, errors: [] };
+    const tokens = this.tokenize(input).map((token) =>
+      this._collect(token, acc, context)
+    );
+
+    return {
+      text: acc.terms.join(' '),
+      criteria: acc.criteria,
+      tokens,
+      errors: acc.errors,
+      isAdvanced: tokens.some(
+        (t) => t.negated || (t.kind !== 'term' && t.kind !== 'space')
+      ),
+    };
+  }
+
+  /**
+   * Découpe la saisie en segments (sans résolution des valeurs)
+   */
+  tokenize(input: string): SearchQueryToken[] {
+    const tokens: SearchQueryToken[] = [];
+    let position = 0;
+
+    while (position < input.length) {
+      const start = position;
+
+      if (/\s/.test(input[position])) {
+        while (position < input.length && /\s/.test(input[position])) position++;
+        tokens.push({ kind: 'space', text: input.slice(start, position), negated: false });
+        continue;
+      }
+
+      // Un segment s'arrête au premier espace hors guillemets
+      let unclosed = false;
+      while (position < input.length && !/\s/.test(input[position])) {
+        if (input[position] === '"') {
+          const close = input.indexOf('"', position + 1);
+          if (close === -1) {
+            position = input.length;
+            unclosed = true;
+            break;
+          }
+          position = close + 1;
+        } else {
+          position++;
+        }
+      }
+
+      tokens.push(this._classify(input.slice(start, position), unclosed));
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Forme canonique de la requête (espaces normalisés), utilisée dans l'URL
+   */
+  normalizeQuery(input: string): string {
+    return this.tokenize(input)
+      .filter((t) => t.kind !== 'space')
+      .map((t) => t.text)
+      .join(' ');
+  }
+
+  /**
+   * Fusionne les critères d'une requête analysée dans des paramètres existants
+   * (les filtres du panneau et ceux de la requête se cumulent)
+   */
+  mergeCriteria(
+    params: SearchParams,
+    criteria: Partial<SearchParams>
+  ): SearchParams {
+    const merged: any = { ...params };
+    Object.entries(criteria).forEach(([key, value]) => {
+      if (Array.isArray(value)) {
+        const current = Array.isArray(merged[key]) ? merged[key] : [];
+        merged[key] = [...new Set([...current, ...value])];
+      } else if (value !== undefined) {
+        merged[key] = value;
+      }
+    });
+    return merged;
+  }
+
+  /**
+   * Ajoute les critères avancés aux paramètres HTTP de /words/search
+   */
+  toHttpParams(params: SearchParams, httpParams: HttpParams): HttpParams {
+    CODE_LIST_PARAMS.forEach((key) => {
+      const values = params[key];
+      if (values?.length) httpParams = httpParams.set(key, values.join(','));
+    });
+    TEXT_LIST_PARAMS.forEach((key) => {
+      (params[key] ?? []).forEach((value) => {
+        httpParams = httpParams.append(key, value);
+      });
+    });
+    if (params.hasAudio !== undefined) {
+      httpParams = httpParams.set('hasAudio', String(params.hasAudio));
+    }
+    if (params.hasTranslation !== undefined) {
+      httpParams = httpParams.set('hasTranslation', String(params.hasTranslation));
+    }
+    return httpParams;
+  }
+
+  /**
+   * Indique si des critères avancés sont présents dans les paramètres
+   */
+  hasAdvancedCriteria(params: SearchParams): boolean {
+    return (
+      [...CODE_LIST_PARAMS, ...TEXT_LIST_PARAMS].some((key) => params[key]?.length) ||
+      params.hasAudio !== undefined ||
+      params.hasTranslation !== undefined
+    );
+  }
+
+  /**
+   * Vérifie côté client qu'un mot respecte les critères avancés
+   */
+  matchesWord(word: Word, params: SearchParams): boolean {
+    const headword = this._normalize(word.word);
+    const fullText = this._normalize(
+      [
+        word.word,
+        ...(word.meanings ?? []).flatMap((m: any) =>
+          (m.definitions ?? []).map((d: any) =>
+            typeof d === 'string' ? d : d?.definition ?? ''
+          )
+        ),
+      ].join(' ')
+    );
+    const words = fullText.split(/[^\p{L}\p{N}']+/u);
+    const partsOfSpeech = (word.meanings ?? []).map((m) => m.partOfSpeech);
+    const translationLanguages = (word.translations ?? []).map((t) => t.language);
+    const category = word.categoryId ?? word.category ?? '';
+
+    if (params.excludeLanguages?.includes(word.language)) return false;
+    if (params.excludeCategories?.includes(category)) return false;
+    if (params.excludePartsOfSpeech?.some((p) => partsOfSpeech.includes(p))) {
+      return false;
+    }
+    if (params.statuses?.length && !params.statuses.includes(word.status)) {
+      return false;
+    }
+    if (params.excludeStatuses?.includes(word.status)) return false;
+
+    if (params.phrases?.some((p) => !fullText.includes(this._normalize(p)))) {
+      return false;
+    }
+    if (params.prefixes?.some((p) => !headword.startsWith(this._normalize(p)))) {
+      return false;
+    }
+    if (params.suffixes?.some((s) => !headword.endsWith(this._normalize(s)))) {
+      return false;
+    }
+    const excluded = params.excludeTerms?.some((term) => {
+      const normalized = this._normalize(term);
+      if (normalized.includes('*')) return this._wildcardToRegExp(normalized).test(headword);
+      if (/\s/.test(normalized)) return fullText.includes(normalized);
+      return words.includes(normalized);
+    });
+    if (excluded) return false;
+
+    if (params.hasAudio !== undefined) {
+      const hasAudio = Object.keys(word.audioFiles ?? {}).length > 0;
+      if (hasAudio !== params.hasAudio) return false;
+    }
+    if (params.hasTranslation !== undefined) {
+      if (translationLanguages.length > 0 !== params.hasTranslation) return false;
+    }
+    if (params.translationLanguages?.some((l) => !translationLanguages.includes(l))) {
+      return false;
+    }
+    if (params.excludeTranslationLanguages?.some((l) => translationLanguages.includes(l))) {
+      return false;
+    }
+
+    return true;
+  }
+
+  // ─── Méthodes privées ─────────────────────────────────────────────────────
+
+  private _classify(raw: string, unclosed: boolean): SearchQueryToken {
+    const negated = raw.length > 1 && raw.startsWith('-');
+    const body = negated ? raw.slice(1) : raw;
+    const token: SearchQueryToken = { kind: 'term', text: raw, negated, value: body };
+
+    if (unclosed) {
+      return { ...token, kind: 'invalid', error: 'Guillemet fermant manquant' };
+    }
+
+    if (body.startsWith('"')) {
+      const value = body.replace(/"/g, '').trim();
+      return value
+        ? { ...token, kind: 'phrase', value }
+        : { ...token, kind: 'invalid', error: 'Expression entre guillemets vide' };
+    }
+
+    const filter = body.match(/^([\p{L}_]+):(.*)$/su);
+    if (filter) {
+      const key = FILTER_ALIASES[this._normalize(filter[1])];
+      const value = filter[2].replace(/"/g, '').trim();
+      if (!key) {
+        return { ...token, kind: 'invalid', error: `Filtre inconnu « ${filter[1]}: »` };
+      }
+      if (!value) {
+        return {
+          ...token,
+          kind: 'invalid',
+          key,
+          error: `Valeur manquante après « ${filter[1]}: »`,
+        };
+      }
+      return { ...token, kind: 'filter', key, value };
+    }
+
+    if (body.includes('*')) {
+      return body.replace(/\*/g, '')
+        ? { ...token, kind: 'wildcard' }
+        : { ...token, kind: 'invalid', error: 'Joker « * » sans texte' };
+    }
+
+    return token;
+  }
+
+  /**
+   * Traduit un segment en critères ; un segment dont la valeur est
+   * inconnue devient « invalid » et n'est pas appliqué
+   */
+  private _collect(
+    token: SearchQueryToken,
+    acc: QueryAccumulator,
+    context: SearchQueryContext
+  ): SearchQueryToken {
+    const value = token.value ?? '';
+
+    switch (token.kind) {
+      case 'term':
+      case 'phrase':
+        if (token.negated) {
+          this._push(acc, 'excludeTerms', value);
+        } else {
+          acc.terms.push(value);
+          if (token.kind === 'phrase') this._push(acc, 'phrases', value);
+        }
+        return token;
+
+      case 'wildcard': {
+        if (token.negated) {
+          this._push(acc, 'excludeTerms', value);
+          return token;
+        }
+        const head = value.slice(0, value.indexOf('*'));
+        const tail = value.slice(value.lastIndexOf('*') + 1);
+        if (head) this._push(acc, 'prefixes', head);
+        if (tail) this._push(acc, 'suffixes', tail);
+        // « *ngo* » : simple recherche de sous-chaîne
+        const stem = head.length >= tail.length ? head : tail;
+        acc.terms.push(stem || value.replace(/\*/g, ''));
+        return token;
+      }
+
+      case 'filter': {
+        const error = this._applyFilter(token, acc, context);
+        if (error) {
+          acc.errors.push(error);
+          return { ...token, kind: 'invalid', error };
+        }
+        return token;
+      }
+
+      case 'invalid':
+        acc.errors.push(token.error ?? '');
+        return token;
+
+      default:
+        return token;
+    }
+  }
+
+  private _applyFilter(
+    token: SearchQueryToken,
+    acc: QueryAccumulator,
+    context: SearchQueryContext
+  ): string | null {
+    const negated = token.negated;
+    const values = (token.value ?? '')
+      .split(',')
+      .map((v) => v.trim())
+      .filter(Boolean);
+
+    switch (token.key) {
+      case 'lang':
+        for (const value of values) {
+          const code = this._resolveLanguage(value, context);
+          if (!code) return `Langue inconnue « ${value} »`;
+          this._push(acc, negated ? 'excludeLanguages' : 'languages', code);
+        }
+        return null;
+
+      case 'pos':
+        for (const value of values) {
+          const pos = PART_OF_SPEECH_ALIASES[this._normalize(value)];
+          if (!pos) return `Nature grammaticale inconnue « ${value} »`;
+          this._push(acc, negated ? 'excludePartsOfSpeech' : 'partsOfSpeech', pos);
+        }
+        return null;
+
+      case 'cat':
+        for (const value of values) {
+          const id = this._resolveCategory(value, context);
+          if (!id) return `Catégorie inconnue « ${value} »`;
+          this._push(acc, negated ? 'excludeCategories' : 'categories', id);
+        }
+        return null;
+
+      case 'status':
+        for (const value of values) {
+          const status = STATUS_ALIASES[this._normalize(value)];
+          if (!status) return `Statut inconnu « ${value} »`;
+          this._push(acc, negated ? 'excludeStatuses' : 'statuses', status);
+        }
+        return null;
+
+      case 'has': {
+        // « has:translation:sw,ln » → fonctionnalité puis liste de langues
+        const [feature, ...rest] = (token.value ?? '').split(':');
+        const normalized = this._normalize(feature);
+        if (normalized === 'audio' || normalized === 'son') {
+          acc.criteria.hasAudio = !negated;
+          return null;
+        }
+        if (normalized !== 'translation' && normalized !== 'traduction') {
+          return `Critère « has:${feature} » inconnu (audio, translation)`;
+        }
+        const languages = rest.join(':').split(',').map((v) => v.trim()).filter(Boolean);
+        if (!languages.length) {
+          acc.criteria.hasTranslation = !negated;
+          return null;
+        }
+        for (const value of languages) {
+          const code = this._resolveLanguage(value, context);
+          if (!code) return `Langue inconnue « ${value} »`;
+          this._push(acc, negated ? 'excludeTranslationLanguages' : 'translationLanguages', code);
+        }
+        return null;
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  private _resolveLanguage(value: string, context: SearchQueryContext): string | null {
+    const normalized = this._normalize(value);
+    if (!context.languages?.length) return normalized;
+    const match = context.languages.find(
+      (l) => this._normalize(l.code) === normalized || this._normalize(l.name) === normalized
+    );
+    return match?.code ?? null;
+  }
+
+  private _resolveCategory(value: string, context: SearchQueryContext): string | null {
+    if (!context.categories?.length) return value;
+    const normalized = this._normalize(value);
+    const match = context.categories.find(
+      (c) => c.id === value || this._normalize(c.name) === normalized
+    );
+    return match?.id ?? null;
+  }
+
+  private _push(
+    acc: QueryAccumulator,
+    key: (typeof CODE_LIST_PARAMS)[number] | (typeof TEXT_LIST_PARAMS)[number] | 'languages' | 'categories' | 'partsOfSpeech',
+    value: string
+  ): void {
+    const list = (acc.criteria[key] ??= []);
+    if (!list.includes(value)) list.push(value);
+  }
+
+  private _wildcardToRegExp(pattern: string): RegExp {
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}$`, 'u');
+  }
+
+  private _normalize(text: string): string {
+    return this._folding.fold(text);
+  }
+}
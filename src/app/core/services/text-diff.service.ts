@@ -0,0 +1,114 @@
+import { Injectable } from '@angular/core';
+import { TextDiffSegment } from '../models/message';
+
+// Au-delà, le diff se réduit à « tout retiré / tout ajouté » pour rester rapide
+const MAX_DIFF_TOKENS = 600;
+
+const WORD_CHARACTERS = /[\p{L}\p{M}\p{N}'’ʼ-]+/gu;
+
+/**
+ * TextDiffService
+ *
+ * Diff mot à mot (plus longue sous-séquence commune) entre un texte
+ * original et sa correction, pour l'affichage des messages de correction.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class TextDiffService {
+  diffWords(original: string, corrected: string): TextDiffSegment[] {
+    const before = this._tokenize(original);
+    const after = this._tokenize(corrected);
+
+    if (before.length * after.length > MAX_DIFF_TOKENS * MAX_DIFF_TOKENS) {
+      return this._merge([
+        { type: 'removed', text: original },
+        { type: 'added', text: corrected },
+      ]);
+    }
+
+    // lengths[i][j] : longueur de la LCS des suffixes before[i..] et after[j..]
+    const lengths: number[][] = Array.from({ length: before.length + 1 }, () =>
+      new Array(after.length + 1).fill(0)
+    );
+    for (let i = before.length - 1; i >= 0; i--) {
+      for (let j = after.length - 1; j >= 0; j--) {
+        lengths[i][j] =
+          before[i] === after[j]
+            ? lengths[i + 1][j + 1] + 1
+            : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const segments: TextDiffSegment[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < before.length && j < after.length) {
+      if (before[i] === after[j]) {
+        segments.push({ type: 'equal', text: before[i++] });
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        segments.push({ type: 'removed', text: before[i++] });
+      } else {
+        segments.push({ type: 'added', text: after[j++] });
+      }
+    }
+    while (i < before.length) segments.push({ type: 'removed', text: before[i++] });
+    while (j < after.length) segments.push({ type: 'added', text: after[j++] });
+
+    return this._merge(segments);
+  }
+
+  /**
+   * Mots ajoutés ou modifiés par la correction, sans doublons ni ponctuation
+   */
+  changedWords(segments: TextDiffSegment[]): string[] {
+    const words = segments
+      .filter((segment) => segment.type === 'added')
+      .flatMap((segment) => segment.text.match(WORD_CHARACTERS) ?? []);
+    return [...new Set(words)];
+  }
+
+  // Mots et blancs sont des jetons distincts pour conserver la mise en forme
+  private _tokenize(text: string): string[] {
+    return (text || '').normalize('NFC').split(/(\s+)/).filter(Boolean);
+  }
+
+  // Regroupe chaque changement en « retiré » puis « ajouté » ; un blanc isolé
+  // entre deux changements y est rattaché pour un rendu plus lisible
+  private _merge(segments: TextDiffSegment[]): TextDiffSegment[] {
+    const merged: TextDiffSegment[] = [];
+    let removed = '';
+    let added = '';
+
+    const flush = () => {
+      if (removed) merged.push({ type: 'removed', text: removed });
+      if (added) merged.push({ type: 'added', text: added });
+      removed = '';
+      added = '';
+    };
+
+    segments.forEach((segment, index) => {
+      const next = segments[index + 1];
+      if (segment.type === 'removed') {
+        removed += segment.text;
+      } else if (segment.type === 'added') {
+        added += segment.text;
+      } else if ((removed || added) && !segment.text.trim() && next && next.type !== 'equal') {
+        removed += segment.text;
+        added += segment.text;
+      } else {
+        flush();
+        const previous = merged[merged.length - 1];
+        if (previous?.type === 'equal') {
+          previous.text += segment.text;
+        } else if (segment.text) {
+          merged.push({ ...segment });
+        }
+      }
+    });
+    flush();
+
+    return merged;
+  }
+}
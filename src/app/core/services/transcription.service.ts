@@ -0,0 +1,70 @@
+import { HttpClient } from '@angular/common/http';
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+import { environment } from '../../../environments/environment';
+import { LoggerService } from './logger.service';
+
+/**
+ * Fournisseur de transcription des messages vocaux.
+ * Renvoie null lorsqu'aucun texte n'a pu être reconnu.
+ */
+export interface TranscriptionProvider {
+  transcribe(audio: Blob, language?: string): Observable<string | null>;
+}
+
+/**
+ * Transcription par l'API O'Ypunu
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ApiTranscriptionProvider implements TranscriptionProvider {
+  private readonly _API_URL = `${environment.apiUrl}/messaging`;
+
+  constructor(
+    private _http: HttpClient,
+    private logger: LoggerService,
+  ) {}
+
+  transcribe(audio: Blob, language?: string): Observable<string | null> {
+    const formData = new FormData();
+    formData.append('file', audio);
+    if (language) formData.append('language', language);
+
+    return this._http
+      .post<{
+        success: boolean;
+        data: { text: string };
+      }>(`${this._API_URL}/transcriptions`, formData)
+      .pipe(
+        map((response) => response.data?.text?.trim() || null),
+        catchError((error) => {
+          this.logger.error('Erreur lors de la transcription:', error);
+          return of(null);
+        }),
+      );
+  }
+}
+
+/**
+ * Remplaçant local, sans appel réseau : aucune transcription automatique.
+ * À fournir à la place de l'API en développement ou hors ligne :
+ * `{ provide: TRANSCRIPTION_PROVIDER, useExisting: LocalTranscriptionProvider }`
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class LocalTranscriptionProvider implements TranscriptionProvider {
+  transcribe(): Observable<string | null> {
+    return of(null);
+  }
+}
+
+export const TRANSCRIPTION_PROVIDER = new InjectionToken<TranscriptionProvider>(
+  'TRANSCRIPTION_PROVIDER',
+  {
+    providedIn: 'root',
+    factory: () => inject(ApiTranscriptionProvider),
+  },
+);
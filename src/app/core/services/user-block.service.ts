@@ -0,0 +1,102 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { BehaviorSubject, Observable, throwError } from 'rxjs';
+import { catchError, distinctUntilChanged, map, tap } from 'rxjs/operators';
+import { environment } from '../../../environments/environment';
+import { BlockedUser } from '../models/user';
+import { AuthService } from './auth.service';
+import { LoggerService } from './logger.service';
+
+/**
+ * UserBlockService
+ *
+ * Liste des utilisateurs bloqués par l'utilisateur connecté, chargée à la
+ * connexion et partagée entre la messagerie et les paramètres du profil.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class UserBlockService {
+  private readonly _API_URL = `${environment.apiUrl}/users/blocked`;
+
+  private _blockedSubject = new BehaviorSubject<BlockedUser[]>([]);
+  public blockedUsers$: Observable<BlockedUser[]> =
+    this._blockedSubject.asObservable();
+
+  constructor(
+    private _http: HttpClient,
+    private _authService: AuthService,
+    private logger: LoggerService,
+  ) {
+    this._authService.currentUser$
+      .pipe(
+        map((user) => user?.id ?? null),
+        distinctUntilChanged(),
+      )
+      .subscribe((userId) => {
+        this._blockedSubject.next([]);
+        if (userId) this.refresh();
+      });
+  }
+
+  refresh(): void {
+    this._http
+      .get<{ success: boolean; data: any[] }>(this._API_URL)
+      .pipe(map((response) => (response.data || []).map((u) => this._normalize(u))))
+      .subscribe({
+        next: (users) => this._blockedSubject.next(users),
+        error: (error) =>
+          this.logger.error('Erreur lors du chargement des utilisateurs bloqués:', error),
+      });
+  }
+
+  isBlocked(userId: string | null | undefined): boolean {
+    return !!userId && this._blockedSubject.value.some((u) => u.id === userId);
+  }
+
+  block(user: { id: string; username: string; profilePicture?: string }): Observable<void> {
+    return this._http.post<void>(`${this._API_URL}/${user.id}`, {}).pipe(
+      tap(() => {
+        if (this.isBlocked(user.id)) return;
+        this._blockedSubject.next([
+          ...this._blockedSubject.value,
+          {
+            id: user.id,
+            username: user.username,
+            profilePicture: user.profilePicture,
+            blockedAt: new Date().toISOString(),
+          },
+        ]);
+      }),
+      catchError((error) => {
+        return throwError(
+          () => new Error(error.error?.message || `Impossible de bloquer ${user.username}`),
+        );
+      }),
+    );
+  }
+
+  unblock(userId: string): Observable<void> {
+    return this._http.delete<void>(`${this._API_URL}/${userId}`).pipe(
+      tap(() =>
+        this._blockedSubject.next(
+          this._blockedSubject.value.filter((u) => u.id !== userId),
+        ),
+      ),
+      catchError((error) => {
+        return throwError(
+          () => new Error(error.error?.message || 'Impossible de débloquer cet utilisateur'),
+        );
+      }),
+    );
+  }
+
+  private _normalize(user: any): BlockedUser {
+    return {
+      id: user.id || user._id?.toString(),
+      username: user.username,
+      profilePicture: user.profilePicture || user.avatar,
+      blockedAt: user.blockedAt,
+    };
+  }
+}
@@ -4,7 +4,13 @@ import io from 'socket.io-client';
 import { environment } from '../../../environments/environment';
 import { AuthService } from './auth.service';
 import { LoggerService } from './logger.service';
-import { Message } from '../models/message';
+import { Message, MessageCorrection, SharedWord } from '../models/message';
+import {
+  CommentTypingStatus,
+  CommunityCommentAddedEvent,
+  CommunityPostCreatedEvent,
+  CommunityVoteUpdate,
+} from '../models/community-posts';
 
 export interface UserStatus {
   userId: string;
@@ -19,6 +25,18 @@ export interface TypingStatus {
   isTyping: boolean;
 }
 
+export interface ReadReceipt {
+  conversationId: string;
+  userId: string;
+  readAt: Date;
+}
+
+export interface DeliveryReceipt {
+  conversationId: string;
+  userId: string;
+  deliveredAt: Date;
+}
+
 export interface TranslationNotification {
   type: 'translation_added' | 'translation_validated' | 'translation_voted';
   wordId: string;
@@ -37,6 +55,8 @@ export interface MessageMetadata {
   language?: string;
   translationRequested?: boolean;
   context?: string;
+  correction?: MessageCorrection;
+  word?: SharedWord;
 }
 
 @Injectable({
@@ -50,8 +70,19 @@ export class WebSocketService {
   private newMessageSubject = new Subject<Message>();
   private userStatusSubject = new Subject<UserStatus>();
   private typingStatusSubject = new Subject<TypingStatus>();
+  private readReceiptSubject = new Subject<ReadReceipt>();
+  private deliveryReceiptSubject = new Subject<DeliveryReceipt>();
+  // Conversation brute (titre, avatar, membres) modifiée par un autre membre
+  private conversationUpdatedSubject = new Subject<any>();
   private translationNotificationSubject =
     new Subject<TranslationNotification>();
+  // Rooms de communautés et de publications
+  private communityPostCreatedSubject =
+    new Subject<CommunityPostCreatedEvent>();
+  private communityVoteUpdatedSubject = new Subject<CommunityVoteUpdate>();
+  private communityCommentAddedSubject =
+    new Subject<CommunityCommentAddedEvent>();
+  private commentTypingSubject = new Subject<CommentTypingStatus>();
   private errorSubject = new Subject<string>();
 
   // Observables publics
@@ -59,8 +90,17 @@ export class WebSocketService {
   public newMessage$ = this.newMessageSubject.asObservable();
   public userStatus$ = this.userStatusSubject.asObservable();
   public typingStatus$ = this.typingStatusSubject.asObservable();
+  public readReceipt$ = this.readReceiptSubject.asObservable();
+  public deliveryReceipt$ = this.deliveryReceiptSubject.asObservable();
+  public conversationUpdated$ = this.conversationUpdatedSubject.asObservable();
   public translationNotification$ =
     this.translationNotificationSubject.asObservable();
+  public communityPostCreated$ =
+    this.communityPostCreatedSubject.asObservable();
+  public communityVoteUpdated$ = this.communityVoteUpdatedSubject.asObservable();
+  public communityCommentAdded$ =
+    this.communityCommentAddedSubject.asObservable();
+  public commentTyping$ = this.commentTypingSubject.asObservable();
   public error$ = this.errorSubject.asObservable();
 
   constructor(
@@ -192,6 +232,33 @@ export class WebSocketService {
       },
     );
 
+    // Accusés de lecture et changements des conversations de groupe
+    this.socket.on(
+      'messages_read',
+      (data: { conversationId: string; userId: string; readAt?: string }) => {
+        this.readReceiptSubject.next({
+          conversationId: data.conversationId,
+          userId: data.userId,
+          readAt: data.readAt ? new Date(data.readAt) : new Date(),
+        });
+      },
+    );
+
+    this.socket.on(
+      'messages_delivered',
+      (data: { conversationId: string; userId: string; deliveredAt?: string }) => {
+        this.deliveryReceiptSubject.next({
+          conversationId: data.conversationId,
+          userId: data.userId,
+          deliveredAt: data.deliveredAt ? new Date(data.deliveredAt) : new Date(),
+        });
+      },
+    );
+
+    this.socket.on('conversation_updated', (conversation: any) => {
+      this.conversationUpdatedSubject.next(conversation);
+    });
+
     // Événements de traduction
     this.socket.on('translation_added', (data: TranslationNotification) => {
       this.translationNotificationSubject.next(data);
@@ -205,6 +272,47 @@ export class WebSocketService {
       this.translationNotificationSubject.next(data);
     });
 
+    // Événements des communautés
+    this.socket.on(
+      'community_post_created',
+      (data: CommunityPostCreatedEvent) => {
+        this.communityPostCreatedSubject.next(data);
+      },
+    );
+
+    this.socket.on('community_vote_updated', (data: CommunityVoteUpdate) => {
+      this.communityVoteUpdatedSubject.next(data);
+    });
+
+    this.socket.on(
+      'community_comment_added',
+      (data: CommunityCommentAddedEvent) => {
+        this.communityCommentAddedSubject.next(data);
+      },
+    );
+
+    this.socket.on(
+      'comment_typing',
+      (data: Omit<CommentTypingStatus, 'isTyping'>) => {
+        this.commentTypingSubject.next({
+          ...data,
+          parentCommentId: data.parentCommentId ?? null,
+          isTyping: true,
+        });
+      },
+    );
+
+    this.socket.on(
+      'comment_stopped_typing',
+      (data: Omit<CommentTypingStatus, 'isTyping'>) => {
+        this.commentTypingSubject.next({
+          ...data,
+          parentCommentId: data.parentCommentId ?? null,
+          isTyping: false,
+        });
+      },
+    );
+
     // Événements d'erreur
     this.socket.on('error', (data: { message: string }) => {
       this.errorSubject.next(data.message);
@@ -238,19 +346,24 @@ export class WebSocketService {
   }
 
   /**
-   * Envoyer un message via WebSocket
+   * Envoyer un message via WebSocket (à un destinataire ou à un groupe).
+   * Retourne false si le socket n'est pas connecté.
    */
   sendMessage(data: {
-    receiverId: string;
+    receiverId?: string;
+    conversationId?: string;
     content: string;
     messageType?: string;
     metadata?: MessageMetadata;
-  }): void {
+    replyToId?: string;
+    clientMessageId?: string;
+  }): boolean {
     if (this.socket?.connected) {
       this.socket.emit('send_message', data);
-    } else {
-      this.errorSubject.next('WebSocket non connecté');
+      return true;
     }
+    this.errorSubject.next('WebSocket non connecté');
+    return false;
   }
 
   /**
@@ -369,4 +482,60 @@ export class WebSocketService {
       this.socket.emit('leave_word_room', { wordId });
     }
   }
+
+  // ===== MÉTHODES POUR LES COMMUNAUTÉS =====
+
+  /**
+   * Rejoindre la room d'une communauté (nouvelles publications, votes)
+   */
+  joinCommunityRoom(communityId: string): void {
+    if (this.socket?.connected) {
+      this.socket.emit('join_community_room', { communityId });
+    }
+  }
+
+  /**
+   * Quitter la room d'une communauté
+   */
+  leaveCommunityRoom(communityId: string): void {
+    if (this.socket?.connected) {
+      this.socket.emit('leave_community_room', { communityId });
+    }
+  }
+
+  /**
+   * Rejoindre la room d'une publication (commentaires, votes, saisie)
+   */
+  joinPostRoom(postId: string): void {
+    if (this.socket?.connected) {
+      this.socket.emit('join_post_room', { postId });
+    }
+  }
+
+  /**
+   * Quitter la room d'une publication
+   */
+  leavePostRoom(postId: string): void {
+    if (this.socket?.connected) {
+      this.socket.emit('leave_post_room', { postId });
+    }
+  }
+
+  /**
+   * Indiquer que l'utilisateur rédige un commentaire (ou une réponse)
+   */
+  startCommentTyping(postId: string, parentCommentId: string | null): void {
+    if (this.socket?.connected) {
+      this.socket.emit('comment_typing_start', { postId, parentCommentId });
+    }
+  }
+
+  /**
+   * Indiquer que l'utilisateur a cessé de rédiger
+   */
+  stopCommentTyping(postId: string, parentCommentId: string | null): void {
+    if (this.socket?.connected) {
+      this.socket.emit('comment_typing_stop', { postId, parentCommentId });
+    }
+  }
 }
@@ -0,0 +1,221 @@
+import { Injectable } from '@angular/core';
+import { Word } from '../models/word';
+import {
+  CSV_FORMULA_TRIGGER,
+  WordExportFile,
+  WordExportFormat,
+  WordExportRecord,
+} from '../models/word-transfer';
+import { LoggerService } from './logger.service';
+
+// Séparateur des valeurs multiples dans une même cellule CSV
+export const CSV_LIST_SEPARATOR = ' | ';
+
+const CSV_COLUMNS = [
+  'id',
+  'word',
+  'language',
+  'pronunciation',
+  'partsOfSpeech',
+  'definitions',
+  'examples',
+  'translations',
+  'audioUrls',
+];
+
+/**
+ * WordExportService
+ *
+ * Export de listes de mots (favoris, listes personnelles) en CSV, JSON
+ * ou paquet texte importable dans Anki, puis téléchargement du fichier.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class WordExportService {
+  constructor(private logger: LoggerService) {}
+
+  /**
+   * Génère le fichier au format demandé et déclenche son téléchargement
+   */
+  download(words: Word[], format: WordExportFormat, name: string): void {
+    const content = this.serialize(words, format, name);
+    const { extension, mimeType } = this._fileType(format);
+    const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${this._slugify(name)}-${new Date().toISOString().split('T')[0]}.${extension}`;
+    link.click();
+    window.URL.revokeObjectURL(url);
+
+    this.logger.debug(`📦 Export ${format} de ${words.length} mot(s)`);
+  }
+
+  serialize(words: Word[], format: WordExportFormat, name: string): string {
+    const records = words.map((word) => this.toRecord(word));
+    switch (format) {
+      case 'csv':
+        return this._toCsv(records);
+      case 'json':
+        return this._toJson(records, name);
+      case 'anki':
+        return this._toAnki(records);
+    }
+  }
+
+  toRecord(word: Word): WordExportRecord {
+    return {
+      id: word.id,
+      word: word.word,
+      language: word.language,
+      pronunciation: word.pronunciation || undefined,
+      meanings: (word.meanings ?? []).map((meaning) => ({
+        partOfSpeech: meaning.partOfSpeech,
+        definitions: (meaning.definitions ?? [])
+          .map((definition) => definition.definition)
+          .filter(Boolean),
+        examples: [
+          ...(meaning.examples ?? []),
+          ...(meaning.definitions ?? []).flatMap((definition) => definition.examples ?? []),
+        ].filter(Boolean),
+        synonyms: meaning.synonyms ?? [],
+      })),
+      translations: (word.translations ?? [])
+        .filter((translation) => translation.translatedWord)
+        .map((translation) => ({
+          language: translation.language,
+          word: translation.translatedWord,
+        })),
+      audio: Object.entries(word.audioFiles ?? {})
+        .filter(([, file]) => file?.url)
+        .map(([accent, file]) => ({ accent, url: file.url })),
+    };
+  }
+
+  // ─── Méthodes privées ─────────────────────────────────────────────────────
+
+  private _toCsv(records: WordExportRecord[]): string {
+    const rows = records.map((record) => [
+      record.id,
+      record.word,
+      record.language,
+      record.pronunciation ?? '',
+      this._unique(record.meanings.map((meaning) => meaning.partOfSpeech)).join(CSV_LIST_SEPARATOR),
+      record.meanings.flatMap((meaning) => meaning.definitions).join(CSV_LIST_SEPARATOR),
+      record.meanings.flatMap((meaning) => meaning.examples).join(CSV_LIST_SEPARATOR),
+      record.translations
+        .map((translation) => `${translation.language}:${translation.word}`)
+        .join(CSV_LIST_SEPARATOR),
+      record.audio.map((audio) => audio.url).join(CSV_LIST_SEPARATOR),
+    ]);
+
+    // BOM pour que les tableurs détectent l'UTF-8 (tons et lettres spéciales)
+    return '\uFEFF' + [CSV_COLUMNS, ...rows]
+      .map((row) => row.map((cell) => this._csvCell(cell)).join(','))
+      .join('\r\n');
+  }
+
+  private _toJson(records: WordExportRecord[], name: string): string {
+    const file: WordExportFile = {
+      source: 'oypunu',
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      name,
+      words: records,
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * Paquet texte au format d'import d'Anki (≥ 2.1.55) : les en-têtes « # »
+   * préconfigurent le séparateur, le type de note et la colonne d'étiquettes
+   */
+  private _toAnki(records: WordExportRecord[]): string {
+    const header = [
+      '#separator:tab',
+      '#html:true',
+      '#notetype:Basic',
+      '#columns:Front\tBack\tTags',
+      '#tags column:3',
+    ];
+
+    const rows = records.map((record) => {
+      const back: string[] = [];
+      if (record.pronunciation) {
+        back.push(`<i>/${this._html(record.pronunciation)}/</i>`);
+      }
+      record.meanings.forEach((meaning) => {
+        if (!meaning.definitions.length) return;
+        const items = meaning.definitions.map((definition) => `<li>${this._html(definition)}</li>`).join('');
+        back.push(`<b>${this._html(meaning.partOfSpeech)}</b><ol>${items}</ol>`);
+      });
+      if (record.translations.length) {
+        back.push(
+          record.translations
+            .map((translation) => `${this._html(translation.word)} (${this._html(translation.language)})`)
+            .join(', '),
+        );
+      }
+      record.audio.forEach((audio) => {
+        back.push(`<audio controls src="${this._html(audio.url)}"></audio>`);
+      });
+
+      const tags = ['oypunu', `lang::${record.language}`].map((tag) => tag.replace(/\s+/g, '_'));
+      return [this._html(record.word), back.join('<br>'), tags.join(' ')]
+        .map((field) => this._ankiField(field))
+        .join('\t');
+    });
+
+    return [...header, ...rows].join('\n');
+  }
+
+  private _csvCell(value: string): string {
+    let cell = value ?? '';
+    // Neutraliser les formules des tableurs (injection CSV)
+    if (CSV_FORMULA_TRIGGER.test(cell)) {
+      cell = `'${cell}`;
+    }
+    return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  }
+
+  private _ankiField(value: string): string {
+    const field = value.replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+    return field.includes('"') ? `"${field.replace(/"/g, '""')}"` : field;
+  }
+
+  private _html(value: string): string {
+    return (value ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private _unique(values: string[]): string[] {
+    return [...new Set(values.filter(Boolean))];
+  }
+
+  private _slugify(name: string): string {
+    return (
+      name
+        .normalize('NFD')
+        .replace(/\p{M}/gu, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '') || 'oypunu'
+    );
+  }
+
+  private _fileType(format: WordExportFormat): { extension: string; mimeType: string } {
+    switch (format) {
+      case 'csv':
+        return { extension: 'csv', mimeType: 'text/csv' };
+      case 'json':
+        return { extension: 'json', mimeType: 'application/json' };
+      case 'anki':
+        return { extension: 'txt', mimeType: 'text/tab-separated-values' };
+    }
+  }
+}
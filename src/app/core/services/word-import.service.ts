@@ -0,0 +1,355 @@
+import { Injectable } from '@angular/core';
+import { Observable, from, of } from 'rxjs';
+import { catchError, map, mergeMap, reduce, toArray } from 'rxjs/operators';
+import { Word } from '../models/word';
+import {
+  CSV_FORMULA_TRIGGER,
+  WordImportMatch,
+  WordImportResult,
+  WordImportRow,
+} from '../models/word-transfer';
+import { DictionaryService } from './dictionary.service';
+import { CollectionsService } from './collections.service';
+import { SearchFoldingService } from './search-folding.service';
+import { LoggerService } from './logger.service';
+
+// Requêtes simultanées pendant la correspondance et l'ajout
+const IMPORT_CONCURRENCY = 3;
+
+const WORD_HEADERS = ['word', 'mot', 'front', 'recto'];
+const LANGUAGE_HEADERS = ['language', 'langue', 'lang'];
+const ID_HEADERS = ['id'];
+const TAGS_HEADERS = ['tags'];
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[a-z0-9]+)?$/i;
+
+/**
+ * WordImportService
+ *
+ * Import de mots depuis un fichier (CSV, JSON ou paquet texte Anki) :
+ * lecture des lignes, correspondance avec le dictionnaire via la recherche,
+ * puis ajout groupé aux favoris ou à une liste.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class WordImportService {
+  constructor(
+    private _dictionaryService: DictionaryService,
+    private _collectionsService: CollectionsService,
+    private _folding: SearchFoldingService,
+    private logger: LoggerService,
+  ) {}
+
+  /**
+   * Lit un fichier importé ; le format est déduit du contenu
+   */
+  parseFile(file: File): Observable<WordImportRow[]> {
+    return from(file.text()).pipe(map((text) => this.parse(text)));
+  }
+
+  parse(text: string): WordImportRow[] {
+    const content = text.replace(/^\uFEFF/, '');
+    const trimmed = content.trimStart();
+    const rows =
+      trimmed.startsWith('{') || trimmed.startsWith('[')
+        ? this._parseJson(trimmed)
+        : this._parseDelimited(content);
+
+    return rows.filter((row) => row.word);
+  }
+
+  /**
+   * Cherche chaque ligne dans le dictionnaire. `isPresent` indique si un mot
+   * figure déjà dans la destination (favoris, liste…)
+   */
+  matchRows(
+    rows: WordImportRow[],
+    isPresent: (wordId: string) => boolean,
+  ): Observable<WordImportMatch[]> {
+    if (!rows.length) return of([]);
+
+    return from(rows).pipe(
+      mergeMap((row) => this._matchRow(row, isPresent), IMPORT_CONCURRENCY),
+      toArray(),
+      map((matches) => this._markFileDuplicates(matches)),
+    );
+  }
+
+  /**
+   * Ajoute les mots retenus aux favoris, ou à la liste `collectionId`
+   */
+  importWords(
+    wordIds: string[],
+    collectionId: string | null,
+  ): Observable<WordImportResult> {
+    const ids = [...new Set(wordIds)];
+    if (!ids.length) return of({ added: 0, failed: 0 });
+
+    this.logger.debug(
+      `📥 Import de ${ids.length} mot(s) vers ${collectionId ? `la liste ${collectionId}` : 'les favoris'}`,
+    );
+
+    return from(ids).pipe(
+      mergeMap(
+        (wordId) =>
+          (collectionId
+            ? this._collectionsService.addWord(collectionId, wordId)
+            : this._dictionaryService.addToFavorites(wordId)
+          ).pipe(catchError(() => of({ success: false }))),
+        IMPORT_CONCURRENCY,
+      ),
+      reduce(
+        (result, response) =>
+          response.success
+            ? { ...result, added: result.added + 1 }
+            : { ...result, failed: result.failed + 1 },
+        { added: 0, failed: 0 } as WordImportResult,
+      ),
+    );
+  }
+
+  // ─── Correspondance ───────────────────────────────────────────────────────
+
+  private _matchRow(
+    row: WordImportRow,
+    isPresent: (wordId: string) => boolean,
+  ): Observable<WordImportMatch> {
+    return this._dictionaryService
+      .searchWords({
+        query: row.word,
+        languages: row.language ? [row.language] : [],
+        page: 1,
+        limit: 10,
+        skipHistory: true,
+      })
+      .pipe(
+        map((results) => {
+          const pool = this._bestCandidates(row, results.words);
+
+          if (!pool.length) {
+            // Proposer tout de même les mots proches pour une résolution manuelle
+            const suggestions = [
+              ...results.words,
+              ...(results.suggestions ?? []).map((suggestion) => suggestion.word),
+            ].slice(0, 5);
+            return this._match(row, 'notFound', suggestions, null);
+          }
+
+          if (pool.length > 1) {
+            return this._match(row, 'ambiguous', pool, null);
+          }
+
+          const word = pool[0];
+          return isPresent(word.id)
+            ? this._match(row, 'duplicate', pool, null)
+            : this._match(row, 'matched', pool, word.id);
+        }),
+        catchError((error) => {
+          this.logger.error(`Error matching imported word "${row.word}":`, error);
+          return of(this._match(row, 'notFound', [], null));
+        }),
+      );
+  }
+
+  // Identifiant connu, sinon graphie exacte, sinon graphie sans tons
+  private _bestCandidates(row: WordImportRow, words: Word[]): Word[] {
+    const inLanguage = row.language
+      ? words.filter((word) => word.language === row.language)
+      : words;
+
+    const byId = row.id ? inLanguage.filter((word) => word.id === row.id) : [];
+    if (byId.length) return byId;
+
+    const spelling = this._normalize(row.word);
+    const exact = inLanguage.filter((word) => this._normalize(word.word) === spelling);
+    if (exact.length) return exact;
+
+    const folded = this._folding.fold(row.word, row.language);
+    return inLanguage.filter(
+      (word) => this._folding.fold(word.word, word.language) === folded,
+    );
+  }
+
+  private _markFileDuplicates(matches: WordImportMatch[]): WordImportMatch[] {
+    const seen = new Set<string>();
+    return matches
+      .sort((a, b) => a.row.line - b.row.line)
+      .map((match) => {
+        if (!match.selectedWordId) return match;
+        if (seen.has(match.selectedWordId)) {
+          return { ...match, status: 'duplicate', selectedWordId: null };
+        }
+        seen.add(match.selectedWordId);
+        return match;
+      });
+  }
+
+  private _match(
+    row: WordImportRow,
+    status: WordImportMatch['status'],
+    candidates: Word[],
+    selectedWordId: string | null,
+  ): WordImportMatch {
+    return { row, status, candidates, selectedWordId };
+  }
+
+  private _normalize(text: string): string {
+    return (text || '').normalize('NFC').toLowerCase().trim();
+  }
+
+  // ─── Lecture des fichiers ─────────────────────────────────────────────────
+
+  // Export O'Ypunu ({ words: [...] }), tableau d'objets ou de chaînes
+  private _parseJson(text: string): WordImportRow[] {
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return [];
+    }
+
+    const items: any[] = Array.isArray(data) ? data : data?.words ?? [];
+    return items.map((item, index) =>
+      typeof item === 'string'
+        ? { line: index + 1, word: item.trim() }
+        : {
+            line: index + 1,
+            word: String(item?.word ?? '').trim(),
+            language: item?.language ? String(item.language).trim() : undefined,
+            id: item?.id ?? item?._id,
+          },
+    );
+  }
+
+  /**
+   * CSV / TSV, y compris les paquets texte Anki : les en-têtes « #separator: »
+   * et « #columns: » sont respectés, sinon le séparateur est deviné
+   */
+  private _parseDelimited(text: string): WordImportRow[] {
+    const lines = text.split(/\r?\n/);
+    let separator: string | null = null;
+    let columns: string[] | null = null;
+    let headerLines = 0;
+
+    for (const line of lines) {
+      if (!line.startsWith('#')) break;
+      headerLines++;
+      const [key, ...rest] = line.slice(1).split(':');
+      const value = rest.join(':');
+      if (key === 'separator') separator = this._ankiSeparator(value);
+      if (key === 'columns') columns = value.split(separator ?? '\t');
+    }
+
+    const body = lines.slice(headerLines).join('\n');
+    separator ??= this._guessSeparator(body);
+    const records = this._splitRecords(body, separator).filter((cells) =>
+      cells.some((cell) => cell.trim()),
+    );
+
+    if (!columns && records.length && this._findColumn(records[0], WORD_HEADERS) >= 0) {
+      columns = records.shift()!;
+      headerLines++;
+    }
+
+    const wordIndex = columns ? Math.max(this._findColumn(columns, WORD_HEADERS), 0) : 0;
+    const languageIndex = columns ? this._findColumn(columns, LANGUAGE_HEADERS) : 1;
+    const idIndex = columns ? this._findColumn(columns, ID_HEADERS) : -1;
+    const tagsIndex = columns ? this._findColumn(columns, TAGS_HEADERS) : -1;
+
+    return records.map((cells, index) => {
+      const tagLanguage = (cells[tagsIndex] ?? '').match(/(?:^|\s)lang::(\S+)/)?.[1];
+      const language = (cells[languageIndex] ?? '').trim() || tagLanguage;
+      return {
+        line: headerLines + index + 1,
+        word: this._cleanCell(cells[wordIndex] ?? ''),
+        // Sans en-tête, la 2e colonne n'est une langue que si elle en a la forme
+        language: language && LANGUAGE_CODE.test(language) ? language : undefined,
+        id: idIndex >= 0 ? cells[idIndex]?.trim() || undefined : undefined,
+      };
+    });
+  }
+
+  // Découpage RFC 4180 : champs entre guillemets pouvant contenir séparateurs et sauts de ligne
+  private _splitRecords(text: string, separator: string): string[][] {
+    const records: string[][] = [];
+    let cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"' && cell === '') {
+        quoted = true;
+      } else if (char === separator) {
+        cells.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        cells.push(cell);
+        records.push(cells);
+        cells = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell || cells.length) {
+      cells.push(cell);
+      records.push(cells);
+    }
+    return records;
+  }
+
+  private _guessSeparator(text: string): string {
+    const firstLine = text.split(/\r?\n/).find((line) => line.trim()) ?? '';
+    const counts = ['\t', ';', ','].map((separator) => ({
+      separator,
+      count: firstLine.split(separator).length - 1,
+    }));
+    const best = counts.reduce((a, b) => (b.count > a.count ? b : a));
+    return best.count > 0 ? best.separator : ',';
+  }
+
+  private _ankiSeparator(value: string): string {
+    const named: Record<string, string> = {
+      tab: '\t',
+      comma: ',',
+      semicolon: ';',
+      pipe: '|',
+      space: ' ',
+      colon: ':',
+    };
+    return named[value.trim().toLowerCase()] ?? (value || '\t');
+  }
+
+  private _findColumn(cells: string[], names: string[]): number {
+    return cells.findIndex((cell) => names.includes(cell.trim().toLowerCase()));
+  }
+
+  // Retire le HTML (champs Anki), les entités courantes et la garde anti-formule
+  private _cleanCell(value: string): string {
+    const unguarded =
+      value.startsWith("'") && CSV_FORMULA_TRIGGER.test(value.slice(1))
+        ? value.slice(1)
+        : value;
+    return unguarded
+      .replace(/<br\s*\/?>[\s\S]*$/i, '')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&amp;/g, '&')
+      .trim();
+  }
+}
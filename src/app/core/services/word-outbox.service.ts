@@ -0,0 +1,376 @@
+import { Injectable, NgZone } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { BehaviorSubject, Observable, firstValueFrom } from 'rxjs';
+import { LoggerService } from './logger.service';
+import { AuthService } from './auth.service';
+
+export type OutboxEntryStatus = 'pending' | 'syncing' | 'failed';
+
+/**
+ * Champ sérialisé d'un FormData (les fichiers audio sont conservés tels quels)
+ */
+export interface OutboxFormField {
+  name: string;
+  value: string | Blob;
+  fileName?: string;
+}
+
+/**
+ * Contribution en attente d'envoi.
+ * Le format est partagé avec public/outbox-sync.js (service worker).
+ */
+export interface OutboxEntry {
+  id: string;
+  url: string;
+  label: string;
+  bodyType: 'json' | 'form-data';
+  body: unknown;
+  authToken: string | null;
+  status: OutboxEntryStatus;
+  error?: string;
+  createdAt: string;
+  claimedAt?: string; // Début de l'envoi en cours (statut "syncing")
+  // Jeton expiré (401 dans le service worker) : rejeu par l'application seule
+  needsAuth?: boolean;
+}
+
+/**
+ * Erreur émise quand une soumission a été mise en file d'attente
+ * au lieu d'être envoyée immédiatement
+ */
+export class OutboxQueuedError extends Error {
+  constructor(public readonly entryId: string) {
+    super('Soumission enregistrée hors ligne');
+    this.name = 'OutboxQueuedError';
+  }
+}
+
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+}
+
+/**
+ * WordOutboxService
+ *
+ * File d'envoi IndexedDB des contributions soumises hors ligne.
+ * Les entrées sont rejouées par le service worker (Background Sync)
+ * ou, à défaut, par l'application au retour de la connexion.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class WordOutboxService {
+  private readonly DB_NAME = 'oypunu-outbox';
+  private readonly DB_VERSION = 1;
+  private readonly STORE = 'submissions';
+  private readonly SYNC_TAG = 'oypunu-word-outbox';
+  // Au-delà, un envoi "syncing" est considéré comme interrompu
+  private readonly STALE_CLAIM_DELAY = 2 * 60 * 1000;
+
+  private _db: Promise<IDBDatabase> | null = null;
+  private _replaying = false;
+
+  private _entriesSubject = new BehaviorSubject<OutboxEntry[]>([]);
+  public entries$: Observable<OutboxEntry[]> =
+    this._entriesSubject.asObservable();
+
+  constructor(
+    private _http: HttpClient,
+    private _authService: AuthService,
+    private _ngZone: NgZone,
+    private logger: LoggerService,
+  ) {
+    if (!this.isSupported()) return;
+
+    // Sans Background Sync, rien d'autre ne rejoue une file restée
+    // en attente si la page est rechargée alors que le réseau est déjà là
+    this._resetStaleEntries()
+      .then(() => this._refresh())
+      .then(() => (navigator.onLine ? this.replay() : undefined));
+
+    window.addEventListener('online', () =>
+      this._ngZone.run(() => this.replay()),
+    );
+    navigator.serviceWorker?.addEventListener('message', (event) => {
+      if (event.data?.type === 'OUTBOX_UPDATED') {
+        this._ngZone.run(() => this._onServiceWorkerUpdate());
+      }
+    });
+  }
+
+  /**
+   * Indique si le navigateur supporte IndexedDB
+   */
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Ajoute une soumission à la file et demande une synchronisation
+   */
+  async enqueue(
+    url: string,
+    body: FormData | object,
+    label: string,
+  ): Promise<OutboxEntry> {
+    const entry: OutboxEntry = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      url,
+      label,
+      bodyType: body instanceof FormData ? 'form-data' : 'json',
+      body: body instanceof FormData ? this._serializeFormData(body) : body,
+      authToken: this._authService.getToken(),
+      status: 'pending',
+      createdAt: new Date().toISOString(),
+    };
+
+    await this._put(entry);
+    await this._refresh();
+    this.logger.debug('📥 Contribution mise en file d\'attente:', label);
+
+    this._registerBackgroundSync();
+    return entry;
+  }
+
+  /**
+   * Rejoue les entrées en attente depuis l'application
+   */
+  async replay(): Promise<void> {
+    if (!this.isSupported() || this._replaying || !navigator.onLine) return;
+    this._replaying = true;
+
+    try {
+      const claimed = await this._claimPending();
+      for (const entry of claimed) {
+        await this._send(entry);
+      }
+    } catch (error) {
+      this.logger.error('Erreur lors du rejeu de la file d\'envoi:', error);
+    } finally {
+      this._replaying = false;
+      await this._refresh();
+    }
+  }
+
+  /**
+   * Remet une entrée en échec dans la file et relance l'envoi
+   */
+  async retry(entryId: string): Promise<void> {
+    const entry = (await this._getAll()).find((e) => e.id === entryId);
+    if (!entry || entry.status !== 'failed') return;
+
+    await this._put({
+      ...entry,
+      status: 'pending',
+      error: undefined,
+      authToken: this._authService.getToken(),
+      needsAuth: undefined,
+    });
+    await this._refresh();
+    await this.replay();
+  }
+
+  /**
+   * Supprime définitivement une entrée
+   */
+  async remove(entryId: string): Promise<void> {
+    const db = await this._openDb();
+    const tx = db.transaction(this.STORE, 'readwrite');
+    tx.objectStore(this.STORE).delete(entryId);
+    await this._complete(tx);
+    await this._refresh();
+  }
+
+  // ============= MÉTHODES PRIVÉES =============
+
+  /**
+   * Les entrées refusées au service worker (401) repartent avec le jeton
+   * courant, ajouté par l'intercepteur HTTP de l'application
+   */
+  private async _onServiceWorkerUpdate(): Promise<void> {
+    await this._refresh();
+    if (this._entriesSubject.value.some((e) => e.needsAuth)) {
+      await this.replay();
+    }
+  }
+
+  private async _send(entry: OutboxEntry): Promise<void> {
+    const body =
+      entry.bodyType === 'form-data'
+        ? this._deserializeFormData(entry.body as OutboxFormField[])
+        : entry.body;
+
+    try {
+      await firstValueFrom(this._http.post(entry.url, body));
+      await this.remove(entry.id);
+      this.logger.debug('📤 Contribution envoyée depuis la file:', entry.label);
+    } catch (error) {
+      const status = (error as HttpErrorResponse)?.status ?? 0;
+      // Réseau coupé, session expirée ou serveur indisponible : on garde l'entrée
+      if (status === 0 || status === 401 || status >= 500) {
+        await this._put({ ...entry, status: 'pending', claimedAt: undefined });
+        return;
+      }
+      await this._put({
+        ...entry,
+        status: 'failed',
+        claimedAt: undefined,
+        error:
+          (error as HttpErrorResponse)?.error?.message || `Erreur ${status}`,
+      });
+    }
+  }
+
+  private _registerBackgroundSync(): void {
+    if (!('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker.ready
+      .then((registration: SyncCapableRegistration) => {
+        if (registration.sync) {
+          return registration.sync.register(this.SYNC_TAG);
+        }
+        // Pas de Background Sync (Firefox, Safari) : rejeu côté application
+        return this.replay();
+      })
+      .catch((error) =>
+        this.logger.warn('Background Sync indisponible:', error),
+      );
+  }
+
+  /**
+   * Réserve les entrées en attente dans une seule transaction, comme
+   * claimPending() du service worker : une entrée déjà prise par l'autre
+   * n'est jamais envoyée deux fois
+   */
+  private async _claimPending(): Promise<OutboxEntry[]> {
+    const db = await this._openDb();
+    const tx = db.transaction(this.STORE, 'readwrite');
+    const store = tx.objectStore(this.STORE);
+    const claimedAt = new Date().toISOString();
+    const claimed: OutboxEntry[] = [];
+
+    store.getAll().onsuccess = (event) => {
+      ((event.target as IDBRequest<OutboxEntry[]>).result || [])
+        .filter((e) => e.status === 'pending')
+        .forEach((e) => {
+          const entry: OutboxEntry = { ...e, status: 'syncing', claimedAt };
+          store.put(entry);
+          claimed.push(entry);
+        });
+    };
+
+    await this._complete(tx);
+    return claimed;
+  }
+
+  /**
+   * Une entrée restée "syncing" au-delà du délai provient d'un rejeu
+   * interrompu ; un envoi récent peut encore être en cours dans le service worker
+   */
+  private async _resetStaleEntries(): Promise<void> {
+    try {
+      const db = await this._openDb();
+      const tx = db.transaction(this.STORE, 'readwrite');
+      const store = tx.objectStore(this.STORE);
+      const now = Date.now();
+
+      store.getAll().onsuccess = (event) => {
+        ((event.target as IDBRequest<OutboxEntry[]>).result || [])
+          .filter(
+            (e) =>
+              e.status === 'syncing' &&
+              (!e.claimedAt ||
+                now - new Date(e.claimedAt).getTime() > this.STALE_CLAIM_DELAY),
+          )
+          .forEach((e) =>
+            store.put({ ...e, status: 'pending', claimedAt: undefined }),
+          );
+      };
+
+      await this._complete(tx);
+    } catch (error) {
+      this.logger.error('Erreur de la file d\'envoi:', error);
+    }
+  }
+
+  private async _refresh(): Promise<void> {
+    try {
+      const entries = await this._getAll();
+      entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      this._entriesSubject.next(entries);
+    } catch (error) {
+      this.logger.error('Erreur de lecture de la file d\'envoi:', error);
+    }
+  }
+
+  private _serializeFormData(formData: FormData): OutboxFormField[] {
+    const fields: OutboxFormField[] = [];
+    formData.forEach((value, name) => {
+      fields.push(
+        value instanceof File
+          ? { name, value, fileName: value.name }
+          : { name, value },
+      );
+    });
+    return fields;
+  }
+
+  private _deserializeFormData(fields: OutboxFormField[]): FormData {
+    const formData = new FormData();
+    fields.forEach((field) =>
+      field.fileName !== undefined
+        ? formData.append(field.name, field.value as Blob, field.fileName)
+        : formData.append(field.name, field.value),
+    );
+    return formData;
+  }
+
+  private async _getAll(): Promise<OutboxEntry[]> {
+    const db = await this._openDb();
+    const tx = db.transaction(this.STORE, 'readonly');
+    return this._request<OutboxEntry[]>(tx.objectStore(this.STORE).getAll());
+  }
+
+  private async _put(entry: OutboxEntry): Promise<void> {
+    const db = await this._openDb();
+    const tx = db.transaction(this.STORE, 'readwrite');
+    tx.objectStore(this.STORE).put(entry);
+    await this._complete(tx);
+  }
+
+  private _openDb(): Promise<IDBDatabase> {
+    if (!this._db) {
+      this._db = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(this.STORE)) {
+            db.createObjectStore(this.STORE, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this._db = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this._db;
+  }
+
+  private _request<T>(request: IDBRequest): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private _complete(tx: IDBTransaction): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+}
@@ -0,0 +1,21 @@
+import { NgModule } from '@angular/core';
+import { RouterModule, Routes } from '@angular/router';
+import { CollectionsComponent } from './components/collections/collections.component';
+import { CollectionDetailsComponent } from './components/collection-details/collection-details.component';
+import { AuthGuard } from '../../core/guards/auth.guard';
+
+const routes: Routes = [
+  {
+    path: '',
+    component: CollectionsComponent,
+    canActivate: [AuthGuard],
+  },
+  // Les listes publiques sont consultables sans compte
+  { path: ':id', component: CollectionDetailsComponent },
+];
+
+@NgModule({
+  imports: [RouterModule.forChild(routes)],
+  exports: [RouterModule],
+})
+export class CollectionsRoutingModule {}
@@ -0,0 +1,28 @@
+import { NgModule } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule, ReactiveFormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { DragDropModule } from '@angular/cdk/drag-drop';
+import { CollectionsRoutingModule } from './collections-routing.module';
+import { SharedModule } from '../../shared/shared.module';
+import { CollectionsComponent } from './components/collections/collections.component';
+import { CollectionDetailsComponent } from './components/collection-details/collection-details.component';
+import { CollectionFormModalComponent } from './components/collection-form-modal/collection-form-modal.component';
+
+@NgModule({
+  declarations: [
+    CollectionsComponent,
+    CollectionDetailsComponent,
+    CollectionFormModalComponent,
+  ],
+  imports: [
+    CommonModule,
+    FormsModule,
+    ReactiveFormsModule,
+    DragDropModule,
+    SharedModule,
+    RouterModule,
+    CollectionsRoutingModule,
+  ],
+})
+export class CollectionsModule {}
@@ -0,0 +1,184 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { ActivatedRoute, Router } from '@angular/router';
+import { CdkDragDrop, moveItemInArray } from '@angular/cdk/drag-drop';
+import { Subject } from 'rxjs';
+import { switchMap, takeUntil } from 'rxjs/operators';
+import { CollectionsService } from '../../../../core/services/collections.service';
+import { AuthService } from '../../../../core/services/auth.service';
+import { ToastService } from '../../../../core/services/toast.service';
+import { ConfirmDialogService } from '../../../../core/services/confirm-dialog.service';
+import {
+  CollectionPayload,
+  WordCollection,
+} from '../../../../core/models/word-collection';
+import { Word } from '../../../../core/models/word';
+import { WordImportResult } from '../../../../core/models/word-transfer';
+
+@Component({
+  selector: 'app-collection-details',
+  standalone: false,
+  templateUrl: './collection-details.component.html',
+})
+export class CollectionDetailsComponent implements OnInit, OnDestroy {
+  collection: WordCollection | null = null;
+  words: Word[] = [];
+  isLoading = true;
+  notFound = false;
+
+  isFormOpen = false;
+  isSaving = false;
+  isShareModalOpen = false;
+  isImportOpen = false;
+
+  private _destroy$ = new Subject<void>();
+
+  constructor(
+    private _route: ActivatedRoute,
+    private _router: Router,
+    private _collectionsService: CollectionsService,
+    private _authService: AuthService,
+    private _toastService: ToastService,
+    private _confirmDialog: ConfirmDialogService
+  ) {}
+
+  ngOnInit(): void {
+    this._route.paramMap
+      .pipe(
+        switchMap((params) => {
+          this.isLoading = true;
+          return this._collectionsService.getCollection(params.get('id') ?? '');
+        }),
+        takeUntil(this._destroy$)
+      )
+      .subscribe((collection) => this._setCollection(collection));
+  }
+
+  ngOnDestroy(): void {
+    this._destroy$.next();
+    this._destroy$.complete();
+  }
+
+  get isOwner(): boolean {
+    const userId = this._authService.getCurrentUserId();
+    return !!userId && this.collection?.owner?.id === userId;
+  }
+
+  get isAuthenticated(): boolean {
+    return this._authService.isAuthenticated();
+  }
+
+  get shareUrl(): string {
+    return this.collection?.visibility === 'public'
+      ? this._collectionsService.getShareUrl(this.collection.id)
+      : '';
+  }
+
+  // ─── Édition ──────────────────────────────────────────────────────────────
+
+  updateCollection(payload: CollectionPayload): void {
+    if (!this.collection) return;
+    this.isSaving = true;
+    this._collectionsService.update(this.collection.id, payload).subscribe({
+      next: (updated) => {
+        this.collection = { ...this.collection!, ...updated, words: this.collection!.words };
+        this.isSaving = false;
+        this.isFormOpen = false;
+        this._toastService.success('Mis à jour', 'La liste a été modifiée');
+      },
+      error: () => {
+        this.isSaving = false;
+        this._toastService.error('Erreur', 'Impossible de modifier la liste');
+      },
+    });
+  }
+
+  async deleteCollection(): Promise<void> {
+    if (!this.collection) return;
+    const ok = await this._confirmDialog.confirm({
+      title: 'Supprimer la liste',
+      message: `La liste « ${this.collection.name} » sera supprimée. Les mots eux-mêmes restent dans le dictionnaire.`,
+      confirmText: 'Supprimer',
+      type: 'danger',
+    });
+    if (!ok) return;
+
+    this._collectionsService.delete(this.collection.id).subscribe((response) => {
+      if (response.success) {
+        this._toastService.success('Supprimé', 'La liste a été supprimée');
+        this._router.navigate(['/collections']);
+      } else {
+        this._toastService.error('Erreur', 'Impossible de supprimer la liste');
+      }
+    });
+  }
+
+  // ─── Mots ─────────────────────────────────────────────────────────────────
+
+  onDrop(event: CdkDragDrop<Word[]>): void {
+    if (!this.collection || event.previousIndex === event.currentIndex) return;
+
+    const previous = [...this.words];
+    moveItemInArray(this.words, event.previousIndex, event.currentIndex);
+    this._collectionsService
+      .reorderWords(this.collection.id, this.words.map((word) => word.id))
+      .subscribe((response) => {
+        if (!response.success) {
+          this.words = previous;
+          this._toastService.error('Erreur', "Impossible d'enregistrer le nouvel ordre");
+        }
+      });
+  }
+
+  removeWord(word: Word): void {
+    if (!this.collection) return;
+    const previous = [...this.words];
+    this.words = this.words.filter((w) => w.id !== word.id);
+    this.collection.wordCount = this.words.length;
+
+    this._collectionsService.removeWord(this.collection.id, word.id).subscribe((response) => {
+      if (!response.success) {
+        this.words = previous;
+        this.collection!.wordCount = previous.length;
+        this._toastService.error('Erreur', 'Impossible de retirer le mot');
+      }
+    });
+  }
+
+  // Recharger la liste pour obtenir le détail des mots importés
+  onImported(result: WordImportResult): void {
+    if (!this.collection || result.added === 0) return;
+    this._collectionsService
+      .getCollection(this.collection.id)
+      .pipe(takeUntil(this._destroy$))
+      .subscribe((collection) => this._setCollection(collection));
+  }
+
+  // ─── Partage ──────────────────────────────────────────────────────────────
+
+  shareWithUser(username: string): void {
+    if (!this.collection || !username) return;
+    this._collectionsService.share(this.collection.id, username).subscribe((response) => {
+      if (response.success) {
+        this._toastService.success('Liste partagée', `Partagée avec ${username}`);
+      } else {
+        this._toastService.error('Erreur lors du partage', response.message);
+      }
+      this.isShareModalOpen = false;
+    });
+  }
+
+  getFirstDefinition(word: Word): string {
+    return word.meanings?.[0]?.definitions?.[0]?.definition ?? '';
+  }
+
+  trackByWordId(index: number, word: Word): string {
+    return word.id;
+  }
+
+  private _setCollection(collection: WordCollection | null): void {
+    this.collection = collection;
+    this.words = collection?.words ?? [];
+    this.notFound = !collection;
+    this.isLoading = false;
+  }
+}
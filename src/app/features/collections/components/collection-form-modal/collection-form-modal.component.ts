@@ -0,0 +1,99 @@
+import {
+  Component,
+  EventEmitter,
+  Input,
+  OnChanges,
+  OnInit,
+  Output,
+} from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import {
+  CollectionPayload,
+  WordCollection,
+} from '../../../../core/models/word-collection';
+import { LanguagesService } from '../../../../core/services/languages.service';
+import { DropdownOption } from '../../../../shared/components/custom-dropdown/custom-dropdown.component';
+
+/**
+ * Formulaire de création / modification d'une liste de mots
+ */
+@Component({
+  selector: 'app-collection-form-modal',
+  standalone: false,
+  templateUrl: './collection-form-modal.component.html',
+})
+export class CollectionFormModalComponent implements OnInit, OnChanges {
+  @Input() isOpen = false;
+  // Liste à modifier, ou null pour une création
+  @Input() collection: WordCollection | null = null;
+  @Input() isSaving = false;
+  @Output() save = new EventEmitter<CollectionPayload>();
+  @Output() cancel = new EventEmitter<void>();
+
+  form: FormGroup;
+  languageOptions: DropdownOption[] = [];
+
+  constructor(
+    private _fb: FormBuilder,
+    private _languagesService: LanguagesService
+  ) {
+    this.form = this._fb.group({
+      name: ['', [Validators.required, Validators.minLength(2), Validators.maxLength(100)]],
+      description: ['', [Validators.maxLength(500)]],
+      visibility: ['private'],
+      targetLanguage: [''],
+    });
+  }
+
+  ngOnInit(): void {
+    this._languagesService.getActiveLanguages().subscribe({
+      next: (languages) => {
+        this.languageOptions = [
+          { value: '', label: 'Aucune langue cible' },
+          ...languages.map((language) => ({
+            value: this._languagesService.getLanguageCode(language),
+            label: language.nativeName || language.name,
+          })),
+        ];
+      },
+      error: () => (this.languageOptions = []),
+    });
+  }
+
+  ngOnChanges(): void {
+    if (!this.isOpen) return;
+    this.form.reset({
+      name: this.collection?.name ?? '',
+      description: this.collection?.description ?? '',
+      visibility: this.collection?.visibility ?? 'private',
+      targetLanguage: this.collection?.targetLanguage ?? '',
+    });
+  }
+
+  get isEdit(): boolean {
+    return !!this.collection;
+  }
+
+  setVisibility(visibility: 'public' | 'private'): void {
+    this.form.patchValue({ visibility });
+  }
+
+  onSubmit(): void {
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    const value = this.form.value;
+    this.save.emit({
+      name: value.name.trim(),
+      description: value.description?.trim() || undefined,
+      visibility: value.visibility,
+      targetLanguage: value.targetLanguage || null,
+    });
+  }
+
+  onCancel(): void {
+    this.cancel.emit();
+  }
+}
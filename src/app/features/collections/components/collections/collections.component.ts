@@ -0,0 +1,70 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { Router } from '@angular/router';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { CollectionsService } from '../../../../core/services/collections.service';
+import { ToastService } from '../../../../core/services/toast.service';
+import {
+  CollectionPayload,
+  WordCollection,
+} from '../../../../core/models/word-collection';
+
+@Component({
+  selector: 'app-collections',
+  standalone: false,
+  templateUrl: './collections.component.html',
+})
+export class CollectionsComponent implements OnInit, OnDestroy {
+  collections: WordCollection[] = [];
+  isLoading = true;
+  isFormOpen = false;
+  isSaving = false;
+
+  private _destroy$ = new Subject<void>();
+
+  constructor(
+    private _collectionsService: CollectionsService,
+    private _toastService: ToastService,
+    private _router: Router
+  ) {}
+
+  ngOnInit(): void {
+    this._collectionsService.myCollections$
+      .pipe(takeUntil(this._destroy$))
+      .subscribe((collections) => (this.collections = collections));
+
+    this._collectionsService
+      .getMyCollections()
+      .pipe(takeUntil(this._destroy$))
+      .subscribe(() => (this.isLoading = false));
+  }
+
+  ngOnDestroy(): void {
+    this._destroy$.next();
+    this._destroy$.complete();
+  }
+
+  openCreateForm(): void {
+    this.isFormOpen = true;
+  }
+
+  createCollection(payload: CollectionPayload): void {
+    this.isSaving = true;
+    this._collectionsService.create(payload).subscribe({
+      next: (collection) => {
+        this.isSaving = false;
+        this.isFormOpen = false;
+        this._toastService.success('Liste créée', `« ${collection.name} » est prête`);
+        this._router.navigate(['/collections', collection.id]);
+      },
+      error: () => {
+        this.isSaving = false;
+        this._toastService.error('Erreur', 'Impossible de créer la liste');
+      },
+    });
+  }
+
+  trackByCollectionId(index: number, collection: WordCollection): string {
+    return collection.id;
+  }
+}
@@ -5,10 +5,12 @@ import { CreateCommunityComponent } from './components/create-community/create-c
 import { CommunityDetailsComponent } from './components/community-details/community-details.component';
 import { CommunityPostsComponent } from './components/community-posts/community-posts.component';
 import { PostDetailComponent } from './components/post-detail/post-detail.component';
+import { UnansweredQuestionsComponent } from './components/unanswered-questions/unanswered-questions.component';
 
 const routes: Routes = [
   { path: '', component: CommunitiesComponent },
   { path: 'create', component: CreateCommunityComponent },
+  { path: 'unanswered', component: UnansweredQuestionsComponent },
   { path: ':id', component: CommunityDetailsComponent },
   {
     path: ':id/posts',
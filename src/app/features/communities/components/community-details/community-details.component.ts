@@ -6,6 +6,7 @@ import {
 } from '../../../../core/services/communities.service';
 import { CommunityPostsService } from '../../../../core/services/community-posts.service';
 import { AuthService } from '../../../../core/services/auth.service';
+import { MessagingService } from '../../../../core/services/messaging.service';
 import { Community } from '../../../../core/models/community';
 import { Subscription } from 'rxjs';
 
@@ -22,6 +23,7 @@ export class CommunityDetailsComponent implements OnInit, OnDestroy {
   isMember = false;
   isLoading = true;
   loadingAction = false;
+  openingChannel = false;
   errorMessage: string | null = null;
   currentUser: any = null;
   activeTab: 'discussions' | 'members' | 'about' = 'discussions';
@@ -40,6 +42,7 @@ export class CommunityDetailsComponent implements OnInit, OnDestroy {
     private _router: Router,
     private _communitiesService: CommunitiesService,
     private _postsService: CommunityPostsService,
+    private _messagingService: MessagingService,
     public authService: AuthService
   ) {}
 
@@ -224,6 +227,33 @@ export class CommunityDetailsComponent implements OnInit, OnDestroy {
     });
   }
 
+  /**
+   * Ouvrir le salon de discussion de la communauté (le créer s'il n'existe pas encore)
+   */
+  openChannel(): void {
+    if (!this.community || this.openingChannel) return;
+
+    const request = this.community.chatChannelId
+      ? this._messagingService.joinCommunityChannel(this.community._id)
+      : this._messagingService.createCommunityChannel(this.community._id);
+
+    this.openingChannel = true;
+    request.subscribe({
+      next: (conversation) => {
+        this.community!.chatChannelId = conversation._id;
+        this.openingChannel = false;
+        this._router.navigate(['/messaging'], {
+          queryParams: { conversation: conversation._id },
+        });
+      },
+      error: (error) => {
+        console.error('Error opening community channel:', error);
+        this.errorMessage = error.message;
+        this.openingChannel = false;
+      },
+    });
+  }
+
   updateMemberRole(
     memberId: string,
     newRole: 'admin' | 'moderator' | 'member'
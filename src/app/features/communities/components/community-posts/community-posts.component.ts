@@ -1,9 +1,12 @@
-import { Component, OnInit } from '@angular/core';
+import { Component, OnDestroy, OnInit } from '@angular/core';
 import { ActivatedRoute } from '@angular/router';
+import { Subscription } from 'rxjs';
 import { CommunityPostsService } from '../../../../core/services/community-posts.service';
 import { CommunitiesService } from '../../../../core/services/communities.service';
 import { AuthService } from '../../../../core/services/auth.service';
+import { RichTextService } from '../../../../core/services/rich-text.service';
 import {
+  CommunityLiveEvent,
   Post,
   PostFormData,
   PostFilters,
@@ -16,7 +19,7 @@ import { DropdownOption } from '../../../../shared/components/custom-dropdown/cu
   templateUrl: './community-posts.component.html',
   styleUrls: ['./community-posts.component.scss'],
 })
-export class CommunityPostsComponent implements OnInit {
+export class CommunityPostsComponent implements OnInit, OnDestroy {
   communityId: string = '';
   posts: Post[] = [];
   isLoading = false;
@@ -25,6 +28,10 @@ export class CommunityPostsComponent implements OnInit {
   total = 0;
   totalPages = 0;
 
+  // Publications d'autres membres arrivées depuis le dernier chargement
+  pendingPosts: Post[] = [];
+  private liveSubscription?: Subscription;
+
   // États d'appartenance à la communauté
   isMember = false;
   isCheckingMembership = false;
@@ -111,7 +118,8 @@ export class CommunityPostsComponent implements OnInit {
     private route: ActivatedRoute,
     private postsService: CommunityPostsService,
     private communitiesService: CommunitiesService,
-    public authService: AuthService
+    public authService: AuthService,
+    private richText: RichTextService
   ) {}
 
   ngOnInit(): void {
@@ -119,12 +127,60 @@ export class CommunityPostsComponent implements OnInit {
       this.communityId = params['id'];
       this.loadPosts();
       this.checkMembership();
+      this.watchCommunity();
     });
 
     this.currentUser = this.authService.getCurrentUser();
     this.loadAvailableLanguages();
   }
 
+  ngOnDestroy(): void {
+    this.liveSubscription?.unsubscribe();
+  }
+
+  // Mises à jour en temps réel de la communauté
+  watchCommunity(): void {
+    this.liveSubscription?.unsubscribe();
+    this.pendingPosts = [];
+    this.liveSubscription = this.communitiesService
+      .watchCommunity(this.communityId)
+      .subscribe((event) => this.handleLiveEvent(event));
+  }
+
+  handleLiveEvent(event: CommunityLiveEvent): void {
+    switch (event.type) {
+      case 'post_created': {
+        const post = event.post;
+        // Ses propres publications apparaissent déjà après la création
+        if (post.authorId?._id === this.currentUser?._id) return;
+        if (this.filters.unanswered && post.postType !== 'question') return;
+        const known = [...this.posts, ...this.pendingPosts].some(
+          (p) => p._id === post._id
+        );
+        if (!known) {
+          this.pendingPosts = [post, ...this.pendingPosts];
+        }
+        break;
+      }
+      case 'vote_updated': {
+        const post = this.posts.find((p) => p._id === event.vote.targetId);
+        if (post) {
+          post.score = event.vote.score;
+          post.upvotes = event.vote.upvotes;
+          post.downvotes = event.vote.downvotes;
+        }
+        break;
+      }
+    }
+  }
+
+  showPendingPosts(): void {
+    this.pendingPosts = [];
+    this.page = 1;
+    this.loadPosts();
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }
+
   // Vérifier si l'utilisateur est membre de la communauté
   checkMembership(): void {
     if (!this.authService.isAuthenticated()) {
@@ -182,6 +238,9 @@ export class CommunityPostsComponent implements OnInit {
       .subscribe({
         next: (response) => {
           this.posts = response.posts || [];
+          this.pendingPosts = this.pendingPosts.filter(
+            (pending) => !this.posts.some((p) => p._id === pending._id)
+          );
           this.total = response.total;
           this.totalPages = response.totalPages;
           this.isLoading = false;
@@ -212,14 +271,16 @@ export class CommunityPostsComponent implements OnInit {
     }
 
     // Nettoyer les données avant envoi
+    const content = this.newPostForm.content.trim();
     const postData: PostFormData = {
       title: this.newPostForm.title.trim(),
-      content: this.newPostForm.content.trim(),
+      content,
       type: this.newPostForm.type,
       languages: this.newPostForm.languages?.filter((l) => l.trim()) || [],
       tags: this.newPostForm.tags?.filter((t) => t.trim()) || [],
       targetWord: this.newPostForm.targetWord?.trim() || undefined,
       difficulty: this.newPostForm.difficulty || 'beginner',
+      mentionedWords: this.richText.extractWordMentions(content),
     };
 
     this.isLoading = true;
@@ -266,6 +327,17 @@ export class CommunityPostsComponent implements OnInit {
     this.loadPosts();
   }
 
+  setUnanswered(unanswered: boolean): void {
+    if (!!this.filters.unanswered === unanswered) return;
+    this.filters.unanswered = unanswered;
+    this.page = 1;
+    this.loadPosts();
+  }
+
+  isBountyActive(post: Post): boolean {
+    return this.postsService.isBountyActive(post.bounty);
+  }
+
   onSortChange(sortBy: string): void {
     this.filters.sortBy = sortBy as any;
     this.page = 1;
@@ -316,6 +388,12 @@ export class CommunityPostsComponent implements OnInit {
     });
   }
 
+  // Extrait sans la syntaxe Markdown
+  getExcerpt(post: Post, maxLength = 200): string {
+    const text = this.richText.toPlainText(post.content);
+    return text.length > maxLength ? text.substring(0, maxLength) + '...' : text;
+  }
+
   changePage(newPage: number): void {
     this.page = newPage;
     this.loadPosts();
@@ -1,9 +1,31 @@
-import { Component, OnInit } from '@angular/core';
+import { Component, OnDestroy, OnInit } from '@angular/core';
 import { ConfirmDialogService } from '../../../../core/services/confirm-dialog.service';
 import { ActivatedRoute, Router } from '@angular/router';
+import { Subscription } from 'rxjs';
 import { CommunityPostsService } from '../../../../core/services/community-posts.service';
 import { AuthService } from '../../../../core/services/auth.service';
-import { Post, Comment } from '../../../../core/models/community-posts';
+import { RichTextService } from '../../../../core/services/rich-text.service';
+import { ReputationService } from '../../../../core/services/reputation.service';
+import { PrivilegeKey } from '../../../../core/models/reputation';
+import {
+  Post,
+  Comment,
+  BountyOfferData,
+  CommentTypingStatus,
+  CommunityVoteUpdate,
+  PostLiveEvent,
+} from '../../../../core/models/community-posts';
+
+// Au-delà, le fil s'ouvre dans une vue dédiée (« Continuer ce fil »)
+const MAX_THREAD_DEPTH = 5;
+const REPLIES_PAGE_SIZE = 10;
+// Indicateurs de saisie : arrêt après inactivité, oubli sans nouvelle du socket
+const TYPING_IDLE_DELAY = 3000;
+const TYPING_EXPIRY_DELAY = 8000;
+const ROOT_THREAD_KEY = 'root';
+// Primes de réputation proposées aux auteurs de questions
+const BOUNTY_AMOUNTS = [50, 100, 200, 500];
+const BOUNTY_DURATIONS_DAYS = [3, 7, 14];
 
 @Component({
   selector: 'app-post-detail',
@@ -11,7 +33,7 @@ import { Post, Comment } from '../../../../core/models/community-posts';
   templateUrl: './post-detail.component.html',
   styleUrls: ['./post-detail.component.scss'],
 })
-export class PostDetailComponent implements OnInit {
+export class PostDetailComponent implements OnInit, OnDestroy {
   postId: string = '';
   post: Post | null = null;
   comments: Comment[] = [];
@@ -29,12 +51,46 @@ export class PostDetailComponent implements OnInit {
   reportTargetId: string | null = null;
   reportTargetType: 'post' | 'comment' | null = null;
 
+  // Prime de réputation
+  readonly bountyAmounts = BOUNTY_AMOUNTS;
+  readonly bountyDurations = BOUNTY_DURATIONS_DAYS;
+  showBountyForm = false;
+  bountyOffer: BountyOfferData = { amount: 100, durationDays: 7 };
+  offeringBounty = false;
+  bountyError: string | null = null;
+
+  // Modification et fermeture de la publication
+  isEditingPost = false;
+  editPostForm = { title: '', content: '' };
+  savingPost = false;
+  editPostError: string | null = null;
+  votingClose = false;
+
+  // Fils de discussion imbriqués
+  readonly maxThreadDepth = MAX_THREAD_DEPTH;
+  focusedThread: Comment | null = null;
+  replyingToId: string | null = null;
+  replyContent = '';
+  sendingReply = false;
+  private collapsedIds = new Set<string>();
+  private loadingRepliesIds = new Set<string>();
+  private repliesPages: Record<string, number> = {};
+
+  // Temps réel : membres en train d'écrire, par fil puis par utilisateur
+  commentTypers: Record<string, Record<string, string>> = {};
+  private typingExpiryTimers: Record<string, ReturnType<typeof setTimeout>> = {};
+  private typingIn: { parentCommentId: string | null } | null = null;
+  private typingTimer?: ReturnType<typeof setTimeout>;
+  private liveSubscription?: Subscription;
+
   constructor(
     private route: ActivatedRoute,
     private router: Router,
     private postsService: CommunityPostsService,
     public authService: AuthService,
-    private confirmDialog: ConfirmDialogService
+    private confirmDialog: ConfirmDialogService,
+    private richText: RichTextService,
+    private reputationService: ReputationService
   ) {}
 
   ngOnInit(): void {
@@ -43,6 +99,9 @@ export class PostDetailComponent implements OnInit {
       this.postId = postIdParam;
       this.loadPost();
       this.loadComments();
+      this.liveSubscription = this.postsService
+        .watchPost(this.postId)
+        .subscribe((event) => this.handleLiveEvent(event));
     } else {
       this.router.navigate(['/communities']);
     }
@@ -50,6 +109,14 @@ export class PostDetailComponent implements OnInit {
     this.currentUser = this.authService.getCurrentUser();
   }
 
+  ngOnDestroy(): void {
+    this._stopTyping();
+    this.liveSubscription?.unsubscribe();
+    Object.values(this.typingExpiryTimers).forEach((timer) =>
+      clearTimeout(timer)
+    );
+  }
+
   loadPost(): void {
     this.isLoading = true;
     this.postsService.getPost(this.postId).subscribe({
@@ -70,10 +137,15 @@ export class PostDetailComponent implements OnInit {
       .getCommentsByPost(this.postId, this.page, this.limit, this.sortBy)
       .subscribe({
         next: (response) => {
+          // Les réponses se chargent par fil, sous leur parent
+          const roots = (response.comments as Comment[]).filter(
+            (comment) => !comment.parentCommentId
+          );
           if (this.page === 1) {
-            this.comments = response.comments;
+            this._resetThreads();
+            this.comments = roots;
           } else {
-            this.comments = [...this.comments, ...response.comments];
+            this.comments = [...this.comments, ...roots];
           }
           this.total = response.total;
           this.totalPages = response.totalPages;
@@ -87,11 +159,13 @@ export class PostDetailComponent implements OnInit {
   addComment(): void {
     if (!this.newComment.trim()) return;
 
+    this._stopTyping();
     this.isLoading = true;
     this.postsService
       .addComment(this.postId, {
         content: this.newComment,
         commentType: 'general',
+        mentionedWords: this.richText.extractWordMentions(this.newComment),
       })
       .subscribe({
         next: () => {
@@ -133,7 +207,7 @@ export class PostDetailComponent implements OnInit {
 
     this.postsService.voteComment(commentId, voteType).subscribe({
       next: (response) => {
-        const comment = this.comments.find((c) => c._id === commentId);
+        const comment = this._findComment(commentId);
         if (comment) {
           comment.score = response.newScore;
           comment.upvotes = response.upvotes;
@@ -153,9 +227,16 @@ export class PostDetailComponent implements OnInit {
     this.postsService.acceptAnswer(this.postId, commentId).subscribe({
       next: (response) => {
         // Mettre à jour les commentaires pour refléter la réponse acceptée
-        this.comments.forEach((comment) => {
+        this._forEachComment(this.comments, (comment) => {
           comment.isAccepted = comment._id === commentId;
         });
+        if (this.post) {
+          this.post.acceptedAnswerId = commentId;
+          // La prime éventuelle revient à l'auteur de la réponse acceptée
+          if (response.bounty !== undefined) {
+            this.post.bounty = response.bounty;
+          }
+        }
         console.log(response.message);
       },
       error: (error) => console.error('Erreur acceptation réponse:', error),
@@ -172,11 +253,341 @@ export class PostDetailComponent implements OnInit {
     if (!ok) return;
 
     this.postsService.deleteComment(commentId).subscribe({
-      next: () => this.loadComments(),
+      next: () => this._removeComment(commentId),
       error: (error) => console.error('Erreur de suppression:', error),
     });
   }
 
+  // ===== PRIME DE RÉPUTATION =====
+
+  isBountyActive(): boolean {
+    return this.postsService.isBountyActive(this.post?.bounty);
+  }
+
+  getBountyTimeLeft(): string {
+    return this.post?.bounty
+      ? this.postsService.getBountyTimeLeft(this.post.bounty)
+      : '';
+  }
+
+  // Question sans réponse acceptée et sans prime en cours
+  canOfferBounty(): boolean {
+    return (
+      this.canAcceptAnswer() &&
+      !this.post?.acceptedAnswerId &&
+      !this.isBountyActive()
+    );
+  }
+
+  toggleBountyForm(): void {
+    this.showBountyForm = !this.showBountyForm;
+    this.bountyError = null;
+  }
+
+  offerBounty(): void {
+    if (!this.post || this.offeringBounty) return;
+
+    this.offeringBounty = true;
+    this.bountyError = null;
+    this.postsService.offerBounty(this.postId, this.bountyOffer).subscribe({
+      next: (bounty) => {
+        if (this.post) {
+          this.post.bounty = bounty;
+        }
+        // Le montant de la prime est déduit de la réputation
+        this.reputationService.refreshMyReputation();
+        this.showBountyForm = false;
+        this.offeringBounty = false;
+      },
+      error: (error) => {
+        console.error("Erreur lors de l'offre de prime:", error);
+        this.bountyError =
+          error.error?.message || "Impossible d'offrir cette prime";
+        this.offeringBounty = false;
+      },
+    });
+  }
+
+  // ===== PRIVILÈGES DE RÉPUTATION =====
+
+  hasPrivilege(key: PrivilegeKey): boolean {
+    return this.reputationService.hasPrivilege(key);
+  }
+
+  getPrivilegeThreshold(key: PrivilegeKey): number {
+    return this.reputationService.getPrivilegeThreshold(key);
+  }
+
+  // L'auteur peut toujours modifier sa publication
+  canEditPost(): boolean {
+    if (!this.post || !this.currentUser) return false;
+    return (
+      this.currentUser._id === this.post.authorId._id ||
+      this.hasPrivilege('edit_posts')
+    );
+  }
+
+  startEditPost(): void {
+    if (!this.post) return;
+    this.editPostForm = { title: this.post.title, content: this.post.content };
+    this.editPostError = null;
+    this.isEditingPost = true;
+  }
+
+  cancelEditPost(): void {
+    this.isEditingPost = false;
+    this.editPostError = null;
+  }
+
+  savePost(): void {
+    if (!this.post || this.savingPost) return;
+
+    const title = this.editPostForm.title.trim();
+    const content = this.editPostForm.content.trim();
+    if (!title || !content) {
+      this.editPostError = 'Titre et contenu requis';
+      return;
+    }
+
+    const mentionedWords = this.richText.extractWordMentions(content);
+    this.savingPost = true;
+    this.editPostError = null;
+    this.postsService
+      .updatePost(this.postId, { title, content, mentionedWords })
+      .subscribe({
+        next: () => {
+          if (this.post) {
+            this.post = { ...this.post, title, content, mentionedWords };
+          }
+          this.isEditingPost = false;
+          this.savingPost = false;
+        },
+        error: (error) => {
+          console.error('Erreur lors de la modification du post:', error);
+          this.editPostError =
+            error.error?.message || 'Impossible de modifier la publication';
+          this.savingPost = false;
+        },
+      });
+  }
+
+  isPostClosed(): boolean {
+    return this.post?.status === 'locked';
+  }
+
+  // Questions ouvertes des autres membres
+  canVoteToClose(): boolean {
+    return (
+      !!this.post &&
+      !!this.currentUser &&
+      this.post.postType === 'question' &&
+      this.post.status === 'active' &&
+      this.currentUser._id !== this.post.authorId._id
+    );
+  }
+
+  voteToClose(): void {
+    if (
+      !this.post ||
+      this.votingClose ||
+      this.post.userVotedToClose ||
+      !this.hasPrivilege('vote_close')
+    ) {
+      return;
+    }
+
+    this.votingClose = true;
+    this.postsService.voteToClose(this.postId).subscribe({
+      next: (response) => {
+        if (this.post) {
+          this.post.closeVotes = response.closeVotes;
+          this.post.closeVotesRequired = response.closeVotesRequired;
+          this.post.status = response.status;
+          this.post.userVotedToClose = true;
+        }
+        this.votingClose = false;
+      },
+      error: (error) => {
+        console.error('Erreur vote de fermeture:', error);
+        this.votingClose = false;
+      },
+    });
+  }
+
+  // ===== FILS DE DISCUSSION =====
+
+  isCollapsed(comment: Comment): boolean {
+    return this.collapsedIds.has(comment._id);
+  }
+
+  toggleCollapse(comment: Comment): void {
+    if (this.collapsedIds.has(comment._id)) {
+      this.collapsedIds.delete(comment._id);
+    } else {
+      this.collapsedIds.add(comment._id);
+    }
+  }
+
+  isLoadingReplies(comment: Comment): boolean {
+    return this.loadingRepliesIds.has(comment._id);
+  }
+
+  hasMoreReplies(comment: Comment): boolean {
+    return (comment.replies?.length ?? 0) < comment.repliesCount;
+  }
+
+  getMoreRepliesLabel(comment: Comment): string {
+    const loaded = comment.replies?.length ?? 0;
+    const remaining = comment.repliesCount - loaded;
+    if (loaded === 0) {
+      return remaining > 1 ? `Voir les ${remaining} réponses` : 'Voir la réponse';
+    }
+    return remaining > 1
+      ? `Voir ${remaining} autres réponses`
+      : 'Voir 1 autre réponse';
+  }
+
+  /**
+   * Charge la page suivante des réponses d'un commentaire
+   */
+  loadReplies(comment: Comment): void {
+    if (this.loadingRepliesIds.has(comment._id)) return;
+
+    const page = (this.repliesPages[comment._id] ?? 0) + 1;
+    this.loadingRepliesIds.add(comment._id);
+    this.postsService
+      .getCommentReplies(comment._id, page, REPLIES_PAGE_SIZE)
+      .subscribe({
+        next: (response) => {
+          const known = new Set((comment.replies ?? []).map((r) => r._id));
+          comment.replies = [
+            ...(comment.replies ?? []),
+            ...response.comments.filter((reply) => !known.has(reply._id)),
+          ];
+          comment.repliesCount = Math.max(response.total, comment.replies.length);
+          this.repliesPages[comment._id] = page;
+          this.collapsedIds.delete(comment._id);
+          this.loadingRepliesIds.delete(comment._id);
+        },
+        error: (error) => {
+          console.error('Erreur lors du chargement des réponses:', error);
+          this.loadingRepliesIds.delete(comment._id);
+        },
+      });
+  }
+
+  startReply(comment: Comment): void {
+    if (!this.authService.isAuthenticated()) {
+      console.warn('Vous devez être connecté pour répondre');
+      return;
+    }
+    if (this.replyingToId !== comment._id) {
+      this.replyContent = '';
+    }
+    this.replyingToId = comment._id;
+  }
+
+  cancelReply(): void {
+    if (this.typingIn?.parentCommentId === this.replyingToId) {
+      this._stopTyping();
+    }
+    this.replyingToId = null;
+    this.replyContent = '';
+  }
+
+  submitReply(parent: Comment): void {
+    if (!this.replyContent.trim() || this.sendingReply) return;
+
+    this._stopTyping();
+    this.sendingReply = true;
+    this.postsService
+      .addComment(this.postId, {
+        content: this.replyContent,
+        commentType: 'general',
+        parentCommentId: parent._id,
+        mentionedWords: this.richText.extractWordMentions(this.replyContent),
+      })
+      .subscribe({
+        next: (reply: Comment) => {
+          const alreadyLoaded =
+            !!parent.replies && parent.replies.length >= parent.repliesCount;
+          parent.repliesCount++;
+          if (alreadyLoaded && reply?._id) {
+            parent.replies = [...(parent.replies ?? []), reply];
+          } else {
+            // Fil partiellement chargé : la réponse arrive avec la page suivante
+            this.loadReplies(parent);
+          }
+          this.collapsedIds.delete(parent._id);
+          this.sendingReply = false;
+          this.cancelReply();
+        },
+        error: (error) => {
+          console.error("Erreur lors de l'envoi de la réponse:", error);
+          this.sendingReply = false;
+        },
+      });
+  }
+
+  openThread(comment: Comment): void {
+    this.focusedThread = comment;
+    if (!comment.replies?.length && comment.repliesCount > 0) {
+      this.loadReplies(comment);
+    }
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }
+
+  closeFocusedThread(): void {
+    this.focusedThread = null;
+  }
+
+  trackByComment(_: number, comment: Comment): string {
+    return comment._id;
+  }
+
+  // ===== TEMPS RÉEL =====
+
+  handleLiveEvent(event: PostLiveEvent): void {
+    switch (event.type) {
+      case 'comment_added':
+        this._onLiveComment(event.comment);
+        break;
+      case 'vote_updated':
+        this._onLiveVote(event.vote);
+        break;
+      case 'typing':
+        this._onLiveTyping(event.typing);
+        break;
+    }
+  }
+
+  /**
+   * Saisie dans l'éditeur d'un commentaire (parentCommentId null) ou d'une réponse
+   */
+  onCommentInput(parentCommentId: string | null): void {
+    if (!this.authService.isAuthenticated()) return;
+
+    if (this.typingIn && this.typingIn.parentCommentId !== parentCommentId) {
+      this._stopTyping();
+    }
+    if (!this.typingIn) {
+      this.typingIn = { parentCommentId };
+      this.postsService.setCommentTyping(this.postId, parentCommentId, true);
+    }
+    clearTimeout(this.typingTimer);
+    this.typingTimer = setTimeout(() => this._stopTyping(), TYPING_IDLE_DELAY);
+  }
+
+  getTypingText(parentCommentId: string | null): string {
+    const names = Object.values(
+      this.commentTypers[parentCommentId ?? ROOT_THREAD_KEY] ?? {}
+    );
+    if (names.length === 0) return '';
+    if (names.length === 1) return `${names[0]} écrit…`;
+    if (names.length === 2) return `${names[0]} et ${names[1]} écrivent…`;
+    return `${names[0]} et ${names.length - 1} autres écrivent…`;
+  }
+
   async deletePost(): Promise<void> {
     const ok = await this.confirmDialog.confirm({
       title: 'Supprimer la publication',
@@ -201,6 +612,7 @@ export class PostDetailComponent implements OnInit {
   }
 
   onSortChange(newSort: 'score' | 'newest' | 'oldest'): void {
+    this.focusedThread = null;
     this.sortBy = newSort;
     this.page = 1;
     this.loadComments();
@@ -336,4 +748,147 @@ export class PostDetailComponent implements OnInit {
       error: (error) => console.error('Erreur épinglage:', error),
     });
   }
+
+  // ============= MÉTHODES PRIVÉES =============
+
+  private _stopTyping(): void {
+    clearTimeout(this.typingTimer);
+    if (!this.typingIn) return;
+    this.postsService.setCommentTyping(
+      this.postId,
+      this.typingIn.parentCommentId,
+      false
+    );
+    this.typingIn = null;
+  }
+
+  private _onLiveComment(comment: Comment): void {
+    this._removeTyper(comment.parentCommentId ?? null, comment.authorId?._id);
+
+    // Ses propres commentaires sont déjà ajoutés localement
+    if (comment.authorId?._id === this.currentUser?._id) return;
+    if (this._findComment(comment._id)) return;
+
+    if (comment.parentCommentId) {
+      const parent = this._findComment(comment.parentCommentId);
+      if (!parent) return;
+      // La réponse n'est affichée que si le fil est entièrement chargé
+      if ((parent.replies?.length ?? 0) >= parent.repliesCount) {
+        parent.replies = [...(parent.replies ?? []), comment];
+      }
+      parent.repliesCount++;
+      return;
+    }
+
+    const allLoaded = this.comments.length >= this.total;
+    this.total++;
+    if (this.sortBy === 'newest') {
+      this.comments = [comment, ...this.comments];
+    } else if (allLoaded) {
+      this.comments = [...this.comments, comment];
+    }
+  }
+
+  private _onLiveVote(vote: CommunityVoteUpdate): void {
+    const target =
+      vote.targetType === 'post'
+        ? this.post?._id === vote.targetId
+          ? this.post
+          : null
+        : this._findComment(vote.targetId);
+    if (!target) return;
+
+    target.score = vote.score;
+    target.upvotes = vote.upvotes;
+    target.downvotes = vote.downvotes;
+  }
+
+  private _onLiveTyping(typing: CommentTypingStatus): void {
+    if (typing.userId === this.currentUser?._id) return;
+
+    if (!typing.isTyping) {
+      this._removeTyper(typing.parentCommentId, typing.userId);
+      return;
+    }
+
+    const threadKey = typing.parentCommentId ?? ROOT_THREAD_KEY;
+    this.commentTypers[threadKey] = {
+      ...this.commentTypers[threadKey],
+      [typing.userId]: typing.username,
+    };
+
+    // Sans nouvelle (déconnexion), l'indicateur disparaît de lui-même
+    const timerKey = `${threadKey}:${typing.userId}`;
+    clearTimeout(this.typingExpiryTimers[timerKey]);
+    this.typingExpiryTimers[timerKey] = setTimeout(
+      () => this._removeTyper(typing.parentCommentId, typing.userId),
+      TYPING_EXPIRY_DELAY
+    );
+  }
+
+  private _removeTyper(
+    parentCommentId: string | null,
+    userId: string | undefined
+  ): void {
+    if (!userId) return;
+    const threadKey = parentCommentId ?? ROOT_THREAD_KEY;
+    const timerKey = `${threadKey}:${userId}`;
+    clearTimeout(this.typingExpiryTimers[timerKey]);
+    delete this.typingExpiryTimers[timerKey];
+
+    const typers = this.commentTypers[threadKey];
+    if (!typers?.[userId]) return;
+    const others = { ...typers };
+    delete others[userId];
+    this.commentTypers[threadKey] = others;
+  }
+
+  private _resetThreads(): void {
+    this.focusedThread = null;
+    this.collapsedIds.clear();
+    this.loadingRepliesIds.clear();
+    this.repliesPages = {};
+  }
+
+  private _forEachComment(
+    comments: Comment[],
+    callback: (comment: Comment, parent: Comment | null) => void,
+    parent: Comment | null = null
+  ): void {
+    for (const comment of comments) {
+      callback(comment, parent);
+      if (comment.replies?.length) {
+        this._forEachComment(comment.replies, callback, comment);
+      }
+    }
+  }
+
+  private _findComment(commentId: string): Comment | null {
+    let found: Comment | null = null;
+    this._forEachComment(this.comments, (comment) => {
+      if (!found && comment._id === commentId) found = comment;
+    });
+    return found;
+  }
+
+  private _removeComment(commentId: string): void {
+    if (this.comments.some((c) => c._id === commentId)) {
+      this.comments = this.comments.filter((c) => c._id !== commentId);
+      this.total = Math.max(0, this.total - 1);
+    } else {
+      this._forEachComment(this.comments, (comment) => {
+        if (comment.replies?.some((r) => r._id === commentId)) {
+          comment.replies = comment.replies.filter((r) => r._id !== commentId);
+          comment.repliesCount = Math.max(0, comment.repliesCount - 1);
+        }
+      });
+    }
+
+    if (this.focusedThread?._id === commentId) {
+      this.focusedThread = null;
+    }
+    if (this.replyingToId === commentId) {
+      this.cancelReply();
+    }
+  }
 }
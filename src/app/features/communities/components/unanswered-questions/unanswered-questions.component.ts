@@ -0,0 +1,119 @@
+import { Component, OnInit } from '@angular/core';
+import { CommunityPostsService } from '../../../../core/services/community-posts.service';
+import { AuthService } from '../../../../core/services/auth.service';
+import { RichTextService } from '../../../../core/services/rich-text.service';
+import {
+  Post,
+  UnansweredQuestionsFilters,
+} from '../../../../core/models/community-posts';
+import { DropdownOption } from '../../../../shared/components/custom-dropdown/custom-dropdown.component';
+
+@Component({
+  selector: 'app-unanswered-questions',
+  standalone: false,
+  templateUrl: './unanswered-questions.component.html',
+  styleUrls: ['./unanswered-questions.component.scss'],
+})
+export class UnansweredQuestionsComponent implements OnInit {
+  posts: Post[] = [];
+  isLoading = false;
+  errorMessage: string | null = null;
+  page = 1;
+  limit = 10;
+  total = 0;
+  totalPages = 0;
+
+  filters: UnansweredQuestionsFilters = {
+    sortBy: 'newest',
+    matchMyLanguages: false,
+    withBounty: false,
+  };
+
+  sortOptions: DropdownOption[] = [
+    { value: 'newest', label: 'Plus récentes' },
+    { value: 'oldest', label: 'Plus anciennes' },
+    { value: 'bounty', label: 'Prime la plus élevée' },
+    { value: 'score', label: 'Meilleur score' },
+  ];
+
+  currentUser: any;
+
+  constructor(
+    private postsService: CommunityPostsService,
+    public authService: AuthService,
+    private richText: RichTextService
+  ) {}
+
+  ngOnInit(): void {
+    this.currentUser = this.authService.getCurrentUser();
+    // Par défaut, les questions dans les langues de l'utilisateur
+    this.filters.matchMyLanguages = this.hasLanguageProfile;
+    this.loadQuestions();
+  }
+
+  // Langue maternelle ou langues apprises renseignées dans le profil
+  get hasLanguageProfile(): boolean {
+    return (
+      !!this.currentUser?.nativeLanguage ||
+      !!this.currentUser?.learningLanguages?.length
+    );
+  }
+
+  loadQuestions(): void {
+    this.isLoading = true;
+    this.errorMessage = null;
+    this.postsService
+      .getUnansweredQuestions(this.page, this.limit, this.filters)
+      .subscribe({
+        next: (response) => {
+          this.posts = response.posts || [];
+          this.total = response.total;
+          this.totalPages = response.totalPages;
+          this.isLoading = false;
+        },
+        error: (error) => {
+          console.error('Erreur lors du chargement des questions:', error);
+          this.errorMessage = 'Impossible de charger les questions sans réponse';
+          this.isLoading = false;
+        },
+      });
+  }
+
+  toggleMatchMyLanguages(): void {
+    this.filters.matchMyLanguages = !this.filters.matchMyLanguages;
+    this.page = 1;
+    this.loadQuestions();
+  }
+
+  toggleWithBounty(): void {
+    this.filters.withBounty = !this.filters.withBounty;
+    this.page = 1;
+    this.loadQuestions();
+  }
+
+  onSortChange(): void {
+    this.page = 1;
+    this.loadQuestions();
+  }
+
+  changePage(newPage: number): void {
+    if (newPage < 1 || newPage > this.totalPages) return;
+    this.page = newPage;
+    this.loadQuestions();
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }
+
+  isBountyActive(post: Post): boolean {
+    return this.postsService.isBountyActive(post.bounty);
+  }
+
+  getBountyTimeLeft(post: Post): string {
+    return post.bounty ? this.postsService.getBountyTimeLeft(post.bounty) : '';
+  }
+
+  // Extrait sans la syntaxe Markdown
+  getExcerpt(post: Post, maxLength = 200): string {
+    const text = this.richText.toPlainText(post.content);
+    return text.length > maxLength ? text.substring(0, maxLength) + '...' : text;
+  }
+}
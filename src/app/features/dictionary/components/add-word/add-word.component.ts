@@ -16,6 +16,7 @@ import { Router, ActivatedRoute } from '@angular/router';
 import { Subject } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
 import { DictionaryService } from '../../../../core/services/dictionary.service';
+import { OutboxQueuedError } from '../../../../core/services/word-outbox.service';
 import { Category } from '../../../../core/models/category';
 import { DropdownOption } from '../../../../shared/components/custom-dropdown/custom-dropdown.component';
 
@@ -457,6 +458,7 @@ export class AddWordComponent implements OnInit, OnDestroy {
           },
           error: (error) => {
             this.isSubmitting = false;
+            if (this._handleQueuedSubmission(error)) return;
             console.error('Error submitting word:', error);
 
             // Gestion d'erreur améliorée
@@ -498,6 +500,7 @@ export class AddWordComponent implements OnInit, OnDestroy {
         },
         error: (error) => {
           this.isSubmitting = false;
+          if (this._handleQueuedSubmission(error)) return;
           console.error('Error submitting word:', error);
 
           if (error.error && error.error.message) {
@@ -516,6 +519,16 @@ export class AddWordComponent implements OnInit, OnDestroy {
       });
   }
 
+  // Soumission hors ligne : le mot attend dans la file d'envoi
+  private _handleQueuedSubmission(error: unknown): boolean {
+    if (!(error instanceof OutboxQueuedError)) return false;
+
+    this.successMessage =
+      "Vous êtes hors ligne : le mot a été placé dans la file d'envoi et sera soumis dès le retour de la connexion.";
+    this._resetForm();
+    return true;
+  }
+
   // Méthode utilitaire pour marquer tous les contrôles comme touchés
   private _markFormGroupTouched(formGroup: FormGroup | FormArray): void {
     Object.keys(formGroup.controls).forEach((key) => {
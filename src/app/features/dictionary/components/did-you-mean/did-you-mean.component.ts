@@ -0,0 +1,25 @@
+import { Component, Input } from '@angular/core';
+import { WordSuggestion } from '../../../../core/models/search-results';
+
+@Component({
+  selector: 'app-did-you-mean',
+  standalone: false,
+  templateUrl: './did-you-mean.component.html',
+  styleUrl: './did-you-mean.component.scss',
+})
+export class DidYouMeanComponent {
+  @Input() suggestions: WordSuggestion[] = [];
+
+  // Les correspondances exactes aux tons près sont présentées en premier
+  get exactMatches(): WordSuggestion[] {
+    return this.suggestions.filter((s) => s.exactFold);
+  }
+
+  get closeMatches(): WordSuggestion[] {
+    return this.suggestions.filter((s) => !s.exactFold);
+  }
+
+  trackBySuggestion(_index: number, suggestion: WordSuggestion): string {
+    return suggestion.word.id;
+  }
+}
@@ -244,6 +244,11 @@ export class EditWordComponent implements OnInit, OnDestroy {
     return meaning.get('antonyms') as FormArray;
   }
 
+  getExamplesArray(meaningIndex: number): FormArray {
+    const meaning = this.meaningsArray.at(meaningIndex);
+    return meaning.get('examples') as FormArray;
+  }
+
   getContextArray(translationIndex: number): FormArray {
     const translation = this.translationsArray.at(translationIndex);
     return translation.get('context') as FormArray;
@@ -7,10 +7,12 @@ import { takeUntil, debounceTime, distinctUntilChanged } from 'rxjs/operators';
 import { DictionaryService, HistoryItem } from '../../../../core/services/dictionary.service';
 import { AuthService } from '../../../../core/services/auth.service';
 import { LanguagesService } from '../../../../core/services/languages.service';
+import { SearchQueryService } from '../../../../core/services/search-query.service';
 import { Word } from '../../../../core/models/word';
 import { Category } from '../../../../core/models/category';
 import { SearchResults } from '../../../../core/models/search-results';
 import { SearchParams } from '../../../../core/models/search-params';
+import { SearchQueryContext, SearchQueryToken } from '../../../../core/models/search-query';
 import { DropdownOption } from '../../../../shared/components/custom-dropdown/custom-dropdown.component';
 
 export type FeatureBarItem = 'wordOfTheDay' | 'history' | 'favorites' | 'wordIndex' | 'randomWord';
@@ -55,6 +57,23 @@ export class SearchComponent implements OnInit, OnDestroy {
   historyError: string | null = null;
   historyTotalPages = 1;
 
+  // Syntaxe avancée (coloration et erreurs de la requête saisie)
+  queryTokens: SearchQueryToken[] = [];
+  queryErrors: string[] = [];
+  showSyntaxHelp = false;
+  readonly syntaxExamples = [
+    { syntax: '"mbote na yo"', description: 'Expression exacte' },
+    { syntax: 'lang:ln', description: 'Langue (code ou nom)' },
+    { syntax: 'pos:noun', description: 'Nature grammaticale' },
+    { syntax: 'cat:nature', description: 'Catégorie' },
+    { syntax: 'status:approved', description: 'Statut du mot' },
+    { syntax: 'has:audio', description: 'Avec prononciation audio' },
+    { syntax: 'has:translation:sw', description: 'Traduit en swahili' },
+    { syntax: 'mbo*', description: 'Commence par…' },
+    { syntax: '*ngo', description: 'Se termine par…' },
+    { syntax: '-lang:fr', description: 'Exclure un critère ou un mot' },
+  ];
+
   // Filtres
   showFilterModal = false;
   currentFilters: FilterState = { languages: [], categories: [], partsOfSpeech: [] };
@@ -87,6 +106,7 @@ export class SearchComponent implements OnInit, OnDestroy {
     private _dictionaryService: DictionaryService,
     private _authService: AuthService,
     private _languagesService: LanguagesService,
+    private _searchQuery: SearchQueryService,
     private _router: Router,
     private _route: ActivatedRoute,
     private _confirmDialog: ConfirmDialogService
@@ -115,6 +135,7 @@ export class SearchComponent implements OnInit, OnDestroy {
           name: lang.name,
         }));
         this.languageOptions = this.languages.map((l) => ({ value: l.code, label: l.name }));
+        this._analyzeQuery(this.searchForm.get('query')?.value ?? '');
       });
 
     // Charger les catégories
@@ -124,6 +145,7 @@ export class SearchComponent implements OnInit, OnDestroy {
       .subscribe((cats) => {
         this.categories = cats;
         this.categoryOptions = cats.map((c) => ({ value: c.id ?? '', label: c.name }));
+        this._analyzeQuery(this.searchForm.get('query')?.value ?? '');
       });
 
     // Initialiser les options parties du discours
@@ -134,6 +156,7 @@ export class SearchComponent implements OnInit, OnDestroy {
       if (params['query']) {
         this.searchForm.patchValue({ query: params['query'] });
         this.searchQuery = params['query'];
+        this._analyzeQuery(this.searchQuery);
         if (params['languages']) this.currentFilters.languages = params['languages'].split(',');
         if (params['categories']) this.currentFilters.categories = params['categories'].split(',');
         if (params['partsOfSpeech']) this.currentFilters.partsOfSpeech = params['partsOfSpeech'].split(',');
@@ -142,6 +165,12 @@ export class SearchComponent implements OnInit, OnDestroy {
       }
     });
 
+    // Coloration syntaxique immédiate (sans debounce)
+    this.searchForm
+      .get('query')
+      ?.valueChanges.pipe(takeUntil(this._destroy$))
+      .subscribe((value: string) => this._analyzeQuery(value ?? ''));
+
     // Recherche debounce sur saisie
     this.searchForm
       .get('query')
@@ -373,10 +402,11 @@ export class SearchComponent implements OnInit, OnDestroy {
   private _updateUrlAndSearch(): void {
     const query = this.searchForm.get('query')?.value ?? '';
     if (query.trim()) {
+      // La requête avancée est partagée telle quelle (lang:, pos:, has:…) sous forme canonique
       this._router.navigate([], {
         relativeTo: this._route,
         queryParams: {
-          query,
+          query: this._searchQuery.normalizeQuery(query),
           languages: this.currentFilters.languages.length ? this.currentFilters.languages.join(',') : null,
           categories: this.currentFilters.categories.length ? this.currentFilters.categories.join(',') : null,
           partsOfSpeech: this.currentFilters.partsOfSpeech.length ? this.currentFilters.partsOfSpeech.join(',') : null,
@@ -395,16 +425,22 @@ export class SearchComponent implements OnInit, OnDestroy {
     const query = this.searchForm.get('query')?.value ?? '';
     if (!query.trim()) return;
 
+    const parsed = this._searchQuery.parse(query, this._queryContext());
+    if (!parsed.text && !Object.keys(parsed.criteria).length) return;
+
     this.isSearching = true;
 
-    const params: SearchParams = {
-      query,
-      languages: this.currentFilters.languages,
-      categories: this.currentFilters.categories,
-      partsOfSpeech: this.currentFilters.partsOfSpeech,
-      page: this.currentPage,
-      limit: this.pageSize,
-    };
+    const params: SearchParams = this._searchQuery.mergeCriteria(
+      {
+        query: parsed.text,
+        languages: this.currentFilters.languages,
+        categories: this.currentFilters.categories,
+        partsOfSpeech: this.currentFilters.partsOfSpeech,
+        page: this.currentPage,
+        limit: this.pageSize,
+      },
+      parsed.criteria
+    );
 
     this._dictionaryService
       .searchWords(params)
@@ -420,6 +456,45 @@ export class SearchComponent implements OnInit, OnDestroy {
       });
   }
 
+  // ─── Syntaxe avancée ──────────────────────────────────────────────────────
+
+  getQueryTokenClass(token: SearchQueryToken): string {
+    if (token.kind === 'invalid') return 'text-red-400 underline decoration-wavy decoration-red-500';
+    if (token.negated) return 'text-red-300';
+    switch (token.kind) {
+      case 'filter':
+        return 'text-amber-400';
+      case 'phrase':
+        return 'text-emerald-400';
+      case 'wildcard':
+        return 'text-sky-400';
+      default:
+        return 'text-gray-100';
+    }
+  }
+
+  trackByQueryToken(index: number, token: SearchQueryToken): string {
+    return `${index}:${token.text}`;
+  }
+
+  insertSyntaxExample(example: string): void {
+    const current = (this.searchForm.get('query')?.value ?? '').trim();
+    this.searchForm.patchValue({ query: current ? `${current} ${example}` : example });
+  }
+
+  private _analyzeQuery(value: string): void {
+    const parsed = this._searchQuery.parse(value, this._queryContext());
+    this.queryTokens = parsed.tokens;
+    this.queryErrors = parsed.errors;
+  }
+
+  private _queryContext(): SearchQueryContext {
+    return {
+      languages: this.languages,
+      categories: this.categories,
+    };
+  }
+
   // ─── Filtres ──────────────────────────────────────────────────────────────
 
   applyFilters(): void {
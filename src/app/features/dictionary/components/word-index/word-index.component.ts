@@ -1,9 +1,15 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { ActivatedRoute, Router } from '@angular/router';
-import { Subject } from 'rxjs';
-import { takeUntil } from 'rxjs/operators';
+import { Subject, combineLatest, of } from 'rxjs';
+import { catchError, takeUntil } from 'rxjs/operators';
 import { DictionaryService } from '../../../../core/services/dictionary.service';
+import {
+  Language,
+  LanguagesService,
+} from '../../../../core/services/languages.service';
+import { AlphabetCollator } from '../../../../core/i18n/alphabet-collator';
 import { Word } from '../../../../core/models/word';
+import { DropdownOption } from '../../../../shared/components/custom-dropdown/custom-dropdown.component';
 
 @Component({
   selector: 'app-word-index',
@@ -12,9 +18,14 @@ import { Word } from '../../../../core/models/word';
   styleUrl: './word-index.component.scss',
 })
 export class WordIndexComponent implements OnInit, OnDestroy {
-  readonly alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
   readonly LIMIT = 24; // 3×8 — divisible par 3, 2 et 1
 
+  // Alphabet de la langue sélectionnée (A–Z par défaut)
+  alphabet: string[] = [];
+  direction: 'ltr' | 'rtl' = 'ltr';
+  languageOptions: DropdownOption[] = [];
+  selectedLanguage = '';
+
   words: Word[] = [];
   selectedLetter = 'Tous';
   currentPage = 1;
@@ -23,20 +34,36 @@ export class WordIndexComponent implements OnInit, OnDestroy {
   isLoading = false;
   errorMessage = '';
 
+  private _languages: Language[] = [];
+  private _collator!: AlphabetCollator;
   private _destroy$ = new Subject<void>();
 
   constructor(
     private _dictionaryService: DictionaryService,
+    private _languagesService: LanguagesService,
     private _router: Router,
     private _route: ActivatedRoute
-  ) {}
+  ) {
+    this._applyLanguage('');
+  }
 
   ngOnInit(): void {
+    const languages$ = this._languagesService
+      .getActiveLanguages()
+      .pipe(catchError(() => of([] as Language[])));
+
     // Synchronise l'état avec les query params (retour navigateur, partage d'URL)
-    this._route.queryParams
+    combineLatest([languages$, this._route.queryParams])
       .pipe(takeUntil(this._destroy$))
-      .subscribe((params) => {
-        this.selectedLetter = params['letter'] || 'Tous';
+      .subscribe(([languages, params]) => {
+        if (languages !== this._languages) {
+          this._languages = languages;
+          this._buildLanguageOptions();
+        }
+        this._applyLanguage(params['lang'] || '');
+        const letter = params['letter'];
+        this.selectedLetter =
+          letter && this.alphabet.includes(letter) ? letter : 'Tous';
         this.currentPage = +params['page'] || 1;
         this._loadWords();
       });
@@ -57,11 +84,11 @@ export class WordIndexComponent implements OnInit, OnDestroy {
     if (this.selectedLetter === 'Tous') {
       // GET /words avec pagination complète — pas de filtre texte
       this._dictionaryService
-        .getAllWords(this.currentPage, this.LIMIT)
+        .getAllWords(this.currentPage, this.LIMIT, this.selectedLanguage || undefined)
         .pipe(takeUntil(this._destroy$))
         .subscribe({
           next: (results) => {
-            this.words = results.words;
+            this.words = this._sortWords(results.words);
             this.totalPages = results.totalPages;
             this.totalWords = results.total;
             this.isLoading = false;
@@ -73,18 +100,21 @@ export class WordIndexComponent implements OnInit, OnDestroy {
         });
     } else {
       // GET /words/search?query=LETTRE — filtre client pour ne garder que les mots
-      // commençant réellement par la lettre (identique à la version mobile)
+      // dont la première lettre (digraphes et tons compris) est bien celle choisie
       this._dictionaryService
         .searchWords({
           query: this.selectedLetter,
+          languages: this.selectedLanguage ? [this.selectedLanguage] : undefined,
           page: this.currentPage,
           limit: this.LIMIT,
         })
         .pipe(takeUntil(this._destroy$))
         .subscribe({
           next: (results) => {
-            this.words = results.words.filter((w) =>
-              w.word.toUpperCase().startsWith(this.selectedLetter)
+            this.words = this._sortWords(
+              results.words.filter(
+                (w) => this._collator.letterOf(w.word) === this.selectedLetter
+              )
             );
             this.totalPages = results.totalPages;
             this.totalWords = results.total;
@@ -109,6 +139,15 @@ export class WordIndexComponent implements OnInit, OnDestroy {
     });
   }
 
+  selectLanguage(code: string): void {
+    if (code === this.selectedLanguage) return;
+    this._router.navigate([], {
+      relativeTo: this._route,
+      queryParams: { lang: code || null, letter: null, page: null },
+      queryParamsHandling: 'replace',
+    });
+  }
+
   changePage(page: number): void {
     if (page < 1 || page > this.totalPages) return;
     this._router.navigate([], {
@@ -129,6 +168,35 @@ export class WordIndexComponent implements OnInit, OnDestroy {
     return word.id;
   }
 
+  private _applyLanguage(code: string): void {
+    const language = this._languages.find(
+      (lang) => this._languagesService.getLanguageCode(lang) === code
+    );
+    // Code inconnu tant que les langues ne sont pas chargées : alphabet latin
+    this.selectedLanguage = language ? code : '';
+    this._collator = this._languagesService.createCollator(language);
+    this.alphabet = this._collator.letters;
+    this.direction = this._collator.direction;
+  }
+
+  private _buildLanguageOptions(): void {
+    this.languageOptions = [
+      { value: '', label: 'Toutes les langues' },
+      ...this._languages
+        .map((lang) => ({
+          value: this._languagesService.getLanguageCode(lang),
+          label: lang.nativeName && lang.nativeName !== lang.name
+            ? `${lang.name} (${lang.nativeName})`
+            : lang.name,
+        }))
+        .sort((a, b) => a.label.localeCompare(b.label, 'fr')),
+    ];
+  }
+
+  private _sortWords(words: Word[]): Word[] {
+    return [...words].sort((a, b) => this._collator.compare(a.word, b.word));
+  }
+
   /** Génère un tableau compact de numéros de page avec ellipses (-1) */
   getPaginationPages(): number[] {
     if (this.totalPages <= 7) {
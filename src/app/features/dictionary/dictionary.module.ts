@@ -13,6 +13,7 @@ import { AddWordComponent } from './components/add-word/add-word.component';
 import { EditWordComponent } from './components/edit-word/edit-word.component';
 import { AddCategoryComponent } from './components/add-category/add-category.component';
 import { WordIndexComponent } from './components/word-index/word-index.component';
+import { DidYouMeanComponent } from './components/did-you-mean/did-you-mean.component';
 
 @NgModule({
   declarations: [
@@ -23,6 +24,7 @@ import { WordIndexComponent } from './components/word-index/word-index.component
     EditWordComponent,
     AddCategoryComponent,
     WordIndexComponent,
+    DidYouMeanComponent,
   ],
   imports: [
     CommonModule,
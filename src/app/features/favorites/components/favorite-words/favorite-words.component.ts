@@ -1,10 +1,14 @@
-import { Component, OnInit, OnDestroy } from '@angular/core';
+import { Component, OnInit, OnDestroy, effect } from '@angular/core';
 import { Subject } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
 import { DictionaryService } from '../../../../core/services/dictionary.service';
 import { Word } from '../../../../core/models/word';
 import { DropdownOption } from '../../../../shared/components/custom-dropdown/custom-dropdown.component';
 import { AuthService } from '../../../../core/services/auth.service';
+import { LocaleService } from '../../../../core/services/locale.service';
+import { FlashcardService } from '../../../../core/services/flashcard.service';
+import { StudyDeckSummary } from '../../../../core/models/flashcard';
+import { WordImportResult } from '../../../../core/models/word-transfer';
 
 @Component({
   selector: 'app-favorite-words',
@@ -23,18 +27,6 @@ export class FavoriteWordsComponent implements OnInit, OnDestroy {
   languages: { [key: string]: string } = {};
   availableLanguages: DropdownOption[] = [];
 
-  // Options pour les parties du discours
-  partsOfSpeech = {
-    noun: 'Nom',
-    verb: 'Verbe',
-    adjective: 'Adjectif',
-    adverb: 'Adverbe',
-    pronoun: 'Pronom',
-    preposition: 'Préposition',
-    conjunction: 'Conjonction',
-    interjection: 'Interjection',
-  };
-
   // Options de filtre
   languageFilter: string | null = null;
   partOfSpeechFilter: string | null = null;
@@ -42,12 +34,25 @@ export class FavoriteWordsComponent implements OnInit, OnDestroy {
   // État de tri actuel
   currentSort: string = 'date';
 
+  // Cartes de révision dues parmi les favoris
+  studySummary: StudyDeckSummary | null = null;
+
+  isImportOpen = false;
+
   private _destroy$ = new Subject<void>();
 
   constructor(
     private _dictionaryService: DictionaryService,
-    private _authService: AuthService
+    private _authService: AuthService,
+    private _localeService: LocaleService,
+    private _flashcardService: FlashcardService
   ) {
+    // Reconstruire les libellés des langues au changement de langue de l'interface
+    effect(() => {
+      this._localeService.currentLocale();
+      this.buildLanguageOptions();
+    });
+
     console.log('FavoriteWordsComponent constructor');
     console.log(
       'Utilisateur authentifié:',
@@ -73,10 +78,16 @@ export class FavoriteWordsComponent implements OnInit, OnDestroy {
         console.log('Mise à jour des favoris:', words);
         this.favoriteWords = words;
         this.isLoading = false;
+        this.updateStudySummary();
         
         // Reconstruire les options de langues quand les favoris changent
         this.buildLanguageOptions();
       });
+
+    // Recalculer les cartes dues après chaque révision
+    this._flashcardService.reviewStates$
+      .pipe(takeUntil(this._destroy$))
+      .subscribe(() => this.updateStudySummary());
   }
 
   ngOnDestroy(): void {
@@ -87,11 +98,11 @@ export class FavoriteWordsComponent implements OnInit, OnDestroy {
   // Getter pour obtenir les options de tri au format DropdownOption
   get sortOptions(): DropdownOption[] {
     return [
-      { value: 'date', label: "Date d'ajout (récent d'abord)" },
-      { value: 'dateAsc', label: "Date d'ajout (ancien d'abord)" },
-      { value: 'alpha', label: 'Ordre alphabétique (A-Z)' },
-      { value: 'alphaDesc', label: 'Ordre alphabétique (Z-A)' },
-      { value: 'language', label: 'Langue' },
+      { value: 'date', label: this._localeService.translate('favorites.sortDateDesc') },
+      { value: 'dateAsc', label: this._localeService.translate('favorites.sortDateAsc') },
+      { value: 'alpha', label: this._localeService.translate('favorites.sortAlphaAsc') },
+      { value: 'alphaDesc', label: this._localeService.translate('favorites.sortAlphaDesc') },
+      { value: 'language', label: this._localeService.translate('favorites.sortLanguage') },
     ];
   }
 
@@ -106,7 +117,9 @@ export class FavoriteWordsComponent implements OnInit, OnDestroy {
     const partsOfSpeech = this.getAvailablePartOfSpeech();
 
     // Ajouter l'option "Toutes"
-    const options: DropdownOption[] = [{ value: '', label: 'Toutes' }];
+    const options: DropdownOption[] = [
+      { value: '', label: this._localeService.translate('common.all') },
+    ];
 
     // Ajouter les parties du discours disponibles
     partsOfSpeech.forEach((pos) => {
@@ -241,29 +254,26 @@ export class FavoriteWordsComponent implements OnInit, OnDestroy {
     // Construire les options du dropdown avec les comptages de favoris
     this.availableLanguages = [];
     
-    // Ajouter seulement les langues qui ont des favoris
-    Object.keys(favoritesByLanguage).forEach(langCode => {
-      const langName = this.languages[langCode] || langCode;
-      const count = favoritesByLanguage[langCode];
-      const flag = this.getLanguageFlag(langCode);
-      
-      this.availableLanguages.push({
-        label: `${flag} ${langName} (${count} favoris)`,
-        value: langCode
+    // Ajouter seulement les langues qui ont des favoris,
+    // triées par nombre de favoris (décroissant)
+    Object.keys(favoritesByLanguage)
+      .sort((a, b) => favoritesByLanguage[b] - favoritesByLanguage[a])
+      .forEach(langCode => {
+        const langName = this.languages[langCode] || langCode;
+        const count = this.formatFavoritesCount(favoritesByLanguage[langCode]);
+        const flag = this.getLanguageFlag(langCode);
+
+        this.availableLanguages.push({
+          label: `${flag} ${langName} (${count})`,
+          value: langCode
+        });
       });
-    });
-
-    // Trier par nombre de favoris (décroissant)
-    this.availableLanguages.sort((a, b) => {
-      const countA = parseInt(a.label.match(/\((\d+) favoris\)/)?.[1] || '0');
-      const countB = parseInt(b.label.match(/\((\d+) favoris\)/)?.[1] || '0');
-      return countB - countA;
-    });
 
     // Ajouter l'option "Toutes les langues" au début
-    const totalFavorites = this.favoriteWords.length;
+    const totalFavorites = this.formatFavoritesCount(this.favoriteWords.length);
+    const allLanguages = this._localeService.translate('favorites.allLanguages');
     this.availableLanguages.unshift({
-      label: `🌍 Toutes les langues (${totalFavorites} favoris)`,
+      label: `🌍 ${allLanguages} (${totalFavorites})`,
       value: ''
     });
 
@@ -284,8 +294,7 @@ export class FavoriteWordsComponent implements OnInit, OnDestroy {
         },
         error: (error) => {
           console.error('Error loading favorite words:', error);
-          this.errorMessage =
-            'Une erreur est survenue lors du chargement de vos mots favoris';
+          this.errorMessage = this._localeService.translate('favorites.loadError');
           this.isLoading = false;
         },
       });
@@ -317,6 +326,17 @@ export class FavoriteWordsComponent implements OnInit, OnDestroy {
       });
   }
 
+  get favoriteWordIds(): string[] {
+    return this.favoriteWords.map((word) => word.id);
+  }
+
+  // Recharger les favoris complets (définitions…) après un import
+  onImported(result: WordImportResult): void {
+    if (result.added > 0) {
+      this.loadFavoriteWords();
+    }
+  }
+
   // Implémenter le partage de mot
   shareWord(word: Word): void {
     this.currentWordId = word.id;
@@ -353,7 +373,33 @@ export class FavoriteWordsComponent implements OnInit, OnDestroy {
   }
 
   getPartOfSpeechName(code: string): string {
-    return this.partsOfSpeech[code as keyof typeof this.partsOfSpeech] || code;
+    const key = `partsOfSpeech.${code}`;
+    const label = this._localeService.translate(key);
+    return label === key ? code : label;
+  }
+
+  getDueLabel(count: number): string {
+    return this._localeService.translatePlural('study.due', count, {
+      count: this._localeService.formatNumber(count),
+    });
+  }
+
+  getNewLabel(count: number): string {
+    return this._localeService.translatePlural('study.new', count, {
+      count: this._localeService.formatNumber(count),
+    });
+  }
+
+  private updateStudySummary(): void {
+    this.studySummary = this._flashcardService.getSummary(
+      this._flashcardService.buildCards(this.favoriteWords)
+    );
+  }
+
+  private formatFavoritesCount(count: number): string {
+    return this._localeService.translatePlural('favorites.count', count, {
+      count: this._localeService.formatNumber(count),
+    });
   }
 
   getLanguageFlag(code: string): string {
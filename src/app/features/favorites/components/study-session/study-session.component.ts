@@ -0,0 +1,239 @@
+import { Component, HostListener, OnDestroy, OnInit } from '@angular/core';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Observable, Subject } from 'rxjs';
+import { map, switchMap, takeUntil } from 'rxjs/operators';
+import { DictionaryService } from '../../../../core/services/dictionary.service';
+import { CollectionsService } from '../../../../core/services/collections.service';
+import { FlashcardService } from '../../../../core/services/flashcard.service';
+import { LocaleService } from '../../../../core/services/locale.service';
+import { Word } from '../../../../core/models/word';
+import {
+  FLASHCARD_MODES,
+  STUDY_DECK_LIMIT,
+  Flashcard,
+  FlashcardGrade,
+  FlashcardMode,
+  StudyDeckSummary,
+} from '../../../../core/models/flashcard';
+
+interface GradeOption {
+  grade: FlashcardGrade;
+  labelKey: string;
+  shortcut: string;
+  classes: string;
+}
+
+@Component({
+  selector: 'app-study-session',
+  standalone: false,
+  templateUrl: './study-session.component.html',
+  styleUrls: ['./study-session.component.scss'],
+})
+export class StudySessionComponent implements OnInit, OnDestroy {
+  isLoading = true;
+  errorMessage = '';
+
+  readonly modes: (FlashcardMode | 'all')[] = ['all', ...FLASHCARD_MODES];
+  selectedMode: FlashcardMode | 'all' = 'all';
+  languageFilter: string | null = null;
+  // Liste de mots révisée à la place des favoris
+  collectionId: string | null = null;
+
+  readonly gradeOptions: GradeOption[] = [
+    { grade: 1, labelKey: 'study.grades.again', shortcut: '1', classes: 'bg-red-600/20 text-red-300 border-red-600/40 hover:bg-red-600/30' },
+    { grade: 3, labelKey: 'study.grades.hard', shortcut: '2', classes: 'bg-amber-600/20 text-amber-300 border-amber-600/40 hover:bg-amber-600/30' },
+    { grade: 4, labelKey: 'study.grades.good', shortcut: '3', classes: 'bg-green-600/20 text-green-300 border-green-600/40 hover:bg-green-600/30' },
+    { grade: 5, labelKey: 'study.grades.easy', shortcut: '4', classes: 'bg-blue-600/20 text-blue-300 border-blue-600/40 hover:bg-blue-600/30' },
+  ];
+
+  queue: Flashcard[] = [];
+  currentCard: Flashcard | null = null;
+  isRevealed = false;
+  reviewedCount = 0;
+  correctCount = 0;
+  summary: StudyDeckSummary | null = null;
+
+  private _words: Word[] = [];
+  private _audio: HTMLAudioElement | null = null;
+  private _destroy$ = new Subject<void>();
+
+  constructor(
+    private _route: ActivatedRoute,
+    private _router: Router,
+    private _dictionaryService: DictionaryService,
+    private _collectionsService: CollectionsService,
+    private _flashcardService: FlashcardService,
+    private _localeService: LocaleService
+  ) {}
+
+  ngOnInit(): void {
+    this._route.queryParamMap
+      .pipe(
+        switchMap((params) => {
+          const mode = params.get('mode') as FlashcardMode | null;
+          this.selectedMode = mode && FLASHCARD_MODES.includes(mode) ? mode : 'all';
+          this.languageFilter = params.get('lang');
+          this.collectionId = params.get('collection');
+          return this._loadWords();
+        }),
+        takeUntil(this._destroy$)
+      )
+      .subscribe({
+        next: (words) => {
+          this._words = words;
+          this._startSession();
+          this.isLoading = false;
+        },
+        error: () => {
+          this.errorMessage = this._localeService.translate('favorites.loadError');
+          this.isLoading = false;
+        },
+      });
+  }
+
+  ngOnDestroy(): void {
+    this._audio?.pause();
+    this._destroy$.next();
+    this._destroy$.complete();
+  }
+
+  get remainingCount(): number {
+    return this.queue.length + (this.currentCard ? 1 : 0);
+  }
+
+  get isFinished(): boolean {
+    return !this.isLoading && !this.currentCard;
+  }
+
+  selectMode(mode: FlashcardMode | 'all'): void {
+    this._router.navigate([], {
+      relativeTo: this._route,
+      queryParams: { mode: mode === 'all' ? null : mode },
+      queryParamsHandling: 'merge',
+    });
+  }
+
+  reveal(): void {
+    if (!this.currentCard) return;
+    this.isRevealed = true;
+  }
+
+  grade(grade: FlashcardGrade): void {
+    const card = this.currentCard;
+    if (!card || !this.isRevealed) return;
+
+    this._flashcardService.review(card, grade);
+    this.reviewedCount++;
+    if (grade >= 3) {
+      this.correctCount++;
+    } else {
+      // Carte oubliée : elle revient en fin de session
+      this.queue.push(card);
+    }
+    this._next();
+  }
+
+  /**
+   * Intervalle qu'obtiendrait la carte avec cette note (« 10 min », « 6 j »)
+   */
+  getIntervalLabel(grade: FlashcardGrade): string {
+    if (!this.currentCard) return '';
+    const state = this._flashcardService.schedule(this.currentCard, grade);
+    return state.interval === 0
+      ? this._localeService.translate('study.intervalMinutes', { count: 10 })
+      : this._localeService.translate('study.intervalDays', {
+          count: this._localeService.formatNumber(state.interval),
+        });
+  }
+
+  playAudio(): void {
+    if (!this.currentCard?.audioUrl) return;
+    this._audio?.pause();
+    this._audio = new Audio(this.currentCard.audioUrl);
+    this._audio.play().catch(() => {});
+  }
+
+  restart(): void {
+    this._startSession();
+  }
+
+  getModeLabel(mode: FlashcardMode | 'all'): string {
+    return this._localeService.translate(`study.modes.${mode}`);
+  }
+
+  getDueLabel(count: number): string {
+    return this._localeService.translatePlural('study.due', count, {
+      count: this._localeService.formatNumber(count),
+    });
+  }
+
+  getNewLabel(count: number): string {
+    return this._localeService.translatePlural('study.new', count, {
+      count: this._localeService.formatNumber(count),
+    });
+  }
+
+  getNextReviewLabel(): string {
+    if (!this.summary?.nextDueAt) return '';
+    return this._localeService.translate('study.nextReview', {
+      time: this._localeService.formatRelativeTime(this.summary.nextDueAt),
+    });
+  }
+
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent): void {
+    const target = event.target as HTMLElement | null;
+    if (!this.currentCard || target?.closest('input, textarea, select')) return;
+
+    if (event.code === 'Space' || event.key === 'Enter') {
+      event.preventDefault();
+      if (!this.isRevealed) this.reveal();
+      return;
+    }
+
+    const option = this.gradeOptions.find((o) => o.shortcut === event.key);
+    if (option && this.isRevealed) {
+      event.preventDefault();
+      this.grade(option.grade);
+    }
+  }
+
+  // ─── Méthodes privées ─────────────────────────────────────────────────────
+
+  private _loadWords(): Observable<Word[]> {
+    if (!this.collectionId) {
+      return this._dictionaryService.getFavoriteWords(1, STUDY_DECK_LIMIT);
+    }
+    return this._collectionsService
+      .getCollection(this.collectionId)
+      .pipe(map((collection) => collection?.words ?? []));
+  }
+
+  private _startSession(): void {
+    this.queue = this._flashcardService.getDueCards(this._buildDeck());
+    this.reviewedCount = 0;
+    this.correctCount = 0;
+    this._next();
+  }
+
+  private _next(): void {
+    this.isRevealed = false;
+    this.currentCard = this.queue.shift() ?? null;
+
+    if (this.currentCard?.mode === 'audio') {
+      this.playAudio();
+    }
+    if (!this.currentCard) {
+      // Résumé affiché en fin de session ou quand rien n'est dû
+      this.summary = this._flashcardService.getSummary(this._buildDeck());
+    }
+  }
+
+  private _buildDeck(): Flashcard[] {
+    const words = this.languageFilter
+      ? this._words.filter((word) => word.language === this.languageFilter)
+      : this._words;
+    const modes = this.selectedMode === 'all' ? FLASHCARD_MODES : [this.selectedMode];
+    return this._flashcardService.buildCards(words, modes);
+  }
+}
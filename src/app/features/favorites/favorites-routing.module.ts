@@ -1,6 +1,7 @@
 import { NgModule } from '@angular/core';
 import { RouterModule, Routes } from '@angular/router';
 import { FavoriteWordsComponent } from './components/favorite-words/favorite-words.component';
+import { StudySessionComponent } from './components/study-session/study-session.component';
 import { AuthGuard } from '../../core/guards/auth.guard';
 
 const routes: Routes = [
@@ -9,6 +10,11 @@ const routes: Routes = [
     component: FavoriteWordsComponent,
     canActivate: [AuthGuard],
   },
+  {
+    path: 'study',
+    component: StudySessionComponent,
+    canActivate: [AuthGuard],
+  },
 ];
 
 @NgModule({
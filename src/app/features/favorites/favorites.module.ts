@@ -3,11 +3,12 @@ import { CommonModule } from '@angular/common';
 import { FormsModule, ReactiveFormsModule } from '@angular/forms';
 import { FavoritesRoutingModule } from './favorites-routing.module';
 import { FavoriteWordsComponent } from './components/favorite-words/favorite-words.component';
+import { StudySessionComponent } from './components/study-session/study-session.component';
 import { SharedModule } from '../../shared/shared.module';
 import { RouterModule } from '@angular/router';
 
 @NgModule({
-  declarations: [FavoriteWordsComponent],
+  declarations: [FavoriteWordsComponent, StudySessionComponent],
   imports: [
     CommonModule,
     FormsModule,
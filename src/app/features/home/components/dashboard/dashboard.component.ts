@@ -6,6 +6,9 @@ import { AuthService } from '../../../../core/services/auth.service';
 import { DictionaryService } from '../../../../core/services/dictionary.service';
 import { HomeDataService } from '../../services/home-data.service';
 import { RecommendationService } from '../../../../core/services/recommendation.service';
+import { FlashcardService } from '../../../../core/services/flashcard.service';
+import { LocaleService } from '../../../../core/services/locale.service';
+import { STUDY_DECK_LIMIT, StudyDeckSummary } from '../../../../core/models/flashcard';
 import { RecommendedWord, RecommendationFeedback } from '../../../../core/models/recommendation';
 import { UserRole } from '../../../../core/models/admin';
 import { ToastService } from '../../../../shared/services/toast.service';
@@ -69,6 +72,7 @@ export class DashboardComponent implements OnInit, OnDestroy {
 
   recentContributions: RecentWord[] = [];
   recentConsultations: RecentWord[] = [];
+  studySummary: StudyDeckSummary | null = null;
   // recommendedWords: RecommendedWord[] = [];
   
   // État de l'interface
@@ -85,7 +89,9 @@ export class DashboardComponent implements OnInit, OnDestroy {
     private dictionaryService: DictionaryService,
     private homeDataService: HomeDataService,
     private recommendationService: RecommendationService,
-    private toastService: ToastService
+    private toastService: ToastService,
+    private flashcardService: FlashcardService,
+    private localeService: LocaleService
   ) {}
 
   ngOnInit(): void {
@@ -214,7 +220,7 @@ export class DashboardComponent implements OnInit, OnDestroy {
           this.initQuickActions(user);
           if (user) {
             return forkJoin({
-              favorites: this.dictionaryService.getFavoriteWords(1, 5), 
+              favorites: this.dictionaryService.getFavoriteWords(1, STUDY_DECK_LIMIT),
               stats: this.loadPersonalStats(),
               contributions: this.loadRecentContributions(),
               consultations: this.loadRecentConsultations(),
@@ -235,6 +241,9 @@ export class DashboardComponent implements OnInit, OnDestroy {
           this.personalStats = data.stats;
           this.recentContributions = data.contributions || [];
           this.recentConsultations = data.consultations || [];
+          this.studySummary = data.favorites?.length
+            ? this.flashcardService.getSummary(this.flashcardService.buildCards(data.favorites))
+            : null;
           // this.recommendedWords = data.recommendations || [];
           this.isLoading = false;
         },
@@ -408,6 +417,22 @@ export class DashboardComponent implements OnInit, OnDestroy {
     return flags[code] || '🌐';
   }
 
+  getStudyMessage(): string {
+    if (!this.studySummary) return '';
+    const { due, new: fresh } = this.studySummary;
+    if (due > 0) {
+      return this.localeService.translatePlural('study.due', due, {
+        count: this.localeService.formatNumber(due),
+      });
+    }
+    if (fresh > 0) {
+      return this.localeService.translatePlural('study.new', fresh, {
+        count: this.localeService.formatNumber(fresh),
+      });
+    }
+    return this.localeService.translate('study.nothingDueTitle');
+  }
+
   getStreakMessage(): string {
     if (this.personalStats.streak >= 7) {
       return `🔥 Incroyable ! ${this.personalStats.streak} jours consécutifs !`;
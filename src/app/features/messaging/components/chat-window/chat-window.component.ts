@@ -1,6 +1,8 @@
 import {
   Component,
   Input,
+  Output,
+  EventEmitter,
   OnInit,
   OnDestroy,
   ViewChild,
@@ -9,19 +11,69 @@ import {
   OnChanges,
   SimpleChanges,
   HostListener,
+  Inject,
   NgZone,
 } from '@angular/core';
 import { FormBuilder, FormGroup, Validators } from '@angular/forms';
 import { MessagingService } from '../../../../core/services/messaging.service';
 import { AuthService } from '../../../../core/services/auth.service';
 import { WebSocketService } from '../../../../core/services/websocket.service';
+import { TextDiffService } from '../../../../core/services/text-diff.service';
+import { DictionaryService } from '../../../../core/services/dictionary.service';
+import {
+  MessageOutboxService,
+  OutgoingMessage,
+} from '../../../../core/services/message-outbox.service';
+import { MessageDraftService } from '../../../../core/services/message-draft.service';
+import { ConfirmDialogService } from '../../../../core/services/confirm-dialog.service';
+import { UserBlockService } from '../../../../core/services/user-block.service';
+import { ToastService } from '../../../../core/services/toast.service';
+import { AudioWaveformService } from '../../../../core/services/audio-waveform.service';
+import {
+  TRANSCRIPTION_PROVIDER,
+  TranscriptionProvider,
+} from '../../../../core/services/transcription.service';
 import {
   Conversation,
   Message,
+  MessageCorrection,
+  MessageDeliveryState,
+  MessageReplyPreview,
   MessagesResponse,
+  ScheduledMessage,
+  SendMessageRequest,
+  SharedWord,
+  TextDiffSegment,
+  User,
 } from '../../../../core/models/message';
-import { Subject, Subscription, debounceTime } from 'rxjs';
-import { takeUntil } from 'rxjs/operators';
+import { Word } from '../../../../core/models/word';
+import { Subject, Subscription, debounceTime, forkJoin, from, of } from 'rxjs';
+import {
+  catchError,
+  distinctUntilChanged,
+  filter,
+  map,
+  switchMap,
+  takeUntil,
+  timeout,
+} from 'rxjs/operators';
+
+// Commande de partage d'un mot depuis la zone de saisie : « /word terme »
+const WORD_COMMAND = /^\/word\s+(\S.*)$/is;
+const WORD_CHARACTER = /[\p{L}\p{M}\p{N}'’ʼ-]/u;
+const LONG_PRESS_DELAY = 500;
+// Vitesses de lecture des messages vocaux, dans l'ordre du bouton
+const PLAYBACK_RATES = [1, 1.25, 1.5, 0.75];
+// Au-delà, le message vocal part sans transcription
+const TRANSCRIPTION_TIMEOUT_MS = 10000;
+const DRAFT_SAVE_DELAY = 500;
+// Durées de mise en sourdine proposées (null : jusqu'à réactivation)
+const MUTE_DURATIONS: { label: string; hours: number | null }[] = [
+  { label: 'Pendant 1 heure', hours: 1 },
+  { label: 'Pendant 8 heures', hours: 8 },
+  { label: 'Pendant 1 semaine', hours: 24 * 7 },
+  { label: "Jusqu'à réactivation", hours: null },
+];
 
 @Component({
   selector: 'app-chat-window',
@@ -33,9 +85,14 @@ export class ChatWindowComponent
   implements OnInit, OnDestroy, AfterViewChecked, OnChanges
 {
   @Input() conversation: Conversation | null = null;
+  // Message à afficher dans son contexte plutôt que les derniers messages
+  @Input() focusMessageId: string | null = null;
+  // Émis avec l'identifiant du groupe quitté
+  @Output() conversationLeft = new EventEmitter<string>();
   @ViewChild('messagesContainer', { static: false })
   messagesContainer!: ElementRef;
   @ViewChild('fileInput', { static: false }) fileInput!: ElementRef;
+  @ViewChild('messageInput', { static: false }) messageInput?: ElementRef<HTMLTextAreaElement>;
 
   messageForm: FormGroup;
   messages: Message[] = [];
@@ -65,6 +122,13 @@ export class ChatWindowComponent
   // Audio playback
   playingAudioId: string | null = null;
   audioElapsed: Record<string, number> = {};
+  playbackRate = 1;
+  // Durée lue dans le fichier, plus précise que celle du chronomètre d'enregistrement
+  audioDurations: Record<string, number> = {};
+  // Transcriptions demandées depuis le fil (null : aucun texte reconnu)
+  transcriptions: Record<string, string | null> = {};
+  openTranscriptions = new Set<string>();
+  transcribingIds = new Set<string>();
   private _audioEl: HTMLAudioElement | null = null;
   private _waveformCache = new Map<string, number[]>();
 
@@ -78,6 +142,62 @@ export class ChatWindowComponent
   editContent = '';
   reactionDetailMessageId: string | null = null;
 
+  // Panneau d'informations du groupe
+  showGroupInfo = false;
+
+  // Réponses et fils de discussion
+  replyingTo: Message | null = null;
+  highlightedMessageId: string | null = null;
+  threadRootId: string | null = null;
+  threadReplyContent = '';
+  private highlightTimer: any;
+
+  // Consultation d'un passage ancien (recherche, citation hors de la page)
+  viewingHistory = false;
+  hasNewMessages = false;
+  private pendingFocusId: string | null = null;
+
+  // Corrections (échange linguistique)
+  correctingMessageId: string | null = null;
+  correctionText = '';
+  correctionExplanation = '';
+  savingCorrection: MessageCorrection | null = null;
+  private _diffCache = new Map<string, TextDiffSegment[]>();
+
+  // Messages de la conversation encore dans la file d'envoi
+  outgoingMessages: OutgoingMessage[] = [];
+  private _outboxEntries: OutgoingMessage[] = [];
+
+  // Messages programmés de la conversation, du plus proche au plus lointain
+  scheduledMessages: ScheduledMessage[] = [];
+  showScheduledList = false;
+  showSchedulePicker = false;
+  scheduleAt = '';
+  editingScheduledId: string | null = null;
+  scheduledEditContent = '';
+  scheduledEditAt = '';
+  savingSchedule = false;
+  scheduleError: string | null = null;
+  readonly localTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  // Sourdine, blocage et signalement
+  showConversationMenu = false;
+  reportingMessage: Message | null = null;
+  private _blockedUserIds = new Set<string>();
+  readonly MUTE_DURATIONS = MUTE_DURATIONS;
+
+  // Mots du dictionnaire (commande /word, appui long sur un mot)
+  wordCommandResults: Word[] = [];
+  searchingWordCommand = false;
+  wordLookup: {
+    term: string;
+    loading: boolean;
+    results: { word: Word; sharedWord: SharedWord }[];
+  } | null = null;
+  private _longPressTimer: any;
+  private _longPressOrigin: { x: number; y: number } | null = null;
+  private _lookupRequest?: Subscription;
+
   private shouldScrollToBottom = false;
   private subscriptions: Subscription = new Subscription();
   private destroy$ = new Subject<void>();
@@ -90,6 +210,16 @@ export class ChatWindowComponent
     private messagingService: MessagingService,
     private authService: AuthService,
     private webSocketService: WebSocketService,
+    private textDiff: TextDiffService,
+    private dictionaryService: DictionaryService,
+    private outbox: MessageOutboxService,
+    private drafts: MessageDraftService,
+    private confirmDialog: ConfirmDialogService,
+    private userBlock: UserBlockService,
+    private toast: ToastService,
+    private audioWaveform: AudioWaveformService,
+    @Inject(TRANSCRIPTION_PROVIDER)
+    private transcriptionProvider: TranscriptionProvider,
     private ngZone: NgZone
   ) {
     this.messageForm = this.fb.group({
@@ -101,9 +231,17 @@ export class ChatWindowComponent
     this.currentUserId = this.authService.getCurrentUserId();
     this.setupWebSocketListeners();
     this.setupTypingDetection();
+    this.setupWordCommand();
+    this.setupOutbox();
+    this.setupDrafts();
+    this.setupScheduledMessages();
+
+    this.userBlock.blockedUsers$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((users) => (this._blockedUserIds = new Set(users.map((u) => u.id))));
 
     if (this.conversation) {
-      this.loadMessages();
+      this.loadInitialMessages();
       this.joinConversation();
     }
   }
@@ -113,16 +251,31 @@ export class ChatWindowComponent
       const prev = changes['conversation'].previousValue;
       if (prev?._id) {
         this.webSocketService.leaveConversation(prev._id);
+        this._saveDraft(prev._id);
       }
       if (this.conversation) {
         this.activeMenuMessageId = null;
         this.showReactionPickerForId = null;
         this.reactionDetailMessageId = null;
         this.editingMessageId = null;
+        this.showGroupInfo = false;
+        this.showConversationMenu = false;
+        this.reportingMessage = null;
+        this.replyingTo = null;
+        this.threadRootId = null;
+        this.threadReplyContent = '';
+        this.cancelCorrection();
+        this.savingCorrection = null;
+        this.closeWordLookup();
         this.cancelRecording();
         this._stopAudio();
         this.clearSelectedFile();
-        this.loadMessages();
+        this._restoreDraft();
+        this.closeSchedulePicker();
+        this.showScheduledList = false;
+        this.loadScheduledMessages();
+        this._refreshOutgoing();
+        this.loadInitialMessages();
         this.joinConversation();
       }
     }
@@ -133,16 +286,26 @@ export class ChatWindowComponent
       this.scrollToBottom();
       this.shouldScrollToBottom = false;
     }
+    if (this.pendingFocusId) {
+      const messageId = this.pendingFocusId;
+      this.pendingFocusId = null;
+      // Hors du cycle de détection en cours (mise en évidence)
+      setTimeout(() => this.scrollToMessage(messageId, false));
+    }
   }
 
   ngOnDestroy(): void {
     if (this.conversation?._id) {
       this.webSocketService.leaveConversation(this.conversation._id);
       this.webSocketService.stopTyping(this.conversation._id);
+      this._saveDraft(this.conversation._id);
     }
     if (this.typingTimer) {
       clearTimeout(this.typingTimer);
     }
+    clearTimeout(this.highlightTimer);
+    this.cancelLongPress();
+    this._lookupRequest?.unsubscribe();
     this.cancelRecording();
     this._stopAudio();
     this.destroy$.next();
@@ -157,6 +320,7 @@ export class ChatWindowComponent
       this.activeMenuMessageId = null;
       this.showReactionPickerForId = null;
       this.reactionDetailMessageId = null;
+      this.showConversationMenu = false;
     }
   }
 
@@ -164,6 +328,12 @@ export class ChatWindowComponent
   onEscapeKey(): void {
     if (this.lightboxUrl) {
       this.lightboxUrl = null;
+    } else if (this.wordLookup) {
+      this.closeWordLookup();
+    } else if (this.replyingTo) {
+      this.cancelReply();
+    } else if (this.threadRootId) {
+      this.closeThread();
     }
   }
 
@@ -188,7 +358,10 @@ export class ChatWindowComponent
           (message.conversationId === this.conversation._id ||
             this.isMessageForCurrentConversation(message))
         ) {
-          if (!this.messages.find((m) => m._id === message._id)) {
+          if (this.viewingHistory) {
+            // Le passage affiché n'est pas la fin de la conversation
+            this.hasNewMessages = true;
+          } else if (!this.messages.find((m) => m._id === message._id)) {
             this.messages.push(message);
             this.shouldScrollToBottom = true;
           }
@@ -216,6 +389,42 @@ export class ChatWindowComponent
         }
       });
 
+    this.webSocketService.readReceipt$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((receipt) => {
+        if (!this.conversation || receipt.conversationId !== this.conversation._id) return;
+
+        const member = this.conversation.members?.find((m) => m.userId === receipt.userId);
+        if (member) {
+          member.lastReadAt = receipt.readAt;
+        }
+        if (!this.isGroupConversation && receipt.userId !== this.currentUserId) {
+          this.messages
+            .filter((m) => this.isMyMessage(m))
+            .forEach((m) => (m.isRead = true));
+        }
+      });
+
+    this.webSocketService.deliveryReceipt$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((receipt) => {
+        if (
+          !this.conversation ||
+          receipt.conversationId !== this.conversation._id ||
+          receipt.userId === this.currentUserId
+        ) {
+          return;
+        }
+        this.messages
+          .filter(
+            (m) =>
+              this.isMyMessage(m) &&
+              !m.deliveredAt &&
+              new Date(m.createdAt) <= receipt.deliveredAt
+          )
+          .forEach((m) => (m.deliveredAt = receipt.deliveredAt));
+      });
+
     this.webSocketService.userStatus$
       .pipe(takeUntil(this.destroy$))
       .subscribe((status) => {
@@ -258,6 +467,31 @@ export class ChatWindowComponent
     });
   }
 
+  // Recherche dans le dictionnaire pendant la saisie de « /word terme »
+  private setupWordCommand(): void {
+    const contentControl = this.messageForm.get('content');
+    if (!contentControl) return;
+
+    contentControl.valueChanges
+      .pipe(
+        map((value: string) => this._parseWordCommand(value)),
+        distinctUntilChanged(),
+        debounceTime(300),
+        switchMap((term) => {
+          if (!term) return of(null);
+          this.searchingWordCommand = true;
+          return this.dictionaryService
+            .searchWords({ query: term, page: 1, limit: 5, skipHistory: true })
+            .pipe(catchError(() => of(null)));
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe((results) => {
+        this.wordCommandResults = results?.words ?? [];
+        this.searchingWordCommand = false;
+      });
+  }
+
   private joinConversation(): void {
     if (this.conversation?._id) {
       this.webSocketService.joinConversation(this.conversation._id);
@@ -265,16 +499,20 @@ export class ChatWindowComponent
   }
 
   private isMessageForCurrentConversation(message: Message): boolean {
-    if (!this.conversation) return false;
+    // Les messages de groupe ne sont rattachés que par leur conversationId
+    if (!this.conversation || this.isGroupConversation || !message.receiverId) return false;
     return (
       this.conversation.participants.some((p) => p.id === message.senderId.id) &&
-      this.conversation.participants.some((p) => p.id === message.receiverId.id)
+      this.conversation.participants.some((p) => p.id === message.receiverId!.id)
     );
   }
 
   // ===== LOAD MESSAGES =====
 
   loadMessages(): void {
+    this.viewingHistory = false;
+    this.hasNewMessages = false;
+
     if (!this.conversation?._id) {
       this.messages = [];
       return;
@@ -302,6 +540,41 @@ export class ChatWindowComponent
     this.subscriptions.add(sub);
   }
 
+  /**
+   * Charger les messages autour d'un message donné puis le mettre en évidence
+   */
+  loadMessageContext(messageId: string): void {
+    if (!this.conversation?._id) return;
+
+    this.loadingMessages = true;
+    this.error = null;
+
+    const sub = this.messagingService.getMessageContext(messageId).subscribe({
+      next: (response) => {
+        this.messages = response.messages;
+        this.viewingHistory = response.hasNewer;
+        this.hasNewMessages = false;
+        this.loadingMessages = false;
+        this.pendingFocusId = messageId;
+        this.markMessagesAsRead();
+      },
+      error: (error) => {
+        this.error = error.message;
+        this.loadingMessages = false;
+      },
+    });
+
+    this.subscriptions.add(sub);
+  }
+
+  private loadInitialMessages(): void {
+    if (this.focusMessageId) {
+      this.loadMessageContext(this.focusMessageId);
+    } else {
+      this.loadMessages();
+    }
+  }
+
   markMessagesAsRead(): void {
     if (!this.conversation?._id) return;
     const sub = this.messagingService
@@ -320,54 +593,608 @@ export class ChatWindowComponent
       return;
     }
 
+    // « /word terme » n'est jamais envoyé tel quel : le premier résultat est partagé
+    if (this.wordCommandTerm) {
+      if (this.wordCommandResults.length > 0) {
+        this.selectWordCommandResult(this.wordCommandResults[0]);
+      }
+      return;
+    }
+
     const content = this.messageForm.get('content')?.value?.trim();
     if (!content) return;
 
-    const otherParticipant = this.getOtherParticipant();
-    if (!otherParticipant) return;
+    this._send({ content, messageType: 'text', replyToId: this.replyingTo?._id }, () => {
+      this.messageForm.reset();
+      this.replyingTo = null;
+    });
+  }
+
+  private _send(
+    message: Omit<SendMessageRequest, 'receiverId' | 'conversationId'>,
+    onSent: () => void
+  ): void {
+    if (!this.conversation) return;
+
+    const target = this._getSendTarget();
+    if (!target) return;
+
+    const payload: SendMessageRequest = { ...target, ...message };
+    if (!payload.replyToId) delete payload.replyToId;
+
+    // Revenir à la fin de la conversation pour voir le message envoyé
+    if (this.viewingHistory) {
+      this.loadMessages();
+    }
 
-    this.sendingMessage = true;
     this.error = null;
 
     if (this.conversation._id) {
       this.webSocketService.stopTyping(this.conversation._id);
     }
 
-    if (!this.conversation._id || !this.webSocketService.isConnected()) {
-      const sub = this.messagingService
-        .sendMessage({
-          receiverId: otherParticipant.id,
-          content,
-          messageType: 'text',
-        })
-        .subscribe({
-          next: (response) => {
-            if (!this.messages.find((m) => m._id === response.data._id)) {
-              this.messages.push(response.data);
-            }
-            if (!this.conversation!._id && response.data.conversationId) {
-              this.conversation!._id = response.data.conversationId;
-              this.joinConversation();
-            }
-            this.messageForm.reset();
-            this.sendingMessage = false;
-            this.shouldScrollToBottom = true;
-          },
-          error: (error) => {
-            this.error = error.message;
-            this.sendingMessage = false;
-          },
-        });
-      this.subscriptions.add(sub);
-    } else {
-      this.webSocketService.sendMessage({
-        receiverId: otherParticipant.id,
+    // Affiché immédiatement ; la file d'envoi le confirme ou le renvoie plus tard
+    this.outbox.send(payload, this.conversation._id || null);
+    onSent();
+    this.shouldScrollToBottom = true;
+  }
+
+  // ===== SOURDINE, BLOCAGE ET SIGNALEMENT =====
+
+  toggleConversationMenu(event: MouseEvent): void {
+    event.stopPropagation();
+    this.showConversationMenu = !this.showConversationMenu;
+  }
+
+  get isConversationMuted(): boolean {
+    return !!this.conversation && this.messagingService.isConversationMuted(this.conversation);
+  }
+
+  get muteLabel(): string {
+    const until = this.conversation?.muted?.until;
+    if (!until) return 'Notifications coupées';
+    return `Notifications coupées jusqu'au ${new Date(until).toLocaleString('fr-FR', {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    })}`;
+  }
+
+  muteConversation(hours: number | null): void {
+    const conversation = this.conversation;
+    if (!conversation?._id) return;
+    this.showConversationMenu = false;
+
+    const until = hours ? new Date(Date.now() + hours * 60 * 60 * 1000).toISOString() : null;
+    const sub = this.messagingService.muteConversation(conversation._id, until).subscribe({
+      next: (mute) => (conversation.muted = mute),
+      error: (error) => this.toast.error('Sourdine', error.message),
+    });
+    this.subscriptions.add(sub);
+  }
+
+  unmuteConversation(): void {
+    const conversation = this.conversation;
+    if (!conversation?._id) return;
+    this.showConversationMenu = false;
+
+    const sub = this.messagingService.unmuteConversation(conversation._id).subscribe({
+      next: () => (conversation.muted = null),
+      error: (error) => this.toast.error('Sourdine', error.message),
+    });
+    this.subscriptions.add(sub);
+  }
+
+  isUserBlocked(userId: string | undefined): boolean {
+    return !!userId && this._blockedUserIds.has(userId);
+  }
+
+  get isOtherParticipantBlocked(): boolean {
+    return !this.isGroupConversation && this.isUserBlocked(this.getOtherParticipant()?.id);
+  }
+
+  async blockOtherParticipant(): Promise<void> {
+    const other = this.getOtherParticipant();
+    this.showConversationMenu = false;
+    if (!other) return;
+
+    const ok = await this.confirmDialog.confirm({
+      title: `Bloquer ${other.username}`,
+      message: `${other.username} ne pourra plus vous écrire ni démarrer de conversation avec vous.`,
+      confirmText: 'Bloquer',
+      type: 'danger',
+    });
+    if (!ok) return;
+
+    const sub = this.userBlock.block(other).subscribe({
+      next: () => this.toast.success('Utilisateur bloqué', `${other.username} a été bloqué`),
+      error: (error) => this.toast.error('Blocage', error.message),
+    });
+    this.subscriptions.add(sub);
+  }
+
+  unblockOtherParticipant(): void {
+    const other = this.getOtherParticipant();
+    this.showConversationMenu = false;
+    if (!other) return;
+
+    const sub = this.userBlock.unblock(other.id).subscribe({
+      next: () => this.toast.success('Utilisateur débloqué', `${other.username} a été débloqué`),
+      error: (error) => this.toast.error('Blocage', error.message),
+    });
+    this.subscriptions.add(sub);
+  }
+
+  openReport(message: Message): void {
+    this.reportingMessage = message;
+  }
+
+  submitReport(reason: string): void {
+    const message = this.reportingMessage;
+    this.reportingMessage = null;
+    if (!message) return;
+
+    const sub = this.messagingService.reportMessage(message._id, reason).subscribe({
+      next: () =>
+        this.toast.success(
+          'Message signalé',
+          "Merci, l'équipe de modération va examiner ce message"
+        ),
+      error: (error) => this.toast.error('Signalement', error.message),
+    });
+    this.subscriptions.add(sub);
+  }
+
+  // ===== BROUILLONS =====
+
+  private setupDrafts(): void {
+    this.messageForm
+      .get('content')
+      ?.valueChanges.pipe(debounceTime(DRAFT_SAVE_DELAY), takeUntil(this.destroy$))
+      .subscribe(() => {
+        if (this.conversation?._id) {
+          this._saveDraft(this.conversation._id);
+        }
+      });
+  }
+
+  private _saveDraft(conversationId: string): void {
+    this.drafts.save(
+      conversationId,
+      this.messageForm.get('content')?.value || '',
+      this.selectedFile
+        ? { file: this.selectedFile, preview: this.imagePreview }
+        : null
+    );
+  }
+
+  private _restoreDraft(): void {
+    const conversationId = this.conversation?._id;
+    const draft = conversationId ? this.drafts.getDraft(conversationId) : null;
+    // Sans émission : ni indicateur de saisie, ni commande /word
+    this.messageForm.reset({ content: draft?.content || '' }, { emitEvent: false });
+
+    const attachment = conversationId ? this.drafts.getAttachment(conversationId) : null;
+    if (attachment) {
+      this.selectedFile = attachment.file;
+      this.imagePreview = attachment.preview;
+    }
+  }
+
+  // ===== MESSAGES PROGRAMMÉS =====
+
+  private setupScheduledMessages(): void {
+    // Un message programmé vient de partir : la liste est rechargée
+    this.webSocketService.newMessage$
+      .pipe(
+        filter(
+          (message) =>
+            message.conversationId === this.conversation?._id &&
+            message.senderId?.id === this.currentUserId &&
+            this.scheduledMessages.some(
+              (scheduled) => new Date(scheduled.scheduledAt).getTime() <= Date.now()
+            )
+        ),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(() => this.loadScheduledMessages());
+  }
+
+  loadScheduledMessages(): void {
+    const conversationId = this.conversation?._id;
+    if (!conversationId) {
+      this.scheduledMessages = [];
+      return;
+    }
+
+    const sub = this.messagingService.getScheduledMessages(conversationId).subscribe({
+      next: (scheduled) => {
+        if (this.conversation?._id !== conversationId) return;
+        this.scheduledMessages = this._sortScheduled(scheduled);
+        if (!this.scheduledMessages.length) this.showScheduledList = false;
+      },
+      error: () => (this.scheduledMessages = []),
+    });
+    this.subscriptions.add(sub);
+  }
+
+  get canScheduleMessage(): boolean {
+    return (
+      !!this.conversation?._id &&
+      !this.selectedFile &&
+      !this.wordCommandTerm &&
+      !!this.messageForm.get('content')?.value?.trim()
+    );
+  }
+
+  openSchedulePicker(): void {
+    // Par défaut : dans une heure, au quart d'heure suivant
+    const date = new Date(Date.now() + 60 * 60 * 1000);
+    date.setMinutes(Math.ceil(date.getMinutes() / 15) * 15, 0, 0);
+    this.scheduleAt = this._toDateTimeInput(date);
+    this.showSchedulePicker = true;
+  }
+
+  closeSchedulePicker(): void {
+    this.showSchedulePicker = false;
+    this.scheduleAt = '';
+    this.scheduleError = null;
+  }
+
+  getMinScheduleInput(): string {
+    return this._toDateTimeInput(new Date());
+  }
+
+  scheduleCurrentMessage(): void {
+    const conversationId = this.conversation?._id;
+    const content = this.messageForm.get('content')?.value?.trim();
+    const target = this._getSendTarget();
+    if (!conversationId || !content || !target || this.savingSchedule) return;
+
+    const scheduledAt = this._parseScheduleInput(this.scheduleAt);
+    if (!scheduledAt) return;
+
+    this.savingSchedule = true;
+    const sub = this.messagingService
+      .scheduleMessage({
+        ...target,
+        conversationId,
         content,
         messageType: 'text',
+        ...(this.replyingTo && { replyToId: this.replyingTo._id }),
+        scheduledAt,
+        timeZone: this.localTimeZone,
+      })
+      .subscribe({
+        next: (scheduled) => {
+          this.savingSchedule = false;
+          this.scheduledMessages = this._sortScheduled([...this.scheduledMessages, scheduled]);
+          this.closeSchedulePicker();
+          this.messageForm.reset();
+          this.replyingTo = null;
+        },
+        error: (error) => {
+          this.savingSchedule = false;
+          this.scheduleError = error.message;
+        },
       });
+    this.subscriptions.add(sub);
+  }
+
+  startScheduledEdit(scheduled: ScheduledMessage): void {
+    this.editingScheduledId = scheduled._id;
+    this.scheduledEditContent = scheduled.content;
+    this.scheduledEditAt = this._toDateTimeInput(new Date(scheduled.scheduledAt));
+  }
+
+  cancelScheduledEdit(): void {
+    this.editingScheduledId = null;
+    this.scheduledEditContent = '';
+    this.scheduledEditAt = '';
+    this.scheduleError = null;
+  }
+
+  saveScheduledEdit(scheduled: ScheduledMessage): void {
+    const content = this.scheduledEditContent.trim();
+    const scheduledAt = this._parseScheduleInput(this.scheduledEditAt);
+    if (!content || !scheduledAt || this.savingSchedule) return;
+
+    this.savingSchedule = true;
+    const sub = this.messagingService
+      .updateScheduledMessage(scheduled._id, {
+        content,
+        scheduledAt,
+        timeZone: this.localTimeZone,
+      })
+      .subscribe({
+        next: (updated) => {
+          this.savingSchedule = false;
+          this.scheduledMessages = this._sortScheduled(
+            this.scheduledMessages.map((s) => (s._id === updated._id ? updated : s))
+          );
+          this.cancelScheduledEdit();
+        },
+        error: (error) => {
+          this.savingSchedule = false;
+          this.scheduleError = error.message;
+        },
+      });
+    this.subscriptions.add(sub);
+  }
+
+  async cancelScheduledMessage(scheduled: ScheduledMessage): Promise<void> {
+    const ok = await this.confirmDialog.confirm({
+      title: 'Annuler le message programmé',
+      message: 'Ce message ne sera pas envoyé.',
+      confirmText: "Annuler l'envoi",
+      cancelText: 'Garder',
+      type: 'danger',
+    });
+    if (!ok) return;
+
+    const sub = this.messagingService.cancelScheduledMessage(scheduled._id).subscribe({
+      next: () => {
+        this.scheduledMessages = this.scheduledMessages.filter((s) => s._id !== scheduled._id);
+        if (this.editingScheduledId === scheduled._id) this.cancelScheduledEdit();
+        if (!this.scheduledMessages.length) this.showScheduledList = false;
+      },
+      error: (error) => (this.scheduleError = error.message),
+    });
+    this.subscriptions.add(sub);
+  }
+
+  formatScheduledAt(scheduledAt: string): string {
+    return new Date(scheduledAt).toLocaleString('fr-FR', {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+
+  trackByScheduled(_: number, scheduled: ScheduledMessage): string {
+    return scheduled._id;
+  }
+
+  // « AAAA-MM-JJTHH:mm » en heure locale, format des champs datetime-local
+  private _toDateTimeInput(date: Date): string {
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return (
+      `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+      `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+    );
+  }
+
+  private _parseScheduleInput(value: string): string | null {
+    const date = value ? new Date(value) : null;
+    if (!date || isNaN(date.getTime())) {
+      this.scheduleError = "Choisissez une date et une heure d'envoi";
+      return null;
+    }
+    if (date.getTime() <= Date.now()) {
+      this.scheduleError = "L'heure d'envoi doit être dans le futur";
+      return null;
+    }
+    this.scheduleError = null;
+    return date.toISOString();
+  }
+
+  private _sortScheduled(scheduled: ScheduledMessage[]): ScheduledMessage[] {
+    return [...scheduled].sort(
+      (a, b) => new Date(a.scheduledAt).getTime() - new Date(b.scheduledAt).getTime()
+    );
+  }
+
+  // ===== FILE D'ENVOI =====
+
+  private setupOutbox(): void {
+    this.outbox.entries$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((entries) => {
+        this._outboxEntries = entries;
+        this._refreshOutgoing();
+      });
+
+    this.outbox.sent$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(({ entry, message }) => {
+        if (!this.conversation || !this._isOutgoingForConversation(entry)) return;
+
+        // Premier message : la conversation vient d'être créée
+        if (!this.conversation._id && message.conversationId) {
+          this.conversation._id = message.conversationId;
+          this.joinConversation();
+          this._refreshOutgoing();
+        }
+        if (!this.viewingHistory && !this.messages.find((m) => m._id === message._id)) {
+          this.messages.push(message);
+          this.shouldScrollToBottom = true;
+        }
+      });
+  }
+
+  retryOutgoing(entry: OutgoingMessage): void {
+    this.outbox.retry(entry.clientMessageId);
+  }
+
+  deleteOutgoing(entry: OutgoingMessage): void {
+    this.outbox.remove(entry.clientMessageId);
+  }
+
+  getOutgoingSummary(entry: OutgoingMessage): string {
+    const { content, messageType } = entry.request;
+    return messageType === 'word_share' ? `📖 ${content}` : content;
+  }
+
+  trackByOutgoing(index: number, entry: OutgoingMessage): string {
+    return entry.clientMessageId;
+  }
+
+  getDeliveryState(message: Message): MessageDeliveryState {
+    if (this.isMessageRead(message)) return 'read';
+    return message.deliveredAt ? 'delivered' : 'sent';
+  }
+
+  getDeliveryLabel(message: Message): string {
+    if (this.isGroupConversation) return this.getReadByLabel(message);
+    const labels: Record<MessageDeliveryState, string> = {
+      pending: "En cours d'envoi",
+      sent: 'Envoyé',
+      delivered: 'Distribué',
+      read: 'Lu',
+      failed: "Échec de l'envoi",
+    };
+    return labels[this.getDeliveryState(message)];
+  }
+
+  private _refreshOutgoing(): void {
+    this.outgoingMessages = this._outboxEntries.filter((entry) =>
+      this._isOutgoingForConversation(entry)
+    );
+  }
+
+  private _isOutgoingForConversation(entry: OutgoingMessage): boolean {
+    if (!this.conversation) return false;
+    if (entry.conversationId) return entry.conversationId === this.conversation._id;
+    // Conversation pas encore créée : rattachée par le destinataire
+    return (
+      !this.conversation._id &&
+      !!entry.request.receiverId &&
+      entry.request.receiverId === this.getOtherParticipant()?.id
+    );
+  }
+
+  // ===== PARTAGE DE MOTS =====
+
+  get wordCommandTerm(): string | null {
+    return this._parseWordCommand(this.messageForm.get('content')?.value);
+  }
+
+  selectWordCommandResult(word: Word): void {
+    this._shareWord(word, () => {
       this.messageForm.reset();
-      this.sendingMessage = false;
+      this.replyingTo = null;
+      this.wordCommandResults = [];
+    });
+  }
+
+  shareLookupWord(word: Word): void {
+    this._shareWord(word, () => this.closeWordLookup());
+  }
+
+  getSharedWord(message: Message): SharedWord | null {
+    return (message.metadata?.['word'] as SharedWord) || null;
+  }
+
+  // Les partages sans fiche ni identifiant de mot restent affichés en texte
+  hasWordCard(message: Message): boolean {
+    return (
+      message.messageType === 'word_share' &&
+      !!(this.getSharedWord(message) || message.metadata?.['wordId'])
+    );
+  }
+
+  onTextPointerDown(event: PointerEvent): void {
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+    this.cancelLongPress();
+
+    const { clientX: x, clientY: y } = event;
+    this._longPressOrigin = { x, y };
+    this._longPressTimer = setTimeout(() => {
+      this._longPressOrigin = null;
+      const term = this._wordAtPoint(x, y);
+      if (term) this.openWordLookup(term);
+    }, LONG_PRESS_DELAY);
+  }
+
+  onTextPointerMove(event: PointerEvent): void {
+    if (!this._longPressOrigin) return;
+    const distance = Math.hypot(
+      event.clientX - this._longPressOrigin.x,
+      event.clientY - this._longPressOrigin.y
+    );
+    if (distance > 10) this.cancelLongPress();
+  }
+
+  cancelLongPress(): void {
+    clearTimeout(this._longPressTimer);
+    this._longPressOrigin = null;
+  }
+
+  // Évite le menu contextuel du navigateur mobile sur le mot recherché
+  onTextContextMenu(event: Event): void {
+    if (this.wordLookup) event.preventDefault();
+  }
+
+  openWordLookup(term: string): void {
+    this._lookupRequest?.unsubscribe();
+    this.wordLookup = { term, loading: true, results: [] };
+
+    this._lookupRequest = this.dictionaryService
+      .searchWords({ query: term, page: 1, limit: 3, skipHistory: true })
+      .subscribe({
+        next: (results) => {
+          if (!this.wordLookup) return;
+          this.wordLookup.results = results.words.map((word) => ({
+            word,
+            sharedWord: this.messagingService.toSharedWord(word),
+          }));
+          this.wordLookup.loading = false;
+        },
+        error: () => {
+          if (this.wordLookup) this.wordLookup.loading = false;
+        },
+      });
+  }
+
+  closeWordLookup(): void {
+    this._lookupRequest?.unsubscribe();
+    this.wordLookup = null;
+  }
+
+  private _shareWord(word: Word, onSent: () => void): void {
+    if (!this.conversation || this.sendingMessage) return;
+
+    this._send(
+      {
+        content: word.word,
+        messageType: 'word_share',
+        metadata: { wordId: word.id, word: this.messagingService.toSharedWord(word) },
+        replyToId: this.replyingTo?._id,
+      },
+      onSent
+    );
+  }
+
+  private _parseWordCommand(value: string | null | undefined): string | null {
+    return value?.match(WORD_COMMAND)?.[1].trim() || null;
+  }
+
+  // Mot sous le pointeur, à partir de la position du curseur de texte
+  private _wordAtPoint(x: number, y: number): string | null {
+    let node: Node | undefined;
+    let offset = 0;
+    if (document.caretPositionFromPoint) {
+      const position = document.caretPositionFromPoint(x, y);
+      node = position?.offsetNode;
+      offset = position?.offset ?? 0;
+    } else {
+      const range = document.caretRangeFromPoint?.(x, y);
+      node = range?.startContainer;
+      offset = range?.startOffset ?? 0;
     }
+    if (!node || node.nodeType !== Node.TEXT_NODE) return null;
+
+    const text = node.textContent || '';
+    let start = offset;
+    let end = offset;
+    while (start > 0 && WORD_CHARACTER.test(text[start - 1])) start--;
+    while (end < text.length && WORD_CHARACTER.test(text[end])) end++;
+
+    const word = text.slice(start, end).replace(/^['’ʼ-]+|['’ʼ-]+$/g, '');
+    return word.length > 1 ? word : null;
   }
 
   // ===== IMAGE UPLOAD =====
@@ -390,10 +1217,20 @@ export class ChatWindowComponent
     const reader = new FileReader();
     reader.onload = (e) => {
       this.imagePreview = e.target?.result as string;
+      if (this.selectedFile === file && this.conversation?._id) {
+        this._saveDraft(this.conversation._id);
+      }
     };
     reader.readAsDataURL(file);
   }
 
+  removeSelectedFile(): void {
+    this.clearSelectedFile();
+    if (this.conversation?._id) {
+      this._saveDraft(this.conversation._id);
+    }
+  }
+
   clearSelectedFile(): void {
     this.selectedFile = null;
     this.imagePreview = null;
@@ -405,8 +1242,8 @@ export class ChatWindowComponent
   private sendImageMessage(): void {
     if (!this.selectedFile || !this.conversation) return;
 
-    const otherParticipant = this.getOtherParticipant();
-    if (!otherParticipant) return;
+    const target = this._getSendTarget();
+    if (!target) return;
 
     const caption = this.messageForm.get('content')?.value?.trim() || '';
 
@@ -416,11 +1253,12 @@ export class ChatWindowComponent
 
     const formData = new FormData();
     formData.append('files', this.selectedFile);
-    formData.append('recipientId', otherParticipant.id);
+    if (target.receiverId) formData.append('recipientId', target.receiverId);
     if (this.conversation._id) {
       formData.append('conversationId', this.conversation._id);
     }
     if (caption) formData.append('content', caption);
+    if (this.replyingTo) formData.append('replyToId', this.replyingTo._id);
     formData.append('messageType', 'image');
 
     const sub = this.messagingService.sendMediaMessage(formData).subscribe({
@@ -430,6 +1268,7 @@ export class ChatWindowComponent
           this.messages.push(msg);
         }
         this.messageForm.reset();
+        this.replyingTo = null;
         this.clearSelectedFile();
         this.sendingMessage = false;
         this.isUploadingImage = false;
@@ -475,10 +1314,12 @@ export class ChatWindowComponent
 
   getReactionEntries(message: Message): { emoji: string; label: string; isMe: boolean }[] {
     if (!message?.reactions?.length) return [];
-    const other = this.getOtherParticipant();
     return message.reactions.map((r) => ({
       emoji: r.emoji,
-      label: r.userId === this.currentUserId ? 'Vous' : (other?.username || 'Utilisateur'),
+      label:
+        r.userId === this.currentUserId
+          ? 'Vous'
+          : this._findParticipant(r.userId)?.username || r.username || 'Utilisateur',
       isMe: r.userId === this.currentUserId,
     }));
   }
@@ -594,6 +1435,217 @@ export class ChatWindowComponent
     this.subscriptions.add(sub);
   }
 
+  // ===== RÉPONSES ET FILS =====
+
+  startReply(message: Message): void {
+    this.activeMenuMessageId = null;
+    this.showReactionPickerForId = null;
+    this.cancelEdit();
+    this.replyingTo = message;
+    setTimeout(() => this.messageInput?.nativeElement.focus());
+  }
+
+  cancelReply(): void {
+    this.replyingTo = null;
+  }
+
+  /**
+   * Aperçu du message cité : celui fourni par le serveur,
+   * sinon reconstruit depuis les messages chargés
+   */
+  getReplyPreview(message: Message): MessageReplyPreview | null {
+    if (!message.replyToId) return null;
+    if (message.replyTo) return message.replyTo;
+
+    const original = this.messages.find((m) => m._id === message.replyToId);
+    return original ? this._toReplyPreview(original) : null;
+  }
+
+  getReplyPreviewText(preview: MessageReplyPreview): string {
+    if (preview.isDeleted) return 'Message supprimé';
+    if (preview.messageType === 'correction') return `✏️ ${preview.content}`;
+    if (preview.messageType === 'word_share') return `📖 ${preview.content}`;
+    if (preview.content) return preview.content;
+    if (preview.messageType === 'image') return '📷 Photo';
+    if (preview.messageType === 'audio') return '🎤 Message vocal';
+    return 'Message';
+  }
+
+  getMessageSummary(message: Message): string {
+    return this.getReplyPreviewText(this._toReplyPreview(message));
+  }
+
+  getReplyAuthor(preview: MessageReplyPreview): string {
+    return preview.senderId?.id === this.currentUserId ? 'Vous' : preview.senderId?.username || 'Utilisateur';
+  }
+
+  getReplyCount(message: Message): number {
+    return this.messages.filter((m) => m.replyToId === message._id).length;
+  }
+
+  /**
+   * Fait défiler jusqu'au message et le met brièvement en évidence ;
+   * un message absent de la page est chargé avec son contexte
+   */
+  scrollToMessage(messageId: string | undefined, loadIfMissing = true): void {
+    if (!messageId) return;
+    const element = this.messagesContainer?.nativeElement.querySelector(`#msg-${messageId}`);
+    if (!element) {
+      if (loadIfMissing) {
+        this.loadMessageContext(messageId);
+      } else {
+        this.error = "Ce message n'est plus disponible";
+      }
+      return;
+    }
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    this.highlightedMessageId = messageId;
+    clearTimeout(this.highlightTimer);
+    this.highlightTimer = setTimeout(() => (this.highlightedMessageId = null), 1600);
+  }
+
+  // Le fil part toujours du premier message de la chaîne de réponses
+  openThread(message: Message): void {
+    this.activeMenuMessageId = null;
+    let root = message;
+    while (root.replyToId) {
+      const parent = this.messages.find((m) => m._id === root.replyToId);
+      if (!parent) break;
+      root = parent;
+    }
+    this.threadRootId = root._id;
+    this.threadReplyContent = '';
+  }
+
+  closeThread(): void {
+    this.threadRootId = null;
+    this.threadReplyContent = '';
+  }
+
+  get threadRoot(): Message | null {
+    return this.messages.find((m) => m._id === this.threadRootId) || null;
+  }
+
+  get threadMessages(): Message[] {
+    if (!this.threadRootId) return [];
+    const inThread = new Set([this.threadRootId]);
+    // Messages triés chronologiquement : un parent précède toujours ses réponses
+    return this.messages.filter((m) => {
+      if (m._id === this.threadRootId) return false;
+      if (m.replyToId && inThread.has(m.replyToId)) {
+        inThread.add(m._id);
+        return true;
+      }
+      return false;
+    });
+  }
+
+  sendThreadReply(): void {
+    const content = this.threadReplyContent.trim();
+    if (!content || !this.threadRootId || this.sendingMessage) return;
+
+    const threadMessages = this.threadMessages;
+    const replyToId = threadMessages.length
+      ? threadMessages[threadMessages.length - 1]._id
+      : this.threadRootId;
+    this._send({ content, messageType: 'text', replyToId }, () => (this.threadReplyContent = ''));
+  }
+
+  onThreadEnterKeydown(event: KeyboardEvent): void {
+    if (!event.shiftKey) {
+      event.preventDefault();
+      this.sendThreadReply();
+    }
+  }
+
+  private _toReplyPreview(message: Message): MessageReplyPreview {
+    return {
+      _id: message._id,
+      content: message.content,
+      messageType: message.messageType,
+      senderId: { id: message.senderId?.id, username: message.senderId?.username },
+      isDeleted: message.isDeleted,
+    };
+  }
+
+  // ===== CORRECTIONS =====
+
+  canSuggestCorrection(message: Message): boolean {
+    return !this.isMyMessage(message) && message.messageType === 'text' && !!message.content;
+  }
+
+  startCorrection(message: Message): void {
+    this.activeMenuMessageId = null;
+    this.showReactionPickerForId = null;
+    this.cancelEdit();
+    this.correctingMessageId = message._id;
+    this.correctionText = message.content;
+    this.correctionExplanation = '';
+  }
+
+  cancelCorrection(): void {
+    this.correctingMessageId = null;
+    this.correctionText = '';
+    this.correctionExplanation = '';
+  }
+
+  sendCorrection(message: Message): void {
+    const correctedText = this.correctionText.trim();
+    if (!correctedText || this.sendingMessage) return;
+    if (correctedText === message.content.trim()) {
+      this.error = 'La correction est identique au message d\'origine';
+      return;
+    }
+
+    const correction: MessageCorrection = {
+      originalMessageId: message._id,
+      originalText: message.content,
+      correctedText,
+      ...(this.correctionExplanation.trim() ? { explanation: this.correctionExplanation.trim() } : {}),
+    };
+
+    this._send(
+      {
+        content: correctedText,
+        messageType: 'correction',
+        metadata: { correction },
+        replyToId: message._id,
+      },
+      () => this.cancelCorrection()
+    );
+  }
+
+  onCorrectionKeydown(event: KeyboardEvent, message: Message): void {
+    if (event.key === 'Escape') {
+      this.cancelCorrection();
+    } else if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      this.sendCorrection(message);
+    }
+  }
+
+  getCorrection(message: Message): MessageCorrection | null {
+    if (message.messageType !== 'correction') return null;
+    return (message.metadata?.['correction'] as MessageCorrection) || null;
+  }
+
+  getCorrectionDiff(message: Message): TextDiffSegment[] {
+    const correction = this.getCorrection(message);
+    if (!correction) return [];
+    if (!this._diffCache.has(message._id)) {
+      this._diffCache.set(
+        message._id,
+        this.textDiff.diffWords(correction.originalText, correction.correctedText)
+      );
+    }
+    return this._diffCache.get(message._id)!;
+  }
+
+  openCorrectionSave(message: Message): void {
+    this.savingCorrection = this.getCorrection(message);
+  }
+
   // ===== UI HELPERS =====
 
   isUserOnline(userId: string): boolean {
@@ -613,21 +1665,77 @@ export class ChatWindowComponent
   }
 
   getAudioDuration(message: Message): number {
-    return (message.metadata?.['audioDuration'] as number) || 0;
+    return (
+      this.audioDurations[message._id] ||
+      (message.metadata?.['audioDuration'] as number) ||
+      0
+    );
   }
 
   getOtherParticipant(): any {
     if (!this.conversation || !this.currentUserId) return null;
-    return (
-      this.conversation.participants.find((p) => p.id !== this.currentUserId) ||
-      this.conversation.participants[0]
-    );
+    return this.messagingService.getOtherParticipant(this.conversation, this.currentUserId);
+  }
+
+  get isGroupConversation(): boolean {
+    return this.messagingService.isGroup(this.conversation);
+  }
+
+  get conversationTitle(): string {
+    return this.conversation
+      ? this.messagingService.getConversationTitle(this.conversation, this.currentUserId)
+      : '';
+  }
+
+  get onlineMembersCount(): number {
+    return (this.conversation?.participants ?? []).filter(
+      (p) => p.id !== this.currentUserId && this.isUserOnline(p.id)
+    ).length;
+  }
+
+  toggleGroupInfo(): void {
+    this.showGroupInfo = !this.showGroupInfo;
+  }
+
+  onGroupLeft(conversationId: string): void {
+    this.showGroupInfo = false;
+    this.conversationLeft.emit(conversationId);
   }
 
   isMyMessage(message: Message): boolean {
     return message.senderId.id === this.currentUserId;
   }
 
+  /**
+   * En groupe, le message est lu lorsque tous les autres membres l'ont lu
+   */
+  isMessageRead(message: Message): boolean {
+    if (!this.isGroupConversation || !this.conversation) return message.isRead;
+    const recipients = this.conversation.participants.filter(
+      (p) => p.id !== message.senderId?.id
+    ).length;
+    return recipients > 0 && this.getReadBy(message).length >= recipients;
+  }
+
+  getReadBy(message: Message): User[] {
+    if (!this.isGroupConversation || !this.conversation) return [];
+    return this.messagingService.getReadBy(this.conversation, message);
+  }
+
+  getReadByLabel(message: Message): string {
+    const readers = this.getReadBy(message);
+    if (!readers.length) return 'Envoyé';
+    return `Lu par ${readers.map((r) => r.username).join(', ')}`;
+  }
+
+  // Affiche le nom de l'expéditeur au début de chaque série de messages reçus en groupe
+  isFirstInGroup(index: number): boolean {
+    if (index === 0) return true;
+    const curr = this.messages[index];
+    const prev = this.messages[index - 1];
+    return curr.senderId?.id !== prev.senderId?.id || this.shouldShowDateSeparator(index);
+  }
+
   isLastInGroup(index: number): boolean {
     if (index === this.messages.length - 1) return true;
     const curr = this.messages[index];
@@ -753,33 +1861,49 @@ export class ChatWindowComponent
     const ext = mimeType.includes('mp4') ? 'mp4' : mimeType.includes('ogg') ? 'ogg' : 'webm';
     const blob = new Blob(this.audioChunks, { type: mimeType });
     const file = new File([blob], `voice-${Date.now()}.${ext}`, { type: mimeType });
-    const otherParticipant = this.getOtherParticipant();
-    if (!otherParticipant) return;
+    const target = this._getSendTarget();
+    if (!target) return;
 
     const duration = this.recordingDuration;
     const formData = new FormData();
     formData.append('files', file);
-    formData.append('recipientId', otherParticipant.id);
+    if (target.receiverId) formData.append('recipientId', target.receiverId);
     if (this.conversation._id) formData.append('conversationId', this.conversation._id);
+    if (this.replyingTo) formData.append('replyToId', this.replyingTo._id);
     formData.append('messageType', 'audio');
     formData.append('audioDuration', String(duration));
 
     this.sendingMessage = true;
-    const sub = this.messagingService.sendMediaMessage(formData).subscribe({
-      next: (response) => {
-        const msg = response?.data?.message || response?.data;
-        if (msg && !this.messages.find((m) => m._id === msg._id)) {
-          this.messages.push(msg);
-        }
-        this.audioChunks = [];
-        this.sendingMessage = false;
-        this.shouldScrollToBottom = true;
-      },
-      error: () => {
-        this.error = "Erreur lors de l'envoi du message vocal";
-        this.sendingMessage = false;
-      },
-    });
+    const sub = forkJoin({
+      waveform: this.audioWaveform.fromBlob(blob),
+      transcription: this.transcriptionProvider.transcribe(blob).pipe(
+        timeout(TRANSCRIPTION_TIMEOUT_MS),
+        catchError(() => of(null))
+      ),
+    })
+      .pipe(
+        switchMap(({ waveform, transcription }) => {
+          if (waveform) formData.append('waveform', JSON.stringify(waveform));
+          if (transcription) formData.append('transcription', transcription);
+          return this.messagingService.sendMediaMessage(formData);
+        })
+      )
+      .subscribe({
+        next: (response) => {
+          const msg = response?.data?.message || response?.data;
+          if (msg && !this.messages.find((m) => m._id === msg._id)) {
+            this.messages.push(msg);
+          }
+          this.audioChunks = [];
+          this.replyingTo = null;
+          this.sendingMessage = false;
+          this.shouldScrollToBottom = true;
+        },
+        error: () => {
+          this.error = "Erreur lors de l'envoi du message vocal";
+          this.sendingMessage = false;
+        },
+      });
     this.subscriptions.add(sub);
   }
 
@@ -801,25 +1925,75 @@ export class ChatWindowComponent
     }
 
     this.playingAudioId = message._id;
-    this._audioEl = new Audio(url);
-    this._audioEl.currentTime = this.audioElapsed[message._id] || 0;
-
-    this._audioEl.ontimeupdate = () => {
+    const audio = new Audio(url);
+    this._audioEl = audio;
+    audio.playbackRate = this.playbackRate;
+    audio.currentTime = this.audioElapsed[message._id] || 0;
+
+    audio.onloadedmetadata = () => {
+      // Les enregistrements WebM n'annoncent souvent pas leur durée (Infinity)
+      if (Number.isFinite(audio.duration)) {
+        this.ngZone.run(() => {
+          this.audioDurations[message._id] = audio.duration;
+        });
+      }
+    };
+    audio.ontimeupdate = () => {
+      if (this._audioEl !== audio) return;
       this.ngZone.run(() => {
-        this.audioElapsed[message._id] = Math.floor(this._audioEl!.currentTime);
+        this.audioElapsed[message._id] = audio.currentTime;
       });
     };
-    this._audioEl.onended = () => {
+    audio.onended = () => {
       this.ngZone.run(() => {
         this.playingAudioId = null;
         delete this.audioElapsed[message._id];
       });
     };
-    this._audioEl.play().catch(() => {
+    audio.play().catch(() => {
       this.ngZone.run(() => { this.playingAudioId = null; });
     });
   }
 
+  /**
+   * Clic sur la forme d'onde : lecture à partir de la position visée
+   */
+  seekAudio(message: Message, event: MouseEvent): void {
+    const wave = event.currentTarget as HTMLElement;
+    const rect = wave.getBoundingClientRect();
+    if (!rect.width) return;
+    const ratio = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    this._seekAudioTo(message, ratio * this.getAudioDuration(message));
+  }
+
+  // Flèches du clavier sur la forme d'onde : réécouter une syllabe
+  nudgeAudio(message: Message, seconds: number, event: Event): void {
+    event.preventDefault();
+    this._seekAudioTo(message, (this.audioElapsed[message._id] || 0) + seconds);
+  }
+
+  cyclePlaybackRate(): void {
+    const index = PLAYBACK_RATES.indexOf(this.playbackRate);
+    this.playbackRate = PLAYBACK_RATES[(index + 1) % PLAYBACK_RATES.length];
+    if (this._audioEl) this._audioEl.playbackRate = this.playbackRate;
+  }
+
+  formatPlaybackRate(rate: number): string {
+    return `${rate.toString().replace('.', ',')}×`;
+  }
+
+  private _seekAudioTo(message: Message, seconds: number): void {
+    const duration = this.getAudioDuration(message);
+    const time = Math.max(0, duration ? Math.min(seconds, duration) : seconds);
+    this.audioElapsed[message._id] = time;
+
+    if (this._audioEl && this.playingAudioId === message._id) {
+      this._audioEl.currentTime = time;
+    } else {
+      this.toggleAudio(message);
+    }
+  }
+
   private _stopAudio(): void {
     if (this._audioEl) {
       this._audioEl.pause();
@@ -845,15 +2019,95 @@ export class ChatWindowComponent
     return `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, '0')}`;
   }
 
-  getWaveformBars(messageId: string): number[] {
-    if (this._waveformCache.has(messageId)) return this._waveformCache.get(messageId)!;
-    const result: number[] = [];
+  getWaveformBars(message: Message): number[] {
+    const cached = this._waveformCache.get(message._id);
+    if (cached) return cached;
+
+    const peaks = message.metadata?.['waveform'];
+    if (Array.isArray(peaks) && peaks.length) {
+      return this._setWaveform(message._id, peaks);
+    }
+
+    // Message sans forme d'onde enregistrée : calculée depuis le fichier,
+    // barres provisoires en attendant le décodage
+    const messageId = message._id;
+    const placeholder: number[] = [];
     for (let i = 0; i < 30; i++) {
       const c = messageId.charCodeAt(i % messageId.length);
-      result.push(4 + ((c * (i + 1) * 7) % 20));
+      placeholder.push(4 + ((c * (i + 1) * 7) % 20));
     }
-    this._waveformCache.set(messageId, result);
-    return result;
+    this._waveformCache.set(messageId, placeholder);
+
+    const url = this.getAudioUrl(message);
+    if (url) {
+      this.subscriptions.add(
+        this.audioWaveform.fromUrl(url).subscribe((levels) => {
+          if (levels) this._setWaveform(messageId, levels);
+        })
+      );
+    }
+    return placeholder;
+  }
+
+  private _setWaveform(messageId: string, levels: number[]): number[] {
+    const bars = levels.map(
+      (level) => 4 + Math.round(Math.min(1, Math.max(0, level)) * 20)
+    );
+    this._waveformCache.set(messageId, bars);
+    return bars;
+  }
+
+  // ===== TRANSCRIPTION =====
+
+  getTranscription(message: Message): string | null {
+    return (
+      (message.metadata?.['transcription'] as string) ||
+      this.transcriptions[message._id] ||
+      null
+    );
+  }
+
+  isTranscriptionMissing(message: Message): boolean {
+    return (
+      !this.transcribingIds.has(message._id) &&
+      this.transcriptions[message._id] === null &&
+      !this.getTranscription(message)
+    );
+  }
+
+  toggleTranscription(message: Message): void {
+    const id = message._id;
+    if (this.openTranscriptions.has(id)) {
+      this.openTranscriptions.delete(id);
+      return;
+    }
+    this.openTranscriptions.add(id);
+    if (!this.getTranscription(message) && !this.transcribingIds.has(id)) {
+      this._transcribe(message);
+    }
+  }
+
+  private _transcribe(message: Message): void {
+    const url = this.getAudioUrl(message);
+    if (!url) return;
+
+    const id = message._id;
+    this.transcribingIds.add(id);
+    const sub = from(
+      fetch(url).then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.blob();
+      })
+    )
+      .pipe(
+        switchMap((audio) => this.transcriptionProvider.transcribe(audio)),
+        catchError(() => of(null))
+      )
+      .subscribe((text) => {
+        this.transcribingIds.delete(id);
+        this.transcriptions[id] = text;
+      });
+    this.subscriptions.add(sub);
   }
 
   formatRecordingDuration(seconds: number): string {
@@ -883,6 +2137,18 @@ export class ChatWindowComponent
     }
   }
 
+  private _getSendTarget(): { receiverId?: string; conversationId?: string } | null {
+    if (this.isGroupConversation) {
+      return this.conversation?._id ? { conversationId: this.conversation._id } : null;
+    }
+    const otherParticipant = this.getOtherParticipant();
+    return otherParticipant ? { receiverId: otherParticipant.id } : null;
+  }
+
+  private _findParticipant(userId: string): User | undefined {
+    return this.conversation?.participants.find((p) => p.id === userId);
+  }
+
   private scrollToBottom(): void {
     try {
       if (this.messagesContainer) {
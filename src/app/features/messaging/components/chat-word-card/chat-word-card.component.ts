@@ -0,0 +1,156 @@
+import {
+  Component,
+  Input,
+  OnChanges,
+  OnDestroy,
+  OnInit,
+  SimpleChanges,
+} from '@angular/core';
+import { Router } from '@angular/router';
+import { Subject, Subscription } from 'rxjs';
+import { filter, takeUntil } from 'rxjs/operators';
+import { SharedWord } from '../../../../core/models/message';
+import { DictionaryService } from '../../../../core/services/dictionary.service';
+import { MessagingService } from '../../../../core/services/messaging.service';
+import { ToastService } from '../../../../core/services/toast.service';
+
+/**
+ * Fiche compacte d'un mot dans le fil : prononciation, première définition,
+ * traductions et ajout aux favoris
+ */
+@Component({
+  selector: 'app-chat-word-card',
+  standalone: false,
+  templateUrl: './chat-word-card.component.html',
+  styleUrls: ['./chat-word-card.component.scss'],
+})
+export class ChatWordCardComponent implements OnInit, OnChanges, OnDestroy {
+  @Input() sharedWord: SharedWord | null = null;
+  // Anciens partages sans fiche : le mot est chargé depuis le dictionnaire
+  @Input() wordId: string | null = null;
+  @Input() sent = false;
+
+  card: SharedWord | null = null;
+  loading = false;
+  isFavorite = false;
+  playing = false;
+
+  private _audio: HTMLAudioElement | null = null;
+  private _request?: Subscription;
+  private _destroy$ = new Subject<void>();
+
+  readonly partsOfSpeech: Record<string, string> = {
+    noun: 'nom',
+    verb: 'verbe',
+    adjective: 'adj.',
+    adverb: 'adv.',
+    pronoun: 'pron.',
+    preposition: 'prép.',
+    conjunction: 'conj.',
+    interjection: 'interj.',
+  };
+
+  constructor(
+    private _dictionaryService: DictionaryService,
+    private _messagingService: MessagingService,
+    private _toastService: ToastService,
+    private _router: Router
+  ) {}
+
+  ngOnInit(): void {
+    this._dictionaryService.favoriteStatusChanged$
+      .pipe(
+        filter(({ wordId }) => wordId === this.card?.wordId),
+        takeUntil(this._destroy$)
+      )
+      .subscribe(({ isFavorite }) => (this.isFavorite = isFavorite));
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['sharedWord'] || changes['wordId']) {
+      this._stopAudio();
+      this._request?.unsubscribe();
+
+      if (this.sharedWord) {
+        this._setCard(this.sharedWord);
+      } else if (this.wordId) {
+        this._loadWord(this.wordId);
+      } else {
+        this.card = null;
+      }
+    }
+  }
+
+  ngOnDestroy(): void {
+    this._stopAudio();
+    this._request?.unsubscribe();
+    this._destroy$.next();
+    this._destroy$.complete();
+  }
+
+  toggleAudio(): void {
+    if (!this.card?.audioUrl) return;
+    if (this.playing) {
+      this._stopAudio();
+      return;
+    }
+
+    this._audio = new Audio(this.card.audioUrl);
+    this._audio.onended = () => this._stopAudio();
+    this._audio.play().then(
+      () => (this.playing = true),
+      () => {
+        this._stopAudio();
+        this._toastService.error('Lecture impossible', "La prononciation n'a pas pu être lue");
+      }
+    );
+  }
+
+  toggleFavorite(): void {
+    if (!this.card) return;
+    const { wordId, word } = this.card;
+    const request = this.isFavorite
+      ? this._dictionaryService.removeFromFavorites(wordId)
+      : this._dictionaryService.addToFavorites(wordId);
+
+    request.subscribe((response) => {
+      if (!response.success) {
+        this._toastService.error('Erreur', `Impossible de modifier les favoris pour « ${word} »`);
+      }
+    });
+  }
+
+  openDetails(): void {
+    if (this.card) {
+      this._router.navigate(['/dictionary/word', this.card.wordId]);
+    }
+  }
+
+  getPartOfSpeech(code: string | undefined): string {
+    return code ? this.partsOfSpeech[code] || code : '';
+  }
+
+  private _setCard(card: SharedWord): void {
+    this.card = card;
+    this.isFavorite = this._dictionaryService.isFavorite(card.wordId);
+  }
+
+  private _loadWord(wordId: string): void {
+    this.loading = true;
+    this._request = this._dictionaryService.getWordById(wordId).subscribe({
+      next: (word) => {
+        this.loading = false;
+        if (word) {
+          this._setCard(this._messagingService.toSharedWord(word));
+        }
+      },
+      error: () => (this.loading = false),
+    });
+  }
+
+  private _stopAudio(): void {
+    this._audio?.pause();
+    this._audio = null;
+    this.playing = false;
+  }
+}
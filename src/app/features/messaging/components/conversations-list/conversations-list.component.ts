@@ -1,13 +1,41 @@
-import { Component, OnInit, OnDestroy, Output, EventEmitter } from '@angular/core';
+import {
+  Component,
+  OnInit,
+  OnDestroy,
+  Input,
+  Output,
+  EventEmitter,
+  HostListener,
+} from '@angular/core';
 import { FormControl } from '@angular/forms';
 import { debounceTime, distinctUntilChanged, takeUntil } from 'rxjs/operators';
 import { Subject } from 'rxjs';
 import { MessagingService } from '../../../../core/services/messaging.service';
 import { WebSocketService } from '../../../../core/services/websocket.service';
-import { Conversation } from '../../../../core/models/message';
+import {
+  Conversation,
+  ConversationFolder,
+  ConversationPreferencesRequest,
+  CreateGroupRequest,
+  MessageDraft,
+} from '../../../../core/models/message';
 import { AuthService } from '../../../../core/services/auth.service';
+import { MessageDraftService } from '../../../../core/services/message-draft.service';
+import { ConfirmDialogService } from '../../../../core/services/confirm-dialog.service';
+import { ToastService } from '../../../../core/services/toast.service';
 import { User } from '../../../../core/models/user';
 
+type ConversationFilter =
+  | 'all'
+  | 'unread'
+  | 'favorites'
+  | 'contacts'
+  | 'groups'
+  | 'archived'
+  | 'folder';
+
+const FOLDER_NAME_MAX_LENGTH = 30;
+
 @Component({
   selector: 'app-conversations-list',
   standalone: false,
@@ -15,7 +43,10 @@ import { User } from '../../../../core/models/user';
   styleUrls: ['./conversations-list.component.scss'],
 })
 export class ConversationsListComponent implements OnInit, OnDestroy {
+  // Conversation à ouvrir dès le chargement (lien ?conversation=…)
+  @Input() initialConversationId: string | null = null;
   @Output() conversationSelected = new EventEmitter<Conversation>();
+  @Output() searchRequested = new EventEmitter<void>();
 
   conversations: Conversation[] = [];
   filteredConversations: Conversation[] = [];
@@ -25,11 +56,24 @@ export class ConversationsListComponent implements OnInit, OnDestroy {
   currentUsername: string | null = null;
   onlineUsers: Set<string> = new Set();
   isWebSocketConnected = false;
+  // Brouillons en cours, par conversation
+  drafts: Record<string, MessageDraft> = {};
 
   // Propriétés pour les filtres et la recherche
   searchControl = new FormControl('');
   showFiltersMenu = false;
-  currentFilter: 'all' | 'unread' | 'favorites' | 'contacts' | 'groups' = 'all';
+  currentFilter: ConversationFilter = 'all';
+
+  // Dossiers personnels ; activeFolderId est le dossier affiché (filtre 'folder')
+  folders: ConversationFolder[] = [];
+  activeFolderId: string | null = null;
+  readonly folderNameMaxLength = FOLDER_NAME_MAX_LENGTH;
+  folderEditor: { mode: 'create' | 'rename'; name: string } | null = null;
+  folderError: string | null = null;
+  savingFolder = false;
+
+  // Conversation dont le menu d'actions est ouvert
+  menuConversationId: string | null = null;
 
   // PHASE 2-3: Subject pour gérer le cleanup des subscriptions
   private destroy$ = new Subject<void>();
@@ -40,15 +84,40 @@ export class ConversationsListComponent implements OnInit, OnDestroy {
   constructor(
     private messagingService: MessagingService,
     private webSocketService: WebSocketService,
-    private authService: AuthService
+    private authService: AuthService,
+    private draftService: MessageDraftService,
+    private confirmDialog: ConfirmDialogService,
+    private toast: ToastService
   ) {}
 
+  @HostListener('document:click', ['$event'])
+  onDocumentClick(event: MouseEvent): void {
+    const target = event.target as HTMLElement;
+    if (!target.closest('.conv-menu-container')) {
+      this.menuConversationId = null;
+    }
+  }
+
+  @HostListener('document:keydown.escape')
+  onEscapeKey(): void {
+    if (this.menuConversationId) {
+      this.menuConversationId = null;
+    } else if (this.folderEditor) {
+      this.cancelFolderEdit();
+    }
+  }
+
   ngOnInit(): void {
     this.currentUserId = this.authService.getCurrentUserId();
     this.currentUsername = this.authService.getCurrentUser()?.username || null;
     this.loadConversations();
+    this.loadFolders();
     this.setupWebSocketListeners();
     this.setupSearchListener();
+
+    this.draftService.drafts$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((drafts) => (this.drafts = drafts));
   }
 
   ngOnDestroy(): void {
@@ -68,6 +137,7 @@ export class ConversationsListComponent implements OnInit, OnDestroy {
         this.conversations = conversations;
         this.filterConversations();
         this.loading = false;
+        this.openInitialConversation();
       },
       error: (error) => {
         this.error = error.message;
@@ -76,6 +146,22 @@ export class ConversationsListComponent implements OnInit, OnDestroy {
     });
   }
 
+  /**
+   * Charger les dossiers de conversations
+   */
+  loadFolders(): void {
+    this.messagingService.getConversationFolders().subscribe({
+      next: (folders) => {
+        this.folders = folders;
+        // Dossier supprimé depuis un autre appareil
+        if (this.currentFilter === 'folder' && !this.activeFolder) {
+          this.applyFilter('all');
+        }
+      },
+      error: (error) => this.toast.error('Dossiers', error.message),
+    });
+  }
+
   /**
    * Filtrer les conversations selon le filtre actuel et la recherche
    */
@@ -83,12 +169,18 @@ export class ConversationsListComponent implements OnInit, OnDestroy {
     let filtered = [...this.conversations];
     const searchTerm = this.searchControl.value?.toLowerCase() || '';
 
+    // Les conversations archivées n'apparaissent que dans leur vue ou en recherche
+    if (this.currentFilter === 'archived') {
+      filtered = filtered.filter((conv) => this.isArchived(conv));
+    } else if (!searchTerm) {
+      filtered = filtered.filter((conv) => !this.isArchived(conv));
+    }
+
     // Filtrage par recherche
     if (searchTerm) {
       filtered = filtered.filter((conversation) => {
-        const otherParticipant = this.getOtherParticipant(conversation);
         return (
-          otherParticipant?.username?.toLowerCase().includes(searchTerm) ||
+          this.getConversationTitle(conversation).toLowerCase().includes(searchTerm) ||
           conversation.lastMessage?.content?.toLowerCase().includes(searchTerm)
         );
       });
@@ -97,9 +189,7 @@ export class ConversationsListComponent implements OnInit, OnDestroy {
     // Filtrage par type
     switch (this.currentFilter) {
       case 'unread':
-        filtered = filtered.filter(
-          (conv) => conv.lastMessage && !conv.lastMessage.isRead
-        );
+        filtered = filtered.filter((conv) => this.isUnread(conv));
         break;
       case 'favorites':
         // TODO: Implémenter la logique des favoris
@@ -108,7 +198,13 @@ export class ConversationsListComponent implements OnInit, OnDestroy {
         // TODO: Implémenter la logique des contacts
         break;
       case 'groups':
-        // TODO: Implémenter la logique des groupes
+        filtered = filtered.filter((conv) => this.isGroup(conv));
+        break;
+      case 'folder':
+        filtered = filtered.filter((conv) => conv.folderId === this.activeFolderId);
+        break;
+      case 'archived':
+        // Déjà restreint aux conversations archivées
         break;
       case 'all':
       default:
@@ -116,7 +212,10 @@ export class ConversationsListComponent implements OnInit, OnDestroy {
         break;
     }
 
-    this.filteredConversations = filtered;
+    // Épinglées en tête, la dernière épinglée d'abord ; le reste garde son ordre
+    this.filteredConversations = filtered.sort(
+      (a, b) => this._pinnedTime(b) - this._pinnedTime(a)
+    );
   }
 
   /**
@@ -129,36 +228,225 @@ export class ConversationsListComponent implements OnInit, OnDestroy {
   /**
    * Appliquer un filtre
    */
-  applyFilter(
-    filter: 'all' | 'unread' | 'favorites' | 'contacts' | 'groups'
-  ): void {
+  applyFilter(filter: ConversationFilter): void {
     this.currentFilter = filter;
+    if (filter !== 'folder') {
+      this.activeFolderId = null;
+    }
+    this.cancelFolderEdit();
     this.filterConversations();
     this.showFiltersMenu = false;
   }
 
+  /**
+   * Afficher les conversations d'un dossier
+   */
+  applyFolder(folderId: string): void {
+    this.activeFolderId = folderId;
+    this.applyFilter('folder');
+  }
+
+  get activeFolder(): ConversationFolder | null {
+    return this.folders.find((folder) => folder._id === this.activeFolderId) ?? null;
+  }
+
+  get archivedCount(): number {
+    return this.conversations.filter((conv) => this.isArchived(conv)).length;
+  }
+
   /**
    * Sélectionner une conversation
    */
   selectConversation(conversation: Conversation): void {
+    this.menuConversationId = null;
+    // Ouvrir une conversation marquée non lue la repasse en lue
+    if (conversation.markedUnread) {
+      this._updatePreferences(conversation, { markedUnread: false });
+    }
     this.conversationSelected.emit(conversation);
   }
 
+  // ============= RANGEMENT =============
+
+  isPinned(conversation: Conversation): boolean {
+    return this.messagingService.isConversationPinned(conversation);
+  }
+
+  isArchived(conversation: Conversation): boolean {
+    return this.messagingService.isConversationArchived(conversation);
+  }
+
   /**
-   * Obtenir l'autre participant de la conversation
+   * Non lue : marquée comme telle, ou dernier message reçu pas encore lu
    */
-  getOtherParticipant(conversation: Conversation): any {
-    if (!this.currentUserId) {
-      // Si on n'a pas l'ID de l'utilisateur connecté, prendre le premier participant
-      return conversation.participants[0];
+  isUnread(conversation: Conversation): boolean {
+    if (conversation.markedUnread) return true;
+    const lastMessage = conversation.lastMessage;
+    if (!lastMessage || lastMessage.isRead) return false;
+    const sender = lastMessage.senderId as { id?: string };
+    return sender.id !== this.currentUserId;
+  }
+
+  toggleConversationMenu(conversation: Conversation, event: Event): void {
+    event.preventDefault();
+    event.stopPropagation();
+    // Conversation pas encore créée (aucun message envoyé)
+    if (!conversation._id) return;
+    this.menuConversationId =
+      this.menuConversationId === conversation._id ? null : conversation._id;
+  }
+
+  togglePinned(conversation: Conversation): void {
+    this._updatePreferences(conversation, { pinned: !this.isPinned(conversation) });
+  }
+
+  toggleArchived(conversation: Conversation): void {
+    this._updatePreferences(conversation, { archived: !this.isArchived(conversation) });
+  }
+
+  toggleMarkedUnread(conversation: Conversation): void {
+    this._updatePreferences(conversation, { markedUnread: !conversation.markedUnread });
+  }
+
+  moveToFolder(conversation: Conversation, folderId: string | null): void {
+    if ((conversation.folderId ?? null) === folderId) {
+      this.menuConversationId = null;
+      return;
     }
+    this._updatePreferences(conversation, { folderId });
+  }
+
+  getFolderName(folderId: string | null | undefined): string {
+    return this.folders.find((folder) => folder._id === folderId)?.name ?? '';
+  }
+
+  // ============= DOSSIERS =============
+
+  startCreateFolder(): void {
+    this.folderEditor = { mode: 'create', name: '' };
+    this.folderError = null;
+  }
 
-    // Retourner le participant qui n'est pas l'utilisateur connecté
-    return (
-      conversation.participants.find(
-        (participant) => participant.id !== this.currentUserId
-      ) || conversation.participants[0]
+  startRenameFolder(): void {
+    const folder = this.activeFolder;
+    if (!folder) return;
+    this.folderEditor = { mode: 'rename', name: folder.name };
+    this.folderError = null;
+  }
+
+  cancelFolderEdit(): void {
+    this.folderEditor = null;
+    this.folderError = null;
+  }
+
+  saveFolder(): void {
+    const editor = this.folderEditor;
+    if (!editor || this.savingFolder) return;
+
+    const name = editor.name.trim();
+    if (!name) {
+      this.folderError = 'Donnez un nom au dossier';
+      return;
+    }
+    const renamedId = editor.mode === 'rename' ? this.activeFolderId : null;
+    const duplicate = this.folders.some(
+      (folder) =>
+        folder._id !== renamedId && folder.name.toLowerCase() === name.toLowerCase()
     );
+    if (duplicate) {
+      this.folderError = 'Un dossier porte déjà ce nom';
+      return;
+    }
+
+    this.savingFolder = true;
+    this.folderError = null;
+    const request$ = renamedId
+      ? this.messagingService.renameConversationFolder(renamedId, name)
+      : this.messagingService.createConversationFolder(name);
+
+    request$.subscribe({
+      next: (saved) => {
+        this.savingFolder = false;
+        this.folderEditor = null;
+        if (renamedId) {
+          this.folders = this.folders.map((folder) =>
+            folder._id === renamedId ? saved : folder
+          );
+        } else {
+          this.folders = [...this.folders, saved];
+          this.applyFolder(saved._id);
+        }
+      },
+      error: (error) => {
+        this.savingFolder = false;
+        this.folderError = error.message;
+      },
+    });
+  }
+
+  async deleteActiveFolder(): Promise<void> {
+    const folder = this.activeFolder;
+    if (!folder) return;
+
+    const ok = await this.confirmDialog.confirm({
+      title: `Supprimer « ${folder.name} »`,
+      message: 'Les conversations du dossier ne sont pas supprimées : elles restent dans « Toutes ».',
+      confirmText: 'Supprimer',
+      type: 'danger',
+    });
+    if (!ok) return;
+
+    this.messagingService.deleteConversationFolder(folder._id).subscribe({
+      next: () => {
+        this.folders = this.folders.filter((f) => f._id !== folder._id);
+        this.conversations
+          .filter((conv) => conv.folderId === folder._id)
+          .forEach((conv) => (conv.folderId = null));
+        this.applyFilter('all');
+      },
+      error: (error) => this.toast.error('Dossiers', error.message),
+    });
+  }
+
+  trackByFolder(_: number, folder: ConversationFolder): string {
+    return folder._id;
+  }
+
+  /**
+   * Obtenir l'autre participant de la conversation
+   */
+  getOtherParticipant(conversation: Conversation): any {
+    return this.messagingService.getOtherParticipant(conversation, this.currentUserId);
+  }
+
+  isGroup(conversation: Conversation): boolean {
+    return this.messagingService.isGroup(conversation);
+  }
+
+  isMuted(conversation: Conversation): boolean {
+    return this.messagingService.isConversationMuted(conversation);
+  }
+
+  getConversationTitle(conversation: Conversation): string {
+    return this.messagingService.getConversationTitle(conversation, this.currentUserId);
+  }
+
+  /**
+   * Préfixe de l'aperçu dans un groupe : « Vous : » ou « Awa : »
+   */
+  getLastSenderLabel(conversation: Conversation): string {
+    const sender = conversation.lastMessage?.senderId as { id?: string; username: string } | undefined;
+    if (!this.isGroup(conversation) || !sender) return '';
+    if (sender.id === this.currentUserId) return 'Vous : ';
+    return sender.username ? `${sender.username} : ` : '';
+  }
+
+  /**
+   * Retirer une conversation de la liste (groupe quitté…)
+   */
+  removeConversation(conversationId: string): void {
+    this.conversations = this.conversations.filter((conv) => conv._id !== conversationId);
+    this.filterConversations();
   }
 
   isUserOnline(userId: string): boolean {
@@ -247,6 +535,32 @@ export class ConversationsListComponent implements OnInit, OnDestroy {
     });
   }
 
+  onGroupSubmitted(payload: CreateGroupRequest) {
+    this.closeNewConversationModal();
+
+    this.messagingService.createGroup(payload).subscribe({
+      next: (conversation) => {
+        this.conversations.unshift(conversation);
+        this.filterConversations();
+        this.selectConversation(conversation);
+      },
+      error: (error) => {
+        this.error = error.message;
+      },
+    });
+  }
+
+  private openInitialConversation(): void {
+    if (!this.initialConversationId) return;
+    const conversation = this.conversations.find(
+      (conv) => conv._id === this.initialConversationId
+    );
+    this.initialConversationId = null;
+    if (conversation) {
+      this.selectConversation(conversation);
+    }
+  }
+
   private setupWebSocketListeners(): void {
     this.webSocketService.userStatus$
       .pipe(takeUntil(this.destroy$))
@@ -267,6 +581,58 @@ export class ConversationsListComponent implements OnInit, OnDestroy {
           this.isWebSocketConnected = connected;
         },
       });
+
+    // Titre, avatar ou membres d'un groupe modifiés par un autre membre
+    this.webSocketService.conversationUpdated$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((raw) => {
+        const updated = this.messagingService.normalizeConversation(raw);
+        const existing = this.conversations.find((conv) => conv._id === updated._id);
+        const isStillMember = updated.participants.some(
+          (participant) => participant.id === this.currentUserId
+        );
+
+        if (existing && !isStillMember) {
+          this.removeConversation(updated._id);
+        } else if (existing) {
+          // Mise à jour en place : la fenêtre de chat partage la même instance.
+          // Rangement et sourdine sont propres à l'utilisateur : absents de la diffusion
+          const { pinnedAt, archivedAt, markedUnread, folderId, muted } = existing;
+          Object.assign(existing, {
+            ...updated,
+            lastMessage: existing.lastMessage,
+            pinnedAt,
+            archivedAt,
+            markedUnread,
+            folderId,
+            muted,
+          });
+          this.filterConversations();
+        } else if (isStillMember) {
+          this.conversations.unshift(updated);
+          this.filterConversations();
+        }
+      });
+  }
+
+  private _updatePreferences(
+    conversation: Conversation,
+    changes: ConversationPreferencesRequest
+  ): void {
+    this.menuConversationId = null;
+    this.messagingService
+      .updateConversationPreferences(conversation._id, changes)
+      .subscribe({
+        next: (preferences) => {
+          Object.assign(conversation, preferences);
+          this.filterConversations();
+        },
+        error: (error) => this.toast.error('Conversation', error.message),
+      });
+  }
+
+  private _pinnedTime(conversation: Conversation): number {
+    return conversation.pinnedAt ? new Date(conversation.pinnedAt).getTime() : 0;
   }
 
   /**
@@ -0,0 +1,122 @@
+import {
+  Component,
+  EventEmitter,
+  Input,
+  OnChanges,
+  OnDestroy,
+  Output,
+  SimpleChanges,
+} from '@angular/core';
+import { Subject, Subscription } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { MessageCorrection } from '../../../../core/models/message';
+import { Word } from '../../../../core/models/word';
+import { WordCollection } from '../../../../core/models/word-collection';
+import { DictionaryService } from '../../../../core/services/dictionary.service';
+import { CollectionsService } from '../../../../core/services/collections.service';
+import { TextDiffService } from '../../../../core/services/text-diff.service';
+import { ToastService } from '../../../../core/services/toast.service';
+
+/**
+ * Enregistre les mots d'une correction reçue dans les favoris
+ * ou dans une liste : chaque mot corrigé est cherché dans le dictionnaire
+ */
+@Component({
+  selector: 'app-correction-save-modal',
+  standalone: false,
+  templateUrl: './correction-save-modal.component.html',
+})
+export class CorrectionSaveModalComponent implements OnChanges, OnDestroy {
+  @Input() correction: MessageCorrection | null = null;
+  @Output() close = new EventEmitter<void>();
+
+  terms: string[] = [];
+  selectedTerm: string | null = null;
+  results: Word[] = [];
+  searching = false;
+  // Liste de destination, ou null pour les favoris
+  destinationId: string | null = null;
+  collections: WordCollection[] = [];
+  savedWordIds = new Set<string>();
+
+  private _search?: Subscription;
+  private _destroy$ = new Subject<void>();
+
+  constructor(
+    private _dictionaryService: DictionaryService,
+    private _collectionsService: CollectionsService,
+    private _textDiff: TextDiffService,
+    private _toastService: ToastService
+  ) {
+    this._collectionsService.myCollections$
+      .pipe(takeUntil(this._destroy$))
+      .subscribe((collections) => (this.collections = collections));
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['correction'] && this.correction) {
+      const segments = this._textDiff.diffWords(
+        this.correction.originalText,
+        this.correction.correctedText
+      );
+      this.terms = this._textDiff.changedWords(segments);
+      this.savedWordIds.clear();
+      this.selectTerm(this.terms[0] ?? null);
+    }
+  }
+
+  ngOnDestroy(): void {
+    this._search?.unsubscribe();
+    this._destroy$.next();
+    this._destroy$.complete();
+  }
+
+  selectTerm(term: string | null): void {
+    this.selectedTerm = term;
+    this.results = [];
+    this._search?.unsubscribe();
+    if (!term) return;
+
+    this.searching = true;
+    this._search = this._dictionaryService
+      .searchWords({ query: term, page: 1, limit: 5, skipHistory: true })
+      .subscribe({
+        next: (results) => {
+          this.results = results.words;
+          this.searching = false;
+        },
+        error: () => {
+          this.searching = false;
+        },
+      });
+  }
+
+  onDestinationChange(event: Event): void {
+    this.destinationId = (event.target as HTMLSelectElement).value || null;
+    this.savedWordIds.clear();
+  }
+
+  get destinationName(): string {
+    const collection = this.collections.find((c) => c.id === this.destinationId);
+    return collection ? `« ${collection.name} »` : 'vos favoris';
+  }
+
+  save(word: Word): void {
+    const request = this.destinationId
+      ? this._collectionsService.addWord(this.destinationId, word.id)
+      : this._dictionaryService.addToFavorites(word.id);
+
+    request.subscribe((response) => {
+      if (response.success) {
+        this.savedWordIds.add(word.id);
+        this._toastService.success('Mot enregistré', `« ${word.word} » ajouté à ${this.destinationName}`);
+      } else {
+        this._toastService.error('Erreur', `Impossible d'ajouter « ${word.word} »`);
+      }
+    });
+  }
+
+  getDefinition(word: Word): string {
+    return word.meanings?.[0]?.definitions?.[0]?.definition || '';
+  }
+}
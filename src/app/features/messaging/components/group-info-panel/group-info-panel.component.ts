@@ -0,0 +1,178 @@
+import { Component, EventEmitter, Input, OnInit, Output } from '@angular/core';
+import { FormControl, Validators } from '@angular/forms';
+import { Observable } from 'rxjs';
+import { MessagingService } from '../../../../core/services/messaging.service';
+import { AuthService } from '../../../../core/services/auth.service';
+import { ConfirmDialogService } from '../../../../core/services/confirm-dialog.service';
+import {
+  Conversation,
+  ConversationRole,
+  User,
+} from '../../../../core/models/message';
+
+/**
+ * Panneau latéral d'un groupe : titre, avatar, membres et rôles.
+ * Les modifications sont réservées aux administrateurs.
+ */
+@Component({
+  selector: 'app-group-info-panel',
+  standalone: false,
+  templateUrl: './group-info-panel.component.html',
+})
+export class GroupInfoPanelComponent implements OnInit {
+  @Input() conversation!: Conversation;
+  @Output() close = new EventEmitter<void>();
+  // Émis avec l'identifiant du groupe quitté
+  @Output() left = new EventEmitter<string>();
+
+  currentUserId: string | null = null;
+  titleControl = new FormControl('', [Validators.required, Validators.maxLength(80)]);
+  editingTitle = false;
+  showAddMembers = false;
+  saving = false;
+  error: string | null = null;
+
+  constructor(
+    private messagingService: MessagingService,
+    private authService: AuthService,
+    private confirmDialog: ConfirmDialogService
+  ) {}
+
+  ngOnInit(): void {
+    this.currentUserId = this.authService.getCurrentUserId();
+  }
+
+  get isAdmin(): boolean {
+    return this.messagingService.isGroupAdmin(this.conversation, this.currentUserId);
+  }
+
+  get title(): string {
+    return this.messagingService.getConversationTitle(this.conversation, this.currentUserId);
+  }
+
+  // Administrateurs d'abord, puis ordre alphabétique
+  get sortedMembers(): User[] {
+    return [...this.conversation.participants].sort((a, b) => {
+      const roleOrder = Number(this.isMemberAdmin(b)) - Number(this.isMemberAdmin(a));
+      return roleOrder || a.username.localeCompare(b.username);
+    });
+  }
+
+  get memberIds(): string[] {
+    return this.conversation.participants.map((p) => p.id);
+  }
+
+  isMemberAdmin(user: User): boolean {
+    return this.messagingService.isGroupAdmin(this.conversation, user.id);
+  }
+
+  // ===== TITRE ET AVATAR =====
+
+  startEditTitle(): void {
+    this.titleControl.setValue(this.conversation.title || '');
+    this.editingTitle = true;
+  }
+
+  saveTitle(): void {
+    if (this.titleControl.invalid) return;
+    const title = this.titleControl.value!.trim();
+    if (!title || title === this.conversation.title) {
+      this.editingTitle = false;
+      return;
+    }
+
+    this._apply(this.messagingService.updateGroup(this.conversation._id, { title }), () => {
+      this.editingTitle = false;
+    });
+  }
+
+  onAvatarSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      this.error = 'Seules les images sont acceptées';
+      return;
+    }
+    if (file.size > 5 * 1024 * 1024) {
+      this.error = "L'image ne peut pas dépasser 5 Mo";
+      return;
+    }
+
+    this._apply(this.messagingService.uploadGroupAvatar(this.conversation._id, file));
+  }
+
+  // ===== MEMBRES =====
+
+  onMembersSelected(users: User[]): void {
+    this.showAddMembers = false;
+    if (!users.length) return;
+    this._apply(
+      this.messagingService.addGroupMembers(
+        this.conversation._id,
+        users.map((user) => user.id)
+      )
+    );
+  }
+
+  toggleRole(user: User): void {
+    const role: ConversationRole = this.isMemberAdmin(user) ? 'member' : 'admin';
+    this._apply(this.messagingService.setGroupMemberRole(this.conversation._id, user.id, role));
+  }
+
+  async removeMember(user: User): Promise<void> {
+    const ok = await this.confirmDialog.confirm({
+      title: 'Retirer du groupe',
+      message: `Retirer ${user.username} de « ${this.title} » ?`,
+      confirmText: 'Retirer',
+      type: 'danger',
+    });
+    if (!ok) return;
+
+    this._apply(this.messagingService.removeGroupMember(this.conversation._id, user.id));
+  }
+
+  async leaveGroup(): Promise<void> {
+    if (!this.currentUserId) return;
+
+    const ok = await this.confirmDialog.confirm({
+      title: 'Quitter le groupe',
+      message: `Vous ne recevrez plus les messages de « ${this.title} ».`,
+      confirmText: 'Quitter',
+      type: 'danger',
+    });
+    if (!ok) return;
+
+    const conversationId = this.conversation._id;
+    this.saving = true;
+    this.messagingService.removeGroupMember(conversationId, this.currentUserId).subscribe({
+      next: () => {
+        this.saving = false;
+        this.left.emit(conversationId);
+      },
+      error: (error) => {
+        this.error = error.message;
+        this.saving = false;
+      },
+    });
+  }
+
+  // Met à jour la conversation partagée avec la liste et la fenêtre de chat
+  private _apply(request: Observable<Conversation>, onSuccess?: () => void): void {
+    this.saving = true;
+    this.error = null;
+    request.subscribe({
+      next: (updated) => {
+        Object.assign(this.conversation, updated);
+        this.saving = false;
+        onSuccess?.();
+      },
+      error: (error) => {
+        this.error = error.message;
+        this.saving = false;
+      },
+    });
+  }
+}
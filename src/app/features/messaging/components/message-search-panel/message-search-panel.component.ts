@@ -0,0 +1,231 @@
+import {
+  Component,
+  EventEmitter,
+  Input,
+  OnDestroy,
+  OnInit,
+  Output,
+} from '@angular/core';
+import { FormControl, FormGroup } from '@angular/forms';
+import { Subject, Subscription, merge } from 'rxjs';
+import { debounceTime, takeUntil } from 'rxjs/operators';
+import { MessagingService } from '../../../../core/services/messaging.service';
+import { AuthService } from '../../../../core/services/auth.service';
+import {
+  Conversation,
+  Message,
+  MessageSearchParams,
+  MessageSearchResult,
+  User,
+} from '../../../../core/models/message';
+
+interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+// Caractères conservés de part et d'autre de la première occurrence
+const SNIPPET_CONTEXT = 60;
+const PAGE_SIZE = 20;
+
+/**
+ * Recherche dans l'historique de toutes les conversations,
+ * filtrable par participant, période et type de message
+ */
+@Component({
+  selector: 'app-message-search-panel',
+  standalone: false,
+  templateUrl: './message-search-panel.component.html',
+  styleUrls: ['./message-search-panel.component.scss'],
+})
+export class MessageSearchPanelComponent implements OnInit, OnDestroy {
+  // Conversations connues, pour proposer les participants
+  @Input() conversations: Conversation[] = [];
+  @Output() close = new EventEmitter<void>();
+  @Output() resultSelected = new EventEmitter<MessageSearchResult>();
+
+  readonly messageTypes: { value: Message['messageType']; label: string }[] = [
+    { value: 'text', label: 'Texte' },
+    { value: 'word_share', label: 'Mots partagés' },
+    { value: 'correction', label: 'Corrections' },
+    { value: 'image', label: 'Images' },
+    { value: 'audio', label: 'Messages vocaux' },
+  ];
+
+  queryControl = new FormControl('');
+  filtersForm = new FormGroup({
+    participantId: new FormControl(''),
+    from: new FormControl(''),
+    to: new FormControl(''),
+    messageType: new FormControl<Message['messageType'] | ''>(''),
+  });
+  showFilters = false;
+
+  results: MessageSearchResult[] = [];
+  total = 0;
+  page = 1;
+  pages = 0;
+  loading = false;
+  error: string | null = null;
+  searched = false;
+  selectedMessageId: string | null = null;
+  currentUserId: string | null = null;
+
+  private _request?: Subscription;
+  private _destroy$ = new Subject<void>();
+
+  constructor(
+    private messagingService: MessagingService,
+    private authService: AuthService
+  ) {}
+
+  ngOnInit(): void {
+    this.currentUserId = this.authService.getCurrentUserId();
+
+    merge(this.queryControl.valueChanges, this.filtersForm.valueChanges)
+      .pipe(debounceTime(350), takeUntil(this._destroy$))
+      .subscribe(() => this.search());
+  }
+
+  ngOnDestroy(): void {
+    this._request?.unsubscribe();
+    this._destroy$.next();
+    this._destroy$.complete();
+  }
+
+  // Contacts de toutes les conversations, sans doublons
+  get participants(): User[] {
+    const byId = new Map<string, User>();
+    this.conversations
+      .flatMap((conv) => conv.participants)
+      .filter((user) => user.id !== this.currentUserId)
+      .forEach((user) => byId.set(user.id, user));
+    return [...byId.values()].sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  get activeFiltersCount(): number {
+    return Object.values(this.filtersForm.value).filter(Boolean).length;
+  }
+
+  // Un filtre suffit (ex. tous les messages vocaux), sinon 2 caractères minimum
+  get canSearch(): boolean {
+    return (this.queryControl.value?.trim().length ?? 0) >= 2 || this.activeFiltersCount > 0;
+  }
+
+  search(page = 1): void {
+    this._request?.unsubscribe();
+    if (!this.canSearch) {
+      this.results = [];
+      this.total = 0;
+      this.searched = false;
+      this.loading = false;
+      return;
+    }
+
+    const filters = this.filtersForm.value;
+    const params: MessageSearchParams = {
+      query: this.queryControl.value?.trim() ?? '',
+      participantId: filters.participantId || undefined,
+      from: filters.from || undefined,
+      to: filters.to || undefined,
+      messageType: filters.messageType || undefined,
+      page,
+      limit: PAGE_SIZE,
+    };
+
+    this.loading = true;
+    this.error = null;
+    this._request = this.messagingService.searchMessages(params).subscribe({
+      next: (response) => {
+        this.results = page === 1 ? response.results : [...this.results, ...response.results];
+        this.total = response.total;
+        this.page = response.page;
+        this.pages = response.pages;
+        this.loading = false;
+        this.searched = true;
+      },
+      error: (error) => {
+        this.error = error.message;
+        this.loading = false;
+      },
+    });
+  }
+
+  loadMore(): void {
+    if (this.loading || this.page >= this.pages) return;
+    this.search(this.page + 1);
+  }
+
+  resetFilters(): void {
+    this.filtersForm.reset({ participantId: '', from: '', to: '', messageType: '' });
+  }
+
+  selectResult(result: MessageSearchResult): void {
+    this.selectedMessageId = result.message._id;
+    this.resultSelected.emit(result);
+  }
+
+  getConversationTitle(conversation: Conversation): string {
+    return this.messagingService.getConversationTitle(conversation, this.currentUserId);
+  }
+
+  getSenderLabel(message: Message): string {
+    return message.senderId?.id === this.currentUserId ? 'Vous' : message.senderId?.username || '';
+  }
+
+  getTypeLabel(message: Message): string | null {
+    if (message.messageType === 'image') return '📷 Image';
+    if (message.messageType === 'audio') return '🎤 Message vocal';
+    return null;
+  }
+
+  /**
+   * Extrait autour de la première occurrence, découpé pour surligner
+   * chaque occurrence sans passer par innerHTML
+   */
+  getSnippetParts(content: string): SnippetPart[] {
+    const text = (content || '').normalize('NFC');
+    const query = (this.queryControl.value?.trim() ?? '').normalize('NFC').toLowerCase();
+    if (!query) return [{ text: this._truncate(text), match: false }];
+
+    const lower = text.toLowerCase();
+    const first = lower.indexOf(query);
+    const start = first > SNIPPET_CONTEXT ? first - SNIPPET_CONTEXT : 0;
+    const end = Math.min(text.length, (first < 0 ? 0 : first) + query.length + SNIPPET_CONTEXT * 2);
+
+    const parts: SnippetPart[] = [];
+    if (start > 0) parts.push({ text: '…', match: false });
+
+    let cursor = start;
+    let index = lower.indexOf(query, cursor);
+    while (index >= 0 && index < end) {
+      if (index > cursor) parts.push({ text: text.slice(cursor, index), match: false });
+      parts.push({ text: text.slice(index, index + query.length), match: true });
+      cursor = index + query.length;
+      index = lower.indexOf(query, cursor);
+    }
+    if (cursor < end) parts.push({ text: text.slice(cursor, end), match: false });
+    if (end < text.length) parts.push({ text: '…', match: false });
+
+    return parts;
+  }
+
+  formatDate(date: Date): string {
+    const value = new Date(date);
+    const sameYear = value.getFullYear() === new Date().getFullYear();
+    return value.toLocaleDateString('fr-FR', {
+      day: 'numeric',
+      month: 'short',
+      ...(sameYear ? {} : { year: 'numeric' }),
+    });
+  }
+
+  trackByMessage(index: number, result: MessageSearchResult): string {
+    return result.message._id;
+  }
+
+  private _truncate(text: string): string {
+    const slice = text.slice(0, SNIPPET_CONTEXT * 2);
+    return slice.length < text.length ? `${slice}…` : slice;
+  }
+}
@@ -1,12 +1,15 @@
-import { Component, OnInit, OnDestroy } from '@angular/core';
+import { Component, OnInit, OnDestroy, ViewChild } from '@angular/core';
+import { ActivatedRoute } from '@angular/router';
 import { MessagingService } from '../../../../core/services/messaging.service';
 import {
   WebSocketService,
   UserStatus,
 } from '../../../../core/services/websocket.service';
 import { AuthService } from '../../../../core/services/auth.service';
-import { Conversation } from '../../../../core/models/message';
+import { Conversation, MessageSearchResult } from '../../../../core/models/message';
 import { Subscription, interval } from 'rxjs';
+import { ConversationsListComponent } from '../conversations-list/conversations-list.component';
+import { ChatWindowComponent } from '../chat-window/chat-window.component';
 
 @Component({
   selector: 'app-messaging',
@@ -15,7 +18,15 @@ import { Subscription, interval } from 'rxjs';
   styleUrls: ['./messaging.component.scss'],
 })
 export class MessagingComponent implements OnInit, OnDestroy {
+  @ViewChild(ConversationsListComponent) conversationsList?: ConversationsListComponent;
+  @ViewChild(ChatWindowComponent) chatWindow?: ChatWindowComponent;
+
   selectedConversation: Conversation | null = null;
+  // Conversation demandée par lien (salon de communauté…)
+  initialConversationId: string | null = null;
+  showMessageSearch = false;
+  // Message à afficher dans son contexte à l'ouverture de la conversation
+  focusMessageId: string | null = null;
   unreadCount = 0;
   isWebSocketConnected = false;
   webSocketError: string | null = null;
@@ -27,11 +38,13 @@ export class MessagingComponent implements OnInit, OnDestroy {
   constructor(
     private messagingService: MessagingService,
     private webSocketService: WebSocketService,
-    private authService: AuthService
+    private authService: AuthService,
+    private route: ActivatedRoute
   ) {}
 
   ngOnInit(): void {
     this.currentUserId = this.authService.getCurrentUserId();
+    this.initialConversationId = this.route.snapshot.queryParamMap.get('conversation');
     this.loadUnreadCount();
     this.setupWebSocketListeners();
 
@@ -77,6 +90,13 @@ export class MessagingComponent implements OnInit, OnDestroy {
       },
     });
 
+    // Conversation archivée, désarchivée ou mise en sourdine : le compteur les exclut
+    const stateChangedSub = this.messagingService.conversationStateChanged$.subscribe({
+      next: () => {
+        this.loadUnreadCount();
+      },
+    });
+
     // Écouter les erreurs WebSocket
     const errorSub = this.webSocketService.error$.subscribe({
       next: (error) => {
@@ -87,6 +107,7 @@ export class MessagingComponent implements OnInit, OnDestroy {
     this.subscriptions.add(connectionSub);
     this.subscriptions.add(userStatusSub);
     this.subscriptions.add(newMessageSub);
+    this.subscriptions.add(stateChangedSub);
     this.subscriptions.add(errorSub);
   }
 
@@ -94,6 +115,7 @@ export class MessagingComponent implements OnInit, OnDestroy {
    * Gérer la sélection d'une conversation
    */
   onConversationSelected(conversation: Conversation): void {
+    this.focusMessageId = null;
     this.selectedConversation = conversation;
 
     // Marquer les messages comme lus et actualiser le compteur
@@ -102,6 +124,23 @@ export class MessagingComponent implements OnInit, OnDestroy {
     }, 1000);
   }
 
+  /**
+   * Ouvrir un résultat de recherche : la conversation est chargée
+   * autour du message trouvé
+   */
+  onSearchResultSelected(result: MessageSearchResult): void {
+    const conversationId = result.conversation._id;
+    if (this.selectedConversation?._id === conversationId && this.chatWindow) {
+      this.chatWindow.scrollToMessage(result.message._id);
+      return;
+    }
+
+    // Réutiliser l'instance de la liste, tenue à jour par les WebSockets
+    const known = this.conversationsList?.conversations.find((conv) => conv._id === conversationId);
+    this.focusMessageId = result.message._id;
+    this.selectedConversation = known || result.conversation;
+  }
+
   /**
    * Vérifier si un utilisateur est en ligne
    */
@@ -109,15 +148,27 @@ export class MessagingComponent implements OnInit, OnDestroy {
     return this.onlineUsers.has(userId);
   }
 
+  /**
+   * Le groupe a été quitté depuis la fenêtre de chat
+   */
+  onConversationLeft(conversationId: string): void {
+    this.selectedConversation = null;
+    this.conversationsList?.removeConversation(conversationId);
+  }
+
   /**
    * Obtenir l'autre participant d'une conversation
    */
   getOtherParticipant(conversation: Conversation): any {
-    if (!conversation || !this.currentUserId) return conversation?.participants[0];
-    return (
-      conversation.participants.find((p) => p.id !== this.currentUserId) ||
-      conversation.participants[0]
-    );
+    return this.messagingService.getOtherParticipant(conversation, this.currentUserId);
+  }
+
+  isGroup(conversation: Conversation): boolean {
+    return this.messagingService.isGroup(conversation);
+  }
+
+  getConversationTitle(conversation: Conversation): string {
+    return this.messagingService.getConversationTitle(conversation, this.currentUserId);
   }
 
   /**
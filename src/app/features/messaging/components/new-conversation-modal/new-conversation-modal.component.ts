@@ -1,8 +1,10 @@
 import { Component, EventEmitter, Input, OnInit, Output } from '@angular/core';
-import { FormControl } from '@angular/forms';
+import { FormControl, Validators } from '@angular/forms';
 import { debounceTime, distinctUntilChanged, switchMap } from 'rxjs/operators';
 import { Observable, of } from 'rxjs';
 import { User } from '../../../../core/models/user';
+import { CreateGroupRequest } from '../../../../core/models/message';
+import { UserBlockService } from '../../../../core/services/user-block.service';
 import { UsersService } from '../../../users/services/users.service';
 
 @Component({
@@ -13,17 +15,37 @@ import { UsersService } from '../../../users/services/users.service';
 })
 export class NewConversationModalComponent implements OnInit {
   @Input() isOpen = false;
+  // 'members' : sélection de membres à ajouter à un groupe existant
+  @Input() purpose: 'conversation' | 'members' = 'conversation';
+  @Input() excludedUserIds: string[] = [];
   @Output() close = new EventEmitter<void>();
   @Output() userSelected = new EventEmitter<User>();
+  @Output() groupSubmitted = new EventEmitter<CreateGroupRequest>();
+  @Output() membersSelected = new EventEmitter<User[]>();
 
   searchControl = new FormControl('');
   searchResults: User[] = [];
   loading = false;
   error: string | null = null;
 
-  constructor(private _usersService: UsersService) {}
+  // Création de groupe
+  mode: 'direct' | 'group' = 'direct';
+  titleControl = new FormControl('', [
+    Validators.required,
+    Validators.maxLength(80),
+  ]);
+  selectedMembers: User[] = [];
+
+  constructor(
+    private _usersService: UsersService,
+    private _userBlockService: UserBlockService
+  ) {}
 
   ngOnInit() {
+    if (this.purpose === 'members') {
+      this.mode = 'group';
+    }
+
     this.searchControl.valueChanges
       .pipe(
         debounceTime(300),
@@ -39,7 +61,12 @@ export class NewConversationModalComponent implements OnInit {
       )
       .subscribe({
         next: (users) => {
-          this.searchResults = users;
+          // Les utilisateurs bloqués n'apparaissent pas dans les résultats
+          this.searchResults = users.filter(
+            (user) =>
+              !this.excludedUserIds.includes(user.id) &&
+              !this._userBlockService.isBlocked(user.id)
+          );
           this.loading = false;
         },
         error: () => {
@@ -49,15 +76,56 @@ export class NewConversationModalComponent implements OnInit {
       });
   }
 
+  get title(): string {
+    if (this.purpose === 'members') return 'Ajouter des membres';
+    return this.mode === 'group' ? 'Nouveau groupe' : 'Nouvelle conversation';
+  }
+
+  get canSubmitGroup(): boolean {
+    if (this.purpose === 'members') return this.selectedMembers.length > 0;
+    return this.titleControl.valid && this.selectedMembers.length > 0;
+  }
+
+  setMode(mode: 'direct' | 'group') {
+    this.mode = mode;
+  }
+
   onClose() {
     this.close.emit();
     this.searchControl.setValue('');
     this.searchResults = [];
     this.error = null;
+    this.selectedMembers = [];
+    this.titleControl.reset('');
   }
 
   selectUser(user: User) {
-    this.userSelected.emit(user);
+    if (this.mode === 'direct') {
+      this.userSelected.emit(user);
+      return;
+    }
+
+    this.selectedMembers = this.isSelected(user)
+      ? this.selectedMembers.filter((member) => member.id !== user.id)
+      : [...this.selectedMembers, user];
+  }
+
+  isSelected(user: User): boolean {
+    return this.selectedMembers.some((member) => member.id === user.id);
+  }
+
+  submitGroup() {
+    if (!this.canSubmitGroup) return;
+
+    if (this.purpose === 'members') {
+      this.membersSelected.emit(this.selectedMembers);
+      return;
+    }
+
+    this.groupSubmitted.emit({
+      title: this.titleControl.value!.trim(),
+      participantIds: this.selectedMembers.map((member) => member.id),
+    });
   }
 
   onBackdropClick(event: Event) {
@@ -2,12 +2,17 @@ import { NgModule } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ReactiveFormsModule } from '@angular/forms';
 import { HttpClientModule } from '@angular/common/http';
+import { SharedModule } from '../../shared/shared.module';
 
 import { MessagingRoutingModule } from './messaging-routing.module';
 import { MessagingComponent } from './components/messaging/messaging.component';
 import { ConversationsListComponent } from './components/conversations-list/conversations-list.component';
 import { ChatWindowComponent } from './components/chat-window/chat-window.component';
 import { NewConversationModalComponent } from './components/new-conversation-modal/new-conversation-modal.component';
+import { GroupInfoPanelComponent } from './components/group-info-panel/group-info-panel.component';
+import { CorrectionSaveModalComponent } from './components/correction-save-modal/correction-save-modal.component';
+import { MessageSearchPanelComponent } from './components/message-search-panel/message-search-panel.component';
+import { ChatWordCardComponent } from './components/chat-word-card/chat-word-card.component';
 
 @NgModule({
   declarations: [
@@ -15,12 +20,17 @@ import { NewConversationModalComponent } from './components/new-conversation-mod
     ConversationsListComponent,
     ChatWindowComponent,
     NewConversationModalComponent,
+    GroupInfoPanelComponent,
+    CorrectionSaveModalComponent,
+    MessageSearchPanelComponent,
+    ChatWordCardComponent,
   ],
   imports: [
     CommonModule,
     ReactiveFormsModule,
     HttpClientModule,
     MessagingRoutingModule,
+    SharedModule,
   ],
 })
 export class MessagingModule {}
@@ -88,6 +88,17 @@ export class NotificationsPageComponent implements OnInit {
       this.router.navigate(['/messaging']);
     } else if (notif.entityType === 'contributor_request') {
       this.router.navigate(['/profile']);
+    } else if (
+      notif.entityType === 'community_post' &&
+      notif.entityId &&
+      notif.metadata?.['communityId']
+    ) {
+      this.router.navigate([
+        '/communities',
+        notif.metadata['communityId'],
+        'posts',
+        notif.entityId,
+      ]);
     }
   }
 
@@ -111,6 +122,9 @@ export class NotificationsPageComponent implements OnInit {
       new_message: '✉️',
       contributor_approved: '🎉',
       contributor_rejected: '❌',
+      question_language_match: '🙋',
+      bounty_awarded: '🏆',
+      bounty_expired: '⌛',
     };
     return icons[type] || '🔔';
   }
@@ -0,0 +1,63 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { BlockedUser } from '../../../../../core/models/user';
+import { UserBlockService } from '../../../../../core/services/user-block.service';
+import { ToastService } from '../../../../../core/services/toast.service';
+
+@Component({
+  selector: 'app-blocked-users-section',
+  standalone: false,
+  templateUrl: './blocked-users-section.component.html',
+})
+export class BlockedUsersSectionComponent implements OnInit, OnDestroy {
+  blockedUsers: BlockedUser[] = [];
+  unblockingId: string | null = null;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private userBlockService: UserBlockService,
+    private toastService: ToastService,
+  ) {}
+
+  ngOnInit(): void {
+    this.userBlockService.blockedUsers$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((users) => (this.blockedUsers = users));
+    this.userBlockService.refresh();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  unblock(user: BlockedUser): void {
+    this.unblockingId = user.id;
+    this.userBlockService.unblock(user.id).subscribe({
+      next: () => {
+        this.unblockingId = null;
+        this.toastService.success('Utilisateur débloqué', `${user.username} a été débloqué`);
+      },
+      error: (error) => {
+        this.unblockingId = null;
+        this.toastService.error('Erreur', error.message);
+      },
+    });
+  }
+
+  formatBlockedAt(date: string): string {
+    return date
+      ? new Date(date).toLocaleDateString('fr-FR', {
+          day: 'numeric',
+          month: 'long',
+          year: 'numeric',
+        })
+      : '';
+  }
+
+  trackByUser(_: number, user: BlockedUser): string {
+    return user.id;
+  }
+}
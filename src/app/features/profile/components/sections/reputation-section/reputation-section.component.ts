@@ -0,0 +1,140 @@
+import { Component, Input, OnChanges, SimpleChanges } from '@angular/core';
+import {
+  PRIVILEGES,
+  Privilege,
+  REPUTATION_RULES,
+  ReputationEntry,
+  ReputationEventType,
+  ReputationRule,
+  ReputationSummary,
+} from '../../../../../core/models/reputation';
+import { ReputationService } from '../../../../../core/services/reputation.service';
+
+const HISTORY_PAGE_SIZE = 10;
+
+@Component({
+  selector: 'app-reputation-section',
+  standalone: false,
+  templateUrl: './reputation-section.component.html',
+})
+export class ReputationSectionComponent implements OnChanges {
+  @Input() userId: string | null = null;
+  @Input() isOwnProfile = false;
+
+  readonly privileges = PRIVILEGES;
+
+  summary: ReputationSummary | null = null;
+  breakdown: { rule: ReputationRule; points: number }[] = [];
+  history: ReputationEntry[] = [];
+  historyPage = 1;
+  historyTotalPages = 1;
+  loadingHistory = false;
+  showHistory = false;
+
+  constructor(private reputationService: ReputationService) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['userId'] && this.userId) {
+      this.summary = null;
+      this.breakdown = [];
+      this.history = [];
+      this.showHistory = false;
+      this.loadSummary();
+    }
+  }
+
+  get reputation(): number {
+    return this.summary?.reputation ?? 0;
+  }
+
+  get nextPrivilege(): Privilege | null {
+    return this.reputationService.getNextPrivilege(this.reputation);
+  }
+
+  /**
+   * Progression depuis le palier précédent jusqu'au prochain privilège
+   */
+  get progressPercent(): number {
+    const next = this.nextPrivilege;
+    if (!next) return 100;
+    const previous = [...PRIVILEGES]
+      .reverse()
+      .find((p) => p.threshold <= this.reputation);
+    const floor = previous?.threshold ?? 0;
+    const ratio = (this.reputation - floor) / (next.threshold - floor);
+    return Math.max(0, Math.min(100, Math.round(ratio * 100)));
+  }
+
+  get hasMoreHistory(): boolean {
+    return this.historyPage < this.historyTotalPages;
+  }
+
+  loadSummary(): void {
+    if (!this.userId) return;
+    this.reputationService.getReputation(this.userId).subscribe({
+      next: (summary) => {
+        this.summary = summary;
+        this.breakdown = REPUTATION_RULES.filter(
+          (rule) => !!summary.breakdown[rule.type],
+        ).map((rule) => ({ rule, points: summary.breakdown[rule.type] ?? 0 }));
+      },
+      error: (error) =>
+        console.error('Erreur lors du chargement de la réputation:', error),
+    });
+  }
+
+  toggleHistory(): void {
+    this.showHistory = !this.showHistory;
+    if (this.showHistory && this.history.length === 0) {
+      this.loadHistory(1);
+    }
+  }
+
+  loadHistory(page: number): void {
+    if (!this.userId || this.loadingHistory) return;
+    this.loadingHistory = true;
+    this.reputationService
+      .getHistory(this.userId, page, HISTORY_PAGE_SIZE)
+      .subscribe({
+        next: (result) => {
+          this.history =
+            page === 1 ? result.entries : [...this.history, ...result.entries];
+          this.historyPage = result.page;
+          this.historyTotalPages = result.totalPages;
+          this.loadingHistory = false;
+        },
+        error: (error) => {
+          console.error("Erreur lors du chargement de l'historique:", error);
+          this.loadingHistory = false;
+        },
+      });
+  }
+
+  loadMoreHistory(): void {
+    this.loadHistory(this.historyPage + 1);
+  }
+
+  isUnlocked(privilege: Privilege): boolean {
+    return this.reputation >= privilege.threshold;
+  }
+
+  getEventLabel(type: ReputationEventType): string {
+    return REPUTATION_RULES.find((rule) => rule.type === type)?.label ?? type;
+  }
+
+  formatPoints(points: number): string {
+    return points > 0 ? `+${points}` : `${points}`;
+  }
+
+  formatDate(date: string): string {
+    return new Date(date).toLocaleDateString('fr-FR', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    });
+  }
+
+  trackByEntry(_: number, entry: ReputationEntry): string {
+    return entry._id;
+  }
+}
@@ -11,6 +11,8 @@ import { ContributorSectionComponent } from './components/sections/contributor-s
 import { AdminSectionComponent } from './components/sections/admin-section/admin-section.component';
 import { ProfileLanguagesSectionComponent } from './components/sections/profile-languages-section/profile-languages-section.component';
 import { ProfileCategoriesSectionComponent } from './components/sections/profile-categories-section/profile-categories-section.component';
+import { BlockedUsersSectionComponent } from './components/sections/blocked-users-section/blocked-users-section.component';
+import { ReputationSectionComponent } from './components/sections/reputation-section/reputation-section.component';
 import { SharedModule } from '../../shared/shared.module';
 
 @NgModule({
@@ -22,6 +24,8 @@ import { SharedModule } from '../../shared/shared.module';
     AdminSectionComponent,
     ProfileLanguagesSectionComponent,
     ProfileCategoriesSectionComponent,
+    BlockedUsersSectionComponent,
+    ReputationSectionComponent,
   ],
   imports: [
     CommonModule,
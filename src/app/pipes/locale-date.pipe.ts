@@ -0,0 +1,22 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { LocaleService } from '../core/services/locale.service';
+
+/**
+ * Équivalent du pipe `date` qui suit la langue de l'interface
+ */
+@Pipe({
+  name: 'localeDate',
+  standalone: false,
+  pure: false,
+})
+export class LocaleDatePipe implements PipeTransform {
+  constructor(private localeService: LocaleService) {}
+
+  transform(
+    value: string | number | Date | null | undefined,
+    format = 'mediumDate',
+  ): string {
+    if (value === null || value === undefined || value === '') return '';
+    return this.localeService.formatDate(value, format);
+  }
+}
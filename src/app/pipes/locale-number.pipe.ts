@@ -0,0 +1,19 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { LocaleService } from '../core/services/locale.service';
+
+/**
+ * Équivalent du pipe `number` qui suit la langue de l'interface
+ */
+@Pipe({
+  name: 'localeNumber',
+  standalone: false,
+  pure: false,
+})
+export class LocaleNumberPipe implements PipeTransform {
+  constructor(private localeService: LocaleService) {}
+
+  transform(value: number | null | undefined, digitsInfo?: string): string {
+    if (value === null || value === undefined) return '';
+    return this.localeService.formatNumber(value, digitsInfo);
+  }
+}
@@ -0,0 +1,23 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import {
+  LocaleService,
+  TranslationParams,
+} from '../core/services/locale.service';
+
+/**
+ * Traduit une clé de catalogue : {{ 'header.dictionary' | translate }}
+ * Impur pour suivre les changements de langue à l'exécution.
+ */
+@Pipe({
+  name: 'translate',
+  standalone: false,
+  pure: false,
+})
+export class TranslatePipe implements PipeTransform {
+  constructor(private localeService: LocaleService) {}
+
+  transform(key: string, params?: TranslationParams): string {
+    if (!key) return '';
+    return this.localeService.translate(key, params);
+  }
+}
@@ -0,0 +1,102 @@
+import {
+  Component,
+  ElementRef,
+  EventEmitter,
+  HostListener,
+  Input,
+  OnDestroy,
+  OnInit,
+  Output,
+} from '@angular/core';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { Word } from '../../../core/models/word';
+import { WordCollection } from '../../../core/models/word-collection';
+import { CollectionsService } from '../../../core/services/collections.service';
+import { ToastService } from '../../../core/services/toast.service';
+
+/**
+ * Menu « Ajouter à une liste » : coche/décoche le mot dans les listes
+ * de l'utilisateur et permet d'en créer une nouvelle à la volée
+ */
+@Component({
+  selector: 'app-add-to-collection',
+  standalone: false,
+  templateUrl: './add-to-collection.component.html',
+  styleUrls: ['./add-to-collection.component.scss'],
+})
+export class AddToCollectionComponent implements OnInit, OnDestroy {
+  @Input() word!: Word;
+  @Output() closed = new EventEmitter<void>();
+
+  collections: WordCollection[] = [];
+  newCollectionName = '';
+  isCreating = false;
+
+  private _destroy$ = new Subject<void>();
+
+  constructor(
+    private _collectionsService: CollectionsService,
+    private _toastService: ToastService,
+    private _elementRef: ElementRef<HTMLElement>
+  ) {}
+
+  ngOnInit(): void {
+    this._collectionsService.myCollections$
+      .pipe(takeUntil(this._destroy$))
+      .subscribe((collections) => (this.collections = collections));
+  }
+
+  ngOnDestroy(): void {
+    this._destroy$.next();
+    this._destroy$.complete();
+  }
+
+  isInCollection(collection: WordCollection): boolean {
+    return this._collectionsService.isWordInCollection(collection, this.word.id);
+  }
+
+  toggle(collection: WordCollection): void {
+    const request = this.isInCollection(collection)
+      ? this._collectionsService.removeWord(collection.id, this.word.id)
+      : this._collectionsService.addWord(collection.id, this.word.id);
+
+    request.subscribe((response) => {
+      if (!response.success) {
+        this._toastService.error('Erreur', `Impossible de modifier la liste « ${collection.name} »`);
+      }
+    });
+  }
+
+  createAndAdd(): void {
+    const name = this.newCollectionName.trim();
+    if (!name || this.isCreating) return;
+
+    this.isCreating = true;
+    this._collectionsService
+      .create({ name, visibility: 'private', targetLanguage: this.word.language })
+      .subscribe({
+        next: (collection) => {
+          this.newCollectionName = '';
+          this.isCreating = false;
+          this.toggle(collection);
+        },
+        error: () => {
+          this.isCreating = false;
+          this._toastService.error('Erreur', 'Impossible de créer la liste');
+        },
+      });
+  }
+
+  @HostListener('document:click', ['$event'])
+  onDocumentClick(event: MouseEvent): void {
+    if (!this._elementRef.nativeElement.contains(event.target as Node)) {
+      this.closed.emit();
+    }
+  }
+
+  @HostListener('document:keydown.escape')
+  onEscape(): void {
+    this.closed.emit();
+  }
+}
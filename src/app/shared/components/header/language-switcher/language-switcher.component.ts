@@ -0,0 +1,44 @@
+import { Component, HostListener } from '@angular/core';
+import { LocaleService } from '../../../../core/services/locale.service';
+import { AppLocale, LocaleOption } from '../../../../core/i18n';
+
+@Component({
+  selector: 'app-language-switcher',
+  templateUrl: './language-switcher.component.html',
+  styleUrls: ['./language-switcher.component.scss'],
+  standalone: false,
+})
+export class LanguageSwitcherComponent {
+  isOpen = false;
+
+  constructor(protected localeService: LocaleService) {}
+
+  get locales(): LocaleOption[] {
+    return this.localeService.supportedLocales;
+  }
+
+  get currentLocale(): AppLocale {
+    return this.localeService.currentLocale();
+  }
+
+  get currentOption(): LocaleOption | undefined {
+    return this.locales.find((l) => l.code === this.currentLocale);
+  }
+
+  toggleDropdown(): void {
+    this.isOpen = !this.isOpen;
+  }
+
+  selectLocale(locale: AppLocale): void {
+    this.localeService.setLocale(locale);
+    this.isOpen = false;
+  }
+
+  @HostListener('document:click', ['$event'])
+  onDocumentClick(event: MouseEvent): void {
+    const target = event.target as HTMLElement;
+    if (!target.closest('.language-switcher-wrapper')) {
+      this.isOpen = false;
+    }
+  }
+}
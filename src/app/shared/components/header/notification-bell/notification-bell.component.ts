@@ -127,6 +127,17 @@ export class NotificationBellComponent implements OnInit, OnDestroy {
       this.router.navigate(['/messaging']);
     } else if (notif.entityType === 'contributor_request') {
       this.router.navigate(['/profile']);
+    } else if (
+      notif.entityType === 'community_post' &&
+      notif.entityId &&
+      notif.metadata?.['communityId']
+    ) {
+      this.router.navigate([
+        '/communities',
+        notif.metadata['communityId'],
+        'posts',
+        notif.entityId,
+      ]);
     } else {
       this.router.navigate(['/notifications']);
     }
@@ -161,6 +172,9 @@ export class NotificationBellComponent implements OnInit, OnDestroy {
       new_message: '✉️',
       contributor_approved: '🎉',
       contributor_rejected: '❌',
+      question_language_match: '🙋',
+      bounty_awarded: '🏆',
+      bounty_expired: '⌛',
     };
     return icons[type] || '🔔';
   }
@@ -0,0 +1,97 @@
+import {
+  Component,
+  OnInit,
+  OnDestroy,
+  HostListener,
+  ChangeDetectionStrategy,
+  ChangeDetectorRef,
+} from '@angular/core';
+import { Subscription } from 'rxjs';
+import {
+  WordOutboxService,
+  OutboxEntry,
+} from '../../../../core/services/word-outbox.service';
+import { LocaleService } from '../../../../core/services/locale.service';
+
+@Component({
+  selector: 'app-outbox-indicator',
+  templateUrl: './outbox-indicator.component.html',
+  styleUrls: ['./outbox-indicator.component.scss'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: false,
+})
+export class OutboxIndicatorComponent implements OnInit, OnDestroy {
+  isOpen = false;
+  entries: OutboxEntry[] = [];
+  isOnline = navigator.onLine;
+
+  private subs = new Subscription();
+
+  constructor(
+    private outboxService: WordOutboxService,
+    private localeService: LocaleService,
+    private cdr: ChangeDetectorRef,
+  ) {}
+
+  ngOnInit(): void {
+    this.subs.add(
+      this.outboxService.entries$.subscribe((entries) => {
+        this.entries = entries;
+        if (!entries.length) {
+          this.isOpen = false;
+        }
+        this.cdr.markForCheck();
+      }),
+    );
+  }
+
+  get hasFailures(): boolean {
+    return this.entries.some((e) => e.status === 'failed');
+  }
+
+  toggleDropdown(): void {
+    this.isOpen = !this.isOpen;
+  }
+
+  retry(entry: OutboxEntry): void {
+    this.outboxService.retry(entry.id);
+  }
+
+  remove(entry: OutboxEntry): void {
+    this.outboxService.remove(entry.id);
+  }
+
+  syncNow(): void {
+    this.outboxService.replay();
+  }
+
+  getStatusLabel(entry: OutboxEntry): string {
+    switch (entry.status) {
+      case 'syncing':
+        return this.localeService.translate('outbox.syncing');
+      case 'failed':
+        return entry.error || this.localeService.translate('outbox.failed');
+      default:
+        return this.localeService.translate('outbox.pending');
+    }
+  }
+
+  @HostListener('window:online')
+  @HostListener('window:offline')
+  onConnectivityChange(): void {
+    this.isOnline = navigator.onLine;
+    this.cdr.markForCheck();
+  }
+
+  @HostListener('document:click', ['$event'])
+  onDocumentClick(event: MouseEvent): void {
+    const target = event.target as HTMLElement;
+    if (!target.closest('.outbox-indicator-wrapper')) {
+      this.isOpen = false;
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.subs.unsubscribe();
+  }
+}
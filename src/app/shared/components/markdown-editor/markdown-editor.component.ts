@@ -0,0 +1,295 @@
+import {
+  Component,
+  ElementRef,
+  Input,
+  OnDestroy,
+  OnInit,
+  ViewChild,
+  forwardRef,
+} from '@angular/core';
+import { ControlValueAccessor, NG_VALUE_ACCESSOR } from '@angular/forms';
+import { Subject, of } from 'rxjs';
+import {
+  catchError,
+  debounceTime,
+  distinctUntilChanged,
+  map,
+  switchMap,
+  takeUntil,
+} from 'rxjs/operators';
+import { OpenWordMention } from '../../../core/models/rich-text';
+import { Word } from '../../../core/models/word';
+import { DictionaryService } from '../../../core/services/dictionary.service';
+import { RichTextService } from '../../../core/services/rich-text.service';
+
+const MENTION_SEARCH_DELAY = 250;
+const MENTION_RESULTS_LIMIT = 6;
+
+type MarkdownFormat = 'bold' | 'italic' | 'link' | 'word' | 'ipa' | 'gloss' | 'audio';
+
+/**
+ * Éditeur Markdown des publications et commentaires de communauté :
+ * barre d'outils, aperçu en direct et autocomplétion des mentions [[mot]]
+ */
+@Component({
+  selector: 'app-markdown-editor',
+  standalone: false,
+  templateUrl: './markdown-editor.component.html',
+  providers: [
+    {
+      provide: NG_VALUE_ACCESSOR,
+      useExisting: forwardRef(() => MarkdownEditorComponent),
+      multi: true,
+    },
+  ],
+})
+export class MarkdownEditorComponent implements ControlValueAccessor, OnInit, OnDestroy {
+  @Input() placeholder = 'Écrivez votre message…';
+  @Input() minHeight = '120px';
+  @Input() disabled = false;
+
+  @ViewChild('textarea', { static: true }) textarea!: ElementRef<HTMLTextAreaElement>;
+
+  value = '';
+  showPreview = false;
+
+  // Autocomplétion des mentions [[mot]]
+  mention: OpenWordMention | null = null;
+  mentionResults: Word[] = [];
+  activeMentionIndex = 0;
+  searchingMention = false;
+
+  private mentionQuery$ = new Subject<string | null>();
+  private destroy$ = new Subject<void>();
+
+  onChange: (value: string) => void = () => {};
+  onTouched: () => void = () => {};
+
+  constructor(
+    private richText: RichTextService,
+    private dictionaryService: DictionaryService,
+  ) {}
+
+  ngOnInit(): void {
+    this.mentionQuery$
+      .pipe(
+        map((query) => query?.trim() || null),
+        distinctUntilChanged(),
+        debounceTime(MENTION_SEARCH_DELAY),
+        switchMap((query) => {
+          if (!query) return of([]);
+          this.searchingMention = true;
+          return this.dictionaryService
+            .searchWords({
+              query,
+              page: 1,
+              limit: MENTION_RESULTS_LIMIT,
+              skipHistory: true,
+            })
+            .pipe(
+              map((results) => results.words),
+              catchError(() => of([])),
+            );
+        }),
+        takeUntil(this.destroy$),
+      )
+      .subscribe((words) => {
+        this.searchingMention = false;
+        this.mentionResults = this.mention ? words : [];
+        this.activeMentionIndex = 0;
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  writeValue(value: string | null): void {
+    this.value = value ?? '';
+  }
+
+  registerOnChange(fn: (value: string) => void): void {
+    this.onChange = fn;
+  }
+
+  registerOnTouched(fn: () => void): void {
+    this.onTouched = fn;
+  }
+
+  setDisabledState(isDisabled: boolean): void {
+    this.disabled = isDisabled;
+  }
+
+  get isMentionOpen(): boolean {
+    return !!this.mention && (this.mentionResults.length > 0 || this.searchingMention);
+  }
+
+  onInput(): void {
+    this._setValue(this.textarea.nativeElement.value);
+    this._updateMention();
+  }
+
+  onKeydown(event: KeyboardEvent): void {
+    if (!this.mention || this.mentionResults.length === 0) return;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        this.activeMentionIndex = (this.activeMentionIndex + 1) % this.mentionResults.length;
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        this.activeMentionIndex =
+          (this.activeMentionIndex - 1 + this.mentionResults.length) % this.mentionResults.length;
+        break;
+      case 'Enter':
+      case 'Tab':
+        event.preventDefault();
+        this.selectMention(this.mentionResults[this.activeMentionIndex]);
+        break;
+      case 'Escape':
+        event.preventDefault();
+        this.closeMention();
+        break;
+    }
+  }
+
+  onBlur(): void {
+    this.onTouched();
+    this.closeMention();
+  }
+
+  /**
+   * Remplace « [[déb » par « [[mot]] » à la position du curseur
+   */
+  selectMention(word: Word): void {
+    const mention = this.mention;
+    if (!mention) return;
+
+    const element = this.textarea.nativeElement;
+    const caret = element.selectionStart ?? this.value.length;
+    const inserted = `[[${word.word}]]`;
+    // Crochets fermants déjà tapés
+    const after = this.value.slice(caret).replace(/^\]\]/, '');
+
+    this._setValue(this.value.slice(0, mention.start) + inserted + after);
+    this.closeMention();
+    this._restoreSelection(mention.start + inserted.length);
+  }
+
+  closeMention(): void {
+    this.mention = null;
+    this.mentionResults = [];
+    this.searchingMention = false;
+    this.mentionQuery$.next(null);
+  }
+
+  /**
+   * Barre d'outils : entoure la sélection, ou insère un modèle à compléter
+   */
+  applyFormat(format: MarkdownFormat): void {
+    if (this.disabled) return;
+
+    switch (format) {
+      case 'bold':
+        this._wrapSelection('**', '**', 'texte en gras');
+        break;
+      case 'italic':
+        this._wrapSelection('*', '*', 'texte en italique');
+        break;
+      case 'link':
+        this._wrapSelection('[', '](https://)', 'texte du lien');
+        break;
+      case 'word':
+        this._wrapSelection('[[', ']]', '');
+        // Après le placement du curseur entre les crochets
+        setTimeout(() => this._updateMention());
+        break;
+      case 'ipa':
+        this._insertBlock('```ipa', 'ˈe.ɡ͡zɑ̃.pl', '```');
+        break;
+      case 'gloss':
+        this._insertBlock(
+          '```gloss',
+          'forme1 forme2\nGLOSE1 GLOSE2\n‘Traduction libre’',
+          '```',
+        );
+        break;
+      case 'audio':
+        this._wrapSelection('!audio[', '](https://)', 'Prononciation');
+        break;
+    }
+  }
+
+  togglePreview(): void {
+    this.showPreview = !this.showPreview;
+  }
+
+  trackByWord(_: number, word: Word): string {
+    return word.id;
+  }
+
+  // ============= MÉTHODES PRIVÉES =============
+
+  private _setValue(value: string): void {
+    this.value = value;
+    const element = this.textarea.nativeElement;
+    // Réécrire une valeur identique ferait sauter le curseur sur certains navigateurs
+    if (element.value !== value) element.value = value;
+    this.onChange(value);
+  }
+
+  private _updateMention(): void {
+    const element = this.textarea.nativeElement;
+    const caret = element.selectionStart ?? this.value.length;
+    this.mention = this.richText.findOpenMention(this.value, caret);
+    if (!this.mention) {
+      this.closeMention();
+      return;
+    }
+    this.mentionQuery$.next(this.mention.query);
+  }
+
+  private _wrapSelection(before: string, after: string, placeholder: string): void {
+    const element = this.textarea.nativeElement;
+    const start = element.selectionStart ?? this.value.length;
+    const end = element.selectionEnd ?? start;
+    const selected = this.value.slice(start, end) || placeholder;
+
+    this._setValue(
+      this.value.slice(0, start) + before + selected + after + this.value.slice(end),
+    );
+    // Le texte entouré reste sélectionné pour être remplacé
+    this._restoreSelection(start + before.length, start + before.length + selected.length);
+  }
+
+  /**
+   * Bloc délimité (```ipa, ```gloss) sur ses propres lignes
+   */
+  private _insertBlock(open: string, placeholder: string, close: string): void {
+    const element = this.textarea.nativeElement;
+    const start = element.selectionStart ?? this.value.length;
+    const end = element.selectionEnd ?? start;
+    const body = this.value.slice(start, end) || placeholder;
+    const prefix = start > 0 && !this.value.slice(0, start).endsWith('\n') ? '\n' : '';
+    const opening = `${prefix}${open}\n`;
+
+    this._setValue(
+      this.value.slice(0, start) +
+        opening +
+        body +
+        `\n${close}\n` +
+        this.value.slice(end),
+    );
+    this._restoreSelection(start + opening.length, start + opening.length + body.length);
+  }
+
+  private _restoreSelection(start: number, end: number = start): void {
+    const element = this.textarea.nativeElement;
+    setTimeout(() => {
+      element.focus();
+      element.setSelectionRange(start, end);
+    });
+  }
+}
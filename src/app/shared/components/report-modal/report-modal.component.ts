@@ -23,6 +23,7 @@ export const REPORT_REASONS: ReportReason[] = [
 })
 export class ReportModalComponent {
   @Input() isOpen = false;
+  @Input() title = 'Signaler ce contenu';
   @Output() confirm = new EventEmitter<string>();
   @Output() cancel = new EventEmitter<void>();
 
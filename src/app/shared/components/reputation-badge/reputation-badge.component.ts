@@ -0,0 +1,20 @@
+import { Component, Input } from '@angular/core';
+import { ReputationService } from '../../../core/services/reputation.service';
+
+/**
+ * Réputation affichée à côté du nom d'un membre
+ */
+@Component({
+  selector: 'app-reputation-badge',
+  standalone: false,
+  templateUrl: './reputation-badge.component.html',
+})
+export class ReputationBadgeComponent {
+  @Input() reputation: number | null | undefined = null;
+
+  constructor(private reputationService: ReputationService) {}
+
+  get label(): string {
+    return this.reputationService.formatReputation(this.reputation ?? 0);
+  }
+}
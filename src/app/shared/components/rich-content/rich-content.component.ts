@@ -0,0 +1,33 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { RichBlock, RichInline } from '../../../core/models/rich-text';
+import { RichTextService } from '../../../core/services/rich-text.service';
+
+/**
+ * Affichage d'un contenu de communauté écrit en Markdown (publication,
+ * commentaire ou aperçu de l'éditeur)
+ */
+@Component({
+  selector: 'app-rich-content',
+  standalone: false,
+  templateUrl: './rich-content.component.html',
+  styleUrls: ['./rich-content.component.scss'],
+})
+export class RichContentComponent implements OnChanges {
+  @Input() content: string | null = '';
+
+  blocks: RichBlock[] = [];
+
+  constructor(private richText: RichTextService) {}
+
+  ngOnChanges(): void {
+    this.blocks = this.richText.parse(this.content);
+  }
+
+  trackByIndex(index: number): number {
+    return index;
+  }
+
+  inlineContext(nodes: RichInline[] | undefined): { $implicit: RichInline[] } {
+    return { $implicit: nodes ?? [] };
+  }
+}
@@ -10,10 +10,16 @@ import { FormBuilder, FormGroup, Validators } from '@angular/forms';
 export class ShareWordModalComponent {
   @Input() isOpen = false;
   @Input() wordId = '';
+  // Partage d'un mot ou d'une liste de mots complète
+  @Input() shareType: 'word' | 'collection' = 'word';
+  @Input() itemName = '';
+  // Lien public copiable (listes publiques)
+  @Input() shareUrl = '';
   @Output() close = new EventEmitter<void>();
   @Output() share = new EventEmitter<string>();
 
   shareForm: FormGroup;
+  linkCopied = false;
 
   constructor(private _fb: FormBuilder) {
     this.shareForm = this._fb.group({
@@ -31,5 +37,19 @@ export class ShareWordModalComponent {
   onClose(): void {
     this.close.emit();
     this.shareForm.reset();
+    this.linkCopied = false;
+  }
+
+  get title(): string {
+    const base = this.shareType === 'collection' ? 'Partager la liste' : 'Partager le mot';
+    return this.itemName ? `${base} « ${this.itemName} »` : base;
+  }
+
+  copyLink(): void {
+    if (!this.shareUrl) return;
+    navigator.clipboard?.writeText(this.shareUrl).then(() => {
+      this.linkCopied = true;
+      setTimeout(() => (this.linkCopied = false), 2000);
+    });
   }
 }
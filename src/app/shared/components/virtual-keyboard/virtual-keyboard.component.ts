@@ -0,0 +1,59 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import {
+  DEFAULT_KEYBOARD_LAYOUT,
+  VirtualKeyboardLayout,
+  VirtualKeyboardMark,
+} from '../../../core/models/keyboard-layout';
+
+/**
+ * Clavier virtuel des lettres spéciales et tons.
+ * Instancié par VirtualKeyboardDirective, qui insère les caractères dans le champ.
+ */
+@Component({
+  selector: 'app-virtual-keyboard',
+  standalone: false,
+  templateUrl: './virtual-keyboard.component.html',
+  styleUrl: './virtual-keyboard.component.scss',
+})
+export class VirtualKeyboardComponent {
+  @Input() layout: VirtualKeyboardLayout = DEFAULT_KEYBOARD_LAYOUT;
+  // Raccourci affiché pour chaque lettre / diacritique (ex. « Alt+E »)
+  @Input() shortcuts: Record<string, string> = {};
+
+  @Output() keyPress = new EventEmitter<string>();
+  @Output() closed = new EventEmitter<void>();
+
+  isShifted = false;
+
+  displayCharacter(character: string): string {
+    return this.isShifted ? character.toUpperCase() : character;
+  }
+
+  // Aperçu d'un diacritique combinant sur un cercle pointillé (◌́)
+  markPreview(mark: VirtualKeyboardMark): string {
+    return `◌${mark.mark}`;
+  }
+
+  pressCharacter(character: string): void {
+    this.keyPress.emit(this.displayCharacter(character));
+    // Maj ne s'applique qu'à la lettre suivante, comme sur mobile
+    this.isShifted = false;
+  }
+
+  pressMark(mark: VirtualKeyboardMark): void {
+    this.keyPress.emit(mark.mark);
+  }
+
+  toggleShift(): void {
+    this.isShifted = !this.isShifted;
+  }
+
+  close(): void {
+    this.closed.emit();
+  }
+
+  getTitle(label: string, key: string): string {
+    const shortcut = this.shortcuts[key];
+    return shortcut ? `${label} (${shortcut})` : label;
+  }
+}
@@ -22,6 +22,8 @@ export class WordCardComponent implements OnInit, OnDestroy {
 
   @Output() favoriteToggle = new EventEmitter<void>();
 
+  showCollectionMenu = false;
+
   private _destroy$ = new Subject<void>();
   arobase = '@';
 
@@ -156,6 +158,15 @@ export class WordCardComponent implements OnInit, OnDestroy {
     });
   }
 
+  get isAuthenticated(): boolean {
+    return this._authService.isAuthenticated();
+  }
+
+  onCollectionClick(event: Event): void {
+    event.stopPropagation(); // Empêche le clic de se propager à la carte
+    this.showCollectionMenu = !this.showCollectionMenu;
+  }
+
   getLanguageName(code: string): string {
     return this.languages[code as keyof typeof this.languages] || code;
   }
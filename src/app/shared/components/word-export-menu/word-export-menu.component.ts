@@ -0,0 +1,43 @@
+import { Component, HostListener, Input } from '@angular/core';
+import { Word } from '../../../core/models/word';
+import {
+  WORD_EXPORT_FORMATS,
+  WordExportFormat,
+} from '../../../core/models/word-transfer';
+import { WordExportService } from '../../../core/services/word-export.service';
+
+/**
+ * Bouton « Exporter » et choix du format (CSV, JSON, Anki)
+ */
+@Component({
+  selector: 'app-word-export-menu',
+  standalone: false,
+  templateUrl: './word-export-menu.component.html',
+})
+export class WordExportMenuComponent {
+  @Input() words: Word[] = [];
+  // Nom du fichier exporté (favoris, nom de la liste…)
+  @Input() name = 'oypunu';
+
+  readonly formats = WORD_EXPORT_FORMATS;
+  isOpen = false;
+
+  constructor(private _exportService: WordExportService) {}
+
+  toggle(): void {
+    this.isOpen = !this.isOpen;
+  }
+
+  export(format: WordExportFormat): void {
+    this._exportService.download(this.words, format, this.name);
+    this.isOpen = false;
+  }
+
+  @HostListener('document:click', ['$event'])
+  onDocumentClick(event: MouseEvent): void {
+    const target = event.target as HTMLElement;
+    if (!target.closest('.word-export-menu-wrapper')) {
+      this.isOpen = false;
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import {
+  Component,
+  EventEmitter,
+  Input,
+  OnChanges,
+  Output,
+  SimpleChanges,
+} from '@angular/core';
+import { Word } from '../../../core/models/word';
+import {
+  WORD_IMPORT_ROW_LIMIT,
+  WordImportMatch,
+  WordImportResult,
+  WordImportStatus,
+} from '../../../core/models/word-transfer';
+import { WordImportService } from '../../../core/services/word-import.service';
+import { ToastService } from '../../../core/services/toast.service';
+import { LocaleService } from '../../../core/services/locale.service';
+
+type ImportStep = 'select' | 'matching' | 'review' | 'importing';
+
+/**
+ * Import de mots depuis un fichier, avec aperçu des correspondances
+ * et résolution des conflits avant l'ajout aux favoris ou à une liste
+ */
+@Component({
+  selector: 'app-word-import-modal',
+  standalone: false,
+  templateUrl: './word-import-modal.component.html',
+})
+export class WordImportModalComponent implements OnChanges {
+  @Input() isOpen = false;
+  // Liste de destination, ou null pour les favoris
+  @Input() collectionId: string | null = null;
+  // Nom affiché de la destination (par défaut : les favoris)
+  @Input() targetName: string | null = null;
+  // Mots déjà présents dans la destination
+  @Input() existingWordIds: string[] = [];
+  @Output() close = new EventEmitter<void>();
+  @Output() imported = new EventEmitter<WordImportResult>();
+
+  readonly rowLimit = WORD_IMPORT_ROW_LIMIT;
+  readonly statuses: WordImportStatus[] = ['matched', 'ambiguous', 'duplicate', 'notFound'];
+
+  step: ImportStep = 'select';
+  fileName = '';
+  errorMessage = '';
+  truncatedCount = 0;
+  matches: WordImportMatch[] = [];
+  statusFilter: WordImportStatus | null = null;
+
+  constructor(
+    private _importService: WordImportService,
+    private _toastService: ToastService,
+    private _localeService: LocaleService
+  ) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['isOpen'] && this.isOpen) {
+      this._reset();
+    }
+  }
+
+  // ─── Étape 1 : fichier ────────────────────────────────────────────────────
+
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    this.fileName = file.name;
+    this.errorMessage = '';
+    this.step = 'matching';
+
+    this._importService.parseFile(file).subscribe({
+      next: (rows) => {
+        if (!rows.length) {
+          this.step = 'select';
+          this.errorMessage = this._localeService.translate('transfer.import.emptyFile');
+          return;
+        }
+
+        this.truncatedCount = Math.max(rows.length - this.rowLimit, 0);
+        const existing = new Set(this.existingWordIds);
+        this._importService
+          .matchRows(rows.slice(0, this.rowLimit), (wordId) => existing.has(wordId))
+          .subscribe((matches) => {
+            this.matches = matches;
+            this.step = 'review';
+          });
+      },
+      error: () => {
+        this.step = 'select';
+        this.errorMessage = this._localeService.translate('transfer.import.unreadableFile');
+      },
+    });
+  }
+
+  get targetLabel(): string {
+    return this.targetName ?? this._localeService.translate('transfer.import.favorites');
+  }
+
+  // ─── Étape 2 : aperçu et conflits ─────────────────────────────────────────
+
+  get visibleMatches(): WordImportMatch[] {
+    return this.statusFilter
+      ? this.matches.filter((match) => match.status === this.statusFilter)
+      : this.matches;
+  }
+
+  get selectedCount(): number {
+    return new Set(this._selectedWordIds()).size;
+  }
+
+  get unresolvedCount(): number {
+    return this.matches.filter(
+      (match) => match.status === 'ambiguous' && !match.selectedWordId
+    ).length;
+  }
+
+  countByStatus(status: WordImportStatus): number {
+    return this.matches.filter((match) => match.status === status).length;
+  }
+
+  toggleFilter(status: WordImportStatus): void {
+    this.statusFilter = this.statusFilter === status ? null : status;
+  }
+
+  selectCandidate(match: WordImportMatch, wordId: string | null): void {
+    match.selectedWordId = wordId || null;
+  }
+
+  // Retient le premier résultat de chaque ligne ambiguë non résolue
+  resolveAmbiguousWithFirst(): void {
+    this.matches
+      .filter((match) => match.status === 'ambiguous' && !match.selectedWordId)
+      .forEach((match) => (match.selectedWordId = match.candidates[0]?.id ?? null));
+  }
+
+  getStatusLabel(status: WordImportStatus): string {
+    return this._localeService.translate(`transfer.import.statuses.${status}`);
+  }
+
+  getTruncatedLabel(): string {
+    return this._localeService.translatePlural('transfer.import.truncated', this.truncatedCount, {
+      limit: this._localeService.formatNumber(this.rowLimit),
+    });
+  }
+
+  getUnresolvedLabel(): string {
+    return this._localeService.translatePlural('transfer.import.unresolved', this.unresolvedCount);
+  }
+
+  getConfirmLabel(): string {
+    return this._localeService.translatePlural('transfer.import.confirm', this.selectedCount);
+  }
+
+  getStatusClasses(status: WordImportStatus): string {
+    const classes: Record<WordImportStatus, string> = {
+      matched: 'bg-green-500/15 text-green-400',
+      ambiguous: 'bg-yellow-500/15 text-yellow-400',
+      duplicate: 'bg-gray-700 text-gray-300',
+      notFound: 'bg-red-500/15 text-red-400',
+    };
+    return classes[status];
+  }
+
+  getCandidateLabel(word: Word): string {
+    const definition = word.meanings?.[0]?.definitions?.[0]?.definition;
+    const label = `${word.word} (${word.language})`;
+    return definition ? `${label} — ${definition}` : label;
+  }
+
+  // ─── Étape 3 : ajout ──────────────────────────────────────────────────────
+
+  confirmImport(): void {
+    const wordIds = this._selectedWordIds();
+    if (!wordIds.length) return;
+
+    this.step = 'importing';
+    this._importService.importWords(wordIds, this.collectionId).subscribe((result) => {
+      if (result.failed > 0) {
+        this._toastService.error(
+          this._localeService.translate('transfer.import.incompleteTitle'),
+          this._localeService.translate('transfer.import.incompleteMessage', {
+            added: result.added,
+            failed: result.failed,
+          })
+        );
+      } else {
+        this._toastService.success(
+          this._localeService.translate('transfer.import.doneTitle'),
+          this._localeService.translatePlural('transfer.import.doneMessage', result.added, {
+            target: this.targetLabel,
+          })
+        );
+      }
+      this.imported.emit(result);
+      this.close.emit();
+    });
+  }
+
+  onClose(): void {
+    if (this.step === 'importing') return;
+    this.close.emit();
+  }
+
+  trackByLine(index: number, match: WordImportMatch): number {
+    return match.row.line;
+  }
+
+  private _selectedWordIds(): string[] {
+    return this.matches
+      .map((match) => match.selectedWordId)
+      .filter((wordId): wordId is string => !!wordId);
+  }
+
+  private _reset(): void {
+    this.step = 'select';
+    this.fileName = '';
+    this.errorMessage = '';
+    this.truncatedCount = 0;
+    this.matches = [];
+    this.statusFilter = null;
+  }
+}
@@ -0,0 +1,232 @@
+import {
+  ComponentRef,
+  Directive,
+  ElementRef,
+  HostListener,
+  Input,
+  OnChanges,
+  OnDestroy,
+  ViewContainerRef,
+} from '@angular/core';
+import { Subscription } from 'rxjs';
+import {
+  Language,
+  LanguagesService,
+} from '../../core/services/languages.service';
+import { SearchFoldingService } from '../../core/services/search-folding.service';
+import {
+  DEFAULT_KEYBOARD_LAYOUT,
+  VirtualKeyboardLayout,
+} from '../../core/models/keyboard-layout';
+import { VirtualKeyboardComponent } from '../components/virtual-keyboard/virtual-keyboard.component';
+
+/**
+ * Attache le clavier virtuel à un champ texte :
+ *   <input [appVirtualKeyboard]="languageCode" #vk="virtualKeyboard">
+ *   <button (click)="vk.toggle()">…</button>
+ *
+ * Raccourcis : Alt+K affiche/masque le clavier, Alt+lettre insère la lettre
+ * spéciale correspondante (répéter pour parcourir ɛ → ẹ…), Alt+1…9 ajoute
+ * un ton à la lettre précédente, Échap ferme le clavier.
+ */
+@Directive({
+  selector: 'input[appVirtualKeyboard], textarea[appVirtualKeyboard]',
+  standalone: false,
+  exportAs: 'virtualKeyboard',
+})
+export class VirtualKeyboardDirective implements OnChanges, OnDestroy {
+  @Input('appVirtualKeyboard') language: Language | string | null | undefined;
+
+  private _layout: VirtualKeyboardLayout = DEFAULT_KEYBOARD_LAYOUT;
+  // Lettres spéciales regroupées par lettre de base (« e » → ɛ, ẹ)
+  private _groups = new Map<string, string[]>();
+  private _shortcuts: Record<string, string> = {};
+  private _keyboardRef: ComponentRef<VirtualKeyboardComponent> | null = null;
+  private _subscriptions = new Subscription();
+  private readonly _reposition = () => this._position();
+
+  constructor(
+    private _elementRef: ElementRef<HTMLInputElement | HTMLTextAreaElement>,
+    private _viewContainerRef: ViewContainerRef,
+    private _languagesService: LanguagesService,
+    private _folding: SearchFoldingService
+  ) {}
+
+  get isOpen(): boolean {
+    return !!this._keyboardRef;
+  }
+
+  ngOnChanges(): void {
+    this._layout = this._languagesService.getKeyboardLayout(this.language);
+    this._buildShortcuts();
+    if (this._keyboardRef) {
+      this._keyboardRef.setInput('layout', this._layout);
+      this._keyboardRef.setInput('shortcuts', this._shortcuts);
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.close();
+  }
+
+  // ─── Ouverture / fermeture ─────────────────────────────────────────────────
+
+  open(): void {
+    if (this._keyboardRef) return;
+
+    const ref = this._viewContainerRef.createComponent(VirtualKeyboardComponent);
+    ref.setInput('layout', this._layout);
+    ref.setInput('shortcuts', this._shortcuts);
+    this._subscriptions.add(
+      ref.instance.keyPress.subscribe((text) => this.insert(text))
+    );
+    this._subscriptions.add(ref.instance.closed.subscribe(() => this.close()));
+
+    // Rattaché au body et positionné en fixed pour échapper aux conteneurs overflow
+    const element = ref.location.nativeElement as HTMLElement;
+    element.style.position = 'fixed';
+    element.style.zIndex = '60';
+    document.body.appendChild(element);
+    this._keyboardRef = ref;
+    this._position();
+
+    window.addEventListener('resize', this._reposition);
+    window.addEventListener('scroll', this._reposition, true);
+  }
+
+  close(): void {
+    if (!this._keyboardRef) return;
+    window.removeEventListener('resize', this._reposition);
+    window.removeEventListener('scroll', this._reposition, true);
+    this._subscriptions.unsubscribe();
+    this._subscriptions = new Subscription();
+    this._keyboardRef.destroy();
+    this._keyboardRef = null;
+  }
+
+  toggle(): void {
+    if (this.isOpen) {
+      this.close();
+    } else {
+      this._elementRef.nativeElement.focus();
+      this.open();
+    }
+  }
+
+  // ─── Saisie ────────────────────────────────────────────────────────────────
+
+  /**
+   * Insère du texte au curseur ; un diacritique combinant est ajouté après
+   * la sélection pour s'appliquer à la lettre qui précède
+   */
+  insert(text: string): void {
+    const input = this._elementRef.nativeElement;
+    const end = input.selectionEnd ?? input.value.length;
+    const start = this._isCombiningMark(text)
+      ? end
+      : (input.selectionStart ?? end);
+
+    input.setRangeText(text, start, end, 'end');
+    this._notifyChange();
+  }
+
+  @HostListener('keydown', ['$event'])
+  onKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Escape' && this.isOpen) {
+      event.preventDefault();
+      this.close();
+      return;
+    }
+    if (!event.altKey || event.ctrlKey || event.metaKey) return;
+
+    const letter = event.code.startsWith('Key')
+      ? event.code.slice(3).toLowerCase()
+      : null;
+    const digit = event.code.startsWith('Digit')
+      ? parseInt(event.code.slice(5), 10)
+      : NaN;
+
+    if (letter === 'k') {
+      event.preventDefault();
+      this.toggle();
+    } else if (letter && this._groups.has(letter)) {
+      event.preventDefault();
+      this._cycleLetter(this._groups.get(letter)!, event.shiftKey);
+    } else if (digit >= 1 && digit <= this._layout.marks.length) {
+      event.preventDefault();
+      this.insert(this._layout.marks[digit - 1].mark);
+    }
+  }
+
+  @HostListener('blur')
+  onBlur(): void {
+    // Les touches du clavier virtuel empêchent la perte de focus (mousedown)
+    this.close();
+  }
+
+  // ─── Méthodes privées ─────────────────────────────────────────────────────
+
+  /**
+   * Insère la première lettre du groupe, ou remplace la lettre précédente
+   * par la suivante du groupe si elle en fait déjà partie
+   */
+  private _cycleLetter(group: string[], upperCase: boolean): void {
+    const input = this._elementRef.nativeElement;
+    const start = input.selectionStart ?? input.value.length;
+    const end = input.selectionEnd ?? start;
+    const previous = start === end && start > 0 ? input.value[start - 1] : '';
+    const index = group.indexOf(previous.toLowerCase());
+
+    if (index === -1) {
+      this.insert(upperCase ? group[0].toUpperCase() : group[0]);
+      return;
+    }
+
+    const next = group[(index + 1) % group.length];
+    const isUpper = previous !== previous.toLowerCase();
+    input.setRangeText(isUpper ? next.toUpperCase() : next, start - 1, start, 'end');
+    this._notifyChange();
+  }
+
+  private _buildShortcuts(): void {
+    this._groups.clear();
+    this._shortcuts = {};
+
+    this._layout.characters.forEach((character) => {
+      const base = this._folding.fold(character).charAt(0);
+      // Alt+K est réservé à l'affichage du clavier
+      if (!/^[a-z]$/.test(base) || base === 'k') return;
+      const group = this._groups.get(base) ?? [];
+      group.push(character);
+      this._groups.set(base, group);
+      this._shortcuts[character] =
+        `Alt+${base.toUpperCase()}` + (group.length > 1 ? ` ×${group.length}` : '');
+    });
+
+    this._layout.marks.slice(0, 9).forEach((mark, index) => {
+      this._shortcuts[mark.mark] = `Alt+${index + 1}`;
+    });
+  }
+
+  private _position(): void {
+    if (!this._keyboardRef) return;
+    const rect = this._elementRef.nativeElement.getBoundingClientRect();
+    const element = this._keyboardRef.location.nativeElement as HTMLElement;
+    const width = Math.min(Math.max(rect.width, 280), window.innerWidth - 16);
+
+    element.style.width = `${width}px`;
+    element.style.left = `${Math.max(8, Math.min(rect.left, window.innerWidth - width - 8))}px`;
+    element.style.top = `${rect.bottom + 4}px`;
+  }
+
+  // Prévient les formulaires (DefaultValueAccessor écoute l'événement input)
+  private _notifyChange(): void {
+    const input = this._elementRef.nativeElement;
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+    input.focus();
+  }
+
+  private _isCombiningMark(text: string): boolean {
+    return /^\p{M}+$/u.test(text);
+  }
+}
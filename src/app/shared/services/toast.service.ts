@@ -1,6 +1,7 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
 import { IconName } from '../components/icon/icon-registry';
+import { LocaleService } from '../../core/services/locale.service';
 
 export interface Toast {
   id: string;
@@ -23,7 +24,7 @@ export class ToastService {
   private defaultDuration = 5000;
   private maxToasts = 5;
 
-  constructor() {}
+  constructor(private localeService: LocaleService) {}
 
   /**
    * Affiche un toast de succès
@@ -126,6 +127,13 @@ export class ToastService {
     this.toastsSubject.next([]);
   }
 
+  /**
+   * Raccourci de traduction pour les messages prédéfinis
+   */
+  private t(key: string, params?: Record<string, string>): string {
+    return this.localeService.translate(key, params);
+  }
+
   /**
    * Génère un ID unique pour chaque toast
    */
@@ -139,42 +147,45 @@ export class ToastService {
   
   // Opérations CRUD
   itemCreated(itemName: string): void {
-    this.success('Créé avec succès', `${itemName} a été créé`);
+    this.success(this.t('toast.createdTitle'), this.t('toast.createdMessage', { item: itemName }));
   }
 
   itemUpdated(itemName: string): void {
-    this.success('Mis à jour', `${itemName} a été modifié`);
+    this.success(this.t('toast.updatedTitle'), this.t('toast.updatedMessage', { item: itemName }));
   }
 
   itemDeleted(itemName: string): void {
-    this.success('Supprimé', `${itemName} a été supprimé`);
+    this.success(this.t('toast.deletedTitle'), this.t('toast.deletedMessage', { item: itemName }));
   }
 
   // Erreurs réseau
   networkError(): void {
-    this.error('Erreur de connexion', 'Vérifiez votre connexion internet');
+    this.error(this.t('toast.networkErrorTitle'), this.t('toast.networkErrorMessage'));
   }
 
   serverError(): void {
-    this.error('Erreur serveur', 'Une erreur est survenue, veuillez réessayer');
+    this.error(this.t('toast.serverErrorTitle'), this.t('toast.serverErrorMessage'));
   }
 
   // Messages d'authentification
   loginSuccess(username?: string): void {
-    this.success('Connexion réussie', username ? `Bienvenue ${username} !` : 'Vous êtes connecté');
+    this.success(
+      this.t('toast.loginSuccessTitle'),
+      username ? this.t('toast.loginSuccessWelcome', { username }) : this.t('toast.loginSuccessMessage')
+    );
   }
 
   logoutSuccess(): void {
-    this.info('Déconnexion', 'À bientôt !');
+    this.info(this.t('toast.logoutTitle'), this.t('toast.logoutMessage'));
   }
 
   authRequired(): void {
-    this.warning('Connexion requise', 'Vous devez être connecté pour accéder à cette page');
+    this.warning(this.t('toast.authRequiredTitle'), this.t('toast.authRequiredMessage'));
   }
 
   // Messages de validation
   formValidationError(): void {
-    this.error('Formulaire invalide', 'Veuillez corriger les erreurs dans le formulaire');
+    this.error(this.t('toast.formInvalidTitle'), this.t('toast.formInvalidMessage'));
   }
 
   // Messages de chargement avec Promise
@@ -9,8 +9,14 @@ import { MainNavComponent } from './components/main-nav/main-nav.component';
 import { ProfileComponent } from './components/profile/profile.component';
 import { CustomDropdownComponent } from './components/custom-dropdown/custom-dropdown.component';
 import { CapitalizePipe } from '../pipes/capitalize.pipe';
+import { TranslatePipe } from '../pipes/translate.pipe';
+import { LocaleDatePipe } from '../pipes/locale-date.pipe';
+import { LocaleNumberPipe } from '../pipes/locale-number.pipe';
 import { WordCardComponent } from './components/word-card/word-card.component';
 import { ShareWordModalComponent } from './components/share-word-modal/share-word-modal.component';
+import { AddToCollectionComponent } from './components/add-to-collection/add-to-collection.component';
+import { WordExportMenuComponent } from './components/word-export-menu/word-export-menu.component';
+import { WordImportModalComponent } from './components/word-import-modal/word-import-modal.component';
 import { AudioRecorderComponent } from './components/audio-recorder/audio-recorder.component';
 import { TranslationWidgetComponent } from './components/translation-widget/translation-widget.component';
 import { WordTranslationsComponent } from './components/word-translations/word-translations.component';
@@ -21,8 +27,16 @@ import { SignupPromptModalComponent } from './components/signup-prompt-modal/sig
 import { ToastContainerComponent } from './components/toast-container/toast-container.component';
 import { LanguageAutocompleteComponent } from './components/language-autocomplete/language-autocomplete.component';
 import { ConfirmationModalComponent } from './components/confirmation-modal/confirmation-modal.component';
+import { ReportModalComponent } from './components/report-modal/report-modal.component';
+import { RichContentComponent } from './components/rich-content/rich-content.component';
+import { MarkdownEditorComponent } from './components/markdown-editor/markdown-editor.component';
+import { ReputationBadgeComponent } from './components/reputation-badge/reputation-badge.component';
 import { NotificationBellComponent } from './components/header/notification-bell/notification-bell.component';
+import { OutboxIndicatorComponent } from './components/header/outbox-indicator/outbox-indicator.component';
+import { LanguageSwitcherComponent } from './components/header/language-switcher/language-switcher.component';
 import { IconComponent } from './components/icon/icon.component';
+import { VirtualKeyboardComponent } from './components/virtual-keyboard/virtual-keyboard.component';
+import { VirtualKeyboardDirective } from './directives/virtual-keyboard.directive';
 // import { IntelligentRecommendationsComponent } from './components/intelligent-recommendations/intelligent-recommendations.component';
 
 @NgModule({
@@ -36,7 +50,13 @@ import { IconComponent } from './components/icon/icon.component';
     CustomDropdownComponent,
     WordCardComponent,
     CapitalizePipe,
+    TranslatePipe,
+    LocaleDatePipe,
+    LocaleNumberPipe,
     ShareWordModalComponent,
+    AddToCollectionComponent,
+    WordExportMenuComponent,
+    WordImportModalComponent,
     AudioRecorderComponent,
     TranslationWidgetComponent,
     WordTranslationsComponent,
@@ -47,7 +67,15 @@ import { IconComponent } from './components/icon/icon.component';
     ToastContainerComponent,
     LanguageAutocompleteComponent,
     ConfirmationModalComponent,
+    ReportModalComponent,
+    RichContentComponent,
+    MarkdownEditorComponent,
+    ReputationBadgeComponent,
     NotificationBellComponent,
+    OutboxIndicatorComponent,
+    LanguageSwitcherComponent,
+    VirtualKeyboardComponent,
+    VirtualKeyboardDirective,
     // IntelligentRecommendationsComponent,
   ],
   imports: [CommonModule, FormsModule, ReactiveFormsModule, RouterModule],
@@ -62,7 +90,13 @@ import { IconComponent } from './components/icon/icon.component';
     CustomDropdownComponent,
     WordCardComponent,
     CapitalizePipe,
+    TranslatePipe,
+    LocaleDatePipe,
+    LocaleNumberPipe,
     ShareWordModalComponent,
+    AddToCollectionComponent,
+    WordExportMenuComponent,
+    WordImportModalComponent,
     TranslationWidgetComponent,
     WordTranslationsComponent,
     RevisionHistoryComponent,
@@ -72,7 +106,15 @@ import { IconComponent } from './components/icon/icon.component';
     ToastContainerComponent,
     LanguageAutocompleteComponent,
     ConfirmationModalComponent,
+    ReportModalComponent,
+    RichContentComponent,
+    MarkdownEditorComponent,
+    ReputationBadgeComponent,
     NotificationBellComponent,
+    OutboxIndicatorComponent,
+    LanguageSwitcherComponent,
+    VirtualKeyboardComponent,
+    VirtualKeyboardDirective,
     // IntelligentRecommendationsComponent,
   ],
 })